@@ -1,11 +1,18 @@
 import GlobalChatButton from '@/components/chat/GlobalChatButton';
 import GlobalPeraChat from '@/components/chat/GlobalPeraChat';
 import { ChatProvider } from '@/contexts/ChatContext';
+import { useOfflineSync } from '@/hooks/useOfflineSync';
+import { useVoiceQueue } from '@/hooks/useVoiceQueue';
 import { Tabs } from 'expo-router';
 import React from 'react';
 import TabBarIcon from '../../src/components/navigation/TabBarIcon';
 
 export default function TabLayout() {
+  // Replays changes made while offline once the server is reachable
+  useOfflineSync();
+  // Transcribes and carries out voice commands recorded while offline
+  useVoiceQueue();
+
   return (
     <>
       <Tabs
@@ -39,6 +39,19 @@ export default function RootLayout() {
               headerShown: false,
             }}
           />
+          <Stack.Screen
+            name="event/[id]/index"
+            options={{
+              headerShown: false,
+            }}
+          />
+          <Stack.Screen
+            name="event/[id]/edit"
+            options={{
+              headerShown: false,
+              presentation: 'modal',
+            }}
+          />
         </Stack>
       </AuthProvider>
     </Provider>
@@ -0,0 +1,7 @@
+import { useLocalSearchParams } from 'expo-router';
+import { EditEventScreen } from '../../../src/screens/main/EditEventScreen';
+
+export default function EditEvent() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  return <EditEventScreen eventId={id} />;
+}
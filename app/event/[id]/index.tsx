@@ -0,0 +1,7 @@
+import { useLocalSearchParams } from 'expo-router';
+import { EventDetailsScreen } from '../../../src/screens/main/EventDetailsScreen';
+
+export default function EventDetails() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  return <EventDetailsScreen eventId={id} />;
+}
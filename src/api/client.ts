@@ -25,6 +25,8 @@ export interface AuthTokens {
   refreshToken: string;
 }
 
+export type SessionExpiredListener = () => void;
+
 // Token storage keys
 const TOKEN_KEYS = {
   ACCESS_TOKEN: "access_token",
@@ -38,6 +40,7 @@ class ApiClient {
     resolve: (value?: any) => void;
     reject: (error?: any) => void;
   }[] = [];
+  private sessionExpiredListeners = new Set<SessionExpiredListener>();
 
   constructor() {
     this.client = axios.create({
@@ -82,59 +85,75 @@ class ApiClient {
 
         if (
           error.response?.status === HTTP_STATUS.UNAUTHORIZED &&
-          !originalRequest._retry
+          originalRequest &&
+          !originalRequest._retry &&
+          originalRequest.url !== API_ENDPOINTS.REFRESH_TOKEN
         ) {
-          // if (this.isRefreshing) {
-          //   console.log("Refreshing token");
-          //   // return new Promise((resolve, reject) => {
-          //   //   this.failedQueue.push({ resolve, reject });
-          //   // })
-          //   //   .then((token) => {
-          //   //     console.log("Token => ", token);
-          //   //     originalRequest.headers.Authorization = `Bearer ${token}`;
-          //   //     return this.client(originalRequest);
-          //   //   })
-          //   //   .catch((err) => {
-          //   //     console.log("Erroro => ", err);
-          //   //     return Promise.reject(err);
-          //   //   });
-          //   const refreshToken = await this.getRefreshToken();
-          //   if (!refreshToken) {
-          //     throw new Error("No refresh token available");
-          //   }
-          //   const getnewTokens = await this.refreshAuthToken(refreshToken);
-          //   console.log("New tokens => ", getnewTokens);
-          //   return getnewTokens;
-          // }
-
-          // originalRequest._retry = true;
-          // this.isRefreshing = true;
+          originalRequest._retry = true;
+
+          if (this.isRefreshing) {
+            // Wait for the refresh already in flight, then replay with its token
+            return new Promise((resolve, reject) => {
+              this.failedQueue.push({ resolve, reject });
+            }).then((token) => {
+              originalRequest.headers.Authorization = `Bearer ${token}`;
+              return this.client(originalRequest);
+            });
+          }
+
+          this.isRefreshing = true;
+          let hadSession = false;
 
           try {
+            // Another refresh may have finished since this request was sent
+            const currentToken = await this.getAccessToken();
+            if (
+              currentToken &&
+              originalRequest.headers?.Authorization !== `Bearer ${currentToken}`
+            ) {
+              this.processQueue(null, currentToken);
+              return this.client(originalRequest);
+            }
+
             const refreshToken = await this.getRefreshToken();
-            console.log("Refresho token => ", refreshToken);
             if (!refreshToken) {
               throw new Error("No refresh token available");
             }
+            hadSession = true;
 
             const response = await this.refreshAuthToken(refreshToken);
-            const { accessToken } = response.data.data;
+            const tokens = response.data.data;
 
-            console.log("New Access token => ", accessToken);
-
-            await this.setAccessToken(accessToken);
-            this.client.defaults.headers.common.Authorization = `Bearer ${accessToken}`;
+            await this.setAccessToken(tokens.accessToken);
+            if (tokens.refreshToken) {
+              await this.setRefreshToken(tokens.refreshToken);
+            }
+            this.client.defaults.headers.common.Authorization = `Bearer ${tokens.accessToken}`;
 
+            this.processQueue(null, tokens.accessToken);
+            originalRequest.headers.Authorization = `Bearer ${tokens.accessToken}`;
             return this.client(originalRequest);
           } catch (refreshError) {
-            // Clear tokens and redirect to login
-            // await this.clearTokens();
-            // this.failedQueue.forEach(({ reject }) => {
-            //   reject(refreshError);
-            // });
-            // this.failedQueue = [];
-
-            throw refreshError;
+            console.error("Token refresh failed:", refreshError);
+
+            // Being offline or a server error doesn't mean the refresh token is bad,
+            // so keep it and let the next request try again
+            if (hadSession && !this.isRefreshRejected(refreshError)) {
+              const refreshFailure = this.handleError(refreshError as AxiosError);
+              this.processQueue(refreshFailure);
+              return Promise.reject(refreshFailure);
+            }
+
+            const sessionError = this.handleError(error);
+
+            this.processQueue(sessionError);
+            await this.clearTokens();
+            // Requests made while signed out aren't an expired session
+            if (hadSession) {
+              this.emitSessionExpired();
+            }
+
+            return Promise.reject(sessionError);
           } finally {
             this.isRefreshing = false;
           }
@@ -147,7 +166,66 @@ class ApiClient {
     );
   }
 
+  // Settle requests that were waiting on a token refresh
+  private processQueue(error: ApiError | null, token: string | null = null) {
+    this.failedQueue.forEach(({ resolve, reject }) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(token);
+      }
+    });
+    this.failedQueue = [];
+  }
+
+  // Session events
+  public onSessionExpired(listener: SessionExpiredListener): () => void {
+    this.sessionExpiredListeners.add(listener);
+    return () => {
+      this.sessionExpiredListeners.delete(listener);
+    };
+  }
+
+  private emitSessionExpired() {
+    this.sessionExpiredListeners.forEach((listener) => {
+      try {
+        listener();
+      } catch (error) {
+        console.error("Session expired listener failed:", error);
+      }
+    });
+  }
+
+  private isApiError(error: any): error is ApiError {
+    return (
+      !!error &&
+      !error.isAxiosError &&
+      typeof error.message === "string" &&
+      typeof error.status === "number"
+    );
+  }
+
+  // Whether the refresh endpoint turned the refresh token down, rather than failing to answer
+  private isRefreshRejected(error: unknown): boolean {
+    if (!this.isApiError(error)) {
+      return false;
+    }
+
+    return (
+      error.status === HTTP_STATUS.UNAUTHORIZED ||
+      error.status === HTTP_STATUS.FORBIDDEN ||
+      (error.status >= 400 &&
+        error.status < 500 &&
+        /invalid[_ ]grant/i.test(`${error.code || ""} ${error.message}`))
+    );
+  }
+
   private handleError(error: AxiosError): ApiError {
+    // Errors from the response interceptor are already normalized
+    if (this.isApiError(error)) {
+      return error;
+    }
+
     if (error.response) {
       // Server responded with error status
       const status = error.response.status;
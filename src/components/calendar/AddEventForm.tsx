@@ -8,28 +8,50 @@ import {
   ScrollView,
   StyleSheet,
   Text,
+  TouchableOpacity,
   View,
 } from 'react-native';
+import { useEventConflicts } from '../../hooks/useEventConflicts';
 import { eventsApi } from '../../services/api/eventsApi';
 import { voiceCommandProcessor } from '../../services/voiceCommandProcessor';
 import { CreateEventData } from '../../store/slices/calendarSlice';
-import { addHours, formatDate, formatTime } from '../../utils/dateTime';
+import { RecurrenceFrequency } from '../../types';
+import { addHours, formatDate, formatTime, formatTimeRange, isSameDay } from '../../utils/dateTime';
+import { EventTimeRange } from '../../utils/eventConflicts';
+import { buildRRule, describeRRule, parseRRule } from '../../utils/rrule';
 import { Button } from '../ui/Button';
 import { Input } from '../ui/Input';
 import { VoiceInput } from '../voice/VoiceInput';
+import { ConflictWarning } from './ConflictWarning';
 
 interface AddEventFormProps {
   onSubmit: (eventData: CreateEventData) => void;
   onCancel: () => void;
   loading?: boolean;
   initialDate?: Date;
+  initialValues?: Partial<CreateEventData>;
+  title?: string;
+  submitTitle?: string;
+  eventId?: string; // Event being edited, so it doesn't conflict with itself
 }
 
+const REPEAT_OPTIONS: { label: string; value: RecurrenceFrequency | 'none' }[] = [
+  { label: 'Never', value: 'none' },
+  { label: 'Daily', value: 'daily' },
+  { label: 'Weekly', value: 'weekly' },
+  { label: 'Monthly', value: 'monthly' },
+  { label: 'Yearly', value: 'yearly' },
+];
+
 export const AddEventForm: React.FC<AddEventFormProps> = ({
   onSubmit,
   onCancel,
   loading = false,
   initialDate = new Date(),
+  initialValues,
+  title = 'Add New Event',
+  submitTitle = 'Create Event',
+  eventId,
 }) => {
   const [formData, setFormData] = useState<CreateEventData>({
     title: '',
@@ -40,6 +62,7 @@ export const AddEventForm: React.FC<AddEventFormProps> = ({
     isAllDay: false,
     color: '#007AFF',
     userId: '',
+    ...initialValues,
   });
 
   const [errors, setErrors] = useState<{
@@ -52,6 +75,8 @@ export const AddEventForm: React.FC<AddEventFormProps> = ({
   const [showEndPicker, setShowEndPicker] = useState(false);
   const [showDatePicker, setShowDatePicker] = useState(false);
 
+  const { conflicts, suggestions } = useEventConflicts(formData, eventId);
+
   const validateForm = (): boolean => {
     const newErrors: { title?: string; startTime?: string; endTime?: string } = {};
 
@@ -83,6 +108,40 @@ export const AddEventForm: React.FC<AddEventFormProps> = ({
     }
   };
 
+  const repeatFrequency = formData.recurrenceRule
+    ? parseRRule(formData.recurrenceRule)?.frequency || 'none'
+    : 'none';
+
+  const handleRepeatChange = (frequency: RecurrenceFrequency | 'none') => {
+    if (frequency === 'none') {
+      setFormData(({ recurrenceRule, ...rest }) => rest);
+      return;
+    }
+
+    // Weekly events repeat on the weekday they start on
+    const recurrenceRule = buildRRule({
+      frequency,
+      interval: 1,
+      ...(frequency === 'weekly' && {
+        byDay: [{ weekday: new Date(formData.startTime).getDay() }],
+      }),
+    });
+    setFormData(prev => ({ ...prev, recurrenceRule }));
+  };
+
+  const handleSuggestionPress = (slot: EventTimeRange) => {
+    setFormData(prev => ({ ...prev, startTime: slot.startTime, endTime: slot.endTime }));
+    setErrors(({ startTime, endTime, ...rest }) => rest);
+  };
+
+  const formatSuggestion = (slot: EventTimeRange): string => {
+    const start = new Date(slot.startTime);
+    const range = formatTimeRange(start, new Date(slot.endTime));
+    return isSameDay(start, new Date(formData.startTime))
+      ? range
+      : `${formatDate(start, 'short')}, ${range}`;
+  };
+
   const handleVoiceTranscription = (text: string) => {
     // Use the voice command processor to extract structured data
     const commandData = voiceCommandProcessor.processVoiceInput(text);
@@ -102,50 +161,10 @@ export const AddEventForm: React.FC<AddEventFormProps> = ({
       handleInputChange('location', commandData.location);
     }
 
-    if (commandData.time) {
-      // Parse time and update start time
-      const timeMatch = commandData.time.match(/(\d{1,2}):(\d{2})\s*(AM|PM)/i);
-      if (timeMatch) {
-        const hours = parseInt(timeMatch[1]);
-        const minutes = parseInt(timeMatch[2]);
-        const isPM = timeMatch[3].toUpperCase() === 'PM';
-
-        const newTime = new Date(formData.startTime);
-        newTime.setHours(isPM && hours !== 12 ? hours + 12 : hours === 12 && !isPM ? 0 : hours, minutes);
-
-        handleInputChange('startTime', newTime.toISOString());
-
-        // Set end time to 1 hour later
-        const endTime = new Date(newTime);
-        endTime.setHours(endTime.getHours() + 1);
-        handleInputChange('endTime', endTime.toISOString());
-      }
-    }
-
-    if (commandData.date) {
-      const newDate = new Date(formData.startTime);
-
-      if (commandData.date === 'tomorrow') {
-        newDate.setDate(newDate.getDate() + 1);
-      } else if (commandData.date === 'today') {
-        // Keep current date
-      } else {
-        // Try to parse specific date
-        const dateMatch = commandData.date.match(/(\d{1,2})\/(\d{1,2})\/(\d{4})/);
-        if (dateMatch) {
-          const month = parseInt(dateMatch[1]) - 1; // Month is 0-indexed
-          const day = parseInt(dateMatch[2]);
-          const year = parseInt(dateMatch[3]);
-          newDate.setFullYear(year, month, day);
-        }
-      }
-
-      handleInputChange('startTime', newDate.toISOString());
-      handleInputChange('endTime', new Date(newDate.getTime() + 60 * 60 * 1000).toISOString());
-    }
-
-    if (commandData.isAllDay) {
-      handleInputChange('isAllDay', true);
+    if (commandData.startTime && commandData.endTime) {
+      handleInputChange('startTime', commandData.startTime);
+      handleInputChange('endTime', commandData.endTime);
+      handleInputChange('isAllDay', !!commandData.isAllDay);
     }
 
     // Show feedback to user
@@ -208,22 +227,32 @@ export const AddEventForm: React.FC<AddEventFormProps> = ({
       return;
     }
 
-    // Check for conflicts
+    const confirmConflict = () => {
+      Alert.alert(
+        'Scheduling Conflict',
+        'This time conflicts with existing events. Do you want to continue?',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Continue', onPress: () => onSubmit(formData) },
+        ]
+      );
+    };
+
+    // Loaded events are checked offline, the server knows about the rest
+    if (conflicts.length > 0) {
+      confirmConflict();
+      return;
+    }
+
     try {
       const conflictResult = await eventsApi.checkConflicts({
         startTime: formData.startTime,
         endTime: formData.endTime,
+        ...(eventId && { excludeEventId: eventId }),
       });
 
       if (conflictResult.success && conflictResult.data && conflictResult.data.length > 0) {
-        Alert.alert(
-          'Scheduling Conflict',
-          'This time conflicts with existing events. Do you want to continue?',
-          [
-            { text: 'Cancel', style: 'cancel' },
-            { text: 'Continue', onPress: () => onSubmit(formData) },
-          ]
-        );
+        confirmConflict();
         return;
       }
     } catch (error) {
@@ -324,7 +353,7 @@ export const AddEventForm: React.FC<AddEventFormProps> = ({
         keyboardShouldPersistTaps="handled"
       >
         <View style={styles.header}>
-          <Text style={styles.title}>Add New Event</Text>
+          <Text style={styles.title}>{title}</Text>
         </View>
 
         <View style={styles.form}>
@@ -425,6 +454,48 @@ export const AddEventForm: React.FC<AddEventFormProps> = ({
                 size="small"
               />
             </View>
+
+            {conflicts.length > 0 && (
+              <View style={styles.conflictSection}>
+                <ConflictWarning conflicts={conflicts} />
+                {suggestions.length > 0 && (
+                  <>
+                    <Text style={styles.suggestionsLabel}>Free at the same length</Text>
+                    <View style={styles.suggestions}>
+                      {suggestions.map(slot => (
+                        <TouchableOpacity
+                          key={slot.startTime}
+                          style={styles.suggestion}
+                          onPress={() => handleSuggestionPress(slot)}
+                        >
+                          <Text style={styles.suggestionText}>{formatSuggestion(slot)}</Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </>
+                )}
+              </View>
+            )}
+          </View>
+
+          <View style={styles.repeatSection}>
+            <Text style={styles.sectionTitle}>Repeat</Text>
+            <View style={styles.repeatOptions}>
+              {REPEAT_OPTIONS.map(option => (
+                <Button
+                  key={option.value}
+                  title={option.label}
+                  onPress={() => handleRepeatChange(option.value)}
+                  variant={repeatFrequency === option.value ? 'primary' : 'outline'}
+                  size="small"
+                />
+              ))}
+            </View>
+            {formData.recurrenceRule && (
+              <Text style={styles.repeatSummary}>
+                {describeRRule(formData.recurrenceRule)}
+              </Text>
+            )}
           </View>
 
           <View style={styles.actions}>
@@ -435,7 +506,7 @@ export const AddEventForm: React.FC<AddEventFormProps> = ({
               style={styles.cancelButton}
             />
             <Button
-              title="Create Event"
+              title={submitTitle}
               onPress={handleSubmit}
               loading={loading}
               style={styles.submitButton}
@@ -526,6 +597,48 @@ const styles = StyleSheet.create({
   allDayRow: {
     marginTop: 8,
   },
+  conflictSection: {
+    marginTop: 16,
+    marginHorizontal: -16,
+  },
+  suggestionsLabel: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    marginTop: 8,
+    marginBottom: 8,
+    marginHorizontal: 16,
+  },
+  suggestions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginHorizontal: 16,
+  },
+  suggestion: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#6366F1',
+    backgroundColor: 'rgba(99, 102, 241, 0.2)',
+  },
+  suggestionText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  repeatSection: {
+    marginBottom: 8,
+  },
+  repeatOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  repeatSummary: {
+    fontSize: 12,
+    color: '#6366F1',
+    marginTop: 8,
+  },
   actions: {
     flexDirection: 'row',
     justifyContent: 'space-between',
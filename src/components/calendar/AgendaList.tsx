@@ -0,0 +1,142 @@
+import React, { useMemo } from 'react';
+import {
+  ActivityIndicator,
+  RefreshControl,
+  SectionList,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { CalendarEvent } from '../../store/slices/calendarSlice';
+import { formatDate, formatDateKey, isToday, isTomorrow, parseDateKey } from '../../utils/dateTime';
+import { EventCard } from './EventCard';
+
+interface AgendaListProps {
+  events: CalendarEvent[]; // With recurring events already expanded
+  startDate: string; // YYYY-MM-DD the agenda starts from
+  onEventPress?: (event: CalendarEvent) => void;
+  onEndReached?: () => void;
+  onRefresh?: () => void;
+  refreshing?: boolean;
+  loadingMore?: boolean;
+}
+
+interface AgendaSection {
+  dateKey: string;
+  title: string;
+  data: CalendarEvent[];
+}
+
+const getSectionTitle = (date: Date): string => {
+  if (isToday(date)) return 'Today';
+  if (isTomorrow(date)) return 'Tomorrow';
+  return formatDate(date, 'long');
+};
+
+export const AgendaList: React.FC<AgendaListProps> = ({
+  events,
+  startDate,
+  onEventPress,
+  onEndReached,
+  onRefresh,
+  refreshing = false,
+  loadingMore = false,
+}) => {
+  const sections = useMemo(() => {
+    const start = parseDateKey(startDate);
+    const grouped: { [dateKey: string]: CalendarEvent[] } = {};
+
+    events.forEach(event => {
+      const eventStart = new Date(event.startTime);
+      // Events already under way when the agenda starts are listed on its first day
+      const dateKey = formatDateKey(eventStart < start ? start : eventStart);
+      if (!grouped[dateKey]) {
+        grouped[dateKey] = [];
+      }
+      grouped[dateKey].push(event);
+    });
+
+    return Object.keys(grouped)
+      .sort()
+      .map((dateKey): AgendaSection => ({
+        dateKey,
+        title: getSectionTitle(parseDateKey(dateKey)),
+        data: grouped[dateKey]!.sort(
+          (a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
+        ),
+      }));
+  }, [events, startDate]);
+
+  return (
+    <SectionList
+      sections={sections}
+      keyExtractor={item => item.id}
+      renderItem={({ item }) => <EventCard event={item} onPress={onEventPress} />}
+      renderSectionHeader={({ section }) => (
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionHeaderText}>{section.title}</Text>
+        </View>
+      )}
+      stickySectionHeadersEnabled
+      onEndReached={onEndReached}
+      onEndReachedThreshold={0.5}
+      ListEmptyComponent={
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyIcon}>📅</Text>
+          <Text style={styles.emptyText}>No upcoming events</Text>
+        </View>
+      }
+      ListFooterComponent={
+        loadingMore ? <ActivityIndicator style={styles.footer} color="#6366F1" /> : null
+      }
+      refreshControl={
+        <RefreshControl
+          refreshing={refreshing && !loadingMore}
+          onRefresh={onRefresh}
+          colors={['#6366F1']}
+          tintColor="#6366F1"
+        />
+      }
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+      showsVerticalScrollIndicator={false}
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    paddingBottom: 16,
+  },
+  sectionHeader: {
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+    backgroundColor: '#151515',
+  },
+  sectionHeaderText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#9CA3AF',
+    textAlign: 'center',
+  },
+  footer: {
+    paddingVertical: 16,
+  },
+});
@@ -0,0 +1,546 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  PanResponder,
+  PanResponderGestureState,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { CalendarEvent } from '../../store/slices/calendarSlice';
+import { addDays, formatDateKey, formatTimeRange, isToday, startOfDay } from '../../utils/dateTime';
+import { EventTimeRange } from '../../utils/eventConflicts';
+import {
+  getAllDayEvents,
+  getMovedRange,
+  getResizedRange,
+  layoutDayEvents,
+  MIN_TIMELINE_MINUTES,
+  MINUTES_PER_DAY,
+  TimelineItem,
+} from '../../utils/timelineLayout';
+
+interface CalendarTimelineProps {
+  days: Date[]; // One day for the day view, seven for the week view
+  events: CalendarEvent[]; // With recurring events already expanded
+  selectedDate: string;
+  onEventPress: (event: CalendarEvent) => void;
+  onDayPress?: (dateKey: string) => void;
+  onEventChange?: (event: CalendarEvent, range: EventTimeRange) => void; // Enables dragging
+}
+
+export const HOUR_HEIGHT = 56;
+const GUTTER_WIDTH = 48;
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+// Where the timeline opens when today isn't shown
+const DEFAULT_SCROLL_HOUR = 8;
+
+// Holding an event this long picks it up to move it
+const LONG_PRESS_MS = 400;
+
+// Movement still counted as a tap
+const TAP_SLOP = 8;
+
+const toPercent = (fraction: number): `${number}%` => `${fraction * 100}%`;
+
+const formatHourLabel = (hour: number): string => {
+  if (hour === 12) return '12 PM';
+  return hour < 12 ? `${hour} AM` : `${hour - 12} PM`;
+};
+
+const getMinutesIntoDay = (date: Date): number => date.getHours() * 60 + date.getMinutes();
+
+const toMinutes = (distance: number): number => (distance / HOUR_HEIGHT) * 60;
+
+type DragMode = 'move' | 'resize';
+
+interface DragState {
+  mode: DragMode;
+  dx: number;
+  dy: number;
+}
+
+interface TimelineEventBlockProps {
+  item: TimelineItem;
+  day: Date;
+  dayIndex: number;
+  dayCount: number;
+  columnWidth: number;
+  compact: boolean;
+  onPress: (event: CalendarEvent) => void;
+  onChange?: ((event: CalendarEvent, range: EventTimeRange) => void) | undefined;
+  onDragChange: (dragging: boolean) => void;
+}
+
+// An event on the timeline. Long-press and drag moves it to another time or
+// day; dragging its bottom edge changes when it ends.
+const TimelineEventBlock: React.FC<TimelineEventBlockProps> = props => {
+  const { item, day, compact, onChange } = props;
+  const { event } = item;
+  const [drag, setDrag] = useState<DragState | null>(null);
+  // Responders are created once, so they read the latest props from here
+  const propsRef = useRef(props);
+  propsRef.current = props;
+  const dragMode = useRef<DragMode | null>(null);
+  const longPressTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const canDrag = !!onChange && !event.recurringEventId;
+
+  const getDayDelta = (dx: number): number => {
+    const { dayIndex, dayCount, columnWidth } = propsRef.current;
+    if (!columnWidth) return 0;
+    return Math.min(Math.max(Math.round(dx / columnWidth), -dayIndex), dayCount - 1 - dayIndex);
+  };
+
+  const getDraggedRange = (mode: DragMode, gesture: { dx: number; dy: number }): EventTimeRange => {
+    const { item, day } = propsRef.current;
+    return mode === 'move'
+      ? getMovedRange(item, toMinutes(gesture.dy), getDayDelta(gesture.dx))
+      : getResizedRange(item, day, toMinutes(gesture.dy));
+  };
+
+  const clearLongPress = () => {
+    if (longPressTimer.current) {
+      clearTimeout(longPressTimer.current);
+      longPressTimer.current = null;
+    }
+  };
+
+  const startDrag = (mode: DragMode) => {
+    longPressTimer.current = null;
+    dragMode.current = mode;
+    setDrag({ mode, dx: 0, dy: 0 });
+    propsRef.current.onDragChange(true);
+  };
+
+  const updateDrag = (gesture: PanResponderGestureState) => {
+    if (dragMode.current) {
+      setDrag({ mode: dragMode.current, dx: gesture.dx, dy: gesture.dy });
+    }
+  };
+
+  // Drop the event where it was dragged, or put it back when cancelled
+  const endDrag = (gesture: PanResponderGestureState | null) => {
+    clearLongPress();
+    const mode = dragMode.current;
+    if (!mode) return;
+
+    dragMode.current = null;
+    setDrag(null);
+    propsRef.current.onDragChange(false);
+
+    const { item, onChange } = propsRef.current;
+    if (!gesture || !onChange) return;
+
+    const range = getDraggedRange(mode, gesture);
+    if (
+      new Date(range.startTime).getTime() !== new Date(item.event.startTime).getTime() ||
+      new Date(range.endTime).getTime() !== new Date(item.event.endTime).getTime()
+    ) {
+      onChange(item.event, range);
+    }
+  };
+
+  const moveResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onPanResponderGrant: () => {
+        const { item, onChange } = propsRef.current;
+        if (onChange && !item.event.recurringEventId) {
+          longPressTimer.current = setTimeout(() => startDrag('move'), LONG_PRESS_MS);
+        }
+      },
+      onPanResponderMove: (_, gesture) => {
+        if (Math.abs(gesture.dx) > TAP_SLOP || Math.abs(gesture.dy) > TAP_SLOP) {
+          clearLongPress();
+        }
+        updateDrag(gesture);
+      },
+      // Let the timeline scroll until the event has been picked up
+      onPanResponderTerminationRequest: () => !dragMode.current,
+      onPanResponderRelease: (_, gesture) => {
+        if (!dragMode.current && Math.abs(gesture.dx) <= TAP_SLOP && Math.abs(gesture.dy) <= TAP_SLOP) {
+          clearLongPress();
+          propsRef.current.onPress(propsRef.current.item.event);
+          return;
+        }
+        endDrag(gesture);
+      },
+      onPanResponderTerminate: () => endDrag(null),
+    })
+  ).current;
+
+  const resizeResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onPanResponderGrant: () => startDrag('resize'),
+      onPanResponderMove: (_, gesture) => updateDrag(gesture),
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderRelease: (_, gesture) => endDrag(gesture),
+      onPanResponderTerminate: () => endDrag(null),
+    })
+  ).current;
+
+  useEffect(() => clearLongPress, []);
+
+  // While dragging, show the event where it would land
+  let startMinutes = item.startMinutes;
+  let endMinutes = item.endMinutes;
+  let dayDelta = 0;
+  let draggedRange: EventTimeRange | null = null;
+  if (drag) {
+    draggedRange = getDraggedRange(drag.mode, drag);
+    dayDelta = drag.mode === 'move' ? getDayDelta(drag.dx) : 0;
+    const targetDay = startOfDay(addDays(day, dayDelta)).getTime();
+    const toDayMinutes = (time: string) => (new Date(time).getTime() - targetDay) / (60 * 1000);
+    startMinutes = Math.max(toDayMinutes(draggedRange.startTime), 0);
+    endMinutes = Math.min(
+      Math.max(toDayMinutes(draggedRange.endTime), startMinutes + MIN_TIMELINE_MINUTES),
+      MINUTES_PER_DAY
+    );
+  }
+
+  const height = ((endMinutes - startMinutes) / 60) * HOUR_HEIGHT - 2;
+  const color = event.color || '#6366F1';
+  const timeRange = draggedRange || event;
+
+  return (
+    <View
+      {...moveResponder.panHandlers}
+      style={[
+        styles.event,
+        {
+          top: (startMinutes / 60) * HOUR_HEIGHT + 1,
+          height,
+          left: toPercent(item.column / item.columns),
+          width: toPercent(1 / item.columns),
+          borderLeftColor: color,
+        },
+        drag && [styles.eventDragging, { transform: [{ translateX: dayDelta * props.columnWidth }] }],
+      ]}
+    >
+      <Text
+        style={[styles.eventTitle, compact && styles.eventTitleCompact]}
+        numberOfLines={height >= 40 ? 2 : 1}
+      >
+        {event.title}
+      </Text>
+      {(!compact || drag) && height >= 36 && (
+        <Text style={styles.eventTime} numberOfLines={1}>
+          {formatTimeRange(new Date(timeRange.startTime), new Date(timeRange.endTime))}
+        </Text>
+      )}
+      {canDrag && (
+        <View
+          {...resizeResponder.panHandlers}
+          style={styles.resizeHandle}
+          hitSlop={{ top: 4, bottom: 8 }}
+        >
+          <View style={styles.resizeGrip} />
+        </View>
+      )}
+    </View>
+  );
+};
+
+export const CalendarTimeline: React.FC<CalendarTimelineProps> = ({
+  days,
+  events,
+  selectedDate,
+  onEventPress,
+  onDayPress,
+  onEventChange,
+}) => {
+  const scrollRef = useRef<ScrollView>(null);
+  const hasScrolled = useRef(false);
+  const [now, setNow] = useState(new Date());
+  const [columnWidth, setColumnWidth] = useState(0);
+  const [draggingDayIndex, setDraggingDayIndex] = useState<number | null>(null);
+  const isWeek = days.length > 1;
+  const showsToday = days.some(day => isToday(day));
+  const allDayEvents = days.map(day => getAllDayEvents(events, day));
+  const hasAllDayEvents = allDayEvents.some(dayEvents => dayEvents.length > 0);
+
+  // Keep the current time line moving
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Open on the current hour, or the start of the working day
+  const handleLayout = () => {
+    if (hasScrolled.current) return;
+    hasScrolled.current = true;
+    const hour = showsToday ? Math.max(0, now.getHours() - 1) : DEFAULT_SCROLL_HOUR;
+    scrollRef.current?.scrollTo({ y: hour * HOUR_HEIGHT, animated: false });
+  };
+
+  return (
+    <View style={styles.container}>
+      {isWeek && (
+        <View style={styles.dayHeaders}>
+          <View style={styles.gutter} />
+          {days.map(day => {
+            const dateKey = formatDateKey(day);
+            const isSelected = dateKey === selectedDate;
+            return (
+              <TouchableOpacity
+                key={dateKey}
+                style={styles.dayHeader}
+                onPress={() => onDayPress?.(dateKey)}
+              >
+                <Text style={styles.dayHeaderWeekday}>
+                  {day.toLocaleDateString('en-US', { weekday: 'narrow' })}
+                </Text>
+                <View
+                  style={[
+                    styles.dayHeaderDate,
+                    isToday(day) && styles.dayHeaderToday,
+                    isSelected && styles.dayHeaderSelected,
+                  ]}
+                >
+                  <Text style={styles.dayHeaderDateText}>{day.getDate()}</Text>
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      {hasAllDayEvents && (
+        <View style={styles.allDayRow}>
+          <View style={styles.gutter}>
+            <Text style={styles.allDayLabel}>all-day</Text>
+          </View>
+          {days.map((day, index) => (
+            <View key={formatDateKey(day)} style={styles.allDayColumn}>
+              {allDayEvents[index]!.map(event => (
+                <TouchableOpacity
+                  key={event.id}
+                  style={[styles.allDayEvent, { backgroundColor: event.color || '#6366F1' }]}
+                  onPress={() => onEventPress(event)}
+                >
+                  <Text style={styles.allDayEventText} numberOfLines={1}>
+                    {event.title}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          ))}
+        </View>
+      )}
+
+      <ScrollView
+        ref={scrollRef}
+        style={styles.scrollView}
+        onLayout={handleLayout}
+        scrollEnabled={draggingDayIndex === null}
+        showsVerticalScrollIndicator={false}
+      >
+        <View
+          style={[styles.grid, { height: 24 * HOUR_HEIGHT }]}
+          onLayout={({ nativeEvent }) =>
+            setColumnWidth((nativeEvent.layout.width - GUTTER_WIDTH) / days.length)
+          }
+        >
+          <View style={styles.gutter}>
+            {HOURS.slice(1).map(hour => (
+              <Text key={hour} style={[styles.hourLabel, { top: hour * HOUR_HEIGHT - 7 }]}>
+                {formatHourLabel(hour)}
+              </Text>
+            ))}
+          </View>
+
+          {days.map((day, dayIndex) => (
+            <View
+              key={formatDateKey(day)}
+              // The dragged event can cross into the columns beside it
+              style={[styles.dayColumn, dayIndex === draggingDayIndex && styles.dayColumnDragging]}
+            >
+              {HOURS.map(hour => (
+                <View key={hour} style={[styles.hourLine, { top: hour * HOUR_HEIGHT }]} />
+              ))}
+              {layoutDayEvents(events, day).map(item => (
+                <TimelineEventBlock
+                  key={item.event.id}
+                  item={item}
+                  day={day}
+                  dayIndex={dayIndex}
+                  dayCount={days.length}
+                  columnWidth={columnWidth}
+                  compact={isWeek}
+                  onPress={onEventPress}
+                  onChange={onEventChange}
+                  onDragChange={dragging => setDraggingDayIndex(dragging ? dayIndex : null)}
+                />
+              ))}
+              {isToday(day) && (
+                <View
+                  style={[styles.nowLine, { top: (getMinutesIntoDay(now) / 60) * HOUR_HEIGHT }]}
+                />
+              )}
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    overflow: 'hidden',
+  },
+  dayHeaders: {
+    flexDirection: 'row',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  dayHeader: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  dayHeaderWeekday: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginBottom: 4,
+  },
+  dayHeaderDate: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dayHeaderToday: {
+    borderWidth: 1,
+    borderColor: '#6366F1',
+  },
+  dayHeaderSelected: {
+    backgroundColor: '#6366F1',
+  },
+  dayHeaderDateText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  allDayRow: {
+    flexDirection: 'row',
+    paddingVertical: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  allDayLabel: {
+    fontSize: 10,
+    color: '#9CA3AF',
+    textAlign: 'right',
+    paddingRight: 6,
+    paddingTop: 4,
+  },
+  allDayColumn: {
+    flex: 1,
+    paddingHorizontal: 1,
+    gap: 2,
+  },
+  allDayEvent: {
+    borderRadius: 4,
+    paddingHorizontal: 4,
+    paddingVertical: 2,
+  },
+  allDayEventText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  grid: {
+    flexDirection: 'row',
+  },
+  gutter: {
+    width: GUTTER_WIDTH,
+  },
+  hourLabel: {
+    position: 'absolute',
+    right: 6,
+    fontSize: 10,
+    color: '#6B7280',
+  },
+  dayColumn: {
+    flex: 1,
+    borderLeftWidth: 1,
+    borderLeftColor: 'rgba(255, 255, 255, 0.08)',
+  },
+  dayColumnDragging: {
+    zIndex: 1,
+  },
+  hourLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 1,
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+  },
+  event: {
+    position: 'absolute',
+    paddingHorizontal: 4,
+    paddingVertical: 2,
+    borderRadius: 6,
+    borderLeftWidth: 3,
+    backgroundColor: 'rgba(99, 102, 241, 0.35)',
+    overflow: 'hidden',
+  },
+  eventDragging: {
+    zIndex: 10,
+    elevation: 6,
+    opacity: 0.9,
+    backgroundColor: 'rgba(99, 102, 241, 0.6)',
+    shadowColor: '#000000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 6,
+  },
+  resizeHandle: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    height: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  resizeGrip: {
+    width: 16,
+    height: 3,
+    borderRadius: 2,
+    backgroundColor: 'rgba(255, 255, 255, 0.5)',
+  },
+  eventTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  eventTitleCompact: {
+    fontSize: 10,
+  },
+  eventTime: {
+    fontSize: 11,
+    color: '#D1D5DB',
+    marginTop: 2,
+  },
+  nowLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 2,
+    backgroundColor: '#EF4444',
+  },
+});
@@ -8,6 +8,7 @@ import {
 } from 'react-native';
 import { CalendarEvent } from '../../store/slices/calendarSlice';
 import { formatDuration, formatTime, formatTimeRange, getDurationInMinutes, getEventColor } from '../../utils/dateTime';
+import { describeRRule } from '../../utils/rrule';
 
 interface EventCardProps {
   event: CalendarEvent;
@@ -117,10 +118,20 @@ export const EventCard: React.FC<EventCardProps> = ({
               {event.title}
             </Text>
           </View>
+          {event.pendingSync && (
+            <Ionicons name="cloud-upload-outline" size={16} color="#9CA3AF" />
+          )}
         </View>
 
         {renderTimeInfo()}
 
+        {event.recurrenceRule && (
+          <View style={styles.recurrenceContainer}>
+            <Ionicons name="repeat" size={12} color="#6366F1" />
+            <Text style={styles.recurrenceText}>{describeRRule(event.recurrenceRule)}</Text>
+          </View>
+        )}
+
         {event.description && (
           <Text style={styles.description} numberOfLines={2}>
             {event.description}
@@ -211,6 +222,16 @@ const styles = StyleSheet.create({
     lineHeight: 20,
     marginBottom: 8,
   },
+  recurrenceContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  recurrenceText: {
+    fontSize: 12,
+    color: '#6366F1',
+    marginLeft: 4,
+  },
   locationContainer: {
     flexDirection: 'row',
     alignItems: 'center',
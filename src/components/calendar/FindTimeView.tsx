@@ -0,0 +1,409 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useFindTime } from '../../hooks/useFindTime';
+import { addDays, formatDate, formatDuration, formatTimeRange, startOfDay } from '../../utils/dateTime';
+import { EventTimeRange } from '../../utils/eventConflicts';
+import { DayPart } from '../../utils/naturalDate';
+import { Button } from '../ui/Button';
+
+interface FindTimeViewProps {
+  initialDate?: Date;
+  onSelectSlot: (slot: EventTimeRange) => void;
+  onClose: () => void;
+}
+
+const DURATION_OPTIONS = [30, 45, 60, 90, 120];
+
+const RANGE_OPTIONS: { label: string; days: number }[] = [
+  { label: 'That day', days: 1 },
+  { label: '3 days', days: 3 },
+  { label: 'A week', days: 7 },
+  { label: '2 weeks', days: 14 },
+];
+
+const DAY_PART_OPTIONS: { label: string; value: DayPart | 'working' }[] = [
+  { label: 'Working hours', value: 'working' },
+  { label: 'Morning', value: 'morning' },
+  { label: 'Afternoon', value: 'afternoon' },
+  { label: 'Evening', value: 'evening' },
+];
+
+const BUFFER_OPTIONS = [0, 5, 10, 15, 30];
+
+const MIN_SLOT_OPTIONS = [15, 30, 45, 60];
+
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const formatHour = (hour: number): string => {
+  if (hour === 0 || hour === 24) return '12 AM';
+  if (hour === 12) return '12 PM';
+  return hour < 12 ? `${hour} AM` : `${hour - 12} PM`;
+};
+
+export const FindTimeView: React.FC<FindTimeViewProps> = ({
+  initialDate = new Date(),
+  onSelectSlot,
+  onClose,
+}) => {
+  const [durationMinutes, setDurationMinutes] = useState(60);
+  const [rangeDays, setRangeDays] = useState(7);
+  const [dayPart, setDayPart] = useState<DayPart | 'working'>('working');
+  const [showPreferences, setShowPreferences] = useState(false);
+
+  const rangeStart = useMemo(() => startOfDay(initialDate), [initialDate]);
+  const rangeEnd = useMemo(() => addDays(rangeStart, rangeDays), [rangeStart, rangeDays]);
+  const { slots, isLoading, preferences, updatePreferences } = useFindTime({
+    rangeStart,
+    rangeEnd,
+    durationMinutes,
+    ...(dayPart !== 'working' && { dayPart }),
+  });
+  const { workingHours, workingDays, bufferMinutes, minSlotMinutes } = preferences;
+
+  const handleWorkingHourChange = (edge: 'startHour' | 'endHour', delta: number) => {
+    const hours = { ...workingHours, [edge]: workingHours[edge] + delta };
+    if (hours.startHour < 0 || hours.endHour > 24 || hours.startHour >= hours.endHour) {
+      return;
+    }
+    updatePreferences({ workingHours: hours });
+  };
+
+  const handleWorkingDayToggle = (day: number) => {
+    const days = workingDays.includes(day)
+      ? workingDays.filter(workingDay => workingDay !== day)
+      : [...workingDays, day].sort();
+    if (days.length === 0) return;
+    updatePreferences({ workingDays: days });
+  };
+
+  const renderHourStepper = (label: string, edge: 'startHour' | 'endHour') => (
+    <View style={styles.stepper}>
+      <Text style={styles.optionLabel}>{label}</Text>
+      <View style={styles.stepperControls}>
+        <TouchableOpacity
+          style={styles.stepperButton}
+          onPress={() => handleWorkingHourChange(edge, -1)}
+          accessibilityLabel={`Earlier ${label.toLowerCase()}`}
+        >
+          <Ionicons name="remove" size={16} color="#FFFFFF" />
+        </TouchableOpacity>
+        <Text style={styles.stepperValue}>{formatHour(workingHours[edge])}</Text>
+        <TouchableOpacity
+          style={styles.stepperButton}
+          onPress={() => handleWorkingHourChange(edge, 1)}
+          accessibilityLabel={`Later ${label.toLowerCase()}`}
+        >
+          <Ionicons name="add" size={16} color="#FFFFFF" />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Find Time</Text>
+          <Text style={styles.subtitle}>
+            Free from {formatDate(rangeStart, 'short')} to {formatDate(addDays(rangeEnd, -1), 'short')}
+          </Text>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Length</Text>
+          <View style={styles.options}>
+            {DURATION_OPTIONS.map(minutes => (
+              <Button
+                key={minutes}
+                title={formatDuration(minutes)}
+                onPress={() => setDurationMinutes(minutes)}
+                variant={durationMinutes === minutes ? 'primary' : 'outline'}
+                size="small"
+              />
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Within</Text>
+          <View style={styles.options}>
+            {RANGE_OPTIONS.map(option => (
+              <Button
+                key={option.days}
+                title={option.label}
+                onPress={() => setRangeDays(option.days)}
+                variant={rangeDays === option.days ? 'primary' : 'outline'}
+                size="small"
+              />
+            ))}
+          </View>
+          <View style={[styles.options, styles.optionsSpacing]}>
+            {DAY_PART_OPTIONS.map(option => (
+              <Button
+                key={option.value}
+                title={option.label}
+                onPress={() => setDayPart(option.value)}
+                variant={dayPart === option.value ? 'primary' : 'outline'}
+                size="small"
+              />
+            ))}
+          </View>
+        </View>
+
+        <TouchableOpacity
+          style={styles.preferencesToggle}
+          onPress={() => setShowPreferences(!showPreferences)}
+        >
+          <Text style={styles.sectionTitle}>Scheduling preferences</Text>
+          <Ionicons
+            name={showPreferences ? 'chevron-up' : 'chevron-down'}
+            size={18}
+            color="#9CA3AF"
+          />
+        </TouchableOpacity>
+
+        {showPreferences && (
+          <View style={styles.section}>
+            <View style={styles.steppers}>
+              {renderHourStepper('Day starts', 'startHour')}
+              {renderHourStepper('Day ends', 'endHour')}
+            </View>
+
+            <Text style={styles.optionLabel}>Working days</Text>
+            <View style={styles.options}>
+              {WEEKDAY_LABELS.map((label, day) => (
+                <TouchableOpacity
+                  key={day}
+                  style={[styles.weekday, workingDays.includes(day) && styles.weekdayActive]}
+                  onPress={() => handleWorkingDayToggle(day)}
+                >
+                  <Text style={styles.weekdayText}>{label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={[styles.optionLabel, styles.optionsSpacing]}>Break between events</Text>
+            <View style={styles.options}>
+              {BUFFER_OPTIONS.map(minutes => (
+                <Button
+                  key={minutes}
+                  title={minutes === 0 ? 'None' : formatDuration(minutes)}
+                  onPress={() => updatePreferences({ bufferMinutes: minutes })}
+                  variant={bufferMinutes === minutes ? 'primary' : 'outline'}
+                  size="small"
+                />
+              ))}
+            </View>
+
+            <Text style={[styles.optionLabel, styles.optionsSpacing]}>Shortest free time worth showing</Text>
+            <View style={styles.options}>
+              {MIN_SLOT_OPTIONS.map(minutes => (
+                <Button
+                  key={minutes}
+                  title={formatDuration(minutes)}
+                  onPress={() => updatePreferences({ minSlotMinutes: minutes })}
+                  variant={minSlotMinutes === minutes ? 'primary' : 'outline'}
+                  size="small"
+                />
+              ))}
+            </View>
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Best times</Text>
+          {isLoading ? (
+            <ActivityIndicator style={styles.loading} color="#6366F1" />
+          ) : slots.length === 0 ? (
+            <Text style={styles.emptyText}>
+              No free {formatDuration(durationMinutes)} in this range. Try a longer range or a shorter length.
+            </Text>
+          ) : (
+            slots.map((slot, index) => {
+              const start = new Date(slot.startTime);
+              return (
+                <TouchableOpacity
+                  key={slot.startTime}
+                  style={styles.slot}
+                  onPress={() => onSelectSlot(slot)}
+                  accessibilityLabel={`Create an event ${formatDate(start, 'long')}, ${formatTimeRange(start, new Date(slot.endTime))}`}
+                >
+                  <View style={styles.slotRank}>
+                    <Text style={styles.slotRankText}>{index + 1}</Text>
+                  </View>
+                  <View style={styles.slotDetails}>
+                    <Text style={styles.slotDate}>{formatDate(start, 'long')}</Text>
+                    <Text style={styles.slotTime}>
+                      {formatTimeRange(start, new Date(slot.endTime))}
+                    </Text>
+                    <Text style={styles.slotGap}>
+                      In {formatDuration(slot.freeMinutes)} of free time
+                    </Text>
+                  </View>
+                  <Ionicons name="add-circle" size={24} color="#6366F1" />
+                </TouchableOpacity>
+              );
+            })
+          )}
+        </View>
+
+        <Button title="Close" onPress={onClose} variant="outline" />
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0F0F0F',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+  },
+  header: {
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    marginTop: 4,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginBottom: 12,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  optionsSpacing: {
+    marginTop: 12,
+  },
+  optionLabel: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    marginBottom: 8,
+  },
+  preferencesToggle: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  steppers: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  stepper: {
+    flex: 1,
+  },
+  stepperControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    padding: 6,
+  },
+  stepperButton: {
+    padding: 6,
+    borderRadius: 8,
+    backgroundColor: 'rgba(99, 102, 241, 0.3)',
+  },
+  stepperValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  weekday: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: '#6366F1',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  weekdayActive: {
+    backgroundColor: '#6366F1',
+  },
+  weekdayText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9CA3AF',
+  },
+  loading: {
+    paddingVertical: 16,
+  },
+  slot: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 14,
+    marginBottom: 10,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  slotRank: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: 'rgba(99, 102, 241, 0.2)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  slotRankText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6366F1',
+  },
+  slotDetails: {
+    flex: 1,
+  },
+  slotDate: {
+    fontSize: 14,
+    color: '#9CA3AF',
+  },
+  slotTime: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginTop: 2,
+  },
+  slotGap: {
+    fontSize: 12,
+    color: '#6366F1',
+    marginTop: 2,
+  },
+});
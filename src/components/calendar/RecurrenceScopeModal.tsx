@@ -0,0 +1,113 @@
+import React from 'react';
+import {
+  Modal,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { RecurrenceEditScope } from '../../store/slices/calendarSlice';
+
+interface RecurrenceScopeModalProps {
+  visible: boolean;
+  action: 'edit' | 'delete';
+  onSelect: (scope: RecurrenceEditScope) => void;
+  onCancel: () => void;
+}
+
+const SCOPE_OPTIONS: { scope: RecurrenceEditScope; label: string }[] = [
+  { scope: 'this', label: 'This event' },
+  { scope: 'following', label: 'This and following events' },
+  { scope: 'all', label: 'All events' },
+];
+
+export const RecurrenceScopeModal: React.FC<RecurrenceScopeModalProps> = ({
+  visible,
+  action,
+  onSelect,
+  onCancel,
+}) => {
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onCancel}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <Text style={styles.title}>
+            {action === 'edit' ? 'Edit recurring event' : 'Delete recurring event'}
+          </Text>
+
+          {SCOPE_OPTIONS.map(({ scope, label }) => (
+            <TouchableOpacity
+              key={scope}
+              style={styles.option}
+              onPress={() => onSelect(scope)}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.optionText, action === 'delete' && styles.destructiveText]}>
+                {label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+
+          <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0,0,0,0.7)',
+  },
+  container: {
+    backgroundColor: '#1F1F1F',
+    borderRadius: 16,
+    padding: 20,
+    width: '85%',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  option: {
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+    borderRadius: 12,
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  optionText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    textAlign: 'center',
+  },
+  destructiveText: {
+    color: '#EF4444',
+  },
+  cancelButton: {
+    paddingVertical: 12,
+    marginTop: 4,
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#9CA3AF',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,545 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import {
+  CSVColumnMapping,
+  CSVExpenseField,
+  ExpenseCategory,
+  expenseService,
+} from '../../services/expenseService';
+
+interface CsvImportWizardProps {
+  visible: boolean;
+  userId: string;
+  categories: ExpenseCategory[];
+  onClose: () => void;
+  onImported: (count: number) => void;
+}
+
+type WizardStep = 'pick' | 'map' | 'preview' | 'importing' | 'done';
+
+const FIELDS: { field: CSVExpenseField; label: string; required: boolean }[] = [
+  { field: 'amount', label: 'Amount', required: true },
+  { field: 'date', label: 'Date', required: true },
+  { field: 'description', label: 'Description', required: true },
+  { field: 'category', label: 'Category', required: false },
+];
+
+const PREVIEW_LIMIT = 50;
+
+export const CsvImportWizard: React.FC<CsvImportWizardProps> = ({
+  visible,
+  userId,
+  categories,
+  onClose,
+  onImported,
+}) => {
+  const [step, setStep] = useState<WizardStep>('pick');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<CSVColumnMapping>({});
+  const [progress, setProgress] = useState({ completed: 0, total: 0 });
+  const [result, setResult] = useState({ created: 0, failed: 0, skipped: 0, credits: 0 });
+
+  const headers = useMemo(() => {
+    const columnCount = Math.max(0, ...rows.map(row => row.length));
+    return Array.from({ length: columnCount }, (_, index) =>
+      hasHeader && rows[0]?.[index] ? rows[0][index] : `Column ${index + 1}`
+    );
+  }, [rows, hasHeader]);
+
+  const mappedRows = useMemo(
+    () =>
+      hasHeader
+        ? expenseService.mapCSVRows(rows.slice(1), mapping, categories, 2)
+        : expenseService.mapCSVRows(rows, mapping, categories),
+    [rows, hasHeader, mapping, categories]
+  );
+
+  // Credits (refunds, deposits) aren't spending, so they're left out of the import
+  const creditCount = mappedRows.filter(row => row.isCredit).length;
+  const validRows = mappedRows.filter(row => !row.isCredit && Object.keys(row.errors).length === 0);
+  const invalidCount = mappedRows.length - validRows.length - creditCount;
+  const isMappingComplete = FIELDS.every(({ field, required }) => !required || mapping[field] !== undefined);
+
+  const resetWizard = () => {
+    setStep('pick');
+    setRows([]);
+    setHasHeader(true);
+    setMapping({});
+    setProgress({ completed: 0, total: 0 });
+    setResult({ created: 0, failed: 0, skipped: 0, credits: 0 });
+  };
+
+  const handleClose = () => {
+    if (step === 'importing') return;
+    resetWizard();
+    onClose();
+  };
+
+  const handlePickFile = async () => {
+    try {
+      const parsedRows = await expenseService.pickCSVFile();
+      if (!parsedRows) return;
+
+      if (parsedRows.length === 0) {
+        Alert.alert('Empty File', 'No rows were found in this file');
+        return;
+      }
+
+      setRows(parsedRows);
+      setMapping(expenseService.guessCSVColumnMapping(parsedRows[0]));
+      setStep('map');
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to read CSV file');
+    }
+  };
+
+  const handleSelectColumn = (field: CSVExpenseField, index: number | undefined) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (index === undefined) {
+        delete next[field];
+      } else {
+        next[field] = index;
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    setStep('importing');
+    setProgress({ completed: 0, total: validRows.length });
+
+    const { created, failed } = await expenseService.bulkCreate(
+      validRows.map(row => row.data),
+      userId,
+      (completed, total) => setProgress({ completed, total })
+    );
+
+    setResult({ created: created.length, failed, skipped: invalidCount, credits: creditCount });
+    setStep('done');
+
+    if (created.length > 0) {
+      onImported(created.length);
+    }
+  };
+
+  const renderPickStep = () => (
+    <View style={styles.centered}>
+      <Ionicons name="document-text-outline" size={64} color="#6366F1" />
+      <Text style={styles.stepTitle}>Import expenses from CSV</Text>
+      <Text style={styles.stepSubtitle}>
+        Bring in history from your bank or another app. You can choose which columns hold the amount, date, description and category.
+      </Text>
+      <TouchableOpacity style={styles.primaryButton} onPress={handlePickFile}>
+        <Text style={styles.primaryButtonText}>Choose CSV File</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderMapStep = () => (
+    <>
+      <TouchableOpacity
+        style={styles.headerToggle}
+        onPress={() => setHasHeader(prev => !prev)}
+      >
+        <Ionicons
+          name={hasHeader ? 'checkbox' : 'square-outline'}
+          size={20}
+          color="#6366F1"
+        />
+        <Text style={styles.headerToggleText}>First row contains column names</Text>
+      </TouchableOpacity>
+
+      {FIELDS.map(({ field, label, required }) => (
+        <View key={field} style={styles.fieldGroup}>
+          <Text style={styles.fieldLabel}>
+            {label}{required ? ' *' : ''}
+          </Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            {!required && (
+              <TouchableOpacity
+                style={[styles.columnOption, mapping[field] === undefined && styles.columnOptionActive]}
+                onPress={() => handleSelectColumn(field, undefined)}
+              >
+                <Text style={[styles.columnOptionText, mapping[field] === undefined && styles.columnOptionTextActive]}>
+                  None
+                </Text>
+              </TouchableOpacity>
+            )}
+            {headers.map((header, index) => (
+              <TouchableOpacity
+                key={`${field}-${index}`}
+                style={[styles.columnOption, mapping[field] === index && styles.columnOptionActive]}
+                onPress={() => handleSelectColumn(field, index)}
+              >
+                <Text style={[styles.columnOptionText, mapping[field] === index && styles.columnOptionTextActive]}>
+                  {header}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </View>
+      ))}
+
+      <TouchableOpacity
+        style={[styles.primaryButton, !isMappingComplete && styles.primaryButtonDisabled]}
+        onPress={() => setStep('preview')}
+        disabled={!isMappingComplete}
+      >
+        <Text style={styles.primaryButtonText}>Preview</Text>
+      </TouchableOpacity>
+    </>
+  );
+
+  const renderPreviewStep = () => (
+    <>
+      <View style={styles.summaryRow}>
+        <Text style={styles.summaryValid}>{validRows.length} ready to import</Text>
+        {invalidCount > 0 && (
+          <Text style={styles.summaryInvalid}>{invalidCount} will be skipped</Text>
+        )}
+      </View>
+      {creditCount > 0 && (
+        <Text style={styles.summaryCredits}>
+          {creditCount} credit{creditCount !== 1 ? 's' : ''} (refunds or deposits) will be left out
+        </Text>
+      )}
+
+      {mappedRows.slice(0, PREVIEW_LIMIT).map(({ row, data, errors, isCredit }) => {
+        const errorMessages = Object.values(errors);
+
+        return (
+          <View
+            key={row}
+            style={[
+              styles.previewRow,
+              isCredit && styles.previewRowCredit,
+              !isCredit && errorMessages.length > 0 && styles.previewRowInvalid,
+            ]}
+          >
+            <View style={styles.previewRowHeader}>
+              <Text style={styles.previewDescription} numberOfLines={1}>
+                {data.description || '—'}
+              </Text>
+              <Text style={styles.previewAmount}>
+                {isNaN(parseFloat(data.amount)) ? data.amount || '—' : expenseService.formatCurrency(parseFloat(data.amount))}
+              </Text>
+            </View>
+            <Text style={styles.previewMeta}>
+              Row {row} · {data.date || 'No date'} · {data.category}
+            </Text>
+            {isCredit ? (
+              <Text style={styles.previewCredit}>Credit · not imported</Text>
+            ) : (
+              errorMessages.map(message => (
+                <Text key={message} style={styles.previewError}>{message}</Text>
+              ))
+            )}
+          </View>
+        );
+      })}
+
+      {mappedRows.length > PREVIEW_LIMIT && (
+        <Text style={styles.previewMore}>
+          and {mappedRows.length - PREVIEW_LIMIT} more rows
+        </Text>
+      )}
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => setStep('map')}>
+          <Text style={styles.secondaryButtonText}>Back</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.primaryButton, styles.actionButton, validRows.length === 0 && styles.primaryButtonDisabled]}
+          onPress={handleImport}
+          disabled={validRows.length === 0}
+        >
+          <Text style={styles.primaryButtonText}>
+            Import {validRows.length} Expense{validRows.length !== 1 ? 's' : ''}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </>
+  );
+
+  const renderImportingStep = () => (
+    <View style={styles.centered}>
+      <ActivityIndicator size="large" color="#6366F1" />
+      <Text style={styles.stepTitle}>Importing expenses…</Text>
+      <Text style={styles.stepSubtitle}>
+        {progress.completed} of {progress.total}
+      </Text>
+    </View>
+  );
+
+  const renderDoneStep = () => (
+    <View style={styles.centered}>
+      <Ionicons
+        name={result.failed > 0 ? 'alert-circle-outline' : 'checkmark-circle-outline'}
+        size={64}
+        color={result.failed > 0 ? '#F59E0B' : '#10B981'}
+      />
+      <Text style={styles.stepTitle}>
+        {result.created} expense{result.created !== 1 ? 's' : ''} imported
+      </Text>
+      {result.skipped > 0 && (
+        <Text style={styles.stepSubtitle}>{result.skipped} invalid rows skipped</Text>
+      )}
+      {result.credits > 0 && (
+        <Text style={styles.stepSubtitle}>{result.credits} credits left out</Text>
+      )}
+      {result.failed > 0 && (
+        <Text style={styles.stepSubtitle}>{result.failed} could not be saved</Text>
+      )}
+      <TouchableOpacity style={styles.primaryButton} onPress={handleClose}>
+        <Text style={styles.primaryButtonText}>Done</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={handleClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Import CSV</Text>
+            <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color="#6366F1" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.body} showsVerticalScrollIndicator={false}>
+            {step === 'pick' && renderPickStep()}
+            {step === 'map' && renderMapStep()}
+            {step === 'preview' && renderPreviewStep()}
+            {step === 'importing' && renderImportingStep()}
+            {step === 'done' && renderDoneStep()}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  content: {
+    backgroundColor: '#1F1F1F',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingTop: 20,
+    maxHeight: '85%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  body: {
+    padding: 20,
+  },
+  centered: {
+    alignItems: 'center',
+    paddingVertical: 24,
+  },
+  stepTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  stepSubtitle: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    marginTop: 8,
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  headerToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  headerToggleText: {
+    fontSize: 14,
+    color: '#D1D5DB',
+    marginLeft: 8,
+  },
+  fieldGroup: {
+    marginBottom: 20,
+  },
+  fieldLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginBottom: 8,
+  },
+  columnOption: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginRight: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  columnOptionActive: {
+    backgroundColor: 'rgba(99, 102, 241, 0.3)',
+    borderColor: 'rgba(99, 102, 241, 0.5)',
+  },
+  columnOptionText: {
+    fontSize: 12,
+    color: '#FFFFFF',
+    fontWeight: '500',
+  },
+  columnOptionTextActive: {
+    color: '#6366F1',
+    fontWeight: '600',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  summaryValid: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#10B981',
+  },
+  summaryInvalid: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+  summaryCredits: {
+    fontSize: 12,
+    color: '#F59E0B',
+    marginBottom: 12,
+  },
+  previewRow: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  previewRowInvalid: {
+    borderColor: 'rgba(239, 68, 68, 0.5)',
+  },
+  previewRowCredit: {
+    opacity: 0.6,
+  },
+  previewRowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  previewDescription: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginRight: 12,
+  },
+  previewAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  previewMeta: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 4,
+  },
+  previewError: {
+    fontSize: 12,
+    color: '#EF4444',
+    marginTop: 4,
+  },
+  previewCredit: {
+    fontSize: 12,
+    color: '#F59E0B',
+    marginTop: 4,
+  },
+  previewMore: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    textAlign: 'center',
+    marginVertical: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    marginTop: 12,
+    marginBottom: 32,
+    gap: 12,
+  },
+  actionButton: {
+    flex: 1,
+    marginTop: 0,
+  },
+  primaryButton: {
+    backgroundColor: 'rgba(99, 102, 241, 0.8)',
+    borderRadius: 12,
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    alignItems: 'center',
+    marginTop: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(99, 102, 241, 0.3)',
+  },
+  primaryButtonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  secondaryButton: {
+    borderRadius: 12,
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#D1D5DB',
+  },
+});
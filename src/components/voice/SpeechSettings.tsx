@@ -0,0 +1,327 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSpeechProfile } from '../../hooks/useSpeechProfile';
+import { ResponseVerbosity } from '../../types';
+import { ParserLanguage } from '../../utils/intentParser';
+
+const LANGUAGES = [
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'en-GB', label: 'English (UK)' },
+  { code: 'es-ES', label: 'Español' },
+  { code: 'fr-FR', label: 'Français' },
+];
+
+const COMMAND_LANGUAGES: { code: ParserLanguage; label: string }[] = [
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Español' },
+  { code: 'fr', label: 'Français' },
+];
+
+const VERBOSITY_OPTIONS: { value: ResponseVerbosity; label: string; description: string }[] = [
+  { value: 'brief', label: 'Brief', description: '"Scheduled Lunch at 1:00 PM."' },
+  { value: 'detailed', label: 'Detailed', description: '"Scheduled Lunch for Oct 23 at 1:00 PM in Cafe Rio."' },
+];
+
+const RATE_STEP = 0.05;
+const PITCH_STEP = 0.1;
+
+const roundTo = (value: number, step: number): number =>
+  Math.round(value / step) * step;
+
+const formatHour = (hour: number): string => `${hour.toString().padStart(2, '0')}:00`;
+
+interface StepperProps {
+  label: string;
+  value: string;
+  onDecrease: () => void;
+  onIncrease: () => void;
+}
+
+const Stepper: React.FC<StepperProps> = ({ label, value, onDecrease, onIncrease }) => (
+  <View style={styles.row}>
+    <Text style={styles.rowLabel}>{label}</Text>
+    <View style={styles.stepper}>
+      <TouchableOpacity style={styles.stepperButton} onPress={onDecrease}>
+        <Ionicons name="remove" size={16} color="#FFFFFF" />
+      </TouchableOpacity>
+      <Text style={styles.stepperValue}>{value}</Text>
+      <TouchableOpacity style={styles.stepperButton} onPress={onIncrease}>
+        <Ionicons name="add" size={16} color="#FFFFFF" />
+      </TouchableOpacity>
+    </View>
+  </View>
+);
+
+export const SpeechSettings: React.FC = () => {
+  const {
+    profile,
+    voices,
+    commandLanguage,
+    isLoading,
+    updateProfile,
+    updateCommandLanguage,
+    previewVoice,
+  } = useSpeechProfile();
+
+  if (isLoading) {
+    return (
+      <View style={styles.card}>
+        <ActivityIndicator color="#6366F1" />
+      </View>
+    );
+  }
+
+  const changeRate = (delta: number) => {
+    const rate = Math.min(1.5, Math.max(0.3, roundTo(profile.rate + delta, RATE_STEP)));
+    updateProfile({ rate });
+  };
+
+  const changePitch = (delta: number) => {
+    const pitch = Math.min(2, Math.max(0.5, roundTo(profile.pitch + delta, PITCH_STEP)));
+    updateProfile({ pitch });
+  };
+
+  const changeSilentHour = (key: 'startHour' | 'endHour', delta: number) => {
+    updateProfile({
+      silentHours: {
+        ...profile.silentHours,
+        [key]: (profile.silentHours[key] + delta + 24) % 24,
+      },
+    });
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.groupLabel}>Language</Text>
+      <View style={styles.chips}>
+        {LANGUAGES.map((language) => (
+          <TouchableOpacity
+            key={language.code}
+            style={[styles.chip, profile.language === language.code && styles.chipSelected]}
+            // Voices belong to a language, so switching drops the chosen one
+            onPress={() => updateProfile({ language: language.code, voiceIdentifier: null })}
+          >
+            <Text style={styles.chipText}>{language.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.groupLabel}>Understand commands in</Text>
+      <View style={styles.chips}>
+        {COMMAND_LANGUAGES.map((language) => (
+          <TouchableOpacity
+            key={language.code}
+            style={[styles.chip, commandLanguage === language.code && styles.chipSelected]}
+            onPress={() => updateCommandLanguage(language.code)}
+          >
+            <Text style={styles.chipText}>{language.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.groupLabel}>Voice</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+        <TouchableOpacity
+          style={[styles.chip, !profile.voiceIdentifier && styles.chipSelected]}
+          onPress={() => updateProfile({ voiceIdentifier: null })}
+        >
+          <Text style={styles.chipText}>System default</Text>
+        </TouchableOpacity>
+        {voices.map((voice) => (
+          <TouchableOpacity
+            key={voice.identifier}
+            style={[styles.chip, profile.voiceIdentifier === voice.identifier && styles.chipSelected]}
+            onPress={() => updateProfile({ voiceIdentifier: voice.identifier })}
+          >
+            <Text style={styles.chipText}>{voice.name}</Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      <Stepper
+        label="Speed"
+        value={`${profile.rate.toFixed(2)}x`}
+        onDecrease={() => changeRate(-RATE_STEP)}
+        onIncrease={() => changeRate(RATE_STEP)}
+      />
+      <Stepper
+        label="Pitch"
+        value={profile.pitch.toFixed(1)}
+        onDecrease={() => changePitch(-PITCH_STEP)}
+        onIncrease={() => changePitch(PITCH_STEP)}
+      />
+
+      <Text style={styles.groupLabel}>Responses</Text>
+      <View style={styles.segments}>
+        {VERBOSITY_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.segment, profile.verbosity === option.value && styles.segmentSelected]}
+            onPress={() => updateProfile({ verbosity: option.value })}
+          >
+            <Text style={styles.segmentLabel}>{option.label}</Text>
+            <Text style={styles.segmentDescription}>{option.description}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.row}>
+        <View>
+          <Text style={styles.rowLabel}>Silent hours</Text>
+          <Text style={styles.rowDescription}>Don&apos;t speak replies out loud</Text>
+        </View>
+        <Switch
+          value={profile.silentHours.enabled}
+          onValueChange={(enabled) => {
+            updateProfile({ silentHours: { ...profile.silentHours, enabled } });
+          }}
+          trackColor={{ false: 'rgba(255, 255, 255, 0.2)', true: '#6366F1' }}
+        />
+      </View>
+      {profile.silentHours.enabled && (
+        <>
+          <Stepper
+            label="From"
+            value={formatHour(profile.silentHours.startHour)}
+            onDecrease={() => changeSilentHour('startHour', -1)}
+            onIncrease={() => changeSilentHour('startHour', 1)}
+          />
+          <Stepper
+            label="Until"
+            value={formatHour(profile.silentHours.endHour)}
+            onDecrease={() => changeSilentHour('endHour', -1)}
+            onIncrease={() => changeSilentHour('endHour', 1)}
+          />
+        </>
+      )}
+
+      <TouchableOpacity style={styles.previewButton} onPress={previewVoice}>
+        <Ionicons name="volume-high" size={18} color="#FFFFFF" />
+        <Text style={styles.previewButtonText}>Preview voice</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 16,
+    padding: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  groupLabel: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    marginBottom: 8,
+    marginTop: 4,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  chipSelected: {
+    borderColor: '#6366F1',
+    backgroundColor: 'rgba(99, 102, 241, 0.2)',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  rowLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#FFFFFF',
+  },
+  rowDescription: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 2,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: 'rgba(99, 102, 241, 0.3)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperValue: {
+    minWidth: 52,
+    fontSize: 16,
+    color: '#FFFFFF',
+    textAlign: 'center',
+  },
+  segments: {
+    gap: 8,
+    marginBottom: 8,
+  },
+  segment: {
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  segmentSelected: {
+    borderColor: '#6366F1',
+    backgroundColor: 'rgba(99, 102, 241, 0.2)',
+  },
+  segmentLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  segmentDescription: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 2,
+  },
+  previewButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 20,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#6366F1',
+  },
+  previewButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
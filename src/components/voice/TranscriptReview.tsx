@@ -0,0 +1,319 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { VoiceCommandData, voiceCommandProcessor } from '../../services/voiceCommandProcessor';
+import {
+  REVIEW_FIELD_LABELS,
+  ReviewField,
+  voiceReviewService,
+} from '../../services/voiceReviewService';
+import { voiceService } from '../../services/voiceService';
+
+interface TranscriptReviewProps {
+  transcription: string;
+  command: VoiceCommandData;
+  onChange: (command: VoiceCommandData, transcription: string) => void;
+  onSubmit: () => void;
+  onCancel: () => void;
+  isSubmitting?: boolean;
+}
+
+export const TranscriptReview: React.FC<TranscriptReviewProps> = ({
+  transcription,
+  command,
+  onChange,
+  onSubmit,
+  onCancel,
+  isSubmitting = false,
+}) => {
+  const [draftTranscription, setDraftTranscription] = useState(transcription);
+  const [editingField, setEditingField] = useState<ReviewField | null>(null);
+  const [draft, setDraft] = useState('');
+  const [isListening, setIsListening] = useState(false);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [error, setError] = useState('');
+
+  const fields = voiceReviewService.getFields(command);
+
+  const handleTranscriptionEdited = () => {
+    const text = draftTranscription.trim();
+    if (!text || text === transcription) return;
+
+    // A new transcription is parsed from scratch
+    setEditingField(null);
+    setError('');
+    onChange(voiceCommandProcessor.processVoiceInput(text), text);
+  };
+
+  const handleSelectField = (field: ReviewField) => {
+    if (editingField === field) {
+      setEditingField(null);
+      return;
+    }
+    setEditingField(field);
+    setDraft(voiceReviewService.getValue(command, field) || '');
+    setError('');
+  };
+
+  const applyFieldText = (field: ReviewField, text: string) => {
+    const updated = voiceReviewService.editField(command, field, text);
+    if (!updated) {
+      setError(`Couldn't understand "${text}" as a ${REVIEW_FIELD_LABELS[field].toLowerCase()}`);
+      return;
+    }
+    setError('');
+    setEditingField(null);
+    onChange(updated, transcription);
+  };
+
+  const handleRespeakField = async () => {
+    if (!editingField) return;
+
+    try {
+      if (!isListening) {
+        await voiceService.startRecording();
+        setIsListening(true);
+        return;
+      }
+
+      setIsListening(false);
+      setIsTranscribing(true);
+      const recording = await voiceService.stopRecording();
+      const result = await voiceService.transcribeAudio(recording);
+      if (result.text) {
+        setDraft(result.text);
+        applyFieldText(editingField, result.text);
+      } else {
+        setError("Didn't catch that, try again");
+      }
+    } catch (error) {
+      setIsListening(false);
+      setError('Recording failed');
+      console.error('Re-speak field error:', error);
+    } finally {
+      setIsTranscribing(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Review command</Text>
+        <Text style={styles.action}>{command.action.replace(/_/g, ' ')}</Text>
+      </View>
+
+      <TextInput
+        style={styles.transcriptionInput}
+        value={draftTranscription}
+        onChangeText={setDraftTranscription}
+        onEndEditing={handleTranscriptionEdited}
+        multiline
+        placeholder="What you said"
+        placeholderTextColor="#6B7280"
+      />
+
+      {fields.length > 0 && (
+        <View style={styles.chips}>
+          {fields.map((field) => {
+            const value = voiceReviewService.getValue(command, field);
+            return (
+              <TouchableOpacity
+                key={field}
+                style={[
+                  styles.chip,
+                  !value && styles.chipMissing,
+                  editingField === field && styles.chipActive,
+                ]}
+                onPress={() => handleSelectField(field)}
+              >
+                <Text style={styles.chipLabel}>{REVIEW_FIELD_LABELS[field]}</Text>
+                <Text style={styles.chipValue}>{value || 'Add'}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      {editingField && (
+        <View style={styles.editor}>
+          <TextInput
+            style={styles.editorInput}
+            value={draft}
+            onChangeText={setDraft}
+            onSubmitEditing={() => applyFieldText(editingField, draft)}
+            placeholder={`New ${REVIEW_FIELD_LABELS[editingField].toLowerCase()}`}
+            placeholderTextColor="#6B7280"
+            autoFocus
+            returnKeyType="done"
+          />
+          <TouchableOpacity
+            style={[styles.editorButton, isListening && styles.editorButtonListening]}
+            onPress={handleRespeakField}
+            disabled={isTranscribing}
+          >
+            {isTranscribing ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Ionicons name={isListening ? 'stop' : 'mic'} size={16} color="#FFFFFF" />
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.editorButton}
+            onPress={() => applyFieldText(editingField, draft)}
+            disabled={isListening || isTranscribing}
+          >
+            <Ionicons name="checkmark" size={16} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.cancelButton]}
+          onPress={onCancel}
+          disabled={isSubmitting}
+        >
+          <Text style={styles.actionButtonText}>Discard</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.submitButton]}
+          onPress={onSubmit}
+          disabled={isSubmitting || isListening || isTranscribing}
+        >
+          {isSubmitting ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <Text style={styles.actionButtonText}>Submit</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  action: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    textTransform: 'capitalize',
+  },
+  transcriptionInput: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    lineHeight: 24,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    backgroundColor: 'rgba(99, 102, 241, 0.15)',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(99, 102, 241, 0.3)',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  chipMissing: {
+    backgroundColor: 'rgba(245, 158, 11, 0.15)',
+    borderColor: 'rgba(245, 158, 11, 0.4)',
+  },
+  chipActive: {
+    borderColor: '#6366F1',
+  },
+  chipLabel: {
+    fontSize: 11,
+    color: '#9CA3AF',
+    marginBottom: 2,
+  },
+  chipValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  editor: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  editorInput: {
+    flex: 1,
+    fontSize: 14,
+    color: '#FFFFFF',
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  editorButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#6366F1',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  editorButtonListening: {
+    backgroundColor: '#EF4444',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#EF4444',
+    marginTop: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 20,
+  },
+  actionButton: {
+    flex: 1,
+    borderRadius: 10,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  submitButton: {
+    backgroundColor: '#10B981',
+  },
+  actionButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -4,8 +4,10 @@
  * Features:
  * - Tap to start recording
  * - Tap again to stop recording manually
- * - Auto-stops after 2 seconds of silence (voice activity detection)
- * - Visual feedback with pulse animation and countdown
+ * - Auto-stops once the speaker goes quiet, using the recorder's metering
+ *   levels (voice activity detection), or at the maximum duration
+ * - Live audio level meter, pulse animation and countdown
+ * - Recordings made without a connection are handed off to be queued
  * - Clear indication that tapping will stop recording
  */
 import apiClient from '@/api/client';
@@ -19,40 +21,69 @@ import {
   View
 } from 'react-native';
 import { useVoicePermissions } from '../../hooks/useVoicePermissions';
-import { voiceService } from '../../services/voiceService';
+import { isNetworkError } from '../../services/syncService';
+import { voiceCommandProcessor } from '../../services/voiceCommandProcessor';
+import { VoiceRecording, voiceService } from '../../services/voiceService';
+import {
+  DEFAULT_VOICE_ACTIVITY_OPTIONS,
+  getSpeechBounds,
+  initialVoiceActivityState,
+  MeteringSample,
+  normalizeMeteringLevel,
+  processMeteringSample,
+  VoiceActivityOptions,
+  VoiceActivityState,
+  VoiceStopReason,
+} from '../../utils/voiceActivity';
 
 interface VoiceInputProps {
   onTranscription?: (text: string) => void;
   onError?: (error: string) => void;
+  onOfflineRecording?: (recording: VoiceRecording) => void; // Upload failed for lack of a connection
   placeholder?: string;
   disabled?: boolean;
   style?: any;
   buttonStyle?: any;
   textStyle?: any;
+  silenceThreshold?: number; // dBFS below which the speaker counts as quiet
+  hangTimeMs?: number; // Quiet time before recording stops
+  maxDurationMs?: number;
 }
 
 export const VoiceInput: React.FC<VoiceInputProps> = ({
   onTranscription,
   onError,
+  onOfflineRecording,
   placeholder = 'Tap to speak',
   disabled = false,
   style,
   buttonStyle,
   textStyle,
+  silenceThreshold = DEFAULT_VOICE_ACTIVITY_OPTIONS.speechThreshold,
+  hangTimeMs = DEFAULT_VOICE_ACTIVITY_OPTIONS.hangTimeMs,
+  maxDurationMs = DEFAULT_VOICE_ACTIVITY_OPTIONS.maxDurationMs,
 }) => {
   const { permissions, requestPermissions } = useVoicePermissions();
   const [isRecording, setIsRecording] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [transcription, setTranscription] = useState('');
   const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
 
   const pulseAnim = useRef(new Animated.Value(1)).current;
   const recordingTimer = useRef<ReturnType<typeof setInterval> | null>(null);
   const [recordingDuration, setRecordingDuration] = useState(0);
 
   // Voice activity detection
-  const silenceTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const lastAudioLevel = useRef<number>(0);
+  const activityOptions: VoiceActivityOptions = {
+    ...DEFAULT_VOICE_ACTIVITY_OPTIONS,
+    speechThreshold: silenceThreshold,
+    hangTimeMs,
+    maxDurationMs,
+  };
+  const activity = useRef<VoiceActivityState>(initialVoiceActivityState);
+  const stopRecordingRef = useRef<(reason?: VoiceStopReason) => void>(() => {});
+  const isStopping = useRef(false); // Detection and the timer can both ask to stop
   const [audioLevel, setAudioLevel] = useState<number>(0);
 
   useEffect(() => {
@@ -76,8 +107,6 @@ export const VoiceInput: React.FC<VoiceInputProps> = ({
       // Start recording timer
       recordingTimer.current = setInterval(() => {
         setRecordingDuration(prev => prev + 1);
-        // Simulate voice activity check every second
-        resetSilenceTimer();
       }, 1000);
     } else {
       // Stop animations and timer
@@ -86,12 +115,8 @@ export const VoiceInput: React.FC<VoiceInputProps> = ({
         clearInterval(recordingTimer.current);
         recordingTimer.current = null;
       }
-      // Clear silence timer
-      if (silenceTimer.current) {
-        clearTimeout(silenceTimer.current);
-        silenceTimer.current = null;
-      }
       setRecordingDuration(0);
+      setAudioLevel(0);
     }
   }, [isRecording, pulseAnim]);
 
@@ -101,44 +126,30 @@ export const VoiceInput: React.FC<VoiceInputProps> = ({
       if (recordingTimer.current) {
         clearInterval(recordingTimer.current);
       }
-      if (silenceTimer.current) {
-        clearTimeout(silenceTimer.current);
-      }
     };
   }, []);
 
+  // Metering may be unavailable (e.g. on web), so the timer enforces the limit too
+  useEffect(() => {
+    if (isRecording && recordingDuration * 1000 >= maxDurationMs) {
+      stopRecordingRef.current('maxDuration');
+    }
+  }, [isRecording, recordingDuration, maxDurationMs]);
+
   const formatDuration = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
-  // Voice activity detection - automatically stop when user stops speaking
-  const checkVoiceActivity = () => {
-    if (!isRecording) return;
-
-    // TODO: In a real implementation, this would integrate with the audio service to detect actual voice activity
-    // The audio service could provide real-time audio levels and voice activity detection
-    // For now, we simulate this with a timer that resets when the user "speaks"
-
-    if (silenceTimer.current) {
-      clearTimeout(silenceTimer.current);
-    }
+  const handleMeteringSample = (sample: MeteringSample) => {
+    activity.current = processMeteringSample(activity.current, sample, activityOptions);
+    setAudioLevel(normalizeMeteringLevel(sample.level));
 
-    silenceTimer.current = setTimeout(() => {
-      if (isRecording) {
-        console.log('Auto-stopping recording due to silence');
-        handleStopRecording();
-      }
-    }, 2000); // Stop after 2 seconds of silence
-  };
-
-  // Reset silence timer when user speaks
-  const resetSilenceTimer = () => {
-    if (silenceTimer.current) {
-      clearTimeout(silenceTimer.current);
+    if (activity.current.stopReason) {
+      console.log(`Auto-stopping recording: ${activity.current.stopReason}`);
+      stopRecordingRef.current(activity.current.stopReason);
     }
-    checkVoiceActivity();
   };
 
   const handleStartRecording = async () => {
@@ -156,14 +167,14 @@ export const VoiceInput: React.FC<VoiceInputProps> = ({
       }
 
       setError('');
+      setNotice('');
       setTranscription('');
       setIsRecording(true);
+      activity.current = initialVoiceActivityState;
+      isStopping.current = false;
 
-      await voiceService.startRecording();
+      await voiceService.startRecording(handleMeteringSample);
       console.log('Voice recording started');
-
-      // Start voice activity detection
-      checkVoiceActivity();
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : 'Failed to start recording';
       console.error('Failed to start recording:', error);
@@ -173,16 +184,30 @@ export const VoiceInput: React.FC<VoiceInputProps> = ({
     }
   };
 
-  const handleStopRecording = async () => {
+  const handleStopRecording = async (reason?: VoiceStopReason) => {
     try {
-      if (!isRecording) return;
+      if (!isRecording || isStopping.current) return;
 
+      isStopping.current = true;
       setIsRecording(false);
-      setIsProcessing(true);
 
-      const recording = await voiceService.stopRecording();
+      const speech = getSpeechBounds(
+        activity.current,
+        activity.current.elapsedMs,
+        activityOptions
+      );
+      const recording = await voiceService.stopRecording(speech);
       console.log('Voice recording stopped:', recording);
 
+      if (reason === 'noSpeech') {
+        const errorMsg = "Didn't hear anything. Tap to try again.";
+        setError(errorMsg);
+        onError?.(errorMsg);
+        return;
+      }
+
+      setIsProcessing(true);
+
       // Process the recording - Create FormData for file upload
       const formData = new FormData();
 
@@ -194,16 +219,30 @@ export const VoiceInput: React.FC<VoiceInputProps> = ({
       } as any);
 
       // Add only the fields expected by the DTO
-      formData.append('language', 'en-US');
+      formData.append('language', voiceCommandProcessor.getTranscriptionLanguage());
       formData.append('context', 'voice_command');
 
       console.log("Uploading audio file...");
 
-      const response = await apiClient.post("/ai/upload-audio", formData, {
-        headers: {
-          'Content-Type': 'multipart/form-data',
-        },
-      });
+      let response;
+      try {
+        response = await apiClient.post("/ai/upload-audio", formData, {
+          headers: {
+            'Content-Type': 'multipart/form-data',
+          },
+        });
+      } catch (uploadError) {
+        if (!onOfflineRecording || !isNetworkError(uploadError)) {
+          throw uploadError;
+        }
+
+        // Keep the command for when the connection is back rather than losing it
+        onOfflineRecording(recording);
+        const message = "You're offline. I'll take care of this once you're back online.";
+        setNotice(message);
+        await voiceService.speakText(message);
+        return;
+      }
 
       console.log("Audio upload response:", response);
 
@@ -244,6 +283,8 @@ export const VoiceInput: React.FC<VoiceInputProps> = ({
     }
   };
 
+  stopRecordingRef.current = handleStopRecording;
+
   const handlePress = () => {
     if (isRecording) {
       handleStopRecording();
@@ -289,12 +330,19 @@ export const VoiceInput: React.FC<VoiceInputProps> = ({
         <Text style={[styles.buttonText, textStyle]}>{getButtonText()}</Text>
       </TouchableOpacity>
 
+      {/* Audio level meter */}
+      {isRecording && (
+        <View style={styles.levelTrack}>
+          <View style={[styles.levelFill, { width: `${Math.round(audioLevel * 100)}%` }]} />
+        </View>
+      )}
+
       {/* Auto-stop indicator */}
       {isRecording && (
         <View style={styles.autoStopIndicator}>
           <Ionicons name="information-circle-outline" size={16} color="#F59E0B" />
           <Text style={styles.autoStopText}>
-            Will auto-stop in 2 seconds when you stop speaking
+            Will auto-stop {hangTimeMs / 1000} seconds after you stop speaking
           </Text>
         </View>
       )}
@@ -306,6 +354,13 @@ export const VoiceInput: React.FC<VoiceInputProps> = ({
         </View>
       ) : null}
 
+      {notice ? (
+        <View style={styles.autoStopIndicator}>
+          <Ionicons name="cloud-offline-outline" size={16} color="#F59E0B" />
+          <Text style={styles.autoStopText}>{notice}</Text>
+        </View>
+      ) : null}
+
       {error ? (
         <View style={styles.errorContainer}>
           <Text style={styles.errorText}>{error}</Text>
@@ -388,6 +443,18 @@ const styles = StyleSheet.create({
     color: '#EF4444',
     textAlign: 'center',
   },
+  levelTrack: {
+    height: 4,
+    marginTop: 8,
+    borderRadius: 2,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    overflow: 'hidden',
+  },
+  levelFill: {
+    height: '100%',
+    borderRadius: 2,
+    backgroundColor: '#EF4444',
+  },
   autoStopIndicator: {
     flexDirection: 'row',
     alignItems: 'center',
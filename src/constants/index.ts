@@ -49,11 +49,27 @@ export const STORAGE_KEYS = {
     theme: "app_theme",
     language: "app_language",
     onboarding: "app_onboarding_complete",
+    speechProfile: "app_speech_profile",
   },
   conversations: {
     list: "conversations_list",
     current: "current_conversation",
   },
+  expenses: {
+    budgets: "expense_category_budgets",
+    budgetAlerts: "expense_budget_alerts",
+  },
+  calendar: {
+    schedulingPreferences: "calendar_scheduling_preferences",
+  },
+  sync: {
+    outbox: "sync_outbox",
+  },
+  voice: {
+    history: "voice_command_history",
+    reviewMode: "voice_review_mode",
+    queue: "voice_offline_queue",
+  },
 } as const;
 
 // Theme Colors
@@ -1,5 +1,7 @@
 import { router } from 'expo-router';
 import React, { createContext, ReactNode, useContext, useEffect } from 'react';
+import { Alert } from 'react-native';
+import { apiClient } from '../api/client';
 import { LoginCredentials, RegisterData, User } from '../services/auth/authService';
 import { useAppDispatch, useAppSelector } from '../store';
 import {
@@ -11,6 +13,7 @@ import {
   register,
   updateProfile
 } from '../store/slices/authSlice';
+import { clearCommandHistory } from '../store/slices/voiceSlice';
 
 interface AuthContextType {
   // State
@@ -55,6 +58,14 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     initializeAuth();
   }, [dispatch]);
 
+  // The store clears the user when a token refresh fails; send them back to sign in
+  useEffect(() => {
+    return apiClient.onSessionExpired(() => {
+      Alert.alert('Session Expired', 'Please sign in again to continue.');
+      router.replace('/login');
+    });
+  }, []);
+
   // Login function
   const handleLogin = async (credentials: LoginCredentials): Promise<{ success: boolean; error?: string }> => {
     try {
@@ -79,6 +90,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   // Logout function
   const handleLogout = async (): Promise<{ success: boolean; error?: string }> => {
     try {
+      if (user) {
+        await dispatch(clearCommandHistory(user.id));
+      }
       const result = await dispatch(logout()).unwrap();
       console.log("AuthContext - Logout result => ", result);
       // Navigate to login screen
@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import { useAppDispatch, useAppSelector } from "../store";
+import { getEventById } from "../store/slices/calendarSlice";
+import { expandRecurringEvents } from "../utils/rrule";
+
+// Occurrences of a recurring event are identified as <seriesId>_<start ms>
+const OCCURRENCE_ID_PATTERN = /^(.+)_(\d+)$/;
+
+/**
+ * An event by id for screens opened by route or deep link, taken from the
+ * loaded events when it's there and fetched otherwise. The id of an
+ * occurrence resolves to that occurrence of its series.
+ */
+export const useCalendarEvent = (id: string | undefined) => {
+  const dispatch = useAppDispatch();
+  const { events, isLoading, error } = useAppSelector((state) => state.calendar);
+  const requestedId = useRef<string | null>(null);
+
+  const occurrence = useMemo(() => {
+    const match = id?.match(OCCURRENCE_ID_PATTERN);
+    return match ? { seriesId: match[1]!, start: new Date(Number(match[2])) } : null;
+  }, [id]);
+
+  const event = useMemo(() => {
+    if (!id) return null;
+
+    const found = events.find((item) => item.id === id);
+    if (found || !occurrence) return found || null;
+
+    const series = events.find(
+      (item) => item.id === occurrence.seriesId && item.recurrenceRule
+    );
+    if (!series) return null;
+
+    return (
+      expandRecurringEvents(
+        [series],
+        occurrence.start,
+        new Date(occurrence.start.getTime() + 1)
+      ).find((item) => item.id === id) || null
+    );
+  }, [id, events, occurrence]);
+
+  const refresh = useCallback(() => {
+    const fetchId = occurrence?.seriesId || id;
+    if (fetchId) {
+      requestedId.current = id || null;
+      dispatch(getEventById(fetchId));
+    }
+  }, [dispatch, id, occurrence]);
+
+  // Fetch once when the event isn't loaded, e.g. when opened from a link
+  useEffect(() => {
+    if (id && !event && requestedId.current !== id) {
+      refresh();
+    }
+  }, [id, event, refresh]);
+
+  return {
+    // State
+    event,
+    isLoading: !event && isLoading,
+    error: event ? null : error,
+
+    // Actions
+    refresh,
+  };
+};
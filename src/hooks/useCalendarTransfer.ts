@@ -0,0 +1,82 @@
+import { useCallback, useState } from "react";
+import { DateRange, eventsApi } from "../services/api/eventsApi";
+import { icalService } from "../services/icalService";
+import { useAppDispatch, useAppSelector } from "../store";
+import { CalendarEvent, createEvent } from "../store/slices/calendarSlice";
+
+export interface IcsImportResult {
+  imported: number;
+  duplicates: number;
+  failed: number;
+}
+
+export const useCalendarTransfer = () => {
+  const dispatch = useAppDispatch();
+  const { events } = useAppSelector((state) => state.calendar);
+  const { user } = useAppSelector((state) => state.auth);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const exportEvents = useCallback(async (dateRange: DateRange) => {
+    setIsExporting(true);
+    try {
+      return await icalService.exportDateRange(dateRange);
+    } finally {
+      setIsExporting(false);
+    }
+  }, []);
+
+  const importEvents = useCallback(async (): Promise<IcsImportResult | null> => {
+    const icsEvents = await icalService.pickCalendarFile();
+    if (!icsEvents) {
+      return null;
+    }
+
+    setIsImporting(true);
+    try {
+      // Compare against the server's events for the imported span, not just the loaded month
+      let existingEvents: Pick<CalendarEvent, "id" | "icalUid">[] = [...events];
+      if (icsEvents.length > 0) {
+        const times = icsEvents.map((event) => new Date(event.startTime).getTime());
+        const range = await eventsApi.getByDateRange({
+          startDate: new Date(Math.min(...times)).toISOString(),
+          endDate: new Date(Math.max(...times)).toISOString(),
+        });
+        if (range.success && range.data) {
+          existingEvents = existingEvents.concat(range.data);
+        }
+      }
+
+      const plan = icalService.planImport(icsEvents, existingEvents, user?.id || "");
+      const result: IcsImportResult = {
+        imported: 0,
+        duplicates: plan.duplicates,
+        failed: 0,
+      };
+
+      for (const eventData of plan.events) {
+        try {
+          await dispatch(createEvent(eventData)).unwrap();
+          result.imported++;
+        } catch (error) {
+          console.error("Failed to import event:", eventData.title, error);
+          result.failed++;
+        }
+      }
+
+      return result;
+    } finally {
+      setIsImporting(false);
+    }
+  }, [dispatch, events, user?.id]);
+
+  return {
+    // State
+    isExporting,
+    isImporting,
+
+    // Actions
+    exportEvents,
+    importEvents,
+  };
+};
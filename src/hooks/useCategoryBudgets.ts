@@ -0,0 +1,32 @@
+import { useCallback } from "react";
+import { useDispatch, useSelector } from "react-redux";
+import { RootState } from "../store";
+import {
+  fetchCategoryBudgets,
+  saveCategoryBudget,
+} from "../store/slices/expenseSlice";
+
+export const useCategoryBudgets = () => {
+  const dispatch = useDispatch<any>();
+  const budgets = useSelector((state: RootState) => state.expenses.budgets);
+
+  const getCategoryBudgets = useCallback(() => {
+    return dispatch(fetchCategoryBudgets());
+  }, [dispatch]);
+
+  const setCategoryBudget = useCallback(
+    (category: string, budget: number | null) => {
+      return dispatch(saveCategoryBudget({ category, budget })).unwrap();
+    },
+    [dispatch]
+  );
+
+  return {
+    // State
+    budgets,
+
+    // Actions
+    getCategoryBudgets,
+    setCategoryBudget,
+  };
+};
@@ -0,0 +1,68 @@
+import { useEffect, useMemo } from "react";
+import { useAppDispatch, useAppSelector } from "../store";
+import { fetchEvents } from "../store/slices/calendarSlice";
+import { addDays, startOfDay } from "../utils/dateTime";
+import {
+  DEFAULT_FREE_SLOT_OPTIONS,
+  EventTimeRange,
+  findConflicts,
+  findNearestFreeSlots,
+} from "../utils/eventConflicts";
+
+/**
+ * Conflicts for the time an event is being scheduled at, checked against the
+ * loaded events as the time changes, with the nearest free alternatives. The
+ * events around the chosen day are loaded first, since it may be outside the
+ * range the calendar has loaded.
+ */
+export const useEventConflicts = (
+  range: EventTimeRange & { isAllDay?: boolean },
+  excludeEventId?: string
+) => {
+  const dispatch = useAppDispatch();
+  const { events } = useAppSelector((state) => state.calendar);
+  const { startTime, endTime, isAllDay } = range;
+  const dayTime = startOfDay(new Date(startTime)).getTime();
+
+  useEffect(() => {
+    if (isNaN(dayTime)) return;
+
+    // Alternatives are looked for a few days either side, and a day back
+    // catches long events that started earlier
+    const { searchDays } = DEFAULT_FREE_SLOT_OPTIONS;
+    dispatch(
+      fetchEvents({
+        startTime: addDays(new Date(dayTime), -searchDays - 1).toISOString(),
+        endTime: addDays(new Date(dayTime), searchDays + 1).toISOString(),
+        append: true,
+      })
+    );
+  }, [dispatch, dayTime]);
+
+  const conflicts = useMemo(
+    () =>
+      isAllDay
+        ? []
+        : findConflicts({ startTime, endTime }, events, {
+            ...(excludeEventId && { excludeEventId }),
+          }),
+    [events, startTime, endTime, isAllDay, excludeEventId]
+  );
+
+  const suggestions = useMemo(
+    () =>
+      conflicts.length > 0
+        ? findNearestFreeSlots({ startTime, endTime }, events, {
+            ...(excludeEventId && { excludeEventId }),
+          })
+        : [],
+    [conflicts, events, startTime, endTime, excludeEventId]
+  );
+
+  return {
+    // State
+    conflicts,
+    suggestions,
+    hasConflicts: conflicts.length > 0,
+  };
+};
@@ -12,6 +12,8 @@ export const useEventNotifications = ({
   enabled = true,
 }: UseEventNotificationsProps) => {
   const scheduledNotifications = useRef<Set<string>>(new Set());
+  // Start times the reminders were scheduled for, to notice events being moved
+  const scheduledStartTimes = useRef<Map<string, string>>(new Map());
   const lastEventsHash = useRef<string>("");
 
   // Create a hash of events to detect changes efficiently
@@ -72,6 +74,9 @@ export const useEventNotifications = ({
               scheduledNotifications.current.add(eventId);
             }
           });
+          relevantEventsForScheduling.forEach((event) =>
+            scheduledStartTimes.current.set(event.id, event.startTime)
+          );
 
           console.log(
             `Scheduled notifications for ${
@@ -84,6 +89,41 @@ export const useEventNotifications = ({
       }
     };
 
+    // Move the reminders of events whose time has changed
+    const rescheduleMovedEvents = async () => {
+      const movedEvents = events.filter(
+        (event) =>
+          scheduledNotifications.current.has(event.id) &&
+          scheduledStartTimes.current.get(event.id) !== event.startTime
+      );
+
+      if (movedEvents.length > 0) {
+        try {
+          const batchResults =
+            await notificationService.rescheduleEventReminders(
+              movedEvents.map((event) => ({
+                id: event.id,
+                title: event.title,
+                startTime: event.startTime,
+              }))
+            );
+
+          movedEvents.forEach((event) => {
+            if (batchResults[event.id]?.length) {
+              scheduledStartTimes.current.set(event.id, event.startTime);
+            } else {
+              scheduledNotifications.current.delete(event.id);
+              scheduledStartTimes.current.delete(event.id);
+            }
+          });
+
+          console.log(`Rescheduled notifications for ${movedEvents.length} events`);
+        } catch (error) {
+          console.error("Failed to reschedule notifications:", error);
+        }
+      }
+    };
+
     // Clean up old notifications for events that no longer exist
     const cleanupOldNotifications = async () => {
       const currentEventIds = new Set(events.map((event) => event.id));
@@ -98,9 +138,10 @@ export const useEventNotifications = ({
       if (eventsToCancel.length > 0) {
         try {
           await notificationService.cancelEventNotifications(eventsToCancel);
-          eventsToCancel.forEach((id) =>
-            scheduledNotifications.current.delete(id)
-          );
+          eventsToCancel.forEach((id) => {
+            scheduledNotifications.current.delete(id);
+            scheduledStartTimes.current.delete(id);
+          });
           console.log(
             `Cancelled notifications for ${eventsToCancel.length} events`
           );
@@ -113,6 +154,7 @@ export const useEventNotifications = ({
     // Process notifications with a small delay to avoid blocking the UI
     const timeoutId = setTimeout(() => {
       scheduleEventNotifications();
+      rescheduleMovedEvents();
       cleanupOldNotifications();
     }, 100);
 
@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useAppDispatch, useAppSelector } from "../store";
+import {
+  fetchEvents,
+  fetchSchedulingPreferences,
+  saveSchedulingPreferences,
+} from "../store/slices/calendarSlice";
+import { SchedulingPreferences } from "../types";
+import { addDays } from "../utils/dateTime";
+import { findFreeSlots, FreeSlotSearch } from "../utils/freeBusy";
+
+/**
+ * Ranked free slots for a new event in a range of days, worked out from the
+ * events in the range and the stored scheduling preferences. The range is
+ * loaded first, so nothing outside the calendar's view is double-booked.
+ */
+export const useFindTime = (search: FreeSlotSearch) => {
+  const dispatch = useAppDispatch();
+  const { events, schedulingPreferences } = useAppSelector((state) => state.calendar);
+  const { rangeStart, rangeEnd, durationMinutes, dayPart, count } = search;
+  const startTime = rangeStart.getTime();
+  const endTime = rangeEnd.getTime();
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    dispatch(fetchSchedulingPreferences());
+  }, [dispatch]);
+
+  useEffect(() => {
+    let isCurrent = true;
+    setIsLoading(true);
+    dispatch(
+      fetchEvents({
+        // A day back catches long events that started earlier
+        startTime: addDays(new Date(startTime), -1).toISOString(),
+        endTime: new Date(endTime).toISOString(),
+        append: true,
+      })
+    ).finally(() => {
+      if (isCurrent) setIsLoading(false);
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [dispatch, startTime, endTime]);
+
+  const slots = useMemo(
+    () =>
+      findFreeSlots(
+        events,
+        {
+          rangeStart: new Date(startTime),
+          rangeEnd: new Date(endTime),
+          durationMinutes,
+          ...(dayPart && { dayPart }),
+          ...(count && { count }),
+        },
+        schedulingPreferences
+      ),
+    [events, schedulingPreferences, startTime, endTime, durationMinutes, dayPart, count]
+  );
+
+  const updatePreferences = useCallback(
+    (changes: Partial<SchedulingPreferences>) => {
+      return dispatch(saveSchedulingPreferences(changes)).unwrap();
+    },
+    [dispatch]
+  );
+
+  return {
+    // State
+    slots,
+    isLoading,
+    preferences: schedulingPreferences,
+
+    // Actions
+    updatePreferences,
+  };
+};
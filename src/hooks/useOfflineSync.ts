@@ -0,0 +1,102 @@
+import { useCallback, useEffect } from "react";
+import { Alert, AppState } from "react-native";
+import { SyncConflict } from "../services/syncService";
+import { useAppDispatch, useAppSelector } from "../store";
+import { clearConflicts, loadOutbox, syncOutbox } from "../store/slices/syncSlice";
+
+// How often to retry while offline changes are waiting
+const SYNC_RETRY_INTERVAL = 30000;
+
+const ENTITY_LABELS: { [entity: string]: string } = {
+  expense: "an expense",
+  plannedExpense: "a planned expense",
+  event: "an event",
+};
+
+const describeConflict = (conflict: SyncConflict): string => {
+  const label = ENTITY_LABELS[conflict.entity] || "an item";
+
+  if (conflict.resolution === "discarded") {
+    return `The server rejected an offline ${conflict.operation} of ${label}.`;
+  }
+
+  if (conflict.operation === "delete") {
+    return `You deleted ${label} offline, but it was edited elsewhere afterwards, so it was kept.`;
+  }
+
+  if (conflict.fields.length === 0) {
+    return `You edited ${label} offline that has since been deleted elsewhere.`;
+  }
+
+  const fields = ` (${conflict.fields.join(", ")})`;
+  return conflict.resolution === "local"
+    ? `Your offline edit to ${label}${fields} replaced a change made elsewhere.`
+    : `Your offline edit to ${label}${fields} was overridden by a more recent change made elsewhere.`;
+};
+
+export const useOfflineSync = () => {
+  const dispatch = useAppDispatch();
+  const { pendingCount, isSyncing, lastSyncedAt, conflicts } = useAppSelector(
+    (state) => state.sync
+  );
+  const { isAuthenticated } = useAppSelector((state) => state.auth);
+  const hasPendingChanges = pendingCount > 0;
+
+  const syncNow = useCallback(() => {
+    dispatch(syncOutbox());
+  }, [dispatch]);
+
+  // Pick up changes queued in a previous session
+  useEffect(() => {
+    dispatch(loadOutbox());
+  }, [dispatch]);
+
+  // Keep retrying while there are queued changes
+  useEffect(() => {
+    if (!isAuthenticated || !hasPendingChanges) {
+      return;
+    }
+
+    syncNow();
+    const interval = setInterval(syncNow, SYNC_RETRY_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isAuthenticated, hasPendingChanges, syncNow]);
+
+  // Returning to the app is a good moment to try again
+  useEffect(() => {
+    if (!isAuthenticated || !hasPendingChanges) {
+      return;
+    }
+
+    const subscription = AppState.addEventListener("change", (status) => {
+      if (status === "active") {
+        syncNow();
+      }
+    });
+    return () => subscription.remove();
+  }, [isAuthenticated, hasPendingChanges, syncNow]);
+
+  // Tell the user when a queued change couldn't be applied as made
+  useEffect(() => {
+    if (conflicts.length === 0) {
+      return;
+    }
+
+    Alert.alert(
+      "Offline Changes Synced",
+      conflicts.map(describeConflict).join("\n\n"),
+      [{ text: "OK", onPress: () => dispatch(clearConflicts()) }]
+    );
+  }, [conflicts, dispatch]);
+
+  return {
+    // State
+    pendingCount,
+    isSyncing,
+    lastSyncedAt,
+    conflicts,
+
+    // Actions
+    syncNow,
+  };
+};
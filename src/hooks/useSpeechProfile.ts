@@ -0,0 +1,55 @@
+import { Voice } from "expo-speech";
+import { useCallback, useEffect, useState } from "react";
+import { voiceCommandProcessor } from "../services/voiceCommandProcessor";
+import { DEFAULT_SPEECH_PROFILE, voiceService } from "../services/voiceService";
+import { SpeechProfile } from "../types";
+import { ParserLanguage } from "../utils/intentParser";
+
+export const useSpeechProfile = () => {
+  const [profile, setProfile] = useState<SpeechProfile>(DEFAULT_SPEECH_PROFILE);
+  const [voices, setVoices] = useState<Voice[]>([]);
+  const [commandLanguage, setCommandLanguage] = useState<ParserLanguage>(
+    voiceCommandProcessor.getLanguage()
+  );
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    Promise.all([
+      voiceService.getSpeechProfile().then(setProfile),
+      voiceCommandProcessor.loadLanguage().then(setCommandLanguage),
+    ]).finally(() => setIsLoading(false));
+  }, []);
+
+  useEffect(() => {
+    voiceService.getAvailableVoices(profile.language).then(setVoices);
+  }, [profile.language]);
+
+  const updateProfile = useCallback(async (changes: Partial<SpeechProfile>) => {
+    const updated = await voiceService.updateSpeechProfile(changes);
+    setProfile(updated);
+    return updated;
+  }, []);
+
+  const updateCommandLanguage = useCallback(async (language: ParserLanguage) => {
+    const updated = await voiceCommandProcessor.setLanguage(language);
+    setCommandLanguage(updated);
+    return updated;
+  }, []);
+
+  const previewVoice = useCallback(() => {
+    return voiceService.speakText("Hi! This is how I'll sound when I answer you.");
+  }, []);
+
+  return {
+    // State
+    profile,
+    voices,
+    commandLanguage,
+    isLoading,
+
+    // Actions
+    updateProfile,
+    updateCommandLanguage,
+    previewVoice,
+  };
+};
@@ -0,0 +1,583 @@
+import { Href, router } from "expo-router";
+import { useCallback, useEffect, useState } from "react";
+import {
+  VoiceCommandData,
+  voiceCommandProcessor,
+} from "../services/voiceCommandProcessor";
+import { voiceCorrectionService } from "../services/voiceCorrectionService";
+import {
+  DialogSlot,
+  voiceDialogManager,
+  VoiceDialogTurn,
+} from "../services/voiceDialogManager";
+import { voiceQueryResponder } from "../services/voiceQueryResponder";
+import { voiceService } from "../services/voiceService";
+import { useAppDispatch, useAppSelector } from "../store";
+import {
+  createEvent,
+  deleteEvent,
+  fetchSchedulingPreferences,
+  updateEvent,
+} from "../store/slices/calendarSlice";
+import {
+  createExpense,
+  createPlannedExpense,
+  deleteExpense,
+  deletePlannedExpense,
+  updateExpense,
+  updatePlannedExpense,
+} from "../store/slices/expenseSlice";
+import {
+  pushHistory,
+  recordCommand,
+  removeHistoryEntry,
+  setDialog,
+  setProcessing,
+  setResponse,
+  VoiceCommandStatus,
+  VoiceEntityType,
+  VoiceHistoryEntry,
+} from "../store/slices/voiceSlice";
+import { formatDateKey, formatTime } from "../utils/dateTime";
+import { EventTimeRange } from "../utils/eventConflicts";
+import { NavigationTarget } from "../utils/intentParser";
+
+const SCREEN_ROUTES: { [screen in NavigationTarget]: Href } = {
+  home: "/(tabs)/home",
+  calendar: "/(tabs)/calendar",
+  expenses: "/(tabs)/expenses",
+  voice: "/(tabs)/voice",
+  chat: "/(tabs)/voice",
+  profile: "/(tabs)/profile",
+};
+
+// Why a queued command couldn't be saved without asking a follow-up question
+const MISSING_SLOT_RESPONSES: { [slot in DialogSlot]: string } = {
+  title: "I didn't catch what to call the event.",
+  when: "I didn't catch when the event is.",
+  amount: "I didn't catch the amount.",
+  date: "I didn't catch when you're planning to pay it.",
+};
+
+export interface VoiceCommandOutcome {
+  status: VoiceCommandStatus;
+  response: string;
+  entityId?: string;
+  freeSlots?: EventTimeRange[]; // Times a find-time answer offers to book
+}
+
+export interface VoiceCommandResult extends VoiceCommandOutcome {
+  command: VoiceCommandData;
+}
+
+// Thunks reject with a message string, everything else with an Error
+const getErrorMessage = (error: any): string =>
+  typeof error === "string" ? error : error?.message || "Something went wrong";
+
+const failed = (response: string): VoiceCommandOutcome => ({
+  status: "failed",
+  response,
+});
+
+const createHistoryEntry = (
+  entity: VoiceEntityType,
+  entityId: string,
+  label: string,
+  previous?: { [field: string]: any }
+): VoiceHistoryEntry => ({
+  id: `${Date.now()}_${entityId}`,
+  type: previous ? "update" : "create",
+  entity,
+  entityId,
+  label,
+  ...(previous && { previous }),
+  timestamp: new Date().toISOString(),
+});
+
+export const useVoiceCommandExecutor = () => {
+  const dispatch = useAppDispatch();
+  const { user } = useAppSelector((state) => state.auth);
+  const { dialog, history } = useAppSelector((state) => state.voice);
+  const { expenses, plannedExpenses } = useAppSelector((state) => state.expenses);
+  const { events, schedulingPreferences } = useAppSelector((state) => state.calendar);
+  const [isExecuting, setIsExecuting] = useState(false);
+
+  // Commands are parsed in the app language, and free time is found with
+  // the stored scheduling preferences
+  useEffect(() => {
+    voiceCommandProcessor.loadLanguage();
+    dispatch(fetchSchedulingPreferences());
+  }, [dispatch]);
+
+  const findItem = useCallback(
+    (entity: VoiceEntityType, id: string): { [field: string]: any } | undefined => {
+      switch (entity) {
+        case "event":
+          return events.find((event) => event.id === id);
+        case "expense":
+          return expenses.find((expense) => expense.id === id);
+        case "plannedExpense":
+          return plannedExpenses.find((expense) => expense.id === id);
+      }
+    },
+    [events, expenses, plannedExpenses]
+  );
+
+  const updateItem = useCallback(
+    async (entity: VoiceEntityType, id: string, data: { [field: string]: any }) => {
+      switch (entity) {
+        case "event":
+          return dispatch(updateEvent({ id, ...data })).unwrap();
+        case "expense":
+          return dispatch(updateExpense({ id, data })).unwrap();
+        case "plannedExpense":
+          return dispatch(updatePlannedExpense({ id, data })).unwrap();
+      }
+    },
+    [dispatch]
+  );
+
+  const deleteItem = useCallback(
+    async (entity: VoiceEntityType, id: string) => {
+      switch (entity) {
+        case "event":
+          return dispatch(deleteEvent(id)).unwrap();
+        case "expense":
+          return dispatch(deleteExpense(id)).unwrap();
+        case "plannedExpense":
+          return dispatch(deletePlannedExpense(id)).unwrap();
+      }
+    },
+    [dispatch]
+  );
+
+  const performCommand = useCallback(
+    async (commandData: VoiceCommandData): Promise<VoiceCommandOutcome> => {
+      const userId = user?.id || "";
+      const { verbosity } = await voiceService.getSpeechProfile();
+      const completed = (entityId?: string): VoiceCommandOutcome => ({
+        status: "success",
+        response: voiceCommandProcessor.generateCompletionResponse(
+          commandData,
+          verbosity
+        ),
+        ...(entityId && { entityId }),
+      });
+
+      switch (commandData.intent) {
+        case "create_event": {
+          if (!commandData.startTime || !commandData.endTime) {
+            return failed("I need a day or a time to schedule that event.");
+          }
+          const event = await dispatch(
+            createEvent({
+              userId,
+              title: commandData.title || "New event",
+              startTime: commandData.startTime,
+              endTime: commandData.endTime,
+              isAllDay: commandData.isAllDay ?? false,
+              ...(commandData.location && { location: commandData.location }),
+            })
+          ).unwrap();
+          dispatch(pushHistory(createHistoryEntry("event", event.id, event.title)));
+          return completed(event.id);
+        }
+
+        case "add_expense": {
+          if (!commandData.amount) {
+            return failed("I didn't catch how much you spent.");
+          }
+          const category = commandData.category || "Other";
+          const description =
+            commandData.description || commandData.merchant || category;
+          const expense = await dispatch(
+            createExpense({
+              userId,
+              amount: commandData.amount,
+              category,
+              description,
+              date: formatDateKey(
+                commandData.date ? new Date(commandData.date) : new Date()
+              ),
+            })
+          ).unwrap();
+          if (expense?.id) {
+            dispatch(pushHistory(createHistoryEntry("expense", expense.id, description)));
+          }
+          return completed(expense?.id);
+        }
+
+        case "plan_expense": {
+          if (!commandData.amount) {
+            return failed("I didn't catch how much you're planning to spend.");
+          }
+          const category = commandData.category || "Other";
+          const description =
+            commandData.description || commandData.merchant || category;
+          const planned = await dispatch(
+            createPlannedExpense({
+              amount: commandData.amount,
+              category,
+              description,
+              plannedDate: formatDateKey(
+                commandData.date ? new Date(commandData.date) : new Date()
+              ),
+              priority: "medium",
+            })
+          ).unwrap();
+          if (planned?.id) {
+            dispatch(
+              pushHistory(createHistoryEntry("plannedExpense", planned.id, description))
+            );
+          }
+          return completed(planned?.id);
+        }
+
+        case "navigate": {
+          const screen = commandData.slots.screen;
+          if (!screen) {
+            return failed("I'm not sure which screen you want to open.");
+          }
+          router.push(SCREEN_ROUTES[screen]);
+          return completed();
+        }
+
+        case "query_spending":
+        case "query_schedule":
+          return {
+            status: "success",
+            response: await voiceQueryResponder.answer(commandData, userId, {
+              expenses,
+              plannedExpenses,
+              events,
+            }),
+          };
+
+        case "find_time": {
+          const answer = await voiceQueryResponder.findTime(
+            commandData,
+            events,
+            schedulingPreferences
+          );
+          return {
+            status: "success",
+            response: answer.response,
+            ...(answer.slots.length > 0 && { freeSlots: answer.slots }),
+          };
+        }
+
+        case "undo": {
+          const entry = history[0];
+          if (!entry) {
+            return failed("There's nothing to undo.");
+          }
+          if (entry.type === "create") {
+            await deleteItem(entry.entity, entry.entityId);
+          } else {
+            await updateItem(entry.entity, entry.entityId, entry.previous || {});
+          }
+          dispatch(removeHistoryEntry(entry.id));
+          return {
+            status: "success",
+            response:
+              entry.type === "create"
+                ? `Removed ${entry.label}.`
+                : `Undid the change to ${entry.label}.`,
+            entityId: entry.entityId,
+          };
+        }
+
+        case "correct": {
+          // Corrections apply to the item most recently created or changed by voice
+          const entry = history[0];
+          const item = entry && findItem(entry.entity, entry.entityId);
+          if (!entry || !item) {
+            return failed("I haven't added anything you can change.");
+          }
+          const correction = voiceCorrectionService.buildCorrection(
+            entry.entity,
+            item,
+            commandData
+          );
+          await updateItem(entry.entity, entry.entityId, correction.changes);
+          dispatch(
+            pushHistory(
+              createHistoryEntry(
+                entry.entity,
+                entry.entityId,
+                correction.changes.title || correction.changes.description || entry.label,
+                correction.previous
+              )
+            )
+          );
+          return {
+            status: "success",
+            response: correction.response,
+            entityId: entry.entityId,
+          };
+        }
+
+        default:
+          return {
+            status: "unhandled",
+            response: voiceCommandProcessor.generateResponse(commandData, verbosity),
+          };
+      }
+    },
+    [
+      deleteItem,
+      dispatch,
+      events,
+      expenses,
+      findItem,
+      history,
+      plannedExpenses,
+      schedulingPreferences,
+      updateItem,
+      user?.id,
+    ]
+  );
+
+  const saveOutcome = useCallback(
+    (
+      commandData: VoiceCommandData,
+      transcription: string,
+      outcome: VoiceCommandOutcome,
+      recordingUri?: string
+    ) => {
+      const speech = recordingUri ? voiceService.getSpeechBounds(recordingUri) : undefined;
+      dispatch(
+        recordCommand({
+          id: Date.now().toString(),
+          transcription,
+          response: outcome.response,
+          timestamp: new Date().toISOString(),
+          userId: user?.id || "",
+          action: commandData.action,
+          intent: commandData.intent,
+          status: outcome.status,
+          ...(outcome.entityId && { entityId: outcome.entityId }),
+          ...(recordingUri && { recordingUri }),
+          ...(speech && { speech }),
+        })
+      );
+    },
+    [dispatch, user?.id]
+  );
+
+  const recordOutcome = useCallback(
+    async (
+      commandData: VoiceCommandData,
+      transcription: string,
+      outcome: VoiceCommandOutcome,
+      recordingUri?: string
+    ): Promise<VoiceCommandResult> => {
+      dispatch(setResponse(outcome.response));
+      saveOutcome(commandData, transcription, outcome, recordingUri);
+
+      if (outcome.status === "failed") {
+        await voiceService.speakError(outcome.response);
+      } else if (
+        commandData.intent === "query_spending" ||
+        commandData.intent === "query_schedule" ||
+        commandData.intent === "find_time"
+      ) {
+        // Answers carry figures and times worth hearing clearly
+        await voiceService.speakTextWithEnhancedVolume(outcome.response);
+      } else {
+        await voiceService.speakText(outcome.response);
+      }
+
+      return { command: commandData, ...outcome };
+    },
+    [dispatch, saveOutcome]
+  );
+
+  const completeCommand = useCallback(
+    async (
+      commandData: VoiceCommandData,
+      transcription: string,
+      recordingUri?: string
+    ): Promise<VoiceCommandResult> => {
+      setIsExecuting(true);
+      dispatch(setProcessing(true));
+      let outcome: VoiceCommandOutcome;
+      try {
+        outcome = await performCommand(commandData);
+      } catch (error) {
+        console.error("Voice command failed:", error);
+        outcome = failed(getErrorMessage(error));
+      } finally {
+        setIsExecuting(false);
+        dispatch(setProcessing(false));
+      }
+
+      return recordOutcome(commandData, transcription, outcome, recordingUri);
+    },
+    [dispatch, performCommand, recordOutcome]
+  );
+
+  const runDialogTurn = useCallback(
+    async (
+      turn: VoiceDialogTurn,
+      commandData: VoiceCommandData,
+      transcription: string,
+      recordingUri?: string
+    ): Promise<VoiceCommandResult> => {
+      dispatch(setDialog(turn.state));
+
+      switch (turn.type) {
+        case "ask":
+          dispatch(setResponse(turn.prompt));
+          await voiceService.speakText(turn.prompt);
+          return {
+            command: turn.state.command || commandData,
+            status: "pending",
+            response: turn.prompt,
+          };
+        case "cancel":
+          return recordOutcome(
+            commandData,
+            transcription,
+            { status: "cancelled", response: turn.prompt },
+            recordingUri
+          );
+        case "execute":
+          return completeCommand(turn.command, transcription, recordingUri);
+      }
+    },
+    [completeCommand, dispatch, recordOutcome]
+  );
+
+  /**
+   * Handle a transcription: answer the dialog in progress or start a new
+   * command, asking follow-up questions and a final confirmation before
+   * anything is saved. The recording, when given, is kept in the history
+   * for replay
+   */
+  const executeCommand = useCallback(
+    async (
+      transcription: string,
+      recordingUri?: string
+    ): Promise<VoiceCommandResult> => {
+      const pending = dialog.stage !== "idle" ? dialog.command : null;
+      const commandData =
+        pending || voiceCommandProcessor.processVoiceInput(transcription);
+
+      if (!pending && !voiceDialogManager.needsDialog(commandData)) {
+        return completeCommand(commandData, transcription, recordingUri);
+      }
+
+      const turn = pending
+        ? voiceDialogManager.answer(dialog, transcription)
+        : voiceDialogManager.start(commandData, transcription, recordingUri);
+      const originalTranscription = pending ? dialog.transcription : transcription;
+      const originalRecordingUri = pending
+        ? dialog.recordingUri || undefined
+        : recordingUri;
+      return runDialogTurn(
+        turn,
+        commandData,
+        originalTranscription,
+        originalRecordingUri
+      );
+    },
+    [completeCommand, dialog, runDialogTurn]
+  );
+
+  /**
+   * Carry out a command whose fields were reviewed before submitting. The
+   * review stands in for the spoken confirmation, so only details that are
+   * still missing are asked for
+   */
+  const submitCommand = useCallback(
+    async (
+      commandData: VoiceCommandData,
+      transcription: string,
+      recordingUri?: string
+    ): Promise<VoiceCommandResult> => {
+      if (!voiceDialogManager.getMissingSlot(commandData)) {
+        return completeCommand(commandData, transcription, recordingUri);
+      }
+
+      const turn = voiceDialogManager.start(commandData, transcription, recordingUri);
+      return runDialogTurn(turn, commandData, transcription, recordingUri);
+    },
+    [completeCommand, runDialogTurn]
+  );
+
+  /**
+   * Book one of the free slots a find-time answer offered, as an event named
+   * after what the time was found for
+   */
+  const bookFreeSlot = useCallback(
+    async (
+      command: VoiceCommandData,
+      slot: EventTimeRange
+    ): Promise<VoiceCommandResult> => {
+      const booking: VoiceCommandData = {
+        action: "create_event",
+        intent: "create_event",
+        slots: {},
+        title: command.title || "New event",
+        date: slot.startTime,
+        time: formatTime(new Date(slot.startTime)),
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+        isAllDay: false,
+        confidence: command.confidence,
+      };
+      return completeCommand(booking, command.description || "");
+    },
+    [completeCommand]
+  );
+
+  /**
+   * Carry out a command recorded while offline. Nobody is listening for
+   * follow-up questions, so a command missing details isn't saved, and
+   * navigation is skipped since the moment has passed
+   */
+  const processQueuedCommand = useCallback(
+    async (
+      transcription: string,
+      recordingUri?: string,
+      recordedAt?: Date
+    ): Promise<VoiceCommandResult> => {
+      // "Tomorrow" means the day after the recording, not after the upload
+      const commandData = voiceCommandProcessor.processVoiceInput(transcription, {
+        ...(recordedAt && { now: recordedAt }),
+      });
+      const missingSlot = voiceDialogManager.getMissingSlot(commandData);
+      let outcome: VoiceCommandOutcome;
+
+      if (commandData.intent === "navigate") {
+        outcome = { status: "unhandled", response: "Skipped opening a screen." };
+      } else if (missingSlot) {
+        outcome = failed(MISSING_SLOT_RESPONSES[missingSlot]);
+      } else {
+        try {
+          outcome = await performCommand(commandData);
+        } catch (error) {
+          console.error("Queued voice command failed:", error);
+          outcome = failed(getErrorMessage(error));
+        }
+      }
+
+      saveOutcome(commandData, transcription, outcome, recordingUri);
+      return { command: commandData, ...outcome };
+    },
+    [performCommand, saveOutcome]
+  );
+
+  return {
+    // State
+    isExecuting,
+    dialog,
+
+    // Actions
+    executeCommand,
+    submitCommand,
+    bookFreeSlot,
+    processQueuedCommand,
+  };
+};
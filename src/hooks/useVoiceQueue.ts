@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useRef } from "react";
+import { AppState } from "react-native";
+import { notificationService } from "../services/notificationService";
+import { QueuedRecording, voiceQueueService } from "../services/voiceQueueService";
+import { useAppDispatch, useAppSelector } from "../store";
+import { setQueuedCount } from "../store/slices/voiceSlice";
+import { VoiceCommandResult, useVoiceCommandExecutor } from "./useVoiceCommandExecutor";
+
+// How often to retry while offline recordings are waiting
+const QUEUE_RETRY_INTERVAL = 30000;
+
+const formatRecordedAt = (recording: QueuedRecording): string =>
+  new Date(recording.createdAt).toLocaleTimeString([], {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+const describeResult = (
+  recording: QueuedRecording,
+  transcription: string,
+  result: VoiceCommandResult
+) => ({
+  title: result.status === "failed" ? "Voice command not saved" : "Voice command processed",
+  body: `"${transcription}" (recorded ${formatRecordedAt(recording)}): ${result.response}`,
+});
+
+export const useVoiceQueue = () => {
+  const dispatch = useAppDispatch();
+  const { queuedCount } = useAppSelector((state) => state.voice);
+  const { isAuthenticated } = useAppSelector((state) => state.auth);
+  const { processQueuedCommand } = useVoiceCommandExecutor();
+  const hasQueuedRecordings = queuedCount > 0;
+
+  // The executor changes with the store, the retry timer shouldn't
+  const processRef = useRef(processQueuedCommand);
+  processRef.current = processQueuedCommand;
+
+  const processQueue = useCallback(async () => {
+    try {
+      const result = await voiceQueueService.flush({
+        onTranscribed: async (recording, transcription) => {
+          const commandResult = await processRef.current(
+            transcription,
+            recording.uri,
+            new Date(recording.createdAt)
+          );
+          const notification = describeResult(recording, transcription, commandResult);
+          await notificationService.sendLocalNotification({
+            ...notification,
+            data: { type: "voice_queue", recordingId: recording.id },
+          });
+        },
+        onDiscarded: (recording) => {
+          notificationService.sendLocalNotification({
+            title: "Voice command lost",
+            body: `The command you recorded at ${formatRecordedAt(recording)} couldn't be transcribed.`,
+            data: { type: "voice_queue", recordingId: recording.id },
+          });
+        },
+      });
+      dispatch(setQueuedCount(result.pending));
+    } catch (error) {
+      console.error("Failed to process queued voice commands:", error);
+    }
+  }, [dispatch]);
+
+  // Keep retrying while there are queued recordings
+  useEffect(() => {
+    if (!isAuthenticated || !hasQueuedRecordings) {
+      return;
+    }
+
+    processQueue();
+    const interval = setInterval(processQueue, QUEUE_RETRY_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isAuthenticated, hasQueuedRecordings, processQueue]);
+
+  // Returning to the app is a good moment to try again
+  useEffect(() => {
+    if (!isAuthenticated || !hasQueuedRecordings) {
+      return;
+    }
+
+    const subscription = AppState.addEventListener("change", (status) => {
+      if (status === "active") {
+        processQueue();
+      }
+    });
+    return () => subscription.remove();
+  }, [isAuthenticated, hasQueuedRecordings, processQueue]);
+
+  return {
+    // State
+    queuedCount,
+
+    // Actions
+    processQueue,
+  };
+};
@@ -2,7 +2,8 @@ import { CalendarEventList } from '@/components/calendar/CalendarEventList';
 import { useNotifications } from '@/hooks/useNotifications';
 import { Ionicons } from '@expo/vector-icons';
 import { useFocusEffect } from '@react-navigation/native';
-import React, { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   Alert,
   Animated,
@@ -17,31 +18,114 @@ import {
 import { Calendar, DateData } from 'react-native-calendars';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { AddEventForm } from '../../components/calendar/AddEventForm';
+import { AgendaList } from '../../components/calendar/AgendaList';
+import { CalendarTimeline } from '../../components/calendar/CalendarTimeline';
+import { FindTimeView } from '../../components/calendar/FindTimeView';
 import { LoadingScreen } from '../../components/ui/LoadingScreen';
+import { useCalendarTransfer } from '../../hooks/useCalendarTransfer';
 import { useEventNotifications } from '../../hooks/useEventNotifications';
 import { useAppDispatch, useAppSelector } from '../../store';
 import {
   CalendarEvent,
+  CalendarViewMode,
   createEvent,
   CreateEventData,
-  deleteEvent,
   fetchEvents,
-  setSelectedDate
+  setSelectedDate,
+  setViewMode,
+  updateEvent
 } from '../../store/slices/calendarSlice';
-import { endOfMonth, formatDate, startOfMonth } from '../../utils/dateTime';
+import {
+  addDays,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  formatDate,
+  formatDateKey,
+  parseDateKey,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from '../../utils/dateTime';
+import { EventTimeRange, findConflicts } from '../../utils/eventConflicts';
+import { expandRecurringEvents } from '../../utils/rrule';
+
+const VIEW_MODES: { mode: CalendarViewMode; label: string }[] = [
+  { mode: 'month', label: 'Month' },
+  { mode: 'week', label: 'Week' },
+  { mode: 'day', label: 'Day' },
+  { mode: 'agenda', label: 'Agenda' },
+];
+
+// Days the agenda loads at a time as it is scrolled
+const AGENDA_PAGE_DAYS = 30;
+
+// The stretch of time a view shows around the selected day
+const getViewRange = (
+  viewMode: CalendarViewMode,
+  selectedDate: string,
+  visibleMonth: Date,
+  agendaDays: number
+): { start: Date; end: Date } => {
+  const day = parseDateKey(selectedDate);
+  switch (viewMode) {
+    case 'day':
+      return { start: startOfDay(day), end: endOfDay(day) };
+    case 'week':
+      return { start: startOfWeek(day), end: endOfWeek(day) };
+    case 'agenda':
+      return { start: startOfDay(day), end: endOfDay(addDays(day, agendaDays - 1)) };
+    default:
+      return { start: startOfMonth(visibleMonth), end: endOfMonth(visibleMonth) };
+  }
+};
 
 export const CalendarScreen: React.FC = () => {
+  const router = useRouter();
   const dispatch = useAppDispatch();
-  const { events = [], isLoading = false } = useAppSelector(state => state.calendar);
+  const {
+    events = [],
+    isLoading = false,
+    selectedDate: storedSelectedDate,
+    viewMode,
+  } = useAppSelector(state => state.calendar);
   const { user } = useAppSelector(state => state.auth);
 
   const [showAddModal, setShowAddModal] = useState(false);
+  const [showFindTime, setShowFindTime] = useState(false);
+  const [newEventSlot, setNewEventSlot] = useState<EventTimeRange | null>(null);
   const [selectedDateEvents, setSelectedDateEvents] = useState<CalendarEvent[]>([]);
   const [markedDates, setMarkedDates] = useState<{ [key: string]: any }>({});
-  const [selectedDate, setLocalSelectedDate] = useState<string>(new Date().toISOString().split('T')[0]);
+  const selectedDate = storedSelectedDate || formatDateKey(new Date());
+  const [visibleMonth, setVisibleMonth] = useState<Date>(() => parseDateKey(selectedDate));
+  const [agendaDays, setAgendaDays] = useState(AGENDA_PAGE_DAYS);
   const [fadeAnim] = useState(new Animated.Value(0));
   const [slideAnim] = useState(new Animated.Value(50));
   const { sendLocalNotification } = useNotifications();
+  const { exportEvents, importEvents, isExporting, isImporting } = useCalendarTransfer();
+
+  const visibleRange = useMemo(
+    () => getViewRange(viewMode, selectedDate, visibleMonth, agendaDays),
+    [viewMode, selectedDate, visibleMonth, agendaDays]
+  );
+  const visibleRangeRef = useRef(visibleRange);
+  visibleRangeRef.current = visibleRange;
+
+  // Recurring events are stored once and expanded for the visible range
+  const expandedEvents = useMemo(
+    () => expandRecurringEvents(
+      Array.isArray(events) ? events : [],
+      visibleRange.start,
+      visibleRange.end
+    ),
+    [events, visibleRange]
+  );
+
+  const timelineDays = useMemo(() => {
+    if (viewMode === 'day') return [parseDateKey(selectedDate)];
+    const weekStart = startOfWeek(parseDateKey(selectedDate));
+    return Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+  }, [viewMode, selectedDate]);
 
   // Use the new event notifications hook
   const { scheduledCount } = useEventNotifications({ events });
@@ -64,13 +148,12 @@ export const CalendarScreen: React.FC = () => {
 
 
 
-  // Function to load events for current month
-  const loadCurrentMonthEvents = useCallback(async () => {
-    const start = startOfMonth(new Date());
-    const end = endOfMonth(new Date());
+  // Function to load events for the range the current view shows
+  const loadVisibleEvents = useCallback(async () => {
+    const { start, end } = visibleRangeRef.current;
 
     try {
-      console.log("Loading current month events...");
+      console.log("Loading visible events...");
       console.log("Date range:", {
         start: start.toISOString(),
         end: end.toISOString()
@@ -95,7 +178,7 @@ export const CalendarScreen: React.FC = () => {
       console.log("CalendarScreen focused - refetching events");
       // Add timeout to prevent blocking UI
       const timeoutId = setTimeout(() => {
-        loadCurrentMonthEvents().catch(error => {
+        loadVisibleEvents().catch(error => {
           console.warn('Focus effect event loading failed:', error);
         });
       }, 100);
@@ -103,7 +186,7 @@ export const CalendarScreen: React.FC = () => {
       return () => {
         clearTimeout(timeoutId);
       };
-    }, [loadCurrentMonthEvents])
+    }, [loadVisibleEvents])
   );
 
   // Update marked dates when events change
@@ -111,8 +194,8 @@ export const CalendarScreen: React.FC = () => {
     try {
       const marked: { [key: string]: any } = {};
 
-      if (events && Array.isArray(events)) {
-        events.forEach(event => {
+      if (expandedEvents && Array.isArray(expandedEvents)) {
+        expandedEvents.forEach(event => {
           if (event && event.startTime) {
             try {
               const startTime = new Date(event.startTime);
@@ -154,14 +237,14 @@ export const CalendarScreen: React.FC = () => {
         }
       });
     }
-  }, [events]);
+  }, [expandedEvents]);
 
   // Update selected date events when selected date changes
   useEffect(() => {
     try {
       if (selectedDate) {
-        const selectedDateObj = new Date(selectedDate);
-        const filteredEvents = events && Array.isArray(events) ? events.filter(event => {
+        const selectedDateObj = parseDateKey(selectedDate);
+        const filteredEvents = expandedEvents && Array.isArray(expandedEvents) ? expandedEvents.filter(event => {
           if (event && event.startTime) {
             try {
               const eventDate = new Date(event.startTime);
@@ -185,10 +268,18 @@ export const CalendarScreen: React.FC = () => {
       console.error('Error filtering selected date events:', error);
       setSelectedDateEvents([]);
     }
-  }, [selectedDate, events]);
+  }, [selectedDate, expandedEvents]);
+
+  const loadRange = (range: { start: Date; end: Date }, append = false) => {
+    dispatch(fetchEvents({
+      startTime: range.start.toISOString(),
+      endTime: range.end.toISOString(),
+      ...(append && { append }),
+    }));
+  };
 
   const handleDayPress = (day: DateData) => {
-    setLocalSelectedDate(day.dateString);
+    setVisibleMonth(new Date(day.timestamp));
     dispatch(setSelectedDate(day.dateString));
     // fetch events for the selected date
     const start = startOfMonth(new Date(day.dateString));
@@ -201,6 +292,7 @@ export const CalendarScreen: React.FC = () => {
   };
 
   const handleMonthChange = (month: DateData) => {
+    setVisibleMonth(new Date(month.timestamp));
     const start = startOfMonth(new Date(month.timestamp));
     const end = endOfMonth(new Date(month.timestamp));
 
@@ -210,6 +302,45 @@ export const CalendarScreen: React.FC = () => {
     }));
   };
 
+  const handleViewModeChange = (mode: CalendarViewMode) => {
+    if (mode === viewMode) return;
+    dispatch(setViewMode(mode));
+    setAgendaDays(AGENDA_PAGE_DAYS);
+    loadRange(getViewRange(mode, selectedDate, visibleMonth, AGENDA_PAGE_DAYS));
+  };
+
+  // Select another day in the day and week views, keeping the month in step
+  const selectDate = (dateKey: string) => {
+    const date = parseDateKey(dateKey);
+    dispatch(setSelectedDate(dateKey));
+    setVisibleMonth(date);
+    const range = getViewRange(viewMode, dateKey, date, agendaDays);
+    if (range.start < visibleRange.start || range.end > visibleRange.end) {
+      loadRange(range);
+    }
+  };
+
+  const handleStep = (direction: 1 | -1) => {
+    const step = viewMode === 'week' ? 7 : 1;
+    selectDate(formatDateKey(addDays(parseDateKey(selectedDate), step * direction)));
+  };
+
+  const handleWeekDayPress = (dateKey: string) => {
+    dispatch(setSelectedDate(dateKey));
+    dispatch(setViewMode('day'));
+  };
+
+  // Grow the agenda by another page, keeping what is already loaded
+  const handleAgendaEndReached = () => {
+    if (isLoading) return;
+    const start = parseDateKey(selectedDate);
+    setAgendaDays(days => days + AGENDA_PAGE_DAYS);
+    loadRange({
+      start: addDays(start, agendaDays),
+      end: endOfDay(addDays(start, agendaDays + AGENDA_PAGE_DAYS - 1)),
+    }, true);
+  };
+
   const handleAddEvent = async (eventData: CreateEventData) => {
     try {
       eventData.userId = user?.id || '';
@@ -217,46 +348,82 @@ export const CalendarScreen: React.FC = () => {
       console.log("event data 123 => ", eventData);
 
       await dispatch(createEvent(eventData)).unwrap();
-      setShowAddModal(false);
+      handleCloseAddModal();
       Alert.alert('Success', 'Event created successfully!');
     } catch (error: any) {
       Alert.alert('Error', error.message || 'Failed to create event');
     }
   };
 
-  const handleDeleteEvent = async (eventId: string) => {
+  const handleCloseAddModal = () => {
+    setShowAddModal(false);
+    setNewEventSlot(null);
+  };
+
+  // A free slot picked in Find Time opens a new event already at that time
+  const handleSelectFreeSlot = (slot: EventTimeRange) => {
+    setShowFindTime(false);
+    setNewEventSlot(slot);
+    setShowAddModal(true);
+  };
+
+  // Events dragged on the timeline move straight away and move back if the
+  // update is rejected
+  const handleTimelineChange = async (event: CalendarEvent, range: EventTimeRange) => {
+    const conflicts = findConflicts(range, events, { excludeEventId: event.id });
+    const update = dispatch(updateEvent({ id: event.id, ...range }));
+
+    if (conflicts.length > 0) {
+      Alert.alert(
+        'Overlapping Events',
+        `${event.title} now overlaps ${conflicts.map(conflict => conflict.title).join(', ')}`
+      );
+    }
+
     try {
-      await dispatch(deleteEvent(eventId)).unwrap();
-      Alert.alert('Success', 'Event deleted successfully!');
+      await update.unwrap();
     } catch (error: any) {
-      Alert.alert('Error', error.message || 'Failed to delete event');
+      Alert.alert('Error', error.message || 'Failed to reschedule event');
     }
   };
 
   const handleEventPress = (event: CalendarEvent) => {
-    Alert.alert(
-      event.title,
-      `Time: ${formatDate(new Date(event.startTime), 'datetime')}\n${event.description || ''}`,
-      [
-        { text: 'Cancel', style: 'cancel' },
-        {
-          text: 'Delete',
-          style: 'destructive',
-          onPress: () => handleDeleteEvent(event.id),
-        },
-      ]
-    );
+    router.push({ pathname: '/event/[id]', params: { id: event.id } });
   };
 
-  const handleRefresh = () => {
-    // fetch events for the selected date
-    const start = startOfMonth(new Date(selectedDate));
-    const end = endOfMonth(new Date(selectedDate));
+  const handleExportEvents = async () => {
+    try {
+      const count = await exportEvents({
+        startDate: startOfMonth(visibleMonth).toISOString(),
+        endDate: endOfMonth(visibleMonth).toISOString(),
+      });
+      if (count === 0) {
+        Alert.alert('Export', 'There are no events to export this month');
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to export events');
+    }
+  };
 
-    dispatch(fetchEvents({
-      startTime: start.toISOString(),
-      endTime: end.toISOString(),
-    }));
+  const handleImportEvents = async () => {
+    try {
+      const result = await importEvents();
+      if (!result) return;
+
+      const details = [
+        `${result.imported} event${result.imported !== 1 ? 's' : ''} imported`,
+        result.duplicates > 0 && `${result.duplicates} already in your calendar`,
+        result.failed > 0 && `${result.failed} failed`,
+      ].filter(Boolean).join('\n');
+
+      Alert.alert('Import Complete', details);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to import events');
+    }
+  };
+
+  const handleRefresh = () => {
+    loadRange(visibleRange);
   };
 
   const calendarTheme = {
@@ -338,6 +505,29 @@ export const CalendarScreen: React.FC = () => {
               >
                 <Ionicons name="notifications" size={18} color="#FFFFFF" />
               </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.testButton}
+                onPress={() => setShowFindTime(true)}
+                accessibilityLabel="Find a free time"
+              >
+                <Ionicons name="time-outline" size={18} color="#FFFFFF" />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.testButton}
+                onPress={handleImportEvents}
+                disabled={isImporting}
+                accessibilityLabel="Import events from .ics file"
+              >
+                <Ionicons name="download-outline" size={18} color="#FFFFFF" />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.testButton}
+                onPress={handleExportEvents}
+                disabled={isExporting}
+                accessibilityLabel="Export this month as .ics file"
+              >
+                <Ionicons name="share-outline" size={18} color="#FFFFFF" />
+              </TouchableOpacity>
               <TouchableOpacity
                 style={styles.addButton}
                 onPress={() => setShowAddModal(true)}
@@ -348,51 +538,120 @@ export const CalendarScreen: React.FC = () => {
             </View>
           </View>
 
-          <ScrollView
-            style={styles.scrollView}
-            contentContainerStyle={styles.scrollContent}
-            showsVerticalScrollIndicator={false}
-          >
-            <View style={styles.calendarContainer}>
-              <View style={styles.calendarWrapper}>
-                <Calendar
-                  onDayPress={handleDayPress}
-                  onMonthChange={handleMonthChange}
-                  markedDates={markedDates}
-                  markingType={'dot'}
-                  theme={calendarTheme}
-                />
-              </View>
-            </View>
+          <View style={styles.viewModes}>
+            {VIEW_MODES.map(({ mode, label }) => (
+              <TouchableOpacity
+                key={mode}
+                style={[styles.viewModeButton, viewMode === mode && styles.viewModeButtonActive]}
+                onPress={() => handleViewModeChange(mode)}
+              >
+                <Text style={[styles.viewModeText, viewMode === mode && styles.viewModeTextActive]}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
 
-            <View style={styles.eventsContainer}>
-              <View style={styles.eventsHeader}>
-                <View style={styles.eventsTitleContainer}>
-                  <Text style={styles.eventsTitle}>
-                    {selectedDate ? formatDate(new Date(selectedDate), 'long') : 'Today'}
-                  </Text>
-                  <Text style={styles.eventsSubtitle}>Your scheduled events</Text>
-                </View>
-                <View style={styles.eventsCountContainer}>
-                  <Text style={styles.eventsCount}>
-                    {selectedDateEvents.length} event{selectedDateEvents.length !== 1 ? 's' : ''}
+          {(viewMode === 'day' || viewMode === 'week') && (
+            <View style={styles.viewBody}>
+              <View style={styles.dateNavigation}>
+                <TouchableOpacity
+                  style={styles.dateNavigationButton}
+                  onPress={() => handleStep(-1)}
+                  accessibilityLabel={viewMode === 'week' ? 'Previous week' : 'Previous day'}
+                >
+                  <Ionicons name="chevron-back" size={20} color="#FFFFFF" />
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => selectDate(formatDateKey(new Date()))}>
+                  <Text style={styles.dateNavigationTitle}>
+                    {viewMode === 'week'
+                      ? `${formatDate(visibleRange.start)} - ${formatDate(visibleRange.end)}`
+                      : formatDate(parseDateKey(selectedDate), 'long')}
                   </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.dateNavigationButton}
+                  onPress={() => handleStep(1)}
+                  accessibilityLabel={viewMode === 'week' ? 'Next week' : 'Next day'}
+                >
+                  <Ionicons name="chevron-forward" size={20} color="#FFFFFF" />
+                </TouchableOpacity>
+              </View>
+
+              <CalendarTimeline
+                key={viewMode}
+                days={timelineDays}
+                events={expandedEvents}
+                selectedDate={selectedDate}
+                onEventPress={handleEventPress}
+                onDayPress={handleWeekDayPress}
+                onEventChange={handleTimelineChange}
+              />
+            </View>
+          )}
+
+          {viewMode === 'agenda' && (
+            <View style={styles.viewBody}>
+              <AgendaList
+                events={expandedEvents}
+                startDate={selectedDate}
+                onEventPress={handleEventPress}
+                onEndReached={handleAgendaEndReached}
+                onRefresh={handleRefresh}
+                refreshing={isLoading}
+                loadingMore={isLoading && agendaDays > AGENDA_PAGE_DAYS}
+              />
+            </View>
+          )}
+
+          {viewMode === 'month' && (
+            <ScrollView
+              style={styles.scrollView}
+              contentContainerStyle={styles.scrollContent}
+              showsVerticalScrollIndicator={false}
+            >
+              <View style={styles.calendarContainer}>
+                <View style={styles.calendarWrapper}>
+                  <Calendar
+                    current={selectedDate}
+                    onDayPress={handleDayPress}
+                    onMonthChange={handleMonthChange}
+                    markedDates={markedDates}
+                    markingType={'dot'}
+                    theme={calendarTheme}
+                  />
                 </View>
               </View>
 
-              <View style={styles.eventsListContainer}>
-                <CalendarEventList
-                  events={selectedDateEvents || []}
-                  onEventPress={handleEventPress}
-                  onRefresh={handleRefresh}
-                  refreshing={isLoading}
-                  emptyMessage="No events scheduled for this day"
-                  showDateHeaders={false}
-                  useScrollView={true}
-                />
+              <View style={styles.eventsContainer}>
+                <View style={styles.eventsHeader}>
+                  <View style={styles.eventsTitleContainer}>
+                    <Text style={styles.eventsTitle}>
+                      {formatDate(parseDateKey(selectedDate), 'long')}
+                    </Text>
+                    <Text style={styles.eventsSubtitle}>Your scheduled events</Text>
+                  </View>
+                  <View style={styles.eventsCountContainer}>
+                    <Text style={styles.eventsCount}>
+                      {selectedDateEvents.length} event{selectedDateEvents.length !== 1 ? 's' : ''}
+                    </Text>
+                  </View>
+                </View>
+
+                <View style={styles.eventsListContainer}>
+                  <CalendarEventList
+                    events={selectedDateEvents || []}
+                    onEventPress={handleEventPress}
+                    onRefresh={handleRefresh}
+                    refreshing={isLoading}
+                    emptyMessage="No events scheduled for this day"
+                    showDateHeaders={false}
+                    useScrollView={true}
+                  />
+                </View>
               </View>
-            </View>
-          </ScrollView>
+            </ScrollView>
+          )}
         </Animated.View>
       </SafeAreaView>
 
@@ -403,9 +662,22 @@ export const CalendarScreen: React.FC = () => {
       >
         <AddEventForm
           onSubmit={handleAddEvent}
-          onCancel={() => setShowAddModal(false)}
+          onCancel={handleCloseAddModal}
           loading={isLoading}
-          initialDate={selectedDate ? new Date(selectedDate) : new Date()}
+          initialDate={parseDateKey(selectedDate)}
+          {...(newEventSlot && { initialValues: newEventSlot })}
+        />
+      </Modal>
+
+      <Modal
+        visible={showFindTime}
+        animationType="slide"
+        presentationStyle="pageSheet"
+      >
+        <FindTimeView
+          initialDate={parseDateKey(selectedDate)}
+          onSelectSlot={handleSelectFreeSlot}
+          onClose={() => setShowFindTime(false)}
         />
       </Modal>
     </View>
@@ -543,6 +815,50 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     marginLeft: 8,
   },
+  viewModes: {
+    flexDirection: 'row',
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 12,
+    padding: 4,
+    marginBottom: 16,
+  },
+  viewModeButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  viewModeButtonActive: {
+    backgroundColor: '#6366F1',
+  },
+  viewModeText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#9CA3AF',
+  },
+  viewModeTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  viewBody: {
+    flex: 1,
+  },
+  dateNavigation: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  dateNavigationButton: {
+    padding: 8,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  dateNavigationTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
   calendarContainer: {
     marginBottom: 20,
   },
@@ -0,0 +1,131 @@
+import { useRouter } from 'expo-router';
+import React, { useState } from 'react';
+import { Alert, StyleSheet, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { AddEventForm } from '../../components/calendar/AddEventForm';
+import { RecurrenceScopeModal } from '../../components/calendar/RecurrenceScopeModal';
+import { Button } from '../../components/ui/Button';
+import { LoadingScreen } from '../../components/ui/LoadingScreen';
+import { useCalendarEvent } from '../../hooks/useCalendarEvent';
+import { useAppDispatch, useAppSelector } from '../../store';
+import {
+  CreateEventData,
+  RecurrenceEditScope,
+  updateEvent,
+  updateRecurringEvent
+} from '../../store/slices/calendarSlice';
+
+interface EditEventScreenProps {
+  eventId: string;
+}
+
+export const EditEventScreen: React.FC<EditEventScreenProps> = ({ eventId }) => {
+  const router = useRouter();
+  const dispatch = useAppDispatch();
+  const { event, isLoading } = useCalendarEvent(eventId);
+  const { isLoading: isSaving } = useAppSelector(state => state.calendar);
+  // Changes to an occurrence wait here until the user picks which events they apply to
+  const [pendingChanges, setPendingChanges] = useState<CreateEventData | null>(null);
+
+  const handleClose = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)/calendar');
+    }
+  };
+
+  const handleSubmit = async (eventData: CreateEventData) => {
+    if (!event) return;
+
+    if (event.recurringEventId) {
+      setPendingChanges(eventData);
+      return;
+    }
+
+    try {
+      await dispatch(updateEvent({ ...eventData, id: event.id })).unwrap();
+      handleClose();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to update event');
+    }
+  };
+
+  const handleScopeSelect = async (scope: RecurrenceEditScope) => {
+    if (!event || !pendingChanges) return;
+
+    const changes = pendingChanges;
+    setPendingChanges(null);
+    try {
+      await dispatch(updateRecurringEvent({ occurrence: event, changes, scope })).unwrap();
+      handleClose();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to update event');
+    }
+  };
+
+  if (!event && isLoading) {
+    return <LoadingScreen message="Loading event..." />;
+  }
+
+  if (!event) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.notFound}>
+          <Text style={styles.notFoundTitle}>Event not found</Text>
+          <Button title="Back to Calendar" onPress={handleClose} variant="outline" size="small" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <AddEventForm
+        onSubmit={handleSubmit}
+        onCancel={handleClose}
+        loading={isSaving}
+        initialValues={{
+          userId: event.userId,
+          title: event.title,
+          description: event.description || '',
+          location: event.location || '',
+          startTime: event.startTime,
+          endTime: event.endTime,
+          isAllDay: event.isAllDay,
+          ...(event.color && { color: event.color }),
+          ...(event.recurrenceRule && { recurrenceRule: event.recurrenceRule }),
+        }}
+        title="Edit Event"
+        submitTitle="Save Changes"
+        eventId={event.recurringEventId || event.id}
+      />
+
+      <RecurrenceScopeModal
+        visible={pendingChanges !== null}
+        action="edit"
+        onSelect={handleScopeSelect}
+        onCancel={() => setPendingChanges(null)}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0F0F0F',
+  },
+  notFound: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+    gap: 16,
+  },
+  notFoundTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
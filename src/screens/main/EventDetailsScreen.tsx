@@ -0,0 +1,461 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { RecurrenceScopeModal } from '../../components/calendar/RecurrenceScopeModal';
+import { Button } from '../../components/ui/Button';
+import { LoadingScreen } from '../../components/ui/LoadingScreen';
+import { useCalendarEvent } from '../../hooks/useCalendarEvent';
+import { expenseService, Expense } from '../../services/expenseService';
+import { EventReminder, notificationService } from '../../services/notificationService';
+import { useAppDispatch } from '../../store';
+import {
+  CalendarEvent,
+  deleteEvent,
+  deleteRecurringEvent,
+  RecurrenceEditScope
+} from '../../store/slices/calendarSlice';
+import {
+  formatDate,
+  formatDuration,
+  formatTimeRange,
+  getDurationInMinutes,
+  isSameDay
+} from '../../utils/dateTime';
+import { describeRRule } from '../../utils/rrule';
+
+interface EventDetailsScreenProps {
+  eventId: string;
+}
+
+const describeEventTime = (event: CalendarEvent): string => {
+  const start = new Date(event.startTime);
+  const end = new Date(event.endTime);
+
+  if (event.isAllDay) {
+    // All-day events end at the start of the day after their last
+    const lastDay = new Date(end.getTime() - 1);
+    return isSameDay(start, lastDay) || lastDay < start
+      ? `${formatDate(start, 'long')} • All day`
+      : `${formatDate(start, 'long')} - ${formatDate(lastDay, 'long')}`;
+  }
+
+  if (isSameDay(start, end)) {
+    return `${formatDate(start, 'long')}\n${formatTimeRange(start, end)}`;
+  }
+  return `${formatDate(start, 'datetime')} - ${formatDate(end, 'datetime')}`;
+};
+
+export const EventDetailsScreen: React.FC<EventDetailsScreenProps> = ({ eventId }) => {
+  const router = useRouter();
+  const dispatch = useAppDispatch();
+  const { event, isLoading, error } = useCalendarEvent(eventId);
+
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [expensesLoading, setExpensesLoading] = useState(false);
+  const [expensesError, setExpensesError] = useState<string | null>(null);
+  const [reminders, setReminders] = useState<EventReminder[]>([]);
+  const [showDeleteScope, setShowDeleteScope] = useState(false);
+
+  // Expenses are linked to the series rather than a single occurrence
+  const linkedEventId = event ? event.recurringEventId || event.id : null;
+
+  useEffect(() => {
+    if (!linkedEventId) return;
+
+    let cancelled = false;
+    setExpensesLoading(true);
+    setExpensesError(null);
+    expenseService
+      .findByEvent(linkedEventId)
+      .then(result => !cancelled && setExpenses(result))
+      .catch((loadError: any) => !cancelled && setExpensesError(loadError.message))
+      .finally(() => !cancelled && setExpensesLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [linkedEventId]);
+
+  // Reminders move with the event, so look them up again when it does
+  const reminderEventId = event?.id;
+  const reminderStartTime = event?.startTime;
+  useEffect(() => {
+    if (!reminderEventId) return;
+
+    let cancelled = false;
+    notificationService
+      .getEventReminders(reminderEventId)
+      .then(result => !cancelled && setReminders(result))
+      .catch(() => !cancelled && setReminders([]));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [reminderEventId, reminderStartTime]);
+
+  const handleBack = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)/calendar');
+    }
+  };
+
+  const handleDelete = () => {
+    if (!event) return;
+
+    if (event.recurringEventId) {
+      setShowDeleteScope(true);
+      return;
+    }
+
+    Alert.alert('Delete Event', `Delete "${event.title}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await dispatch(deleteEvent(event.id)).unwrap();
+            handleBack();
+          } catch (deleteError: any) {
+            Alert.alert('Error', deleteError.message || 'Failed to delete event');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleDeleteScope = async (scope: RecurrenceEditScope) => {
+    if (!event) return;
+
+    setShowDeleteScope(false);
+    try {
+      await dispatch(deleteRecurringEvent({ occurrence: event, scope })).unwrap();
+      handleBack();
+    } catch (deleteError: any) {
+      Alert.alert('Error', deleteError.message || 'Failed to delete event');
+    }
+  };
+
+  if (!event && isLoading) {
+    return <LoadingScreen message="Loading event..." />;
+  }
+
+  if (!event) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.notFound}>
+          <Ionicons name="calendar-outline" size={48} color="#6B7280" />
+          <Text style={styles.notFoundTitle}>Event not found</Text>
+          <Text style={styles.notFoundText}>
+            {error || 'It may have been deleted or moved.'}
+          </Text>
+          <Button title="Back to Calendar" onPress={handleBack} variant="outline" size="small" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const color = event.color || '#6366F1';
+  const duration = getDurationInMinutes(new Date(event.startTime), new Date(event.endTime));
+  const expensesTotal = expenses.reduce((total, expense) => total + Number(expense.amount), 0);
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor="transparent" translucent />
+
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.headerButton} onPress={handleBack} accessibilityLabel="Back">
+            <Ionicons name="chevron-back" size={22} color="#FFFFFF" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Event Details</Text>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={() => router.push({ pathname: '/event/[id]/edit', params: { id: event.id } })}
+            accessibilityLabel="Edit event"
+          >
+            <Ionicons name="create-outline" size={20} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+          <View style={[styles.titleCard, { borderLeftColor: color }]}>
+            <Text style={styles.title}>{event.title}</Text>
+            <Text style={styles.time}>{describeEventTime(event)}</Text>
+            {!event.isAllDay && duration > 0 && (
+              <Text style={styles.duration}>{formatDuration(duration)}</Text>
+            )}
+            {event.recurrenceRule && (
+              <View style={styles.row}>
+                <Ionicons name="repeat" size={16} color="#9CA3AF" />
+                <Text style={styles.rowText}>{describeRRule(event.recurrenceRule)}</Text>
+              </View>
+            )}
+            {event.pendingSync && (
+              <View style={styles.row}>
+                <Ionicons name="cloud-offline-outline" size={16} color="#F59E0B" />
+                <Text style={styles.pendingText}>Waiting to sync</Text>
+              </View>
+            )}
+          </View>
+
+          {!!event.location && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Location</Text>
+              <View style={styles.row}>
+                <Ionicons name="location-outline" size={18} color="#6366F1" />
+                <Text style={styles.sectionText}>{event.location}</Text>
+              </View>
+            </View>
+          )}
+
+          {!!event.description && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Description</Text>
+              <Text style={styles.sectionText}>{event.description}</Text>
+            </View>
+          )}
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Reminders</Text>
+            {reminders.length === 0 ? (
+              <Text style={styles.emptyText}>No reminders scheduled</Text>
+            ) : (
+              reminders.map(reminder => (
+                <View key={reminder.id} style={styles.row}>
+                  <Ionicons
+                    name={reminder.type === 'start' ? 'notifications-outline' : 'alarm-outline'}
+                    size={18}
+                    color="#6366F1"
+                  />
+                  <Text style={styles.sectionText}>
+                    {reminder.type === 'start' ? 'When it starts' : 'Before it starts'} •{' '}
+                    {formatDate(new Date(reminder.remindAt), 'datetime')}
+                  </Text>
+                </View>
+              ))
+            )}
+          </View>
+
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Linked Expenses</Text>
+              {expenses.length > 0 && (
+                <Text style={styles.expensesTotal}>
+                  {expenseService.formatCurrency(expensesTotal)}
+                </Text>
+              )}
+            </View>
+            {expensesLoading ? (
+              <ActivityIndicator color="#6366F1" />
+            ) : expensesError ? (
+              <Text style={styles.emptyText}>{expensesError}</Text>
+            ) : expenses.length === 0 ? (
+              <Text style={styles.emptyText}>No expenses linked to this event</Text>
+            ) : (
+              expenses.map(expense => (
+                <View key={expense.id} style={styles.expenseRow}>
+                  <View style={styles.expenseInfo}>
+                    <Text style={styles.expenseDescription} numberOfLines={1}>
+                      {expense.description || expense.category}
+                    </Text>
+                    <Text style={styles.expenseCategory}>{expense.category}</Text>
+                  </View>
+                  <Text style={styles.expenseAmount}>
+                    {expenseService.formatCurrency(Number(expense.amount))}
+                  </Text>
+                </View>
+              ))
+            )}
+          </View>
+
+          <Button
+            title="Delete Event"
+            onPress={handleDelete}
+            variant="outline"
+            style={styles.deleteButton}
+            textStyle={styles.deleteButtonText}
+          />
+        </ScrollView>
+      </SafeAreaView>
+
+      <RecurrenceScopeModal
+        visible={showDeleteScope}
+        action="delete"
+        onSelect={handleDeleteScope}
+        onCancel={() => setShowDeleteScope(false)}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0A0A0A',
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  headerButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+    borderRadius: 12,
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  titleCard: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    borderLeftWidth: 4,
+    padding: 20,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+    marginBottom: 8,
+  },
+  time: {
+    fontSize: 16,
+    color: '#D1D5DB',
+    lineHeight: 22,
+  },
+  duration: {
+    fontSize: 14,
+    color: '#6366F1',
+    fontWeight: '500',
+    marginTop: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  rowText: {
+    fontSize: 14,
+    color: '#9CA3AF',
+  },
+  pendingText: {
+    fontSize: 14,
+    color: '#F59E0B',
+  },
+  section: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    padding: 16,
+    marginBottom: 16,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#9CA3AF',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 4,
+  },
+  sectionText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#FFFFFF',
+    lineHeight: 22,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  expensesTotal: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6366F1',
+  },
+  expenseRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.06)',
+  },
+  expenseInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  expenseDescription: {
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  expenseCategory: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 2,
+  },
+  expenseAmount: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  deleteButton: {
+    borderColor: '#EF4444',
+    marginTop: 8,
+  },
+  deleteButtonText: {
+    color: '#EF4444',
+  },
+  notFound: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+    gap: 12,
+  },
+  notFoundTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  notFoundText: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+});
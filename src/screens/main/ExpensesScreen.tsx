@@ -1,5 +1,5 @@
 import { Ionicons } from '@expo/vector-icons';
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   Alert,
   Animated,
@@ -14,9 +14,14 @@ import {
   TouchableOpacity,
   View,
 } from 'react-native';
+import { CsvImportWizard } from '../../components/expenses/CsvImportWizard';
 import { useAuth } from '../../contexts/AuthContext';
+import { useCategoryBudgets } from '../../hooks/useCategoryBudgets';
 import { usePlannedExpenses } from '../../hooks/usePlannedExpenses';
-import { CreatePlannedExpenseDto, Expense, ExpenseCategory, ExpenseFilters, ExpenseFormData, expenseService, ExpenseStats, FormErrors, PlannedExpense } from '../../services/expenseService';
+import { CategoryBudgetProgress, CategoryBudgets, CreatePlannedExpenseDto, Expense, ExpenseCategory, ExpenseFilters, ExpenseFormData, expenseService, ExpenseStats, FormErrors, PlannedExpense } from '../../services/expenseService';
+import { RecurrenceFrequency, RecurrenceRule } from '../../types';
+import { isValidDateKey } from '../../utils/dateTime';
+import { DEFAULT_RECURRENCE_RULE, describeRecurrence } from '../../utils/recurrence';
 
 // Import planned expense types from service
 
@@ -28,9 +33,16 @@ export interface PlannedExpenseFormData {
   plannedDate: string;
   priority: 'low' | 'medium' | 'high';
   isRecurring?: boolean;
+  recurrenceFrequency: RecurrenceFrequency;
+  recurrenceInterval: string;
+  recurrenceEnd: 'never' | 'date' | 'count';
+  recurrenceEndDate: string;
+  recurrenceCount: string;
   notes?: string;
 }
 
+const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['daily', 'weekly', 'monthly', 'yearly'];
+
 const ExpensesScreen: React.FC = () => {
   const { user } = useAuth();
   const [expenses, setExpenses] = useState<Expense[]>([]);
@@ -61,6 +73,7 @@ const ExpensesScreen: React.FC = () => {
   const [showPlannedExpenses, setShowPlannedExpenses] = useState(false);
   const [showAddPlannedModal, setShowAddPlannedModal] = useState(false);
   const [showConvertModal, setShowConvertModal] = useState(false);
+  const [showImportWizard, setShowImportWizard] = useState(false);
   const [selectedExpenseForConversion, setSelectedExpenseForConversion] = useState<PlannedExpense | null>(null);
   const [conversionDate, setConversionDate] = useState(new Date().toISOString().split('T')[0]);
   const [conversionNotes, setConversionNotes] = useState('');
@@ -78,6 +91,32 @@ const ExpensesScreen: React.FC = () => {
     clearPlannedExpenseError,
   } = usePlannedExpenses();
 
+  // Monthly category budgets
+  const { budgets, getCategoryBudgets, setCategoryBudget } = useCategoryBudgets();
+  const [budgetCategory, setBudgetCategory] = useState<string | null>(null);
+  const [budgetInput, setBudgetInput] = useState('');
+
+  const categoryBudgets = useMemo(() => {
+    const merged: CategoryBudgets = {};
+    expenseService.applyBudgetsToCategories(categories, budgets).forEach((category) => {
+      if (category.budget) {
+        merged[category.name] = category.budget;
+      }
+    });
+    return { ...budgets, ...merged };
+  }, [categories, budgets]);
+
+  const budgetProgress = useMemo(
+    () => expenseService.calculateBudgetProgress(expenses, categoryBudgets),
+    [expenses, categoryBudgets]
+  );
+
+  // Budgets cover the month's spending, whatever filters are applied
+  const budgetSummary = useMemo(
+    () => expenseService.getBudgetSummary(budgetProgress),
+    [budgetProgress]
+  );
+
   // Add expense form state
   const [expenseForm, setExpenseForm] = useState<ExpenseFormData>({
     amount: '',
@@ -96,6 +135,11 @@ const ExpensesScreen: React.FC = () => {
     plannedDate: new Date().toISOString().split('T')[0],
     priority: 'medium',
     isRecurring: false,
+    recurrenceFrequency: 'monthly',
+    recurrenceInterval: '1',
+    recurrenceEnd: 'never',
+    recurrenceEndDate: '',
+    recurrenceCount: '',
     notes: '',
   });
   const [plannedFormErrors, setPlannedFormErrors] = useState<Partial<PlannedExpenseFormData>>({});
@@ -145,10 +189,11 @@ const ExpensesScreen: React.FC = () => {
     };
   }, []);
 
-  const loadData = useCallback(async () => {
+  // Kept stable so the load effect below only runs again when the user changes
+  const loadData = useCallback(async (showSpinner = true) => {
     try {
       // Only show loading spinner if not refreshing
-      if (!refreshing) {
+      if (showSpinner) {
         setLoading(true);
       }
       const [expensesResponse, categoriesData, statsData] = await Promise.all([
@@ -159,6 +204,7 @@ const ExpensesScreen: React.FC = () => {
 
       // Load planned expenses from API
       getPlannedExpenses();
+      getCategoryBudgets();
 
       console.log('expensesResponse ===>', expensesResponse);
 
@@ -185,16 +231,16 @@ const ExpensesScreen: React.FC = () => {
       Alert.alert('Error', 'Failed to load expenses');
     } finally {
       // Only hide loading spinner if we're not refreshing
-      if (!refreshing) {
+      if (showSpinner) {
         setLoading(false);
       }
     }
-  }, [calculateStats, refreshing, user?.id]);
+  }, [calculateStats, user?.id, getPlannedExpenses, getCategoryBudgets]);
 
   const handleRefresh = useCallback(async () => {
     setRefreshing(true);
     try {
-      await loadData();
+      await loadData(false);
       console.log('Data refreshed successfully');
       // Optional: Show a brief success message
       // Alert.alert('Success', 'Expenses refreshed successfully');
@@ -305,6 +351,13 @@ const ExpensesScreen: React.FC = () => {
     applyFilters();
   }, [applyFilters]);
 
+  // Alert when a category crosses 80% or 100% of its monthly budget
+  useEffect(() => {
+    if (expenses.length > 0 && Object.keys(categoryBudgets).length > 0) {
+      expenseService.checkBudgetAlerts(expenses, categoryBudgets);
+    }
+  }, [expenses, categoryBudgets]);
+
   const handleDeleteExpense = (expense: Expense) => {
     Alert.alert(
       'Delete Expense',
@@ -366,6 +419,41 @@ const ExpensesScreen: React.FC = () => {
     }
   };
 
+  const getBudgetColor = (progress: CategoryBudgetProgress): string => {
+    if (progress.percentage >= 100) return '#EF4444';
+    if (progress.percentage >= 80) return '#F59E0B';
+    return '#10B981';
+  };
+
+  const openBudgetModal = (categoryName: string) => {
+    const currentBudget = categoryBudgets[categoryName];
+    setBudgetInput(currentBudget ? currentBudget.toString() : '');
+    setBudgetCategory(categoryName);
+  };
+
+  const closeBudgetModal = () => {
+    setBudgetCategory(null);
+    setBudgetInput('');
+  };
+
+  const handleSaveBudget = async (remove = false) => {
+    if (!budgetCategory) return;
+
+    const amount = parseFloat(budgetInput);
+    if (!remove && (isNaN(amount) || amount <= 0)) {
+      Alert.alert('Invalid Budget', 'Please enter a budget greater than 0');
+      return;
+    }
+
+    try {
+      await setCategoryBudget(budgetCategory, remove ? null : amount);
+      closeBudgetModal();
+    } catch (error) {
+      console.error('Failed to save budget:', error);
+      Alert.alert('Error', 'Failed to save budget');
+    }
+  };
+
   const calculatePlannedTotal = (): number => {
     console.log('plannedExpenses ===>', plannedExpenses);
     return plannedExpenses.filter(expense => expense !== undefined).reduce((sum, expense) => sum + Number(expense.amount), 0);
@@ -438,6 +526,24 @@ const ExpensesScreen: React.FC = () => {
     }
   };
 
+  const handleExportCSV = async () => {
+    if (filteredExpenses.length === 0) {
+      Alert.alert('Export', 'There are no expenses matching the current filters');
+      return;
+    }
+
+    try {
+      await expenseService.exportExpensesCSV(filteredExpenses);
+    } catch (error) {
+      console.error('Failed to export expenses:', error);
+      Alert.alert('Error', 'Failed to export expenses');
+    }
+  };
+
+  const handleImportComplete = async () => {
+    await loadData();
+  };
+
   const resetForm = () => {
     setExpenseForm({
       amount: '',
@@ -456,11 +562,42 @@ const ExpensesScreen: React.FC = () => {
       plannedDate: new Date().toISOString().split('T')[0],
       priority: 'medium',
       isRecurring: false,
+      recurrenceFrequency: 'monthly',
+      recurrenceInterval: '1',
+      recurrenceEnd: 'never',
+      recurrenceEndDate: '',
+      recurrenceCount: '',
       notes: '',
     });
     setPlannedFormErrors({});
   };
 
+  const buildRecurrenceRule = (form: PlannedExpenseFormData): RecurrenceRule => {
+    const rule: RecurrenceRule = {
+      frequency: form.recurrenceFrequency,
+      interval: Math.max(1, parseInt(form.recurrenceInterval, 10) || 1),
+    };
+
+    if (form.recurrenceEnd === 'date' && isValidDateKey(form.recurrenceEndDate)) {
+      rule.endDate = form.recurrenceEndDate;
+    } else if (form.recurrenceEnd === 'count' && parseInt(form.recurrenceCount, 10) > 0) {
+      rule.count = parseInt(form.recurrenceCount, 10);
+    }
+
+    return rule;
+  };
+
+  const getRecurrenceEndDateError = (form: PlannedExpenseFormData): string | null => {
+    if (!form.isRecurring || form.recurrenceEnd !== 'date') return null;
+    if (!isValidDateKey(form.recurrenceEndDate)) {
+      return 'Enter the end date as YYYY-MM-DD';
+    }
+    if (isValidDateKey(form.plannedDate) && form.recurrenceEndDate < form.plannedDate) {
+      return 'End date must be after the planned date';
+    }
+    return null;
+  };
+
   // Render functions
   const renderActualExpenses = () => {
     const data = Object.entries(groupedExpenses).map(([category, expenses]) => ({
@@ -531,7 +668,9 @@ const ExpensesScreen: React.FC = () => {
                   {expense.isRecurring && (
                     <View style={styles.recurringBadge}>
                       <Ionicons name="repeat" size={12} color="#6366F1" />
-                      <Text style={styles.recurringText}>Recurring</Text>
+                      <Text style={styles.recurringText}>
+                        {describeRecurrence(expense.recurrence || DEFAULT_RECURRENCE_RULE)}
+                      </Text>
                     </View>
                   )}
                 </View>
@@ -600,8 +739,36 @@ const ExpensesScreen: React.FC = () => {
 
 
 
+  const renderBudgetProgress = (progress: CategoryBudgetProgress) => {
+    const color = getBudgetColor(progress);
+
+    return (
+      <View style={styles.budgetProgressContainer}>
+        <View style={styles.budgetProgressTrack}>
+          <View
+            style={[
+              styles.budgetProgressFill,
+              { width: `${Math.min(progress.percentage, 100)}%`, backgroundColor: color },
+            ]}
+          />
+        </View>
+        <View style={styles.budgetProgressLabels}>
+          <Text style={styles.budgetProgressText}>
+            {expenseService.formatCurrency(progress.spent)} of {expenseService.formatCurrency(progress.budget)} this month
+          </Text>
+          <Text style={[styles.budgetProgressText, { color }]}>
+            {progress.remaining >= 0
+              ? `${expenseService.formatCurrency(progress.remaining)} left`
+              : `${expenseService.formatCurrency(Math.abs(progress.remaining))} over`}
+          </Text>
+        </View>
+      </View>
+    );
+  };
+
   const renderCategorySection = ({ item }: { item: { category: string; expenses: Expense[] } }) => {
     const categoryTotal = item.expenses.reduce((sum, expense) => sum + Number(expense.amount), 0);
+    const progress = budgetProgress[item.category];
 
     return (
       <View style={styles.categorySection}>
@@ -618,8 +785,17 @@ const ExpensesScreen: React.FC = () => {
           <Text style={styles.categoryTotal}>
             {expenseService.formatCurrency(categoryTotal)}
           </Text>
+          <TouchableOpacity
+            style={styles.budgetButton}
+            onPress={() => openBudgetModal(item.category)}
+            accessibilityLabel={`Set ${item.category} budget`}
+          >
+            <Ionicons name="wallet-outline" size={16} color="#6366F1" />
+          </TouchableOpacity>
         </View>
 
+        {progress && renderBudgetProgress(progress)}
+
         {item.expenses.map((expense) => (
           <View key={expense.id} style={styles.expenseCard}>
             <View style={styles.expenseHeader}>
@@ -736,6 +912,14 @@ const ExpensesScreen: React.FC = () => {
               <Text style={styles.totalSpentSubtext}>
                 Total across {filteredExpenses.length} expenses
               </Text>
+              {budgetSummary.totalBudget !== undefined && budgetSummary.remainingBudget !== undefined && (
+                <Text style={styles.totalSpentSubtext}>
+                  {budgetSummary.remainingBudget >= 0
+                    ? `${expenseService.formatCurrency(budgetSummary.remainingBudget)} left`
+                    : `${expenseService.formatCurrency(Math.abs(budgetSummary.remainingBudget))} over`}
+                  {' '}of {expenseService.formatCurrency(budgetSummary.totalBudget)} monthly budget
+                </Text>
+              )}
             </View>
 
             <View style={styles.expenseBreakdown}>
@@ -1000,6 +1184,20 @@ const ExpensesScreen: React.FC = () => {
                     </View>
                   </View>
 
+                  {budgetSummary.budgetProgress?.[categoryData[selectedCategoryTab].name]
+                    ? renderBudgetProgress(budgetSummary.budgetProgress[categoryData[selectedCategoryTab].name])
+                    : (
+                      <TouchableOpacity
+                        style={styles.setBudgetLink}
+                        onPress={() => {
+                          setShowCategoriesModal(false);
+                          openBudgetModal(categoryData[selectedCategoryTab].name);
+                        }}
+                      >
+                        <Text style={styles.setBudgetLinkText}>Set a monthly budget</Text>
+                      </TouchableOpacity>
+                    )}
+
                   <View style={styles.categoryExpensesList}>
                     {categoryData[selectedCategoryTab].expenses
                       .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
@@ -1024,6 +1222,64 @@ const ExpensesScreen: React.FC = () => {
     );
   };
 
+  const renderBudgetModal = () => (
+    <Modal
+      visible={budgetCategory !== null}
+      transparent
+      animationType="slide"
+      onRequestClose={closeBudgetModal}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>
+              {budgetCategory && getCategoryIcon(budgetCategory)} {budgetCategory} Budget
+            </Text>
+            <TouchableOpacity onPress={closeBudgetModal} style={styles.modalCloseButton}>
+              <Ionicons name="close" size={24} color="#6366F1" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalBody} showsVerticalScrollIndicator={false}>
+            <View style={styles.formGroup}>
+              <Text style={styles.formLabel}>Monthly Budget</Text>
+              <View style={styles.amountInputContainer}>
+                <Text style={styles.currencySymbol}>$</Text>
+                <TextInput
+                  style={[styles.formInput, styles.amountInput]}
+                  placeholder="0.00"
+                  placeholderTextColor="#9CA3AF"
+                  value={budgetInput}
+                  onChangeText={setBudgetInput}
+                  keyboardType="numeric"
+                />
+              </View>
+            </View>
+
+            {budgetCategory && budgetProgress[budgetCategory] && (
+              <View style={styles.formGroup}>
+                {renderBudgetProgress(budgetProgress[budgetCategory])}
+              </View>
+            )}
+
+            <TouchableOpacity style={styles.submitButton} onPress={() => handleSaveBudget()}>
+              <Text style={styles.submitButtonText}>Save Budget</Text>
+            </TouchableOpacity>
+
+            {budgetCategory && categoryBudgets[budgetCategory] !== undefined && (
+              <TouchableOpacity
+                style={styles.removeBudgetButton}
+                onPress={() => handleSaveBudget(true)}
+              >
+                <Text style={styles.removeBudgetButtonText}>Remove Budget</Text>
+              </TouchableOpacity>
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+
   const renderAddExpenseModal = () => (
     <Modal
       visible={showAddModal}
@@ -1290,6 +1546,97 @@ const ExpensesScreen: React.FC = () => {
                   </Text>
                 </TouchableOpacity>
               </View>
+
+              {plannedExpenseForm.isRecurring && (
+                <>
+                  <View style={styles.frequencySelection}>
+                    {RECURRENCE_FREQUENCIES.map((frequency) => (
+                      <TouchableOpacity
+                        key={frequency}
+                        style={[
+                          styles.frequencyOption,
+                          plannedExpenseForm.recurrenceFrequency === frequency && styles.frequencyOptionActive,
+                        ]}
+                        onPress={() => setPlannedExpenseForm(prev => ({ ...prev, recurrenceFrequency: frequency }))}
+                      >
+                        <Text style={[
+                          styles.frequencyOptionText,
+                          plannedExpenseForm.recurrenceFrequency === frequency && styles.frequencyOptionTextActive,
+                        ]}>
+                          {frequency.charAt(0).toUpperCase() + frequency.slice(1)}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+
+                  <View style={styles.recurrenceRow}>
+                    <Text style={styles.recurrenceLabel}>Repeat every</Text>
+                    <TextInput
+                      style={[styles.formInput, styles.recurrenceInput]}
+                      placeholder="1"
+                      placeholderTextColor="#9CA3AF"
+                      value={plannedExpenseForm.recurrenceInterval}
+                      onChangeText={(value) => setPlannedExpenseForm(prev => ({ ...prev, recurrenceInterval: value }))}
+                      keyboardType="numeric"
+                    />
+                    <Text style={styles.recurrenceLabel}>
+                      {{ daily: 'day(s)', weekly: 'week(s)', monthly: 'month(s)', yearly: 'year(s)' }[plannedExpenseForm.recurrenceFrequency]}
+                    </Text>
+                  </View>
+
+                  <Text style={[styles.formLabel, styles.recurrenceEndLabel]}>Ends</Text>
+                  <View style={styles.frequencySelection}>
+                    {(['never', 'date', 'count'] as const).map((end) => (
+                      <TouchableOpacity
+                        key={end}
+                        style={[
+                          styles.frequencyOption,
+                          plannedExpenseForm.recurrenceEnd === end && styles.frequencyOptionActive,
+                        ]}
+                        onPress={() => setPlannedExpenseForm(prev => ({ ...prev, recurrenceEnd: end }))}
+                      >
+                        <Text style={[
+                          styles.frequencyOptionText,
+                          plannedExpenseForm.recurrenceEnd === end && styles.frequencyOptionTextActive,
+                        ]}>
+                          {{ never: 'Never', date: 'On date', count: 'After' }[end]}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+
+                  {plannedExpenseForm.recurrenceEnd === 'date' && (
+                    <TextInput
+                      style={[styles.formInput, styles.recurrenceEndInput]}
+                      placeholder="YYYY-MM-DD"
+                      placeholderTextColor="#9CA3AF"
+                      value={plannedExpenseForm.recurrenceEndDate}
+                      onChangeText={(value) => setPlannedExpenseForm(prev => ({ ...prev, recurrenceEndDate: value }))}
+                    />
+                  )}
+                  {plannedExpenseForm.recurrenceEnd === 'date' && plannedFormErrors.recurrenceEndDate && (
+                    <Text style={styles.errorText}>{plannedFormErrors.recurrenceEndDate}</Text>
+                  )}
+
+                  {plannedExpenseForm.recurrenceEnd === 'count' && (
+                    <View style={styles.recurrenceRow}>
+                      <TextInput
+                        style={[styles.formInput, styles.recurrenceInput]}
+                        placeholder="12"
+                        placeholderTextColor="#9CA3AF"
+                        value={plannedExpenseForm.recurrenceCount}
+                        onChangeText={(value) => setPlannedExpenseForm(prev => ({ ...prev, recurrenceCount: value }))}
+                        keyboardType="numeric"
+                      />
+                      <Text style={styles.recurrenceLabel}>occurrences</Text>
+                    </View>
+                  )}
+
+                  <Text style={styles.recurrenceSummary}>
+                    {describeRecurrence(buildRecurrenceRule(plannedExpenseForm))}
+                  </Text>
+                </>
+              )}
             </View>
 
             {/* Notes Input */}
@@ -1310,6 +1657,12 @@ const ExpensesScreen: React.FC = () => {
             <TouchableOpacity
               style={styles.submitButton}
               onPress={async () => {
+                const recurrenceEndDateError = getRecurrenceEndDateError(plannedExpenseForm);
+                setPlannedFormErrors(
+                  recurrenceEndDateError ? { recurrenceEndDate: recurrenceEndDateError } : {}
+                );
+                if (recurrenceEndDateError) return;
+
                 try {
                   // Create the planned expense using the API
                   const plannedExpenseData: CreatePlannedExpenseDto = {
@@ -1322,6 +1675,10 @@ const ExpensesScreen: React.FC = () => {
                     notes: plannedExpenseForm.notes || '',
                   };
 
+                  if (plannedExpenseForm.isRecurring) {
+                    plannedExpenseData.recurrence = buildRecurrenceRule(plannedExpenseForm);
+                  }
+
                   console.log("plannedExpenseData", plannedExpenseData);
 
                   await addPlannedExpense(plannedExpenseData);
@@ -1488,13 +1845,33 @@ const ExpensesScreen: React.FC = () => {
               <Text style={styles.title}>💰 Expenses</Text>
               <Text style={styles.subtitle}>Smart financial management</Text>
             </View>
-            <TouchableOpacity
-              style={styles.addButton}
-              onPress={() => showPlannedExpenses ? setShowAddPlannedModal(true) : setShowAddModal(true)}
-            >
-              <Ionicons name="add" size={20} color="#FFFFFF" />
-              <Text style={styles.addButtonText}>Add</Text>
-            </TouchableOpacity>
+            <View style={styles.headerActions}>
+              {!showPlannedExpenses && (
+                <>
+                  <TouchableOpacity
+                    style={styles.headerIconButton}
+                    onPress={() => setShowImportWizard(true)}
+                    accessibilityLabel="Import expenses from CSV"
+                  >
+                    <Ionicons name="download-outline" size={18} color="#FFFFFF" />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.headerIconButton}
+                    onPress={handleExportCSV}
+                    accessibilityLabel="Export filtered expenses as CSV"
+                  >
+                    <Ionicons name="share-outline" size={18} color="#FFFFFF" />
+                  </TouchableOpacity>
+                </>
+              )}
+              <TouchableOpacity
+                style={styles.addButton}
+                onPress={() => showPlannedExpenses ? setShowAddPlannedModal(true) : setShowAddModal(true)}
+              >
+                <Ionicons name="add" size={20} color="#FFFFFF" />
+                <Text style={styles.addButtonText}>Add</Text>
+              </TouchableOpacity>
+            </View>
           </View>
 
           {/* Tab Navigation */}
@@ -1695,6 +2072,18 @@ const ExpensesScreen: React.FC = () => {
           {/* Convert Planned Expense Modal */}
           {renderConvertModal()}
 
+          {/* Category Budget Modal */}
+          {renderBudgetModal()}
+
+          {/* CSV Import Wizard */}
+          <CsvImportWizard
+            visible={showImportWizard}
+            userId={user?.id || ''}
+            categories={categories}
+            onClose={() => setShowImportWizard(false)}
+            onImported={handleImportComplete}
+          />
+
 
 
           {/* Stats Modals */}
@@ -1779,6 +2168,16 @@ const styles = StyleSheet.create({
   headerContent: {
     flex: 1,
   },
+  headerIconButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
   title: {
     fontSize: 28,
     fontWeight: 'bold',
@@ -1986,6 +2385,59 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#6366F1',
   },
+  budgetButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: 'rgba(99, 102, 241, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 12,
+  },
+  budgetProgressContainer: {
+    marginBottom: 12,
+    paddingHorizontal: 4,
+  },
+  budgetProgressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    overflow: 'hidden',
+  },
+  budgetProgressFill: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  budgetProgressLabels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 6,
+  },
+  budgetProgressText: {
+    fontSize: 12,
+    color: '#9CA3AF',
+  },
+  setBudgetLink: {
+    marginBottom: 12,
+  },
+  setBudgetLinkText: {
+    fontSize: 14,
+    color: '#6366F1',
+    fontWeight: '500',
+  },
+  removeBudgetButton: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(239, 68, 68, 0.5)',
+  },
+  removeBudgetButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
   expenseCard: {
     backgroundColor: 'rgba(255, 255, 255, 0.05)',
     borderRadius: 12,
@@ -2792,6 +3244,31 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: 12,
   },
+  recurrenceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 12,
+  },
+  recurrenceLabel: {
+    fontSize: 14,
+    color: '#D1D5DB',
+  },
+  recurrenceInput: {
+    width: 64,
+    textAlign: 'center',
+  },
+  recurrenceEndLabel: {
+    marginTop: 16,
+  },
+  recurrenceEndInput: {
+    marginTop: 12,
+  },
+  recurrenceSummary: {
+    fontSize: 12,
+    color: '#6366F1',
+    marginTop: 12,
+  },
   priorityOption: {
     backgroundColor: 'rgba(255, 255, 255, 0.1)',
     borderRadius: 12,
@@ -14,10 +14,12 @@ import {
 } from 'react-native';
 import { VoiceInput } from '../../components/voice/VoiceInput';
 import { useAuth } from '../../contexts/AuthContext';
+import { useVoiceCommandExecutor } from '../../hooks/useVoiceCommandExecutor';
 import { expenseService } from '../../services/expenseService';
-import { voiceService } from '../../services/voiceService';
-import { useAppDispatch } from '../../store';
+import { VoiceRecording, voiceService } from '../../services/voiceService';
+import { useAppDispatch, useAppSelector } from '../../store';
 import { CalendarEvent, fetchEvents } from '../../store/slices/calendarSlice';
+import { queueRecording } from '../../store/slices/voiceSlice';
 
 const { width } = Dimensions.get('window');
 
@@ -38,6 +40,8 @@ interface QuickStats {
 const HomeScreen: React.FC = () => {
   const { user, logout } = useAuth();
   const dispatch = useAppDispatch();
+  const { executeCommand, dialog } = useVoiceCommandExecutor();
+  const { queuedCount } = useAppSelector((state) => state.voice);
   const [currentTime, setCurrentTime] = useState(new Date());
   const [voiceCommand, setVoiceCommand] = useState('');
   const [fadeAnim] = useState(new Animated.Value(0));
@@ -221,27 +225,12 @@ const HomeScreen: React.FC = () => {
     setVoiceCommand(text);
 
     try {
-      // Process voice commands with audio feedback
-      // if (lowerText.includes('schedule') || lowerText.includes('meeting') || lowerText.includes('event')) {
-      //   await voiceService.speakConfirmation('Opening calendar', 'to schedule your event');
-      //   Alert.alert('Voice Command', 'Opening calendar to schedule event...');
-      //   // Navigate to calendar
-      // } else if (lowerText.includes('expense') || lowerText.includes('add expense')) {
-      //   await voiceService.speakConfirmation('Opening expenses', 'to add new expense');
-      //   Alert.alert('Voice Command', 'Opening expenses to add new expense...');
-      //   // Navigate to expenses
-      // } else if (lowerText.includes('calendar') || lowerText.includes('show schedule')) {
-      //   await voiceService.speakConfirmation('Showing calendar', 'for today');
-      //   Alert.alert('Voice Command', 'Showing your calendar...');
-      //   // Navigate to calendar
-      // } else if (lowerText.includes('logout') || lowerText.includes('sign out')) {
-      //   await voiceService.speakConfirmation('Logging out', 'see you next time');
-      //   Alert.alert('Voice Command', 'Logging you out...');
-      //   handleLogout();
-      // } else {
-      //   await voiceService.speakText(`I heard: "${text}". How can I help you with that?`);
-      //   Alert.alert('Voice Command', `I heard: "${text}". How can I help you with that?`);
-      // }
+      // VoiceInput has just finished recording this utterance
+      const recordingUri = voiceService.getCurrentRecordingUri();
+      const result = await executeCommand(text, recordingUri || undefined);
+      if (result.status === 'success' && result.command.intent !== 'navigate') {
+        loadData();
+      }
     } catch (error) {
       console.error('Voice command processing failed:', error);
       await voiceService.speakError('Failed to process your command');
@@ -249,6 +238,10 @@ const HomeScreen: React.FC = () => {
     }
   };
 
+  const handleOfflineRecording = (recording: VoiceRecording) => {
+    dispatch(queueRecording({ recording, options: { context: 'voice_command' } }));
+  };
+
   const handleVoiceError = (error: string) => {
     Alert.alert('Voice Input Error', error);
   };
@@ -443,11 +436,22 @@ const HomeScreen: React.FC = () => {
               <VoiceInput
                 onTranscription={handleVoiceTranscription}
                 onError={handleVoiceError}
+                onOfflineRecording={handleOfflineRecording}
                 placeholder="Tap to speak commands"
                 style={styles.voiceInputContainer}
                 buttonStyle={styles.voiceButton}
               />
             </View>
+            {queuedCount > 0 && (
+              <View style={styles.voiceQueueNotice}>
+                <Ionicons name="cloud-offline-outline" size={16} color="#F59E0B" />
+                <Text style={styles.voiceQueueText}>
+                  {queuedCount === 1
+                    ? '1 voice command waiting for a connection'
+                    : `${queuedCount} voice commands waiting for a connection`}
+                </Text>
+              </View>
+            )}
             {voiceCommand ? (
               <View style={styles.voiceCommandContainer}>
                 <View style={styles.voiceCommandHeader}>
@@ -456,6 +460,9 @@ const HomeScreen: React.FC = () => {
                   </Text>
                 </View>
                 <Text style={styles.voiceCommandText}>{voiceCommand}</Text>
+                {dialog.stage !== 'idle' && (
+                  <Text style={styles.voiceDialogPrompt}>{dialog.prompt}</Text>
+                )}
               </View>
             ) : null}
           </View>
@@ -818,6 +825,21 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     fontWeight: '500',
   },
+  voiceDialogPrompt: {
+    fontSize: 14,
+    color: '#C7D2FE',
+    marginTop: 8,
+  },
+  voiceQueueNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 12,
+  },
+  voiceQueueText: {
+    fontSize: 13,
+    color: '#F59E0B',
+  },
   scheduleContainer: {
     gap: 12,
   },
@@ -11,6 +11,7 @@ import {
   View,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { SpeechSettings } from '../../components/voice/SpeechSettings';
 import { useAuth } from '../../contexts/AuthContext';
 
 export const ProfileScreen: React.FC = () => {
@@ -162,6 +163,14 @@ export const ProfileScreen: React.FC = () => {
               </View>
             </View>
 
+            <View style={styles.infoSection}>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionTitle}>Voice & Speech</Text>
+                <Text style={styles.sectionSubtitle}>How the assistant talks to you</Text>
+              </View>
+              <SpeechSettings />
+            </View>
+
             <View style={styles.actionsSection}>
               <View style={styles.sectionHeader}>
                 <Text style={styles.sectionTitle}>Quick Actions</Text>
@@ -1,5 +1,5 @@
 import { FontAwesome5, Ionicons } from '@expo/vector-icons';
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import {
   ActivityIndicator,
   Animated,
@@ -7,12 +7,22 @@ import {
   ScrollView,
   StatusBar,
   StyleSheet,
+  Switch,
   Text,
+  TextInput,
   TouchableOpacity,
   View,
 } from 'react-native';
+import { TranscriptReview } from '../../components/voice/TranscriptReview';
+import { useVoiceCommandExecutor, VoiceCommandResult } from '../../hooks/useVoiceCommandExecutor';
 import { useVoicePermissions } from '../../hooks/useVoicePermissions';
+import { storageService } from '../../services/storage';
+import { VoiceCommandData, voiceCommandProcessor } from '../../services/voiceCommandProcessor';
 import { voiceService } from '../../services/voiceService';
+import { useAppDispatch, useAppSelector } from '../../store';
+import { loadCommandHistory, VoiceCommand as VoiceHistoryCommand } from '../../store/slices/voiceSlice';
+import { formatDate, formatTimeRange } from '../../utils/dateTime';
+import { EventTimeRange } from '../../utils/eventConflicts';
 
 const { width } = Dimensions.get('window');
 
@@ -24,21 +34,30 @@ interface VoiceCommand {
   color: string;
 }
 
+// A transcription waiting to be checked before it is carried out
+interface PendingReview {
+  command: VoiceCommandData;
+  transcription: string;
+  recordingUri: string;
+}
+
 const VoiceScreen: React.FC = () => {
+  const dispatch = useAppDispatch();
   const { permissions, requestPermissions } = useVoicePermissions();
+  const { executeCommand, submitCommand, bookFreeSlot, isExecuting, dialog } = useVoiceCommandExecutor();
+  const recentCommands = useAppSelector((state) => state.voice.recentCommands);
+  const userId = useAppSelector((state) => state.auth.user?.id);
   const [isRecording, setIsRecording] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isListening, setIsListening] = useState(false);
   const [transcription, setTranscription] = useState<string>('');
   const [aiResponse, setAiResponse] = useState<string>('');
+  const [freeTime, setFreeTime] = useState<VoiceCommandResult | null>(null);
   const [recordingDuration, setRecordingDuration] = useState<number>(0);
   const [error, setError] = useState<string>('');
-  const [recentCommands, setRecentCommands] = useState<{
-    id: string;
-    text: string;
-    response: string;
-    timestamp: Date;
-  }[]>([]);
+  const [historyQuery, setHistoryQuery] = useState<string>('');
+  const [reviewMode, setReviewMode] = useState(false);
+  const [review, setReview] = useState<PendingReview | null>(null);
 
   const pulseAnim = useRef(new Animated.Value(1)).current;
   const recordingTimer = useRef<ReturnType<typeof setInterval> | null>(null);
@@ -78,6 +97,26 @@ const VoiceScreen: React.FC = () => {
     },
   ];
 
+  useEffect(() => {
+    if (userId) {
+      dispatch(loadCommandHistory(userId));
+    }
+  }, [dispatch, userId]);
+
+  useEffect(() => {
+    storageService.getVoiceReviewMode().then(setReviewMode);
+  }, []);
+
+  const filteredCommands = useMemo(() => {
+    const query = historyQuery.trim().toLowerCase();
+    if (!query) return recentCommands;
+
+    return recentCommands.filter((command) =>
+      [command.transcription, command.response, command.action]
+        .some((field) => field?.toLowerCase().includes(query))
+    );
+  }, [historyQuery, recentCommands]);
+
   useEffect(() => {
     // Fade in animation on mount
     Animated.parallel([
@@ -154,6 +193,7 @@ const VoiceScreen: React.FC = () => {
       startRecordingTimer();
       setTranscription('');
       setAiResponse('');
+      setFreeTime(null);
     } catch (error) {
       setError('Recording failed');
       console.error('Recording error:', error);
@@ -174,17 +214,7 @@ const VoiceScreen: React.FC = () => {
       const transcriptionResult = await voiceService.transcribeAudio(recording);
       setTranscription(transcriptionResult.text || '');
 
-      // Process with AI
-      const aiResponse = await voiceService.processVoiceCommand(transcriptionResult.text || '');
-      setAiResponse(aiResponse.response || '');
-
-      // Add to recent commands
-      setRecentCommands(prev => [{
-        id: Date.now().toString(),
-        text: transcriptionResult.text || '',
-        response: aiResponse.response || '',
-        timestamp: new Date(),
-      }, ...prev.slice(0, 9)]);
+      await handleTranscription(transcriptionResult.text || '', recording.uri);
     } catch (error) {
       setError('Failed to process recording');
       console.error('Processing error:', error);
@@ -193,6 +223,63 @@ const VoiceScreen: React.FC = () => {
     }
   };
 
+  // Find-time answers keep their free slots on screen to book with a tap
+  const showResult = (result: VoiceCommandResult) => {
+    setAiResponse(result.response);
+    setFreeTime(result.freeSlots?.length ? result : null);
+  };
+
+  const handleBookFreeSlot = async (slot: EventTimeRange) => {
+    if (!freeTime) return;
+
+    try {
+      setError('');
+      const result = await bookFreeSlot(freeTime.command, slot);
+      showResult(result);
+    } catch (error) {
+      setError('Failed to book that time');
+      console.error('Book free slot error:', error);
+    }
+  };
+
+  const handleTranscription = async (text: string, recordingUri: string) => {
+    // Answers to follow-up questions go straight through
+    if (reviewMode && dialog.stage === 'idle') {
+      setReview({
+        command: voiceCommandProcessor.processVoiceInput(text),
+        transcription: text,
+        recordingUri,
+      });
+      return;
+    }
+
+    // Carry out the command and keep it, with its recording, in the history
+    const result = await executeCommand(text, recordingUri);
+    showResult(result);
+  };
+
+  const handleToggleReviewMode = (enabled: boolean) => {
+    setReviewMode(enabled);
+    storageService.setVoiceReviewMode(enabled);
+  };
+
+  const handleSubmitReview = async () => {
+    if (!review) return;
+
+    try {
+      setIsProcessing(true);
+      setTranscription(review.transcription);
+      const result = await submitCommand(review.command, review.transcription, review.recordingUri);
+      showResult(result);
+      setReview(null);
+    } catch (error) {
+      setError('Failed to submit the command');
+      console.error('Submit review error:', error);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
   const handleStartListening = async () => {
     try {
       setError('');
@@ -202,6 +289,7 @@ const VoiceScreen: React.FC = () => {
       setIsListening(true);
       setTranscription('');
       setAiResponse('');
+      setFreeTime(null);
     } catch (error) {
       setError('Listening failed');
       console.error('Listening error:', error);
@@ -221,17 +309,7 @@ const VoiceScreen: React.FC = () => {
       const transcriptionResult = await voiceService.transcribeAudio(recording);
       setTranscription(transcriptionResult.text || '');
 
-      // Process with AI
-      const aiResponse = await voiceService.processVoiceCommand(transcriptionResult.text || '');
-      setAiResponse(aiResponse.response || '');
-
-      // Add to recent commands
-      setRecentCommands(prev => [{
-        id: Date.now().toString(),
-        text: transcriptionResult.text || '',
-        response: aiResponse.response || '',
-        timestamp: new Date(),
-      }, ...prev.slice(0, 9)]);
+      await handleTranscription(transcriptionResult.text || '', recording.uri);
     } catch (error) {
       setError('Failed to stop listening');
       console.error('Stop listening error:', error);
@@ -251,6 +329,29 @@ const VoiceScreen: React.FC = () => {
     }
   };
 
+  const handleRerunCommand = async (command: VoiceHistoryCommand) => {
+    try {
+      setError('');
+      setTranscription(command.transcription);
+      const result = await executeCommand(command.transcription);
+      showResult(result);
+    } catch (error) {
+      setError('Failed to run the command again');
+      console.error('Re-run command error:', error);
+    }
+  };
+
+  const handleReplayCommand = async (command: VoiceHistoryCommand) => {
+    if (!command.recordingUri) return;
+
+    try {
+      await voiceService.playRecording(command.recordingUri, command.speech);
+    } catch (error) {
+      setError('That recording is no longer available');
+      console.error('Replay recording error:', error);
+    }
+  };
+
   const handleStopSpeaking = async () => {
     try {
       await voiceService.stopSpeaking();
@@ -450,6 +551,20 @@ const VoiceScreen: React.FC = () => {
                   <Text style={styles.recordingDescription}>
                     Record voice notes and commands for AI processing
                   </Text>
+
+                  <View style={styles.reviewToggle}>
+                    <View style={styles.reviewToggleText}>
+                      <Text style={styles.reviewToggleTitle}>Review before saving</Text>
+                      <Text style={styles.reviewToggleDescription}>
+                        Check and fix what was heard before it runs
+                      </Text>
+                    </View>
+                    <Switch
+                      value={reviewMode}
+                      onValueChange={handleToggleReviewMode}
+                      trackColor={{ false: 'rgba(255, 255, 255, 0.2)', true: '#6366F1' }}
+                    />
+                  </View>
                 </View>
               </View>
             </View>
@@ -489,8 +604,27 @@ const VoiceScreen: React.FC = () => {
               </View>
             </View>
 
+            {/* Transcript Review */}
+            {review && (
+              <View style={styles.section}>
+                <View style={styles.sectionHeader}>
+                  <Text style={styles.sectionTitle}>Review</Text>
+                  <Text style={styles.sectionSubtitle}>Tap a field to fix it, then submit</Text>
+                </View>
+                <TranscriptReview
+                  key={review.recordingUri}
+                  transcription={review.transcription}
+                  command={review.command}
+                  onChange={(command, text) => setReview({ ...review, command, transcription: text })}
+                  onSubmit={handleSubmitReview}
+                  onCancel={() => setReview(null)}
+                  isSubmitting={isProcessing}
+                />
+              </View>
+            )}
+
             {/* Transcription Display */}
-            {transcription && (
+            {transcription && !review && (
               <View style={styles.section}>
                 <View style={styles.sectionHeader}>
                   <Text style={styles.sectionTitle}>Transcription</Text>
@@ -524,6 +658,25 @@ const VoiceScreen: React.FC = () => {
                 <View style={styles.responseCard}>
                   <View style={styles.responseContent}>
                     <Text style={styles.responseText}>{aiResponse}</Text>
+                    {freeTime?.freeSlots && (
+                      <View style={styles.freeSlots}>
+                        <Text style={styles.freeSlotsLabel}>Tap a time to book it</Text>
+                        <View style={styles.freeSlotList}>
+                          {freeTime.freeSlots.map(slot => (
+                            <TouchableOpacity
+                              key={slot.startTime}
+                              style={styles.freeSlot}
+                              onPress={() => handleBookFreeSlot(slot)}
+                              disabled={isExecuting}
+                            >
+                              <Text style={styles.freeSlotText}>
+                                {formatDate(new Date(slot.startTime), 'short')}, {formatTimeRange(new Date(slot.startTime), new Date(slot.endTime))}
+                              </Text>
+                            </TouchableOpacity>
+                          ))}
+                        </View>
+                      </View>
+                    )}
                     <TouchableOpacity
                       style={styles.speakButton}
                       onPress={() => voiceService.speakText(aiResponse)}
@@ -537,28 +690,70 @@ const VoiceScreen: React.FC = () => {
               </View>
             )}
 
-            {/* Recent Commands */}
+            {/* Command History */}
             {recentCommands.length > 0 && (
               <View style={styles.section}>
                 <View style={styles.sectionHeader}>
-                  <Text style={styles.sectionTitle}>Recent Commands</Text>
-                  <Text style={styles.sectionSubtitle}>Your voice history</Text>
+                  <Text style={styles.sectionTitle}>Command History</Text>
+                  <Text style={styles.sectionSubtitle}>Search, replay or run again</Text>
+                </View>
+                <View style={styles.historySearch}>
+                  <Ionicons name="search" size={16} color="#9CA3AF" />
+                  <TextInput
+                    style={styles.historySearchInput}
+                    value={historyQuery}
+                    onChangeText={setHistoryQuery}
+                    placeholder="Search your commands"
+                    placeholderTextColor="#6B7280"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                  />
+                  {historyQuery.length > 0 && (
+                    <TouchableOpacity onPress={() => setHistoryQuery('')}>
+                      <Ionicons name="close-circle" size={16} color="#9CA3AF" />
+                    </TouchableOpacity>
+                  )}
                 </View>
                 <View style={styles.recentCommandsList}>
-                  {recentCommands.map((command) => (
+                  {filteredCommands.length === 0 && (
+                    <Text style={styles.historyEmptyText}>No commands match {`"${historyQuery}"`}</Text>
+                  )}
+                  {filteredCommands.map((command) => (
                     <View key={command.id} style={styles.recentCommandCard}>
                       <View style={styles.recentCommandHeader}>
                         <View style={styles.recentCommandIconContainer}>
                           <Ionicons name="mic" size={16} color="#6366F1" />
                         </View>
-                        <Text style={styles.recentCommandText}>{command.text}</Text>
+                        <Text style={styles.recentCommandText}>{command.transcription}</Text>
                         <Text style={styles.recentCommandTime}>
-                          {formatTimeAgo(command.timestamp)}
+                          {formatTimeAgo(new Date(command.timestamp))}
                         </Text>
                       </View>
-                      {command.response && (
+                      {command.response ? (
                         <Text style={styles.recentCommandResponse}>{command.response}</Text>
-                      )}
+                      ) : null}
+                      <View style={styles.historyActions}>
+                        {command.action && (
+                          <Text style={styles.historyAction}>{command.action.replace(/_/g, ' ')}</Text>
+                        )}
+                        {command.recordingUri && (
+                          <TouchableOpacity
+                            style={styles.historyButton}
+                            onPress={() => handleReplayCommand(command)}
+                          >
+                            <Ionicons name="play" size={14} color="#10B981" />
+                            <Text style={styles.historyButtonText}>Replay</Text>
+                          </TouchableOpacity>
+                        )}
+                        <TouchableOpacity
+                          style={styles.historyButton}
+                          onPress={() => handleRerunCommand(command)}
+                          disabled={isExecuting}
+                        >
+                          <Ionicons name="refresh" size={14} color="#6366F1" />
+                          <Text style={styles.historyButtonText}>Run again</Text>
+                        </TouchableOpacity>
+                      </View>
                     </View>
                   ))}
                 </View>
@@ -924,6 +1119,31 @@ const styles = StyleSheet.create({
     lineHeight: 24,
     marginBottom: 16,
   },
+  freeSlots: {
+    marginBottom: 16,
+  },
+  freeSlotsLabel: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    marginBottom: 8,
+  },
+  freeSlotList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  freeSlot: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#6366F1',
+    backgroundColor: 'rgba(99, 102, 241, 0.2)',
+  },
+  freeSlotText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
   speakButton: {
     alignSelf: 'flex-start',
   },
@@ -980,6 +1200,78 @@ const styles = StyleSheet.create({
     color: '#9CA3AF',
     lineHeight: 20,
   },
+  reviewToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'stretch',
+    marginTop: 20,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  reviewToggleText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  reviewToggleTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  reviewToggleDescription: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 2,
+  },
+  historySearch: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  historySearchInput: {
+    flex: 1,
+    fontSize: 14,
+    color: '#FFFFFF',
+    paddingVertical: 10,
+    marginHorizontal: 8,
+  },
+  historyEmptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+  historyActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 12,
+  },
+  historyAction: {
+    flex: 1,
+    fontSize: 12,
+    color: '#6B7280',
+    textTransform: 'capitalize',
+  },
+  historyButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+  },
+  historyButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
   errorCard: {
     backgroundColor: 'rgba(239, 68, 68, 0.1)',
     borderRadius: 12,
@@ -11,6 +11,9 @@ export interface CalendarEvent {
   location?: string;
   isAllDay: boolean;
   color?: string;
+  recurrenceRule?: string;
+  exceptionDates?: string[];
+  icalUid?: string;
   userId: string;
   createdAt: string;
   updatedAt: string;
@@ -1,5 +1,16 @@
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system";
+import * as Sharing from "expo-sharing";
 import moment from "moment";
 import apiClient from "../api/client";
+import { RecurrenceRule } from "../types";
+import { parseCSV, toCSV } from "../utils/csv";
+import {
+  DEFAULT_RECURRENCE_RULE,
+  getPlannedExpenseOccurrences,
+} from "../utils/recurrence";
+import { notificationService } from "./notificationService";
+import { storageService } from "./storage";
 
 export interface Expense {
   id: string;
@@ -12,6 +23,7 @@ export interface Expense {
   userId: string;
   createdAt: string;
   updatedAt: string;
+  pendingSync?: boolean; // Saved offline, waiting to be sent to the server
 }
 
 export interface PlannedExpense {
@@ -22,10 +34,12 @@ export interface PlannedExpense {
   plannedDate: string;
   priority: "low" | "medium" | "high";
   isRecurring: boolean;
+  recurrence?: RecurrenceRule;
   notes?: string;
   userId: string;
   createdAt: string;
   updatedAt: string;
+  pendingSync?: boolean; // Saved offline, waiting to be sent to the server
 }
 
 export interface CreatePlannedExpenseDto {
@@ -35,6 +49,7 @@ export interface CreatePlannedExpenseDto {
   plannedDate: string;
   priority: "low" | "medium" | "high";
   isRecurring?: boolean;
+  recurrence?: RecurrenceRule;
   notes?: string;
 }
 
@@ -45,6 +60,7 @@ export interface UpdatePlannedExpenseDto {
   plannedDate?: string;
   priority?: "low" | "medium" | "high";
   isRecurring?: boolean;
+  recurrence?: RecurrenceRule | null;
   notes?: string;
 }
 
@@ -62,6 +78,7 @@ export interface PlannedExpenseQueryDto {
   category?: string;
   priority?: string;
   isRecurring?: boolean;
+  isActive?: boolean;
   page?: number;
   limit?: number;
 }
@@ -91,12 +108,27 @@ export interface ExpenseFilters {
   maxAmount?: number;
 }
 
+export interface CategoryBudgets {
+  [category: string]: number;
+}
+
+export interface CategoryBudgetProgress {
+  category: string;
+  budget: number;
+  spent: number;
+  remaining: number;
+  percentage: number;
+}
+
 export interface ExpenseStats {
   totalAmount: number;
   categoryTotals: { [category: string]: number };
   monthlyTotals: { [month: string]: number };
   averageAmount: number;
   expenseCount: number;
+  budgetProgress?: { [category: string]: CategoryBudgetProgress };
+  totalBudget?: number;
+  remainingBudget?: number;
 }
 
 export interface ExpenseFormData {
@@ -115,6 +147,96 @@ export interface FormErrors {
   date?: string;
 }
 
+export type CSVExpenseField = "amount" | "date" | "description" | "category";
+
+// Column index in the CSV for each expense field
+export type CSVColumnMapping = { [field in CSVExpenseField]?: number };
+
+export interface CSVImportRow {
+  row: number; // 1-based line number in the file, including the header
+  data: ExpenseFormData;
+  errors: FormErrors;
+  isCredit: boolean; // Money coming in (refunds, deposits), which isn't imported as spending
+}
+
+// The expenses API has no filter for the event an expense is linked to, so
+// linked expenses are picked out of the most recent pages, up to this many
+const MAX_EVENT_EXPENSE_PAGES = 5;
+
+const CSV_DATE_FORMATS = [
+  "YYYY-MM-DD",
+  "YYYY/MM/DD",
+  "MM/DD/YYYY",
+  "M/D/YYYY",
+  "MM/DD/YY",
+  "DD.MM.YYYY",
+  "D MMM YYYY",
+  "MMM D, YYYY",
+  "YYYY-MM-DDTHH:mm:ss",
+  moment.ISO_8601,
+];
+
+const CSV_HEADER_PATTERNS: { [field in CSVExpenseField]: RegExp } = {
+  amount: /amount|debit|value|sum|total|price|cost/i,
+  date: /date|posted|time|day/i,
+  description: /desc|memo|narrative|details|payee|merchant|name|reference/i,
+  category: /categ|type|group/i,
+};
+
+// Words and merchants that identify each default category, for voice and chat input
+const CATEGORY_KEYWORDS: { [category: string]: string[] } = {
+  "Food & Dining": [
+    "food", "lunch", "dinner", "breakfast", "brunch", "coffee", "cafe", "snack",
+    "snacks", "drinks", "beer", "wine", "restaurant", "takeout", "take out",
+    "delivery", "pizza", "burger", "sushi", "sandwich", "groceries", "grocery",
+    "supermarket", "bakery", "starbucks", "mcdonald's", "mcdonalds", "chipotle",
+    "subway sandwich", "dunkin", "doordash", "uber eats", "grubhub", "whole foods",
+    "trader joe's", "safeway", "kroger", "aldi", "costco",
+  ],
+  Transportation: [
+    "gas", "fuel", "petrol", "parking", "toll", "tolls", "uber", "lyft", "taxi",
+    "cab", "bus", "train", "subway", "metro", "transit", "fare", "car wash",
+    "oil change", "car service", "tires", "shell", "chevron", "exxon", "bp",
+  ],
+  Shopping: [
+    "shopping", "clothes", "clothing", "shoes", "jacket", "shirt", "dress",
+    "gift", "gifts", "electronics", "phone case", "headphones", "furniture",
+    "amazon", "target", "walmart", "ikea", "zara", "h&m", "best buy", "apple store",
+  ],
+  Entertainment: [
+    "entertainment", "movie", "movies", "cinema", "concert", "show", "tickets",
+    "theater", "theatre", "game", "games", "bowling", "museum", "netflix",
+    "spotify", "hulu", "disney+", "disney plus", "hbo", "youtube premium",
+    "steam", "playstation", "xbox",
+  ],
+  Healthcare: [
+    "doctor", "dentist", "pharmacy", "medicine", "prescription", "hospital",
+    "clinic", "therapy", "therapist", "checkup", "vet", "glasses", "contacts",
+    "cvs", "walgreens", "copay", "health insurance",
+  ],
+  Utilities: [
+    "utilities", "electricity", "electric bill", "power bill", "water bill",
+    "gas bill", "internet", "wifi", "phone bill", "cell phone", "mobile plan",
+    "trash", "comcast", "xfinity", "verizon", "at&t", "t-mobile",
+  ],
+  Housing: [
+    "rent", "mortgage", "hoa", "home insurance", "renters insurance", "repairs",
+    "plumber", "electrician", "cleaning", "furniture rental", "home depot", "lowe's",
+  ],
+  Education: [
+    "tuition", "school", "course", "class", "books", "textbook", "textbooks",
+    "school supplies", "udemy", "coursera", "lesson", "lessons", "tutor",
+  ],
+  Travel: [
+    "travel", "trip", "flight", "flights", "airfare", "hotel", "motel", "airbnb",
+    "hostel", "vacation", "luggage", "car rental", "rental car", "visa",
+    "delta", "united airlines", "american airlines", "southwest", "expedia", "booking.com",
+  ],
+};
+
+// Percentages of a monthly budget that trigger an overspend alert
+export const BUDGET_ALERT_THRESHOLDS = [80, 100] as const;
+
 class ExpenseService {
   private expenses: Expense[] = [];
   private categories: ExpenseCategory[] = [
@@ -129,6 +251,8 @@ class ExpenseService {
     { id: "9", name: "Travel", icon: "✈️", color: "#BB8FCE" },
     { id: "10", name: "Other", icon: "📦", color: "#85C1E9" },
   ];
+  // The budget alert check in progress, so overlapping checks run in turn
+  private budgetAlertCheck: Promise<unknown> = Promise.resolve();
 
   /**
    * Get all expenses
@@ -393,6 +517,38 @@ class ExpenseService {
     }
   }
 
+  /**
+   * Pick the category a free-text description belongs to, e.g. "coffee at
+   * Starbucks" is Food & Dining. Falls back to Other.
+   */
+  matchCategory(text: string): string {
+    const lowerText = text.toLowerCase();
+    const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const mentions = (phrase: string) =>
+      new RegExp(`(?:^|[^a-z])${escape(phrase)}(?![a-z])`).test(lowerText);
+
+    const named = this.categories.find((category) =>
+      mentions(category.name.toLowerCase())
+    );
+    if (named) {
+      return named.name;
+    }
+
+    // The longest matching keyword wins, so "gas bill" beats "gas"
+    let bestCategory: string | null = null;
+    let bestLength = 0;
+    this.categories.forEach((category) => {
+      (CATEGORY_KEYWORDS[category.name] || []).forEach((keyword) => {
+        if (keyword.length > bestLength && mentions(keyword)) {
+          bestCategory = category.name;
+          bestLength = keyword.length;
+        }
+      });
+    });
+
+    return bestCategory || "Other";
+  }
+
   /**
    * Update category
    */
@@ -445,6 +601,388 @@ class ExpenseService {
     }
   }
 
+  /**
+   * Get monthly budgets keyed by category name
+   */
+  async getCategoryBudgets(): Promise<CategoryBudgets> {
+    try {
+      return await storageService.getCategoryBudgets();
+    } catch (error) {
+      console.error("Failed to get category budgets:", error);
+      return {};
+    }
+  }
+
+  /**
+   * Set or clear the monthly budget for a category
+   */
+  async setCategoryBudget(
+    category: string,
+    budget: number | null
+  ): Promise<CategoryBudgets> {
+    try {
+      const budgets = await storageService.getCategoryBudgets();
+
+      if (budget === null || budget <= 0) {
+        delete budgets[category];
+      } else {
+        budgets[category] = budget;
+      }
+
+      await storageService.setCategoryBudgets(budgets);
+      return budgets;
+    } catch (error) {
+      console.error("Failed to set category budget:", error);
+      throw new Error("Failed to save category budget");
+    }
+  }
+
+  /**
+   * Merge stored budgets into a category list. Stored budgets take
+   * precedence over any budget returned with the category itself.
+   */
+  applyBudgetsToCategories(
+    categories: ExpenseCategory[],
+    budgets: CategoryBudgets
+  ): ExpenseCategory[] {
+    return categories.map((category) => {
+      const budget = budgets[category.name] ?? category.budget;
+      return budget !== undefined ? { ...category, budget } : category;
+    });
+  }
+
+  /**
+   * Calculate spent-vs-budget progress for the month containing `date`
+   */
+  calculateBudgetProgress(
+    expenses: Expense[],
+    budgets: CategoryBudgets,
+    date: Date = new Date()
+  ): { [category: string]: CategoryBudgetProgress } {
+    const month = moment(date).format("YYYY-MM");
+    const spentByCategory: { [category: string]: number } = {};
+
+    expenses.forEach((expense) => {
+      if (moment(expense.date).format("YYYY-MM") !== month) return;
+      spentByCategory[expense.category] =
+        (spentByCategory[expense.category] || 0) + Number(expense.amount);
+    });
+
+    const progress: { [category: string]: CategoryBudgetProgress } = {};
+    Object.entries(budgets).forEach(([category, budget]) => {
+      if (!budget || budget <= 0) return;
+      const spent = spentByCategory[category] || 0;
+      progress[category] = {
+        category,
+        budget,
+        spent,
+        remaining: budget - spent,
+        percentage: (spent / budget) * 100,
+      };
+    });
+
+    return progress;
+  }
+
+  /**
+   * Summarize budget progress into the budget fields of ExpenseStats
+   */
+  getBudgetSummary(progress: {
+    [category: string]: CategoryBudgetProgress;
+  }): Pick<ExpenseStats, "budgetProgress" | "totalBudget" | "remainingBudget"> {
+    const entries = Object.values(progress);
+    if (entries.length === 0) {
+      return {};
+    }
+
+    const totalBudget = entries.reduce((sum, item) => sum + item.budget, 0);
+    const totalSpent = entries.reduce((sum, item) => sum + item.spent, 0);
+
+    return {
+      budgetProgress: progress,
+      totalBudget,
+      remainingBudget: totalBudget - totalSpent,
+    };
+  }
+
+  /**
+   * Send a local notification for each category that crossed a budget
+   * threshold this month. Each threshold alerts at most once per month.
+   */
+  checkBudgetAlerts(
+    expenses: Expense[],
+    budgets: CategoryBudgets,
+    date: Date = new Date()
+  ): Promise<CategoryBudgetProgress[]> {
+    // A check started while another runs waits for it, so both can't send the same alert
+    const check = this.budgetAlertCheck.then(() =>
+      this.sendBudgetAlerts(expenses, budgets, date)
+    );
+    this.budgetAlertCheck = check;
+    return check;
+  }
+
+  private async sendBudgetAlerts(
+    expenses: Expense[],
+    budgets: CategoryBudgets,
+    date: Date
+  ): Promise<CategoryBudgetProgress[]> {
+    try {
+      const progress = this.calculateBudgetProgress(expenses, budgets, date);
+      const sentAlerts = await storageService.getBudgetAlerts();
+      const month = moment(date).format("YYYY-MM");
+      const alerts: { item: CategoryBudgetProgress; threshold: number }[] = [];
+
+      for (const item of Object.values(progress)) {
+        const threshold = [...BUDGET_ALERT_THRESHOLDS]
+          .reverse()
+          .find((value) => item.percentage >= value);
+        if (threshold === undefined) continue;
+
+        const alertKey = `${month}:${item.category}:${threshold}`;
+        if (sentAlerts.includes(alertKey)) continue;
+
+        // Crossing 100% implies 80% too, so don't send it afterwards
+        BUDGET_ALERT_THRESHOLDS.filter((value) => value <= threshold).forEach(
+          (value) => sentAlerts.push(`${month}:${item.category}:${value}`)
+        );
+        alerts.push({ item, threshold });
+      }
+
+      // Recorded before sending, so a failed or slow notification can't repeat an alert.
+      // Only this month's alert history is kept.
+      await storageService.setBudgetAlerts(
+        sentAlerts.filter((key) => key.startsWith(`${month}:`))
+      );
+
+      for (const { item, threshold } of alerts) {
+        await notificationService.sendLocalNotification({
+          title:
+            threshold >= 100
+              ? `${item.category} budget exceeded`
+              : `${item.category} budget at ${threshold}%`,
+          body:
+            threshold >= 100
+              ? `You've spent ${this.formatCurrency(item.spent)} of your ${this.formatCurrency(item.budget)} monthly budget.`
+              : `${this.formatCurrency(item.remaining)} left of your ${this.formatCurrency(item.budget)} monthly budget.`,
+          data: {
+            type: "budget_alert",
+            category: item.category,
+            threshold,
+          },
+        });
+      }
+
+      return alerts.map(({ item }) => item);
+    } catch (error) {
+      console.error("Failed to check budget alerts:", error);
+      return [];
+    }
+  }
+
+  // CSV Import / Export Methods
+
+  /**
+   * Build CSV content for a list of expenses
+   */
+  generateExpensesCSV(expenses: Expense[]): string {
+    const rows: (string | number)[][] = [["Date", "Description", "Category", "Amount"]];
+
+    [...expenses]
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+      .forEach((expense) => {
+        rows.push([
+          moment(expense.date).format("YYYY-MM-DD"),
+          expense.description,
+          expense.category,
+          Number(expense.amount).toFixed(2),
+        ]);
+      });
+
+    return toCSV(rows);
+  }
+
+  /**
+   * Write expenses to a CSV file and open the share sheet
+   */
+  async exportExpensesCSV(expenses: Expense[]): Promise<void> {
+    try {
+      const fileUri = `${FileSystem.cacheDirectory}pera-expenses-${moment().format("YYYY-MM-DD")}.csv`;
+
+      await FileSystem.writeAsStringAsync(fileUri, this.generateExpensesCSV(expenses), {
+        encoding: FileSystem.EncodingType.UTF8,
+      });
+
+      if (!(await Sharing.isAvailableAsync())) {
+        throw new Error("Sharing is not available on this device");
+      }
+
+      await Sharing.shareAsync(fileUri, {
+        mimeType: "text/csv",
+        UTI: "public.comma-separated-values-text",
+        dialogTitle: "Export expenses",
+      });
+    } catch (error) {
+      console.error("Failed to export expenses:", error);
+      throw new Error("Failed to export expenses");
+    }
+  }
+
+  /**
+   * Let the user pick a CSV file and parse it into rows. Returns null if cancelled.
+   */
+  async pickCSVFile(): Promise<string[][] | null> {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ["text/csv", "text/comma-separated-values", "text/plain", "*/*"],
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled || !result.assets[0]) {
+        return null;
+      }
+
+      const content = await FileSystem.readAsStringAsync(result.assets[0].uri, {
+        encoding: FileSystem.EncodingType.UTF8,
+      });
+
+      return parseCSV(content);
+    } catch (error) {
+      console.error("Failed to read CSV file:", error);
+      throw new Error("Failed to read CSV file");
+    }
+  }
+
+  /**
+   * Guess which CSV column holds each expense field from the header row
+   */
+  guessCSVColumnMapping(headers: string[]): CSVColumnMapping {
+    const mapping: CSVColumnMapping = {};
+    const used = new Set<number>();
+
+    (Object.keys(CSV_HEADER_PATTERNS) as CSVExpenseField[]).forEach((field) => {
+      const index = headers.findIndex(
+        (header, i) => !used.has(i) && CSV_HEADER_PATTERNS[field].test(header)
+      );
+      if (index !== -1) {
+        mapping[field] = index;
+        used.add(index);
+      }
+    });
+
+    return mapping;
+  }
+
+  /**
+   * Normalize an amount cell like "$1,234.50", "(12.00)" or "1.234,50",
+   * keeping its sign: "(12.00)" and "12.00-" become "-12.00"
+   */
+  parseImportedAmount(value: string): string {
+    const isNegative = /\(.*\)|-/.test(value);
+    let amount = value.replace(/[^\d.,]/g, "");
+
+    // Treat a trailing ",dd" as a decimal comma
+    if (/,\d{1,2}$/.test(amount)) {
+      amount = amount.replace(/\./g, "").replace(",", ".");
+    } else {
+      amount = amount.replace(/,/g, "");
+    }
+
+    return isNegative && amount ? `-${amount}` : amount;
+  }
+
+  /**
+   * Normalize a date cell to YYYY-MM-DD, leaving unrecognized values as-is
+   */
+  parseImportedDate(value: string): string {
+    const date = moment(value.trim(), CSV_DATE_FORMATS, true);
+    return date.isValid() ? date.format("YYYY-MM-DD") : value;
+  }
+
+  /**
+   * Match an imported category label to a known category, defaulting to Other
+   */
+  matchImportedCategory(value: string, categories: ExpenseCategory[]): string {
+    const label = value.trim().toLowerCase();
+    const known = categories.length > 0 ? categories : this.categories;
+
+    const match =
+      label &&
+      (known.find((category) => category.name.toLowerCase() === label) ||
+        known.find(
+          (category) =>
+            category.name.toLowerCase().includes(label) ||
+            label.includes(category.name.toLowerCase())
+        ));
+
+    return match ? match.name : "Other";
+  }
+
+  /**
+   * Map CSV data rows (without the header) to expense form data and validate each one
+   */
+  mapCSVRows(
+    rows: string[][],
+    mapping: CSVColumnMapping,
+    categories: ExpenseCategory[],
+    firstRowNumber = 1 // Line number of the first row, 2 after a header
+  ): CSVImportRow[] {
+    const cell = (row: string[], field: CSVExpenseField): string => {
+      const index = mapping[field];
+      return index !== undefined ? row[index] || "" : "";
+    };
+
+    const amounts = rows.map((row) => this.parseImportedAmount(cell(row, "amount")));
+
+    // Bank exports either list spending as negatives and credits as positives or
+    // the other way round, so go with whichever sign most rows have
+    const negativeCount = amounts.filter((amount) => parseFloat(amount) < 0).length;
+    const positiveCount = amounts.filter((amount) => parseFloat(amount) > 0).length;
+    const spendingIsNegative = negativeCount > positiveCount;
+
+    return rows.map((row, index) => {
+      const amount = amounts[index]!;
+      const value = parseFloat(amount);
+      const data: ExpenseFormData = {
+        amount: amount.replace(/^-/, ""),
+        date: this.parseImportedDate(cell(row, "date")),
+        description: cell(row, "description"),
+        category: this.matchImportedCategory(cell(row, "category"), categories),
+      };
+
+      return {
+        row: index + firstRowNumber,
+        data,
+        errors: this.validateExpenseForm(data),
+        isCredit: spendingIsNegative ? value > 0 : value < 0,
+      };
+    });
+  }
+
+  /**
+   * Create expenses one by one, continuing past individual failures
+   */
+  async bulkCreate(
+    expenses: ExpenseFormData[],
+    userId: string,
+    onProgress?: (completed: number, total: number) => void
+  ): Promise<{ created: Expense[]; failed: number }> {
+    const created: Expense[] = [];
+    let failed = 0;
+
+    for (const expenseData of expenses) {
+      try {
+        created.push(await this.create(expenseData, userId));
+      } catch (error) {
+        console.error("Failed to import expense:", expenseData.description, error);
+        failed++;
+      }
+      onProgress?.(created.length + failed, expenses.length);
+    }
+
+    return { created, failed };
+  }
+
   /**
    * Validate expense form data
    */
@@ -489,10 +1027,10 @@ class ExpenseService {
   /**
    * Format currency
    */
-  formatCurrency(amount: number): string {
+  formatCurrency(amount: number, currency = "USD"): string {
     return new Intl.NumberFormat("en-US", {
       style: "currency",
-      currency: "USD",
+      currency,
     }).format(amount);
   }
 
@@ -601,6 +1139,39 @@ class ExpenseService {
     }
   }
 
+  /**
+   * Find the expenses linked to a calendar event. Only the most recent pages of
+   * expenses are searched (see MAX_EVENT_EXPENSE_PAGES), so a link to a much
+   * older expense isn't found.
+   */
+  async findByEvent(eventId: string): Promise<Expense[]> {
+    try {
+      const expenses: Expense[] = [];
+      let page = 1;
+      let totalPages = 1;
+      do {
+        const response = await apiClient.get("/expenses", {
+          params: { page },
+        });
+
+        if (!response || !response.data) {
+          break;
+        }
+
+        expenses.push(
+          ...(Array.isArray(response.data) ? response.data : response.data.expenses || [])
+        );
+        totalPages = response.data.totalPages || 1;
+        page += 1;
+      } while (page <= Math.min(totalPages, MAX_EVENT_EXPENSE_PAGES));
+
+      return expenses.filter((expense) => expense.calendarEventId === eventId);
+    } catch (error) {
+      console.error("Failed to find expenses by event:", error);
+      throw new Error("Failed to load expenses for event");
+    }
+  }
+
   /**
    * Find expenses by category
    */
@@ -945,30 +1516,27 @@ class ExpenseService {
   }
 
   /**
-   * Get upcoming planned expenses for a user
+   * Get upcoming planned expenses for a user, one entry per occurrence
    */
   async getUpcomingPlannedExpenses(
     userId: string,
     days: number = 30
   ): Promise<PlannedExpense[]> {
     try {
+      const startDate = new Date();
       const endDate = new Date();
       endDate.setDate(endDate.getDate() + days);
 
-      const response = await apiClient.get("/expenses/planned", {
-        params: {
-          userId,
-          startDate: new Date().toISOString(),
-          endDate: endDate.toISOString(),
-          isActive: true,
-        },
-      });
-
-      if (!response || !response.data) {
-        return [];
-      }
+      const occurrences = await this.getPlannedExpenseOccurrencesForRange(
+        userId,
+        startDate,
+        endDate
+      );
 
-      return response.data.plannedExpenses || response.data || [];
+      return occurrences.sort(
+        (a, b) =>
+          new Date(a.plannedDate).getTime() - new Date(b.plannedDate).getTime()
+      );
     } catch (error) {
       console.error("Failed to get upcoming planned expenses:", error);
       throw new Error("Failed to load upcoming planned expenses");
@@ -981,11 +1549,13 @@ class ExpenseService {
   async togglePlannedExpenseRecurring(
     id: string,
     isRecurring: boolean,
-    userId: string
+    userId: string,
+    recurrence: RecurrenceRule = DEFAULT_RECURRENCE_RULE
   ): Promise<PlannedExpense> {
     try {
       const response = await apiClient.patch(`/expenses/planned/${id}`, {
         isRecurring,
+        recurrence: isRecurring ? recurrence : null,
         userId,
       });
 
@@ -1085,7 +1655,7 @@ class ExpenseService {
   }
 
   /**
-   * Calculate total planned expenses for a date range
+   * Calculate total planned expenses for a date range, counting every occurrence
    */
   async calculatePlannedExpensesForRange(
     userId: string,
@@ -1093,24 +1663,15 @@ class ExpenseService {
     endDate: string
   ): Promise<number> {
     try {
-      const response = await apiClient.get("/expenses/planned", {
-        params: {
-          userId,
-          startDate,
-          endDate,
-          isRecurring: true,
-        },
-      });
-
-      if (!response || !response.data) {
-        return 0;
-      }
+      const occurrences = await this.getPlannedExpenseOccurrencesForRange(
+        userId,
+        new Date(startDate),
+        new Date(endDate)
+      );
 
-      const plannedExpenses =
-        response.data.plannedExpenses || response.data || [];
-      return plannedExpenses.reduce(
+      return occurrences.reduce(
         (total: number, expense: PlannedExpense) => {
-          return total + expense.amount;
+          return total + Number(expense.amount);
         },
         0
       );
@@ -1119,6 +1680,46 @@ class ExpenseService {
       throw new Error("Failed to calculate planned expenses for range");
     }
   }
+
+  /**
+   * Find every active planned expense starting on or before a date, across all pages
+   */
+  async findActivePlannedExpenses(
+    userId: string,
+    endDate: Date
+  ): Promise<PlannedExpense[]> {
+    const plannedExpenses: PlannedExpense[] = [];
+    let page = 1;
+    let totalPages = 1;
+    do {
+      const result = await this.findAllPlannedExpensesByUser(userId, {
+        endDate: endDate.toISOString(),
+        isActive: true,
+        page,
+      });
+      plannedExpenses.push(...result.plannedExpenses);
+      totalPages = result.totalPages || 1;
+      page += 1;
+    } while (page <= totalPages);
+
+    return plannedExpenses;
+  }
+
+  /**
+   * Expand a user's planned expenses into individual occurrences within a range
+   */
+  async getPlannedExpenseOccurrencesForRange(
+    userId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<PlannedExpense[]> {
+    // Recurring templates can start long before the range, so only bound the end
+    const plannedExpenses = await this.findActivePlannedExpenses(userId, endDate);
+
+    return plannedExpenses.flatMap((expense) =>
+      getPlannedExpenseOccurrences(expense, startDate, endDate)
+    );
+  }
 }
 
 export const expenseService = new ExpenseService();
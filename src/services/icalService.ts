@@ -0,0 +1,171 @@
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import moment from "moment";
+import { CalendarEvent, CreateEventData } from "../store/slices/calendarSlice";
+import { generateICS, IcsEvent, parseICS } from "../utils/ical";
+import { DateRange, eventsApi } from "./api/eventsApi";
+
+// Events from eventsApi use startDate/endDate, events in the store use startTime/endTime
+type ExportableEvent = {
+  id: string;
+  title: string;
+  description?: string;
+  location?: string;
+  isAllDay: boolean;
+  recurrenceRule?: string;
+  exceptionDates?: string[];
+  icalUid?: string;
+  startTime?: string;
+  endTime?: string;
+  startDate?: string;
+  endDate?: string;
+};
+
+export interface IcsImportPlan {
+  events: CreateEventData[];
+  duplicates: number;
+}
+
+class ICalService {
+  /**
+   * Get the iCalendar UID for an event, reusing the original UID for imports
+   */
+  getEventUid(event: { id: string; icalUid?: string }): string {
+    return event.icalUid || `${event.id}@pera.app`;
+  }
+
+  /**
+   * Convert an app event into its iCalendar representation
+   */
+  toIcsEvent(event: ExportableEvent): IcsEvent {
+    const icsEvent: IcsEvent = {
+      uid: this.getEventUid(event),
+      title: event.title,
+      startTime: event.startTime || event.startDate || "",
+      endTime: event.endTime || event.endDate || "",
+      isAllDay: event.isAllDay,
+    };
+
+    if (event.description) icsEvent.description = event.description;
+    if (event.location) icsEvent.location = event.location;
+    if (event.recurrenceRule) icsEvent.recurrenceRule = event.recurrenceRule;
+    if (event.exceptionDates?.length) icsEvent.exceptionDates = event.exceptionDates;
+
+    return icsEvent;
+  }
+
+  /**
+   * Export all events in a date range to an .ics file and open the share sheet
+   */
+  async exportDateRange(dateRange: DateRange): Promise<number> {
+    try {
+      const result = await eventsApi.getByDateRange(dateRange);
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+
+      const events: ExportableEvent[] = result.data || [];
+      const content = generateICS(events.map((event) => this.toIcsEvent(event)));
+
+      const fileName = `pera-events-${moment(dateRange.startDate).format("YYYY-MM-DD")}-to-${moment(dateRange.endDate).format("YYYY-MM-DD")}.ics`;
+      const fileUri = `${FileSystem.cacheDirectory}${fileName}`;
+
+      await FileSystem.writeAsStringAsync(fileUri, content, {
+        encoding: FileSystem.EncodingType.UTF8,
+      });
+
+      if (!(await Sharing.isAvailableAsync())) {
+        throw new Error("Sharing is not available on this device");
+      }
+
+      await Sharing.shareAsync(fileUri, {
+        mimeType: "text/calendar",
+        UTI: "com.apple.ical.ics",
+        dialogTitle: "Export events",
+      });
+
+      return events.length;
+    } catch (error) {
+      console.error("Failed to export events:", error);
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error("Failed to export events");
+    }
+  }
+
+  /**
+   * Let the user pick an .ics file and parse its events. Returns null if cancelled.
+   */
+  async pickCalendarFile(): Promise<IcsEvent[] | null> {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ["text/calendar", "application/ics", "*/*"],
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled || !result.assets[0]) {
+        return null;
+      }
+
+      const content = await FileSystem.readAsStringAsync(result.assets[0].uri, {
+        encoding: FileSystem.EncodingType.UTF8,
+      });
+
+      if (!content.includes("BEGIN:VCALENDAR")) {
+        throw new Error("Not an iCalendar file");
+      }
+
+      return parseICS(content);
+    } catch (error) {
+      console.error("Failed to read calendar file:", error);
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error("Failed to read calendar file");
+    }
+  }
+
+  /**
+   * Turn parsed events into createEvent payloads, skipping UIDs that are
+   * already in the calendar (or repeated within the file)
+   */
+  planImport(
+    icsEvents: IcsEvent[],
+    existingEvents: Pick<CalendarEvent, "id" | "icalUid">[],
+    userId: string
+  ): IcsImportPlan {
+    const knownUids = new Set(existingEvents.map((event) => this.getEventUid(event)));
+    const plan: IcsImportPlan = { events: [], duplicates: 0 };
+
+    icsEvents.forEach((icsEvent) => {
+      if (knownUids.has(icsEvent.uid)) {
+        plan.duplicates++;
+        return;
+      }
+      knownUids.add(icsEvent.uid);
+
+      const eventData: CreateEventData = {
+        userId,
+        title: icsEvent.title,
+        startTime: icsEvent.startTime,
+        endTime: icsEvent.endTime,
+        isAllDay: icsEvent.isAllDay,
+        icalUid: icsEvent.uid,
+      };
+
+      if (icsEvent.description) eventData.description = icsEvent.description;
+      if (icsEvent.location) eventData.location = icsEvent.location;
+      if (icsEvent.recurrenceRule) eventData.recurrenceRule = icsEvent.recurrenceRule;
+      if (icsEvent.exceptionDates) eventData.exceptionDates = icsEvent.exceptionDates;
+
+      plan.events.push(eventData);
+    });
+
+    return plan;
+  }
+}
+
+export const icalService = new ICalService();
+export default icalService;
@@ -8,6 +8,13 @@ export interface NotificationData {
   data?: any;
 }
 
+export interface EventReminder {
+  id: string;
+  type: "reminder" | "start"; // Ahead of the event, or as it starts
+  title: string;
+  remindAt: string; // ISO string
+}
+
 export interface NotificationPermissions {
   granted: boolean;
   canAskAgain: boolean;
@@ -318,7 +325,11 @@ class NotificationService {
               `Upcoming: ${event.title}`,
               `Your event starts in ${reminderMinutes} minutes`,
               reminderDate,
-              { eventId: event.id, type: "reminder" }
+              {
+                eventId: event.id,
+                type: "reminder",
+                remindAt: reminderDate.toISOString(),
+              }
             );
             if (reminderId) notifications.push(reminderId);
           }
@@ -328,7 +339,11 @@ class NotificationService {
             event.title,
             "Your event is starting now",
             eventDate,
-            { eventId: event.id, type: "start" }
+            {
+              eventId: event.id,
+              type: "start",
+              remindAt: eventDate.toISOString(),
+            }
           );
           if (startId) notifications.push(startId);
 
@@ -351,12 +366,55 @@ class NotificationService {
    * Cancel notifications for multiple events
    */
   async cancelEventNotifications(eventIds: string[]): Promise<void> {
-    const promises = eventIds.map((eventId) =>
-      this.cancelNotification(eventId)
-    );
+    // Reminders are scheduled under their own ids, with the event's in their data
+    const ids = new Set(eventIds);
+    const scheduled = await this.getScheduledNotifications();
+    const promises = scheduled
+      .filter((notification) => ids.has(notification.content?.data?.eventId))
+      .map((notification) => this.cancelNotification(notification.identifier));
     await Promise.allSettled(promises);
   }
 
+  /**
+   * Reminders still to come for an event, soonest first
+   */
+  async getEventReminders(eventId: string): Promise<EventReminder[]> {
+    const scheduled = await this.getScheduledNotifications();
+    return scheduled
+      .filter((notification) => notification.content?.data?.eventId === eventId)
+      .map((notification): EventReminder => {
+        // Reminders scheduled before remindAt was stored fall back to the trigger
+        const remindAt = new Date(
+          notification.content.data.remindAt ??
+            notification.trigger?.value ??
+            notification.trigger?.date
+        );
+        return {
+          id: notification.identifier,
+          type: notification.content.data.type === "start" ? "start" : "reminder",
+          title: notification.content.title || "",
+          remindAt: isNaN(remindAt.getTime()) ? "" : remindAt.toISOString(),
+        };
+      })
+      .filter((reminder) => reminder.remindAt !== "")
+      .sort((a, b) => a.remindAt.localeCompare(b.remindAt));
+  }
+
+  /**
+   * Replace the reminders of events whose time has changed
+   */
+  async rescheduleEventReminders(
+    events: {
+      id: string;
+      title: string;
+      startTime: string;
+    }[],
+    reminderMinutes: number = 15
+  ): Promise<{ [eventId: string]: string[] }> {
+    await this.cancelEventNotifications(events.map((event) => event.id));
+    return this.scheduleEventRemindersBatch(events, reminderMinutes);
+  }
+
   /**
    * Test notification (for development)
    */
@@ -1,4 +1,5 @@
 import { STORAGE_KEYS } from "@/constants";
+import { SchedulingPreferences, SpeechProfile } from "@/types";
 import { safeJsonParse, safeJsonStringify } from "@/utils/helpers";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 
@@ -106,6 +107,14 @@ class StorageService {
     return this.getItem<boolean>(STORAGE_KEYS.app.onboarding, false);
   }
 
+  async setSpeechProfile(profile: SpeechProfile): Promise<void> {
+    return this.setItem(STORAGE_KEYS.app.speechProfile, profile);
+  }
+
+  async getSpeechProfile(): Promise<SpeechProfile | null> {
+    return this.getItem<SpeechProfile>(STORAGE_KEYS.app.speechProfile);
+  }
+
   // Conversation storage methods
   async setConversations(conversations: any[]): Promise<void> {
     return this.setItem(STORAGE_KEYS.conversations.list, conversations);
@@ -123,6 +132,82 @@ class StorageService {
     return this.getItem(STORAGE_KEYS.conversations.current);
   }
 
+  // Expense budget storage methods
+  async setCategoryBudgets(budgets: { [category: string]: number }): Promise<void> {
+    return this.setItem(STORAGE_KEYS.expenses.budgets, budgets);
+  }
+
+  async getCategoryBudgets(): Promise<{ [category: string]: number }> {
+    const budgets = await this.getItem<{ [category: string]: number }>(
+      STORAGE_KEYS.expenses.budgets
+    );
+    return budgets || {};
+  }
+
+  async setBudgetAlerts(alertKeys: string[]): Promise<void> {
+    return this.setItem(STORAGE_KEYS.expenses.budgetAlerts, alertKeys);
+  }
+
+  async getBudgetAlerts(): Promise<string[]> {
+    const alertKeys = await this.getItem<string[]>(
+      STORAGE_KEYS.expenses.budgetAlerts
+    );
+    return alertKeys || [];
+  }
+
+  // Calendar storage methods
+  async setSchedulingPreferences(preferences: SchedulingPreferences): Promise<void> {
+    return this.setItem(STORAGE_KEYS.calendar.schedulingPreferences, preferences);
+  }
+
+  async getSchedulingPreferences(): Promise<SchedulingPreferences | null> {
+    return this.getItem<SchedulingPreferences>(
+      STORAGE_KEYS.calendar.schedulingPreferences
+    );
+  }
+
+  // Offline sync storage methods (one outbox per user)
+  async setOutbox(userId: string, mutations: any[]): Promise<void> {
+    return this.setItem(`${STORAGE_KEYS.sync.outbox}_${userId}`, mutations);
+  }
+
+  async getOutbox(userId: string): Promise<any[]> {
+    const mutations = await this.getItem<any[]>(`${STORAGE_KEYS.sync.outbox}_${userId}`);
+    return mutations || [];
+  }
+
+  // Voice command history storage methods (one history per user)
+  async setVoiceHistory(userId: string, commands: any[]): Promise<void> {
+    return this.setItem(`${STORAGE_KEYS.voice.history}_${userId}`, commands);
+  }
+
+  async getVoiceHistory(userId: string): Promise<any[]> {
+    const commands = await this.getItem<any[]>(`${STORAGE_KEYS.voice.history}_${userId}`);
+    return commands || [];
+  }
+
+  async clearVoiceHistory(userId: string): Promise<void> {
+    return this.removeItem(`${STORAGE_KEYS.voice.history}_${userId}`);
+  }
+
+  async setVoiceReviewMode(enabled: boolean): Promise<void> {
+    return this.setItem(STORAGE_KEYS.voice.reviewMode, enabled);
+  }
+
+  async getVoiceReviewMode(): Promise<boolean> {
+    const enabled = await this.getItem<boolean>(STORAGE_KEYS.voice.reviewMode);
+    return enabled || false;
+  }
+
+  async setVoiceQueue(recordings: any[]): Promise<void> {
+    return this.setItem(STORAGE_KEYS.voice.queue, recordings);
+  }
+
+  async getVoiceQueue(): Promise<any[]> {
+    const recordings = await this.getItem<any[]>(STORAGE_KEYS.voice.queue);
+    return recordings || [];
+  }
+
   // Utility methods
   async getAllKeys(): Promise<string[]> {
     try {
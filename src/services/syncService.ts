@@ -0,0 +1,514 @@
+import { AxiosRequestConfig } from "axios";
+import { apiClient } from "../api/client";
+import { API_ENDPOINTS, HTTP_STATUS } from "../config/env";
+import { storageService } from "./storage";
+
+// Types
+export type SyncEntity = "expense" | "plannedExpense" | "event";
+export type SyncOperation = "create" | "update" | "delete";
+
+export interface OutboxMutation {
+  id: string; // Also sent as the Idempotency-Key header
+  entity: SyncEntity;
+  operation: SyncOperation;
+  entityId: string; // Local id until the queued create has synced
+  payload?: { [field: string]: any };
+  base?: { [field: string]: any }; // Values of the changed fields before the edit
+  baseUpdatedAt?: string; // Server updatedAt the edit was made against
+  createdAt: string;
+  attempts: number;
+  lastError?: string;
+}
+
+export type NewOutboxMutation = Omit<OutboxMutation, "createdAt" | "attempts">;
+
+export type SyncConflictResolution = "local" | "server" | "discarded";
+
+export interface SyncConflict {
+  mutationId: string;
+  entity: SyncEntity;
+  entityId: string;
+  operation: SyncOperation;
+  fields: string[];
+  resolution: SyncConflictResolution;
+  detectedAt: string;
+}
+
+export interface SyncHandlers {
+  onSynced: (mutation: OutboxMutation, result: any) => void;
+  onDiscarded: (mutation: OutboxMutation, serverCopy?: any) => void;
+}
+
+export interface SyncResult {
+  synced: number;
+  failed: number;
+  pending: number;
+  conflicts: SyncConflict[];
+}
+
+interface ReplayOutcome {
+  result?: any;
+  serverCopy?: any;
+  discarded?: boolean;
+  conflict?: SyncConflict;
+}
+
+const LOCAL_ID_PREFIX = "local_";
+const MAX_ATTEMPTS = 5;
+
+export const isNetworkError = (error: any): boolean =>
+  error?.code === "NETWORK_ERROR";
+
+export const isLocalId = (id: string): boolean => id.startsWith(LOCAL_ID_PREFIX);
+
+export const toLocalId = (key: string): string => `${LOCAL_ID_PREFIX}${key}`;
+
+/**
+ * Snapshot the fields an edit changes, so replay can tell whether the server
+ * copy was edited in the meantime. Items that only exist locally have no base.
+ */
+export const getMutationBase = (
+  previous: any,
+  changes: { [field: string]: any } = {}
+): Pick<NewOutboxMutation, "base" | "baseUpdatedAt"> => {
+  if (!previous?.updatedAt || isLocalId(previous.id)) {
+    return {};
+  }
+
+  const base: { [field: string]: any } = {};
+  Object.keys(changes).forEach((field) => {
+    base[field] = previous[field] ?? null;
+  });
+  return { base, baseUpdatedAt: previous.updatedAt };
+};
+
+/**
+ * Lay queued edits and deletes over freshly fetched items, so a refetch
+ * doesn't bring back the server copy of something changed offline
+ */
+export const applyPendingMutations = <T extends { id: string }>(
+  items: T[],
+  mutations: OutboxMutation[],
+  entity: SyncEntity
+): T[] =>
+  mutations
+    .filter((mutation) => mutation.entity === entity)
+    .reduce((result, mutation) => {
+      switch (mutation.operation) {
+        case "update":
+          return result.map((item) =>
+            item.id === mutation.entityId
+              ? { ...item, ...mutation.payload, pendingSync: true }
+              : item
+          );
+        case "delete":
+          return result.filter((item) => item.id !== mutation.entityId);
+        default:
+          return result;
+      }
+    }, items);
+
+const getCollectionUrl = (entity: SyncEntity): string => {
+  switch (entity) {
+    case "event":
+      return API_ENDPOINTS.EVENTS;
+    case "plannedExpense":
+      return `${API_ENDPOINTS.EXPENSES}/planned`;
+    default:
+      return API_ENDPOINTS.EXPENSES;
+  }
+};
+
+const getItemUrl = (entity: SyncEntity, id: string): string => {
+  switch (entity) {
+    case "event":
+      return API_ENDPOINTS.EVENT_BY_ID(id);
+    case "plannedExpense":
+      return `${API_ENDPOINTS.EXPENSES}/planned/${id}`;
+    default:
+      return API_ENDPOINTS.EXPENSE_BY_ID(id);
+  }
+};
+
+const isSameValue = (a: any, b: any): boolean =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const isAfter = (a?: string, b?: string): boolean =>
+  !!a && !!b && new Date(a).getTime() > new Date(b).getTime();
+
+class SyncService {
+  private userId: string | null = null;
+  private outbox: OutboxMutation[] = [];
+  private loadPromise: Promise<void> | null = null;
+  private inFlight: OutboxMutation | null = null;
+
+  private async ensureLoaded(): Promise<void> {
+    if (!this.loadPromise) {
+      const userId = this.userId;
+      this.loadPromise = userId
+        ? storageService.getOutbox(userId).then((mutations) => {
+            if (this.userId === userId) {
+              this.outbox = mutations as OutboxMutation[];
+            }
+          })
+        : Promise.resolve();
+    }
+    return this.loadPromise;
+  }
+
+  private async persist(): Promise<void> {
+    if (this.userId) {
+      await storageService.setOutbox(this.userId, this.outbox);
+    }
+  }
+
+  /**
+   * Switch to the signed-in user's outbox. Changes queued by someone else
+   * stay in theirs until they sign in again.
+   */
+  setUser(userId: string | null) {
+    if (userId === this.userId) return;
+
+    this.userId = userId;
+    this.outbox = [];
+    this.loadPromise = null;
+  }
+
+  /**
+   * Request config carrying the idempotency key, so a replayed write is applied once
+   */
+  getIdempotencyConfig(key: string): AxiosRequestConfig {
+    return { headers: { "Idempotency-Key": key } };
+  }
+
+  /**
+   * Get the queued mutations in replay order
+   */
+  async getPending(): Promise<OutboxMutation[]> {
+    await this.ensureLoaded();
+    return [...this.outbox];
+  }
+
+  /**
+   * Add a write to the outbox and return the number of queued mutations.
+   * Consecutive updates to the same item are merged into one request.
+   */
+  async enqueue(mutation: NewOutboxMutation): Promise<number> {
+    await this.ensureLoaded();
+
+    const queued = this.outbox.filter(
+      (pending) =>
+        pending !== this.inFlight &&
+        pending.entity === mutation.entity &&
+        pending.entityId === mutation.entityId
+    );
+    const pendingUpdate = queued.find((pending) => pending.operation === "update");
+
+    if (mutation.operation === "update" && pendingUpdate) {
+      // The merged payload is a new request, so it gets a new key
+      pendingUpdate.id = mutation.id;
+      pendingUpdate.payload = { ...pendingUpdate.payload, ...mutation.payload };
+      pendingUpdate.base = { ...mutation.base, ...pendingUpdate.base };
+      pendingUpdate.createdAt = new Date().toISOString();
+    } else {
+      if (mutation.operation === "delete") {
+        // Updates to an item that is about to be deleted are moot
+        this.outbox = this.outbox.filter(
+          (pending) => !(pending.operation === "update" && queued.includes(pending))
+        );
+      }
+      this.outbox.push({
+        ...mutation,
+        createdAt: new Date().toISOString(),
+        attempts: 0,
+      });
+    }
+
+    await this.persist();
+    return this.outbox.length;
+  }
+
+  /**
+   * Replay the outbox in order. Stops at the first network error so the
+   * remaining writes keep their order for the next attempt.
+   */
+  async flush(handlers: SyncHandlers): Promise<SyncResult> {
+    await this.ensureLoaded();
+    const result: SyncResult = { synced: 0, failed: 0, pending: 0, conflicts: [] };
+    const userId = this.userId;
+
+    if (this.inFlight) {
+      result.pending = this.outbox.length;
+      return result;
+    }
+
+    try {
+      // Stop if the user signs out mid-flush, the rest belongs to their outbox
+      while (this.outbox.length > 0 && this.userId === userId) {
+        const mutation = this.outbox[0]!;
+        this.inFlight = mutation;
+
+        try {
+          const outcome = await this.replay(mutation);
+
+          if (outcome.conflict) {
+            result.conflicts.push(outcome.conflict);
+          }
+
+          if (outcome.discarded) {
+            this.discard(mutation);
+            handlers.onDiscarded(mutation, outcome.serverCopy);
+          } else {
+            this.remove(mutation);
+            if (mutation.operation === "create") {
+              this.remapEntityId(mutation, outcome.result);
+            }
+            handlers.onSynced(mutation, outcome.result);
+            result.synced++;
+          }
+        } catch (error: any) {
+          if (isNetworkError(error)) {
+            break;
+          }
+
+          mutation.attempts++;
+          mutation.lastError = error.message;
+
+          // Server and auth errors are retried later, rejected writes will never succeed
+          const isRetryable =
+            !error.status ||
+            error.status >= 500 ||
+            error.status === HTTP_STATUS.UNAUTHORIZED;
+          if (isRetryable && mutation.attempts < MAX_ATTEMPTS) {
+            console.error("Failed to sync change, will retry:", error);
+            break;
+          }
+
+          console.error("Failed to sync change, discarding:", mutation, error);
+          this.discard(mutation);
+          result.failed++;
+          result.conflicts.push(this.createConflict(mutation, [], "discarded"));
+          handlers.onDiscarded(mutation, await this.fetchServerCopySafely(mutation));
+        } finally {
+          this.inFlight = null;
+          if (this.userId === userId) {
+            await this.persist();
+          }
+        }
+      }
+    } catch (error) {
+      console.error("Failed to sync offline changes:", error);
+      throw new Error("Failed to sync offline changes");
+    }
+
+    result.pending = this.outbox.length;
+    return result;
+  }
+
+  private remove(mutation: OutboxMutation) {
+    this.outbox = this.outbox.filter((pending) => pending !== mutation);
+  }
+
+  private discard(mutation: OutboxMutation) {
+    this.remove(mutation);
+
+    // Follow-up writes to an item that never reached the server can't succeed
+    if (mutation.operation === "create") {
+      this.outbox = this.outbox.filter(
+        (pending) =>
+          !(pending.entity === mutation.entity && pending.entityId === mutation.entityId)
+      );
+    }
+  }
+
+  // Point queued writes for a newly created item at its server id
+  private remapEntityId(mutation: OutboxMutation, created: any) {
+    const item = Array.isArray(created) ? created[0] : created;
+    if (!item?.id) return;
+
+    this.outbox.forEach((pending) => {
+      if (pending.entity === mutation.entity && pending.entityId === mutation.entityId) {
+        pending.entityId = item.id;
+      }
+    });
+  }
+
+  private async replay(mutation: OutboxMutation): Promise<ReplayOutcome> {
+    const config = this.getIdempotencyConfig(mutation.id);
+
+    switch (mutation.operation) {
+      case "create": {
+        const response = await apiClient.post(
+          getCollectionUrl(mutation.entity),
+          mutation.payload,
+          config
+        );
+        return { result: response.data };
+      }
+      case "update":
+        return this.replayUpdate(mutation, config);
+      case "delete":
+        return this.replayDelete(mutation, config);
+    }
+  }
+
+  private async replayUpdate(
+    mutation: OutboxMutation,
+    config: AxiosRequestConfig
+  ): Promise<ReplayOutcome> {
+    let payload = mutation.payload || {};
+    let conflict: SyncConflict | undefined;
+
+    if (mutation.baseUpdatedAt) {
+      const serverCopy = await this.fetchServerCopy(mutation);
+      if (!serverCopy) {
+        // Deleted elsewhere while the edit was waiting
+        return {
+          discarded: true,
+          conflict: this.createConflict(mutation, [], "server"),
+        };
+      }
+
+      ({ payload, conflict } = this.resolveUpdate(mutation, serverCopy));
+      if (Object.keys(payload).length === 0) {
+        return conflict ? { result: serverCopy, conflict } : { result: serverCopy };
+      }
+    }
+
+    const url = getItemUrl(mutation.entity, mutation.entityId);
+    // Planned expenses are patched, everything else is updated with PUT
+    const response =
+      mutation.entity === "plannedExpense"
+        ? await apiClient.patch(url, payload, config)
+        : await apiClient.put(url, payload, config);
+
+    return conflict ? { result: response.data, conflict } : { result: response.data };
+  }
+
+  private async replayDelete(
+    mutation: OutboxMutation,
+    config: AxiosRequestConfig
+  ): Promise<ReplayOutcome> {
+    if (mutation.baseUpdatedAt) {
+      const serverCopy = await this.fetchServerCopy(mutation);
+      if (!serverCopy) {
+        return {};
+      }
+
+      // An edit made elsewhere after the delete wins over it
+      if (
+        isAfter(serverCopy.updatedAt, mutation.baseUpdatedAt) &&
+        isAfter(serverCopy.updatedAt, mutation.createdAt)
+      ) {
+        return {
+          discarded: true,
+          serverCopy,
+          conflict: this.createConflict(mutation, [], "server"),
+        };
+      }
+    }
+
+    try {
+      await apiClient.delete(getItemUrl(mutation.entity, mutation.entityId), config);
+    } catch (error: any) {
+      if (error.status !== HTTP_STATUS.NOT_FOUND) {
+        throw error;
+      }
+    }
+    return {};
+  }
+
+  /**
+   * Work out which fields of a queued update to send when the server copy has
+   * changed since the edit was made. Fields only changed on one side are kept
+   * from that side; fields changed on both sides go to the most recent edit.
+   */
+  resolveUpdate(
+    mutation: OutboxMutation,
+    serverCopy: any
+  ): { payload: { [field: string]: any }; conflict?: SyncConflict } {
+    const changes = mutation.payload || {};
+
+    if (!isAfter(serverCopy.updatedAt, mutation.baseUpdatedAt)) {
+      return { payload: changes };
+    }
+
+    const localWins = !isAfter(serverCopy.updatedAt, mutation.createdAt);
+    const payload: { [field: string]: any } = {};
+    const conflictingFields: string[] = [];
+
+    Object.entries(changes).forEach(([field, value]) => {
+      const serverValue = serverCopy[field];
+      if (isSameValue(serverValue, value)) {
+        return;
+      }
+
+      const changedOnServer = !isSameValue(serverValue, mutation.base?.[field]);
+      if (!changedOnServer) {
+        payload[field] = value;
+        return;
+      }
+
+      conflictingFields.push(field);
+      if (localWins) {
+        payload[field] = value;
+      }
+    });
+
+    if (conflictingFields.length === 0) {
+      return { payload };
+    }
+
+    return {
+      payload,
+      conflict: this.createConflict(
+        mutation,
+        conflictingFields,
+        localWins ? "local" : "server"
+      ),
+    };
+  }
+
+  private async fetchServerCopy(mutation: OutboxMutation): Promise<any | null> {
+    try {
+      const response = await apiClient.get(getItemUrl(mutation.entity, mutation.entityId));
+      return response.data;
+    } catch (error: any) {
+      if (error.status === HTTP_STATUS.NOT_FOUND) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async fetchServerCopySafely(mutation: OutboxMutation): Promise<any | undefined> {
+    if (isLocalId(mutation.entityId)) {
+      return undefined;
+    }
+    try {
+      return (await this.fetchServerCopy(mutation)) || undefined;
+    } catch (error) {
+      console.error("Failed to fetch server copy:", error);
+      return undefined;
+    }
+  }
+
+  private createConflict(
+    mutation: OutboxMutation,
+    fields: string[],
+    resolution: SyncConflictResolution
+  ): SyncConflict {
+    return {
+      mutationId: mutation.id,
+      entity: mutation.entity,
+      entityId: mutation.entityId,
+      operation: mutation.operation,
+      fields,
+      resolution,
+      detectedAt: new Date().toISOString(),
+    };
+  }
+}
+
+export const syncService = new SyncService();
+export default syncService;
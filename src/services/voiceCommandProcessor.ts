@@ -1,302 +1,254 @@
+import { ResponseVerbosity } from "../types";
+import { formatDate, formatTime } from "../utils/dateTime";
+import {
+  getParserLanguage,
+  IntentSlots,
+  parseIntent,
+  ParserLanguage,
+  VoiceIntent,
+} from "../utils/intentParser";
+import { resolveDateRange, resolveDateTime } from "../utils/naturalDate";
+import { parseSpokenAmount } from "../utils/spokenAmount";
+import { expenseService } from "./expenseService";
+import { storageService } from "./storage";
+
 export interface VoiceCommandData {
-  action: string;
+  action: string; // Intent, with navigation narrowed to a screen (navigate_calendar)
+  intent: VoiceIntent;
+  slots: IntentSlots;
   title?: string;
   description?: string;
   location?: string;
-  date?: string;
-  time?: string;
+  date?: string; // ISO string of the day the command refers to
+  time?: string; // Start time for display, e.g. "3:00 PM"
+  startTime?: string; // ISO string
+  endTime?: string; // ISO string
   duration?: string;
   isAllDay?: boolean;
   amount?: number;
-  category?: string;
+  currency?: string; // ISO 4217 code
+  category?: string; // One of expenseService's category names
+  merchant?: string;
   confidence: number;
 }
 
-export interface ParsedTime {
-  hours: number;
-  minutes: number;
-  period: "AM" | "PM";
-}
-
-export interface ParsedDate {
-  day: number;
-  month: number;
-  year: number;
-  relative?: "today" | "tomorrow" | "next_week";
-}
+const BRIEF_NAVIGATION_RESPONSES: { [action: string]: string } = {
+  navigate_calendar: "Calendar.",
+  navigate_expenses: "Expenses.",
+  navigate_home: "Home.",
+  navigate_profile: "Profile.",
+  navigate_voice: "Voice assistant.",
+  navigate_chat: "Voice assistant.",
+};
+
+// Locale recordings are transcribed in, for each language commands are parsed in
+const TRANSCRIPTION_LANGUAGES: { [language in ParserLanguage]: string } = {
+  en: "en-US",
+  es: "es-ES",
+  fr: "fr-FR",
+};
 
 class VoiceCommandProcessor {
+  private language: ParserLanguage = "en";
+
   /**
-   * Process voice input and extract structured data
+   * Pick up the language commands are spoken in from the app language setting
    */
-  processVoiceInput(text: string): VoiceCommandData {
-    const lowerText = text.toLowerCase();
-    const result: VoiceCommandData = {
-      action: "unknown",
-      confidence: 0.8,
-    };
-
-    // Determine the main action
-    if (this.isEventCommand(lowerText)) {
-      result.action = "create_event";
-      this.extractEventData(text, result);
-    } else if (this.isExpenseCommand(lowerText)) {
-      result.action = "add_expense";
-      this.extractExpenseData(text, result);
-    } else if (this.isNavigationCommand(lowerText)) {
-      result.action = "navigate";
-      this.extractNavigationData(text, result);
-    } else if (this.isQueryCommand(lowerText)) {
-      result.action = "query";
-      this.extractQueryData(text, result);
+  async loadLanguage(): Promise<ParserLanguage> {
+    try {
+      this.language = getParserLanguage(await storageService.getLanguage());
+    } catch (error) {
+      console.error("Failed to load the command language:", error);
     }
-
-    return result;
-  }
-
-  private isEventCommand(text: string): boolean {
-    const eventKeywords = [
-      "schedule",
-      "meeting",
-      "event",
-      "appointment",
-      "call",
-      "title",
-      "description",
-      "location",
-      "time",
-      "date",
-    ];
-    return eventKeywords.some((keyword) => text.includes(keyword));
+    return this.language;
   }
 
-  private isExpenseCommand(text: string): boolean {
-    const expenseKeywords = [
-      "expense",
-      "cost",
-      "spent",
-      "paid",
-      "amount",
-      "dollar",
-      "lunch",
-      "dinner",
-      "coffee",
-      "transport",
-      "gas",
-    ];
-    return expenseKeywords.some((keyword) => text.includes(keyword));
+  /**
+   * Change the language commands are spoken in and save it as the app language
+   */
+  async setLanguage(language: string): Promise<ParserLanguage> {
+    this.language = getParserLanguage(language);
+    await storageService.setLanguage(this.language);
+    return this.language;
   }
 
-  private isNavigationCommand(text: string): boolean {
-    const navKeywords = [
-      "show",
-      "open",
-      "go to",
-      "navigate",
-      "view",
-      "display",
-      "calendar",
-      "expenses",
-      "home",
-      "profile",
-    ];
-    return navKeywords.some((keyword) => text.includes(keyword));
+  getLanguage(): ParserLanguage {
+    return this.language;
   }
 
-  private isQueryCommand(text: string): boolean {
-    const queryKeywords = [
-      "what",
-      "when",
-      "where",
-      "how",
-      "why",
-      "tell me",
-      "show me",
-      "find",
-      "search",
-    ];
-    return queryKeywords.some((keyword) => text.includes(keyword));
+  /**
+   * Locale to transcribe recordings in, so speech matches the command language
+   */
+  getTranscriptionLanguage(): string {
+    return TRANSCRIPTION_LANGUAGES[this.language];
   }
 
-  private extractEventData(text: string, result: VoiceCommandData): void {
-    // Extract title
-    const titleMatch = text.match(
-      /(?:title|event|meeting)\s+(.+?)(?:\s+(?:description|location|time|date|at)|$)/i
-    );
-    if (titleMatch) {
-      result.title = titleMatch[1].trim();
-    }
-
-    // Extract description
-    const descMatch = text.match(
-      /(?:description|details|about)\s+(.+?)(?:\s+(?:location|time|date|at)|$)/i
-    );
-    if (descMatch) {
-      result.description = descMatch[1].trim();
-    }
-
-    // Extract location
-    const locationMatch = text.match(
-      /(?:location|place|at|in)\s+(.+?)(?:\s+(?:time|date|on)|$)/i
-    );
-    if (locationMatch) {
-      result.location = locationMatch[1].trim();
-    }
-
-    // Extract time
-    const timeData = this.extractTime(text);
-    if (timeData) {
-      result.time = `${timeData.hours
-        .toString()
-        .padStart(2, "0")}:${timeData.minutes.toString().padStart(2, "0")} ${
-        timeData.period
-      }`;
-    }
-
-    // Extract date
-    const dateData = this.extractDate(text);
-    if (dateData) {
-      if (dateData.relative) {
-        result.date = dateData.relative;
-      } else {
-        result.date = `${dateData.month}/${dateData.day}/${dateData.year}`;
-      }
-    }
+  /**
+   * Process voice input and extract structured data. Relative dates resolve
+   * against options.now, e.g. when a recording was made rather than processed.
+   */
+  processVoiceInput(text: string, options: { now?: Date } = {}): VoiceCommandData {
+    const parsed = parseIntent(text, this.language);
+    const result: VoiceCommandData = {
+      action: parsed.intent,
+      intent: parsed.intent,
+      slots: parsed.slots,
+      confidence: parsed.confidence,
+    };
 
-    // Check for all-day events
+    this.applySlots(result, options.now);
     if (
-      text.toLowerCase().includes("all day") ||
-      text.toLowerCase().includes("all-day")
+      parsed.intent === "query_spending" ||
+      parsed.intent === "query_schedule" ||
+      parsed.intent === "find_time" ||
+      parsed.intent === "unknown"
     ) {
-      result.isAllDay = true;
+      result.description = text;
     }
 
-    // Extract duration
-    const durationMatch = text.match(/(\d+)\s*(?:hour|hr|minute|min)s?/i);
-    if (durationMatch) {
-      result.duration = durationMatch[0];
-    }
+    return result;
   }
 
-  private extractExpenseData(text: string, result: VoiceCommandData): void {
-    // Extract amount
-    const amountMatch = text.match(/\$?(\d+(?:\.\d{2})?)/);
-    if (amountMatch) {
-      result.amount = parseFloat(amountMatch[1]);
-    }
+  /**
+   * Merge extra slots into a command, e.g. the answer to a follow-up
+   * question, and derive its fields again
+   */
+  mergeSlots(
+    commandData: VoiceCommandData,
+    slots: Partial<IntentSlots>
+  ): VoiceCommandData {
+    const result: VoiceCommandData = {
+      action: commandData.intent,
+      intent: commandData.intent,
+      slots: { ...commandData.slots, ...slots },
+      confidence: commandData.confidence,
+    };
 
-    // Extract category
-    const categories = [
-      "lunch",
-      "dinner",
-      "coffee",
-      "transport",
-      "gas",
-      "food",
-      "entertainment",
-    ];
-    for (const category of categories) {
-      if (text.toLowerCase().includes(category)) {
-        result.category = category;
-        break;
-      }
+    this.applySlots(result);
+    if (commandData.description && !result.description) {
+      result.description = commandData.description;
     }
 
-    // Extract description
-    const descMatch = text.match(
-      /(?:for|on|about)\s+(.+?)(?:\s+(?:amount|cost|dollar)|$)/i
-    );
-    if (descMatch) {
-      result.description = descMatch[1].trim();
-    }
+    return result;
   }
 
-  private extractNavigationData(text: string, result: VoiceCommandData): void {
-    if (text.toLowerCase().includes("calendar")) {
-      result.action = "navigate_calendar";
-    } else if (text.toLowerCase().includes("expense")) {
-      result.action = "navigate_expenses";
-    } else if (text.toLowerCase().includes("home")) {
-      result.action = "navigate_home";
-    } else if (text.toLowerCase().includes("profile")) {
-      result.action = "navigate_profile";
-    }
-  }
+  private applySlots(result: VoiceCommandData, now?: Date): void {
+    const { slots } = result;
 
-  private extractQueryData(text: string, result: VoiceCommandData): void {
-    result.description = text;
+    switch (result.intent) {
+      case "create_event":
+      case "delete_event":
+        this.applyEventSlots(slots, result, now);
+        break;
+      case "add_expense":
+      case "plan_expense":
+        this.applyExpenseSlots(result.intent, slots, result, now);
+        break;
+      case "navigate":
+        if (slots.screen) {
+          result.action = `navigate_${slots.screen}`;
+        }
+        break;
+      case "correct":
+        this.applyCorrectionSlots(slots, result);
+        break;
+      case "find_time":
+        if (slots.title) result.title = slots.title;
+        if (slots.durationText) result.duration = slots.durationText;
+        break;
+    }
   }
 
-  private extractTime(text: string): ParsedTime | null {
-    // Match various time formats
-    const timePatterns = [
-      /(\d{1,2})(?::(\d{2}))?\s*(am|pm)/i,
-      /(\d{1,2})\s*o'clock\s*(am|pm)/i,
-      /at\s+(\d{1,2})(?::(\d{2}))?\s*(am|pm)/i,
-    ];
-
-    for (const pattern of timePatterns) {
-      const match = text.match(pattern);
-      if (match) {
-        const hours = parseInt(match[1]);
-        const minutes = match[2] ? parseInt(match[2]) : 0;
-        const period = match[3].toUpperCase() as "AM" | "PM";
-
-        return { hours, minutes, period };
+  private applyEventSlots(
+    slots: IntentSlots,
+    result: VoiceCommandData,
+    now?: Date
+  ): void {
+    if (slots.title) result.title = slots.title;
+    if (slots.location) result.location = slots.location;
+    if (slots.durationText) result.duration = slots.durationText;
+
+    const resolved = resolveDateTime(
+      {
+        ...(slots.dateText && { dateText: slots.dateText }),
+        ...(slots.timeText && { timeText: slots.timeText }),
+        ...(slots.durationText && { durationText: slots.durationText }),
+        ...(slots.isAllDay && { isAllDay: true }),
+      },
+      { ...(now && { now }) }
+    );
+    if (resolved) {
+      result.startTime = resolved.startTime;
+      result.endTime = resolved.endTime;
+      result.date = resolved.startTime;
+      if (!resolved.isAllDay) {
+        result.time = formatTime(new Date(resolved.startTime));
       }
     }
 
-    return null;
-  }
-
-  private extractDate(text: string): ParsedDate | null {
-    const lowerText = text.toLowerCase();
-
-    // Handle relative dates
-    if (lowerText.includes("today")) {
-      const today = new Date();
-      return {
-        day: today.getDate(),
-        month: today.getMonth() + 1,
-        year: today.getFullYear(),
-        relative: "today",
-      };
+    if (slots.isAllDay || resolved?.isAllDay) {
+      result.isAllDay = true;
     }
+  }
 
-    if (lowerText.includes("tomorrow")) {
-      const tomorrow = new Date();
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      return {
-        day: tomorrow.getDate(),
-        month: tomorrow.getMonth() + 1,
-        year: tomorrow.getFullYear(),
-        relative: "tomorrow",
-      };
+  private applyExpenseSlots(
+    intent: VoiceIntent,
+    slots: IntentSlots,
+    result: VoiceCommandData,
+    now?: Date
+  ): void {
+    const amount = slots.amountText ? parseSpokenAmount(slots.amountText) : null;
+    if (amount) {
+      result.amount = amount.amount;
+      result.currency = amount.currency;
     }
-
-    if (lowerText.includes("next week")) {
-      return { day: 0, month: 0, year: 0, relative: "next_week" };
+    if (slots.description) result.description = slots.description;
+    if (slots.merchant) result.merchant = slots.merchant;
+
+    const categoryText = [slots.category, slots.description, slots.merchant]
+      .filter(Boolean)
+      .join(" ");
+    if (categoryText) {
+      result.category = expenseService.matchCategory(categoryText);
     }
 
-    // Handle specific dates
-    const dateMatch = text.match(/(\d{1,2})\/(\d{1,2})(?:\/(\d{4}))?/);
-    if (dateMatch) {
-      const month = parseInt(dateMatch[1]);
-      const day = parseInt(dateMatch[2]);
-      const year = dateMatch[3]
-        ? parseInt(dateMatch[3])
-        : new Date().getFullYear();
+    const day = slots.dateText
+      ? resolveDateRange(slots.dateText, {
+          preferPast: intent === "add_expense",
+          ...(now && { now }),
+        })
+      : null;
+    if (day) result.date = day.start;
+  }
 
-      return { day, month, year };
+  private applyCorrectionSlots(
+    slots: IntentSlots,
+    result: VoiceCommandData
+  ): void {
+    if (slots.title) result.title = slots.title;
+    if (slots.location) result.location = slots.location;
+
+    const amount = slots.amountText ? parseSpokenAmount(slots.amountText) : null;
+    if (amount) {
+      result.amount = amount.amount;
+      result.currency = amount.currency;
+    }
+    if (slots.category) {
+      result.category = expenseService.matchCategory(slots.category);
     }
-
-    return null;
   }
 
   /**
    * Generate a natural language response based on the processed command
    */
-  generateResponse(commandData: VoiceCommandData): string {
+  generateResponse(
+    commandData: VoiceCommandData,
+    verbosity: ResponseVerbosity = "detailed"
+  ): string {
+    if (verbosity === "brief") {
+      return this.generateBriefResponse(commandData);
+    }
+
     switch (commandData.action) {
       case "create_event":
         return this.generateEventResponse(commandData);
@@ -310,6 +262,9 @@ class VoiceCommandProcessor {
         return "Going to home screen...";
       case "navigate_profile":
         return "Opening your profile...";
+      case "navigate_voice":
+      case "navigate_chat":
+        return "Opening the voice assistant...";
       default:
         return `I heard: "${
           commandData.description || "your command"
@@ -317,6 +272,101 @@ class VoiceCommandProcessor {
     }
   }
 
+  /**
+   * Generate the summary read back before a command is carried out
+   */
+  generateConfirmationPrompt(commandData: VoiceCommandData): string {
+    const day = commandData.date
+      ? formatDate(new Date(commandData.date))
+      : null;
+
+    switch (commandData.intent) {
+      case "create_event": {
+        let prompt = `Schedule ${commandData.title || "an event"}`;
+        if (day) prompt += ` on ${day}`;
+        if (commandData.time) prompt += ` at ${commandData.time}`;
+        if (commandData.location) prompt += ` in ${commandData.location}`;
+        return prompt + ".";
+      }
+      case "add_expense":
+      case "plan_expense": {
+        const amount = expenseService.formatCurrency(
+          commandData.amount || 0,
+          commandData.currency
+        );
+        let prompt = `${
+          commandData.intent === "add_expense" ? "Add" : "Plan"
+        } ${amount} for ${commandData.category || "Other"}`;
+        if (commandData.description) prompt += `, ${commandData.description}`;
+        if (day) prompt += `, on ${day}`;
+        return prompt + ".";
+      }
+      default:
+        return this.generateResponse(commandData);
+    }
+  }
+
+  /**
+   * Generate the spoken confirmation once a command has been carried out
+   */
+  generateCompletionResponse(
+    commandData: VoiceCommandData,
+    verbosity: ResponseVerbosity = "detailed"
+  ): string {
+    const brief = verbosity === "brief";
+
+    switch (commandData.intent) {
+      case "create_event": {
+        let response = `Scheduled ${commandData.title || "your event"}`;
+        if (brief) {
+          return commandData.time ? `${response} at ${commandData.time}.` : `${response}.`;
+        }
+        if (commandData.startTime) {
+          response += ` for ${formatDate(new Date(commandData.startTime))}`;
+        }
+        if (commandData.time) {
+          response += ` at ${commandData.time}`;
+        }
+        if (commandData.location) {
+          response += ` in ${commandData.location}`;
+        }
+        return response + ".";
+      }
+      case "add_expense":
+      case "plan_expense": {
+        const amount = expenseService.formatCurrency(
+          commandData.amount || 0,
+          commandData.currency
+        );
+        const response =
+          commandData.intent === "add_expense"
+            ? `Added ${amount}`
+            : `Planned ${amount}`;
+        return brief
+          ? `${response}.`
+          : `${response} to ${commandData.category || "Other"}.`;
+      }
+      default:
+        return this.generateResponse(commandData, verbosity);
+    }
+  }
+
+  private generateBriefResponse(commandData: VoiceCommandData): string {
+    switch (commandData.action) {
+      case "create_event":
+        return `Scheduling ${commandData.title || "your event"}.`;
+      case "add_expense":
+        return commandData.amount
+          ? `Adding ${expenseService.formatCurrency(commandData.amount, commandData.currency)}.`
+          : "Adding an expense.";
+      default:
+        return (
+          BRIEF_NAVIGATION_RESPONSES[commandData.action] ||
+          "I'm not sure how to help with that."
+        );
+    }
+  }
+
   private generateEventResponse(commandData: VoiceCommandData): string {
     let response = "Creating event";
 
@@ -328,8 +378,8 @@ class VoiceCommandProcessor {
       response += ` at ${commandData.time}`;
     }
 
-    if (commandData.date) {
-      response += ` on ${commandData.date}`;
+    if (commandData.startTime) {
+      response += ` on ${formatDate(new Date(commandData.startTime))}`;
     }
 
     if (commandData.location) {
@@ -343,7 +393,10 @@ class VoiceCommandProcessor {
     let response = "Adding expense";
 
     if (commandData.amount) {
-      response += `: $${commandData.amount}`;
+      response += `: ${expenseService.formatCurrency(
+        commandData.amount,
+        commandData.currency
+      )}`;
     }
 
     if (commandData.category) {
@@ -0,0 +1,127 @@
+import { VoiceEntityType } from "../store/slices/voiceSlice";
+import { formatDate, formatDateKey, formatTime } from "../utils/dateTime";
+import { rescheduleDateTime, resolveDateRange } from "../utils/naturalDate";
+import { expenseService } from "./expenseService";
+import { VoiceCommandData } from "./voiceCommandProcessor";
+
+export interface VoiceCorrection {
+  changes: { [field: string]: any };
+  previous: { [field: string]: any }; // Same fields as they were, for undo
+  response: string;
+}
+
+const ENTITY_NAMES: { [entity in VoiceEntityType]: string } = {
+  event: "events",
+  expense: "expenses",
+  plannedExpense: "planned expenses",
+};
+
+class VoiceCorrectionService {
+  /**
+   * Work out how a spoken correction changes an item. Throws when the
+   * correction doesn't apply to this kind of item.
+   */
+  buildCorrection(
+    entity: VoiceEntityType,
+    item: { [field: string]: any },
+    commandData: VoiceCommandData
+  ): VoiceCorrection {
+    const { slots } = commandData;
+    const changes = this.getChanges(entity, item, commandData);
+    const previous = Object.keys(changes).reduce(
+      (fields, key) => ({ ...fields, [key]: item[key] ?? null }),
+      {} as { [field: string]: any }
+    );
+
+    return { changes, previous, response: this.describe(slots.field, changes) };
+  }
+
+  private getChanges(
+    entity: VoiceEntityType,
+    item: { [field: string]: any },
+    commandData: VoiceCommandData
+  ): { [field: string]: any } {
+    const { slots } = commandData;
+    const unsupported = () =>
+      new Error(`I can't change the ${slots.field} of ${ENTITY_NAMES[entity]}.`);
+
+    switch (slots.field) {
+      case "title":
+        if (!commandData.title) throw new Error("What should I call it?");
+        return entity === "event"
+          ? { title: commandData.title }
+          : { description: commandData.title };
+
+      case "location":
+        if (entity !== "event") throw unsupported();
+        if (!commandData.location) throw new Error("Where should it be?");
+        return { location: commandData.location };
+
+      case "amount":
+        if (entity === "event") throw unsupported();
+        if (!commandData.amount) throw new Error("I didn't catch the new amount.");
+        return { amount: commandData.amount };
+
+      case "category":
+        if (entity === "event") throw unsupported();
+        if (!commandData.category) throw new Error("Which category should it be?");
+        return { category: commandData.category };
+
+      case "time":
+      case "date": {
+        if (entity === "event") {
+          const moved = rescheduleDateTime(
+            {
+              startTime: item.startTime,
+              endTime: item.endTime,
+              isAllDay: item.isAllDay,
+            },
+            {
+              ...(slots.dateText && { dateText: slots.dateText }),
+              ...(slots.timeText && { timeText: slots.timeText }),
+            }
+          );
+          if (!moved) throw new Error("I didn't catch the new day or time.");
+          return moved;
+        }
+
+        if (!slots.dateText) throw unsupported();
+        const day = resolveDateRange(slots.dateText, {
+          preferPast: entity === "expense",
+        });
+        if (!day) throw new Error("I didn't catch the new date.");
+        const date = formatDateKey(new Date(day.start));
+        return entity === "expense" ? { date } : { plannedDate: date };
+      }
+
+      default:
+        throw new Error("Sorry, I'm not sure what to change.");
+    }
+  }
+
+  private describe(
+    field: string | undefined,
+    changes: { [field: string]: any }
+  ): string {
+    if (changes.startTime) {
+      const start = new Date(changes.startTime);
+      return changes.isAllDay
+        ? `Moved it to ${formatDate(start)}.`
+        : `Moved it to ${formatDate(start)} at ${formatTime(start)}.`;
+    }
+    if (changes.amount !== undefined) {
+      return `Changed the amount to ${expenseService.formatCurrency(changes.amount)}.`;
+    }
+    if (changes.date || changes.plannedDate) {
+      return `Changed the date to ${formatDate(
+        new Date(`${changes.date || changes.plannedDate}T12:00:00`)
+      )}.`;
+    }
+
+    const value = Object.values(changes)[0];
+    return field === "title" ? `Renamed it to ${value}.` : `Changed the ${field} to ${value}.`;
+  }
+}
+
+export const voiceCorrectionService = new VoiceCorrectionService();
+export default voiceCorrectionService;
@@ -0,0 +1,253 @@
+import {
+  cleanUtterance,
+  extractAmountText,
+  extractTemporalSlots,
+  IntentSlots,
+  parseIntent,
+} from "../utils/intentParser";
+import { VoiceCommandData, voiceCommandProcessor } from "./voiceCommandProcessor";
+
+export type DialogSlot = "title" | "when" | "amount" | "date";
+
+export type VoiceDialogStage = "idle" | "collecting" | "confirming";
+
+export interface VoiceDialogState {
+  stage: VoiceDialogStage;
+  command: VoiceCommandData | null;
+  transcription: string; // Utterance that started the dialog
+  recordingUri: string | null; // Recording of that utterance, when there is one
+  slot: DialogSlot | null; // Slot the last question asked for
+  prompt: string; // Last question asked
+  attempts: number; // Unusable answers to the last question
+}
+
+// What the caller should do after a dialog turn
+export type VoiceDialogTurn =
+  | { type: "ask"; state: VoiceDialogState; prompt: string }
+  | { type: "execute"; state: VoiceDialogState; command: VoiceCommandData }
+  | { type: "cancel"; state: VoiceDialogState; prompt: string };
+
+// Slots each command needs before it can be carried out, in the order they are asked for
+const REQUIRED_SLOTS: { [intent: string]: DialogSlot[] } = {
+  create_event: ["title", "when"],
+  add_expense: ["amount"],
+  plan_expense: ["amount", "date"],
+};
+
+const SLOT_QUESTIONS: { [slot in DialogSlot]: string } = {
+  title: "What should I call the event?",
+  when: "When is it?",
+  amount: "How much was it?",
+  date: "When are you planning to pay it?",
+};
+
+// Planned expenses haven't happened yet
+const PLANNED_AMOUNT_QUESTION = "How much will it be?";
+
+const SLOT_RETRIES: { [slot in DialogSlot]: string } = {
+  title: "Sorry, what's the name of the event?",
+  when: "Sorry, I didn't catch the day or time. When is it?",
+  amount: "Sorry, I didn't catch the amount. How much is it?",
+  date: "Sorry, I didn't catch the date. When are you planning to pay it?",
+};
+
+// Unusable answers to one question before the dialog gives up
+const MAX_ATTEMPTS = 2;
+
+const TITLE_PREFIX = /^(?:call it|name it|it is called|it's called|it is|it's|title it)\s+/i;
+
+export const initialDialogState: VoiceDialogState = {
+  stage: "idle",
+  command: null,
+  transcription: "",
+  recordingUri: null,
+  slot: null,
+  prompt: "",
+  attempts: 0,
+};
+
+class VoiceDialogManager {
+  /**
+   * Whether a command creates something and so goes through the dialog
+   */
+  needsDialog(commandData: VoiceCommandData): boolean {
+    return commandData.intent in REQUIRED_SLOTS;
+  }
+
+  /**
+   * First required slot the command is still missing
+   */
+  getMissingSlot(commandData: VoiceCommandData): DialogSlot | null {
+    const required = REQUIRED_SLOTS[commandData.intent] || [];
+    return required.find((slot) => !this.hasSlot(commandData, slot)) || null;
+  }
+
+  /**
+   * Start a dialog for a freshly parsed command
+   */
+  start(
+    commandData: VoiceCommandData,
+    transcription: string,
+    recordingUri: string | null = null
+  ): VoiceDialogTurn {
+    return this.advance(commandData, {
+      ...initialDialogState,
+      transcription,
+      recordingUri,
+    });
+  }
+
+  /**
+   * Handle the user's answer to the last question
+   */
+  answer(state: VoiceDialogState, text: string): VoiceDialogTurn {
+    if (!state.command || state.stage === "idle") {
+      return this.cancel("There's nothing waiting for an answer.");
+    }
+
+    const parsed = parseIntent(text, voiceCommandProcessor.getLanguage());
+    const reply = parsed.intent;
+
+    if (state.stage === "confirming") {
+      if (reply === "confirm") {
+        return { type: "execute", state: initialDialogState, command: state.command };
+      }
+      if (reply === "deny" || reply === "cancel") {
+        return this.cancel("Okay, I won't save it.");
+      }
+      // "No, make it 4pm" changes the summary and asks again
+      if (reply === "correct" && parsed.slots.field) {
+        return this.advance(
+          voiceCommandProcessor.mergeSlots(
+            state.command,
+            this.getCorrectedSlots(state.command, parsed.slots)
+          ),
+          state
+        );
+      }
+      return this.retry(state, "Should I go ahead? Please say yes or no.");
+    }
+
+    if (reply === "cancel" || reply === "deny") {
+      return this.cancel("Okay, never mind.");
+    }
+
+    const slots = state.slot ? this.parseAnswer(state.slot, text) : null;
+    if (!slots) {
+      return this.retry(state, state.slot ? SLOT_RETRIES[state.slot] : state.prompt);
+    }
+
+    return this.advance(voiceCommandProcessor.mergeSlots(state.command, slots), {
+      ...state,
+      attempts: 0,
+    });
+  }
+
+  /**
+   * Ask for the next missing slot, or for confirmation once nothing is missing
+   */
+  private advance(
+    commandData: VoiceCommandData,
+    state: VoiceDialogState
+  ): VoiceDialogTurn {
+    const slot = this.getMissingSlot(commandData);
+    const prompt = slot
+      ? this.getQuestion(slot, commandData)
+      : `${voiceCommandProcessor.generateConfirmationPrompt(commandData)} Should I go ahead?`;
+
+    return {
+      type: "ask",
+      prompt,
+      state: {
+        ...state,
+        stage: slot ? "collecting" : "confirming",
+        command: commandData,
+        slot,
+        prompt,
+        attempts: 0,
+      },
+    };
+  }
+
+  private getCorrectedSlots(
+    commandData: VoiceCommandData,
+    slots: IntentSlots
+  ): Partial<IntentSlots> {
+    const { field, title, ...rest } = slots;
+    if (!title) return rest;
+    // An expense's name is its description
+    return commandData.intent === "create_event"
+      ? { ...rest, title }
+      : { ...rest, description: title };
+  }
+
+  private getQuestion(slot: DialogSlot, commandData: VoiceCommandData): string {
+    return slot === "amount" && commandData.intent === "plan_expense"
+      ? PLANNED_AMOUNT_QUESTION
+      : SLOT_QUESTIONS[slot];
+  }
+
+  private retry(state: VoiceDialogState, prompt: string): VoiceDialogTurn {
+    if (state.attempts + 1 >= MAX_ATTEMPTS) {
+      return this.cancel("Sorry, I still didn't get that. Let's try again later.");
+    }
+
+    return {
+      type: "ask",
+      prompt,
+      state: { ...state, prompt, attempts: state.attempts + 1 },
+    };
+  }
+
+  private cancel(prompt: string): VoiceDialogTurn {
+    return { type: "cancel", state: initialDialogState, prompt };
+  }
+
+  private hasSlot(commandData: VoiceCommandData, slot: DialogSlot): boolean {
+    switch (slot) {
+      case "title":
+        return !!commandData.title;
+      case "when":
+        return !!commandData.startTime;
+      case "amount":
+        return !!commandData.amount;
+      case "date":
+        return !!commandData.date;
+    }
+  }
+
+  /**
+   * Turn an answer into the slots it fills, or null when it fills nothing
+   */
+  private parseAnswer(
+    slot: DialogSlot,
+    text: string
+  ): Partial<IntentSlots> | null {
+    const language = voiceCommandProcessor.getLanguage();
+    switch (slot) {
+      case "title": {
+        const title = cleanUtterance(text, language).replace(TITLE_PREFIX, "").trim();
+        return title ? { title } : null;
+      }
+      case "when": {
+        const temporal = extractTemporalSlots(cleanUtterance(text, language), language);
+        if (!temporal.dateText && !temporal.timeText) return null;
+        return {
+          ...(temporal.dateText && { dateText: temporal.dateText }),
+          ...(temporal.timeText && { timeText: temporal.timeText }),
+        };
+      }
+      case "amount": {
+        const amountText = extractAmountText(text, language);
+        return amountText ? { amountText } : null;
+      }
+      case "date": {
+        const temporal = extractTemporalSlots(cleanUtterance(text, language), language);
+        return temporal.dateText ? { dateText: temporal.dateText } : null;
+      }
+    }
+  }
+}
+
+export const voiceDialogManager = new VoiceDialogManager();
+export default voiceDialogManager;
@@ -0,0 +1,505 @@
+import moment from "moment";
+import { apiClient } from "../api/client";
+import { API_ENDPOINTS } from "../config/env";
+import { CalendarEvent } from "../store/slices/calendarSlice";
+import { SchedulingPreferences } from "../types";
+import { addDays, formatTime } from "../utils/dateTime";
+import { findFreeSlots, getFreeIntervals, RankedSlot } from "../utils/freeBusy";
+import {
+  DayPart,
+  getDayPart,
+  parseDuration,
+  resolveDateRange,
+  ResolvedDateRange,
+} from "../utils/naturalDate";
+import { getPlannedExpenseOccurrences } from "../utils/recurrence";
+import { expandRecurringEvents } from "../utils/rrule";
+import { Expense, expenseService, PlannedExpense } from "./expenseService";
+import { applyPendingMutations, isLocalId, syncService } from "./syncService";
+import { VoiceCommandData } from "./voiceCommandProcessor";
+
+export interface VoiceQueryData {
+  expenses: Expense[];
+  plannedExpenses: PlannedExpense[];
+  events: CalendarEvent[];
+}
+
+export interface FreeTimeAnswer {
+  response: string;
+  slots: RankedSlot[]; // Best first, ready to be booked
+}
+
+// How far ahead "when is my next ..." looks
+const UPCOMING_DAYS = 90;
+
+// Nouns that name any event rather than a particular one
+const GENERIC_EVENT_WORDS = new Set([
+  "meeting",
+  "meetings",
+  "event",
+  "events",
+  "appointment",
+  "appointments",
+  "call",
+  "calls",
+  "thing",
+  "things",
+  "anything",
+  "something",
+  "plans",
+]);
+
+// Events read out before summarising the rest
+const MAX_LISTED_EVENTS = 4;
+
+// Free time looked for when no length or dates are given
+const DEFAULT_FREE_MINUTES = 60;
+const FREE_TIME_DAYS = 7;
+
+// Free slots offered to book
+const FREE_SLOT_COUNT = 3;
+
+const PLANNED_PATTERN = /\b(?:plan|planned|planning|upcoming|due)\b/i;
+
+const getHourDayPart = (date: Date): DayPart => {
+  const hour = date.getHours();
+  if (hour >= 5 && hour < 12) return "morning";
+  if (hour >= 12 && hour < 17) return "afternoon";
+  if (hour >= 17 && hour < 21) return "evening";
+  return "night";
+};
+
+const joinList = (items: string[]): string => {
+  if (items.length <= 2) return items.join(" and ");
+  return `${items.slice(0, -1).join(", ")}, and ${items[items.length - 1]}`;
+};
+
+const pluralize = (count: number, noun: string): string =>
+  `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+const describeLength = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return pluralize(rest, "minute");
+  const hourText = hours === 1 ? "an hour" : pluralize(hours, "hour");
+  if (rest === 0) return hourText;
+  return rest === 30 ? `${hourText} and a half` : `${hourText} and ${pluralize(rest, "minute")}`;
+};
+
+class VoiceQueryResponder {
+  /**
+   * Answer a spending or schedule question, first fetching the dates it asks
+   * about. Falls back to the locally loaded data when they can't be fetched.
+   */
+  async answer(
+    commandData: VoiceCommandData,
+    userId: string,
+    loaded: VoiceQueryData,
+    now = new Date()
+  ): Promise<string> {
+    const range = this.getQueryRange(commandData, now);
+    const data = range ? await this.fetchRange(commandData, userId, range, loaded) : loaded;
+
+    return commandData.intent === "query_schedule"
+      ? this.answerSchedule(commandData, data.events, now)
+      : this.answerSpending(commandData, data, now);
+  }
+
+  /**
+   * Fetch the events in a range, the same way the calendar loads them
+   */
+  async fetchEvents(start: Date, end: Date): Promise<CalendarEvent[]> {
+    const response = await apiClient.get<CalendarEvent[]>(API_ENDPOINTS.EVENTS, {
+      params: { startDate: start.toISOString(), endDate: end.toISOString() },
+    });
+    return response.data || [];
+  }
+
+  /**
+   * Find free time for a new event, with the best slots so one can be booked
+   * straight away. The events in the range are fetched first, falling back to
+   * the loaded ones when that fails.
+   */
+  async findTime(
+    commandData: VoiceCommandData,
+    loaded: CalendarEvent[],
+    preferences: SchedulingPreferences,
+    now = new Date()
+  ): Promise<FreeTimeAnswer> {
+    const { slots } = commandData;
+    const requestedMinutes = slots.durationText ? parseDuration(slots.durationText) : null;
+    const durationMinutes = requestedMinutes || DEFAULT_FREE_MINUTES;
+
+    let rangeStart = now;
+    let rangeEnd = addDays(now, FREE_TIME_DAYS);
+    if (slots.period) {
+      const range = this.resolveRange(slots.period, now, false);
+      if (!range) {
+        return {
+          response: `Sorry, I couldn't work out which dates "${slots.period}" means.`,
+          slots: [],
+        };
+      }
+      rangeStart = new Date(range.start);
+      rangeEnd = new Date(range.end);
+      if (rangeEnd <= now) {
+        return {
+          response: `${slots.period.charAt(0).toUpperCase()}${slots.period.slice(1)} has already passed.`,
+          slots: [],
+        };
+      }
+    }
+
+    const events = await this.fetchBusyEvents(rangeStart, rangeEnd, loaded);
+    const periodText = slots.period || "in the next week";
+    const dayPart = slots.period ? getDayPart(slots.period) : undefined;
+    const search = {
+      rangeStart,
+      rangeEnd,
+      durationMinutes,
+      count: FREE_SLOT_COUNT,
+      ...(dayPart && { dayPart }),
+    };
+    const found = findFreeSlots(events, search, preferences, now);
+    const singleDay = rangeEnd.getTime() - rangeStart.getTime() <= 24 * 60 * 60 * 1000;
+    const describeSlot = (slot: RankedSlot) =>
+      this.describeWhen({ ...slot, isAllDay: false }, now, rangeStart, rangeEnd);
+
+    // "When am I free tomorrow" reads out the free time itself
+    if (!requestedMinutes && !commandData.title) {
+      const free = getFreeIntervals(events, search, preferences, now);
+      if (free.length === 0) {
+        return { response: `You're fully booked ${periodText}.`, slots: found };
+      }
+      const listed = free.slice(0, MAX_LISTED_EVENTS).map((interval, index) => {
+        const hours = `from ${formatTime(interval.start)} to ${formatTime(interval.end)}`;
+        if (singleDay || (index > 0 && moment(interval.start).isSame(free[index - 1]!.start, "day"))) {
+          return hours;
+        }
+        if (moment(interval.start).isSame(now, "day")) return `today ${hours}`;
+        if (moment(interval.start).isSame(moment(now).add(1, "day"), "day")) {
+          return `tomorrow ${hours}`;
+        }
+        return `on ${moment(interval.start).format("dddd")} ${hours}`;
+      });
+      return {
+        response: singleDay
+          ? `You're free ${periodText} ${joinList(listed)}.`
+          : `You're free ${joinList(listed)}.`,
+        slots: found,
+      };
+    }
+
+    const length = describeLength(durationMinutes);
+    if (found.length === 0) {
+      return {
+        response: `I couldn't find ${length} free ${periodText}.`,
+        slots: [],
+      };
+    }
+
+    const purpose = commandData.title ? `your ${commandData.title}` : length;
+    const [best, ...others] = found;
+    const alternatives =
+      others.length > 0
+        ? ` You could also do ${others
+            .map((slot) => describeSlot(slot).replace(/^at /, ""))
+            .join(" or ")}.`
+        : "";
+    return {
+      response: `The best time for ${purpose}${singleDay ? ` ${periodText}` : ""} is ${describeSlot(best!)}.${alternatives}`,
+      slots: found,
+    };
+  }
+
+  // Dates a question covers, which is what needs fetching to answer it
+  private getQueryRange(
+    commandData: VoiceCommandData,
+    now: Date
+  ): { start: Date; end: Date } | null {
+    let range: ResolvedDateRange | null;
+    if (commandData.intent === "query_schedule") {
+      if (this.isUpcomingQuery(commandData)) {
+        return { start: now, end: moment(now).add(UPCOMING_DAYS, "days").toDate() };
+      }
+      range = this.resolveRange(commandData.slots.period || "today", now, false);
+    } else {
+      const { periodText, isPlanned } = this.getSpendingPeriod(commandData);
+      range = this.resolveRange(periodText, now, !isPlanned);
+    }
+    return range ? { start: new Date(range.start), end: new Date(range.end) } : null;
+  }
+
+  private async fetchBusyEvents(
+    start: Date,
+    end: Date,
+    loaded: CalendarEvent[]
+  ): Promise<CalendarEvent[]> {
+    try {
+      // A day back catches long events that started earlier
+      const fetched = await this.fetchEvents(addDays(start, -1), end);
+      const pending = await syncService.getPending();
+      // Events created offline aren't on the server yet
+      return [
+        ...applyPendingMutations<CalendarEvent>(fetched, pending, "event"),
+        ...loaded.filter((event) => isLocalId(event.id)),
+      ];
+    } catch (error) {
+      console.error("Failed to fetch events for free time:", error);
+      return loaded;
+    }
+  }
+
+  private async fetchRange(
+    commandData: VoiceCommandData,
+    userId: string,
+    range: { start: Date; end: Date },
+    loaded: VoiceQueryData
+  ): Promise<VoiceQueryData> {
+    try {
+      if (commandData.intent === "query_schedule") {
+        return { ...loaded, events: await this.fetchEvents(range.start, range.end) };
+      }
+      if (this.getSpendingPeriod(commandData).isPlanned) {
+        const plannedExpenses = await expenseService.findActivePlannedExpenses(
+          userId,
+          range.end
+        );
+        return { ...loaded, plannedExpenses };
+      }
+      const expenses = await expenseService.findByDateRange(userId, range.start, range.end);
+      return { ...loaded, expenses };
+    } catch (error) {
+      console.error("Failed to fetch data for voice query:", error);
+      return loaded;
+    }
+  }
+
+  private getSpendingPeriod(commandData: VoiceCommandData): {
+    periodText: string;
+    isPlanned: boolean;
+  } {
+    const isPlanned = PLANNED_PATTERN.test(commandData.description || "");
+    const periodText =
+      commandData.slots.period || (isPlanned ? "this month" : "this month so far");
+    return { periodText, isPlanned };
+  }
+
+  // "When is my next meeting" / "when is my dentist appointment"
+  private isUpcomingQuery(commandData: VoiceCommandData): boolean {
+    const { slots } = commandData;
+    return (
+      !slots.period &&
+      (/\bnext\b/i.test(commandData.description || "") ||
+        this.getSubjectWords(slots.subject).length > 0)
+    );
+  }
+
+  private getSubjectWords(subject: string | undefined): string[] {
+    return (subject || "")
+      .toLowerCase()
+      .split(/\s+/)
+      .filter((word) => word && !GENERIC_EVENT_WORDS.has(word));
+  }
+
+  private answerSpending(
+    commandData: VoiceCommandData,
+    data: VoiceQueryData,
+    now: Date
+  ): string {
+    const text = commandData.description || "";
+    const { periodText, isPlanned } = this.getSpendingPeriod(commandData);
+    const range = this.resolveRange(periodText, now, !isPlanned);
+    if (!range) {
+      return `Sorry, I couldn't work out which dates "${periodText}" means.`;
+    }
+
+    const spokenPeriod = periodText.replace(/\s*so far$/, "");
+    const start = new Date(range.start);
+    const end = new Date(range.end);
+    const matchesCategory = this.getCategoryFilter(commandData.slots.category);
+    const categoryText = commandData.slots.category
+      ? ` on ${this.getCategoryLabel(commandData.slots.category)}`
+      : "";
+
+    if (isPlanned) {
+      const planned = data.plannedExpenses
+        .flatMap((expense) =>
+          getPlannedExpenseOccurrences(expense, start, new Date(end.getTime() - 1))
+        )
+        .filter(matchesCategory);
+      if (planned.length === 0) {
+        return `You haven't planned anything${categoryText} ${spokenPeriod}.`;
+      }
+      const total = planned.reduce((sum, expense) => sum + expense.amount, 0);
+      return `You've planned ${expenseService.formatCurrency(total)}${categoryText} ${spokenPeriod}, across ${pluralize(planned.length, "expense")}.`;
+    }
+
+    const spent = data.expenses.filter((expense) => {
+      const date = moment(expense.date).toDate();
+      return date >= start && date < end && matchesCategory(expense);
+    });
+    if (spent.length === 0) {
+      return `You haven't spent anything${categoryText} ${spokenPeriod}.`;
+    }
+
+    if (/\b(?:biggest|largest|most expensive|top)\b/i.test(text)) {
+      const biggest = spent.reduce((max, expense) =>
+        expense.amount > max.amount ? expense : max
+      );
+      return `Your biggest expense ${spokenPeriod} was ${expenseService.formatCurrency(
+        biggest.amount
+      )} for ${biggest.description}.`;
+    }
+
+    const total = spent.reduce((sum, expense) => sum + expense.amount, 0);
+    return `You spent ${expenseService.formatCurrency(total)}${categoryText} ${spokenPeriod}, across ${pluralize(spent.length, "expense")}.`;
+  }
+
+  private answerSchedule(
+    commandData: VoiceCommandData,
+    events: CalendarEvent[],
+    now: Date
+  ): string {
+    const text = commandData.description || "";
+    const { slots } = commandData;
+    const subjectWords = this.getSubjectWords(slots.subject);
+    const matchesSubject = (event: CalendarEvent) =>
+      subjectWords.every((word) => event.title.toLowerCase().includes(word));
+
+    if (this.isUpcomingQuery(commandData)) {
+      const horizon = moment(now).add(UPCOMING_DAYS, "days").toDate();
+      const next = expandRecurringEvents(events, now, horizon)
+        .filter((event) => new Date(event.startTime) >= now && matchesSubject(event))
+        .sort((a, b) => a.startTime.localeCompare(b.startTime))[0];
+      if (!next) {
+        return slots.subject
+          ? `I couldn't find an upcoming ${slots.subject} on your calendar.`
+          : "You don't have anything coming up on your calendar.";
+      }
+      return `${next.title} is ${this.describeWhen(next, now)}.`;
+    }
+
+    const periodText = slots.period || "today";
+    const range = this.resolveRange(periodText, now, false);
+    if (!range) {
+      return `Sorry, I couldn't work out which dates "${periodText}" means.`;
+    }
+
+    const start = new Date(range.start);
+    const end = new Date(range.end);
+    const dayPart = getDayPart(periodText);
+    const found = expandRecurringEvents(events, start, new Date(end.getTime() - 1))
+      .filter((event) => {
+        const eventStart = new Date(event.startTime);
+        const eventEnd = new Date(event.endTime);
+        return (
+          eventStart < end &&
+          eventEnd > start &&
+          matchesSubject(event) &&
+          (!dayPart || event.isAllDay || getHourDayPart(eventStart) === dayPart)
+        );
+      })
+      .sort((a, b) => a.startTime.localeCompare(b.startTime));
+    const noun = subjectWords.length > 0 ? slots.subject! : "event";
+
+    if (/^(?:am i|are we) (?:free|available|open)/i.test(text)) {
+      return found.length === 0
+        ? `You're free ${periodText}.`
+        : `No, you have ${pluralize(found.length, noun)} ${periodText}, starting with ${found[0]!.title} ${this.describeWhen(found[0]!, now)}.`;
+    }
+
+    if (found.length === 0) {
+      return `You have nothing on your calendar ${periodText}.`;
+    }
+
+    if (/^how many\b/i.test(text)) {
+      return `You have ${pluralize(found.length, noun)} ${periodText}.`;
+    }
+
+    const listed = found
+      .slice(0, MAX_LISTED_EVENTS)
+      .map((event) => `${event.title} ${this.describeWhen(event, now, start, end)}`);
+    if (found.length > MAX_LISTED_EVENTS) {
+      listed.push(`${pluralize(found.length - MAX_LISTED_EVENTS, "more event")}`);
+    }
+    return `You have ${pluralize(found.length, "event")} ${periodText}: ${joinList(listed)}.`;
+  }
+
+  /**
+   * Range a spoken period covers, trying the day alone when a part of the day
+   * ("tomorrow afternoon") isn't understood
+   */
+  private resolveRange(
+    periodText: string,
+    now: Date,
+    preferPast: boolean
+  ): ResolvedDateRange | null {
+    return (
+      resolveDateRange(periodText, { now, preferPast }) ||
+      resolveDateRange(
+        periodText.replace(/\s*\b(?:morning|afternoon|evening|night|tonight)\b/i, "").trim() ||
+          "today",
+        { now, preferPast }
+      )
+    );
+  }
+
+  /**
+   * Spoken time of an event, with the day unless the range is a single day
+   */
+  private describeWhen(
+    event: Pick<CalendarEvent, "startTime" | "isAllDay">,
+    now: Date,
+    rangeStart?: Date,
+    rangeEnd?: Date
+  ): string {
+    const start = new Date(event.startTime);
+    const singleDay =
+      rangeStart &&
+      rangeEnd &&
+      rangeEnd.getTime() - rangeStart.getTime() <= 24 * 60 * 60 * 1000;
+
+    if (event.isAllDay) {
+      return singleDay ? "all day" : `on ${moment(start).format("dddd, MMMM D")}`;
+    }
+    if (singleDay) {
+      return `at ${formatTime(start)}`;
+    }
+    if (moment(start).isSame(now, "day")) {
+      return `today at ${formatTime(start)}`;
+    }
+    if (moment(start).isSame(moment(now).add(1, "day"), "day")) {
+      return `tomorrow at ${formatTime(start)}`;
+    }
+    return `on ${moment(start).format("dddd, MMMM D")} at ${formatTime(start)}`;
+  }
+
+  private getCategoryLabel(category: string): string {
+    const name = expenseService.matchCategory(category);
+    return name === "Other" && category.toLowerCase() !== "other" ? category : name;
+  }
+
+  /**
+   * Filter for a spoken category: one of the category names, or failing that
+   * anything whose description mentions it
+   */
+  private getCategoryFilter(
+    category?: string
+  ): (expense: { category: string; description: string }) => boolean {
+    if (!category) return () => true;
+
+    const name = this.getCategoryLabel(category);
+    if (name !== category) {
+      return (expense) => expense.category === name;
+    }
+
+    const text = category.toLowerCase();
+    return (expense) =>
+      expense.category.toLowerCase() === text ||
+      expense.description.toLowerCase().includes(text);
+  }
+}
+
+export const voiceQueryResponder = new VoiceQueryResponder();
+export default voiceQueryResponder;
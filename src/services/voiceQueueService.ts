@@ -0,0 +1,239 @@
+import * as FileSystem from "expo-file-system";
+import { apiClient } from "../api/client";
+import { SpeechBounds } from "../utils/voiceActivity";
+import { storageService } from "./storage";
+import { voiceCommandProcessor } from "./voiceCommandProcessor";
+import { VoiceRecording, voiceService } from "./voiceService";
+
+// Types
+export interface QueuedRecording {
+  id: string;
+  userId: string; // Only processed while this user is signed in
+  uri: string; // Copy kept in the document directory until it's transcribed
+  duration: number;
+  speech?: SpeechBounds;
+  language: string;
+  context: string;
+  createdAt: string;
+  attempts: number;
+  lastError?: string;
+}
+
+export interface QueuedRecordingOptions {
+  language?: string;
+  context?: string;
+}
+
+export interface VoiceQueueHandlers {
+  // Called with the transcription once the recording reaches the server.
+  // The recording has been moved back to the cache, at the given URI.
+  onTranscribed: (recording: QueuedRecording, transcription: string) => Promise<void>;
+  onDiscarded?: (recording: QueuedRecording) => void;
+}
+
+export interface VoiceQueueResult {
+  processed: number;
+  failed: number;
+  pending: number;
+}
+
+const QUEUE_DIRECTORY = `${FileSystem.documentDirectory}voice-queue/`;
+const MAX_ATTEMPTS = 3;
+
+const getFileName = (uri: string): string => uri.split("/").pop() || `${Date.now()}.m4a`;
+
+class VoiceQueueService {
+  private userId: string | null = null;
+  private queue: QueuedRecording[] = []; // Every user's recordings, oldest first
+  private loadPromise: Promise<void> | null = null;
+  private isFlushing = false;
+
+  private async ensureLoaded(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = storageService.getVoiceQueue().then((recordings) => {
+        this.queue = recordings as QueuedRecording[];
+      });
+    }
+    return this.loadPromise;
+  }
+
+  private async persist(): Promise<void> {
+    await storageService.setVoiceQueue(this.queue);
+  }
+
+  private getUserQueue(): QueuedRecording[] {
+    return this.queue.filter((recording) => recording.userId === this.userId);
+  }
+
+  /**
+   * Switch to the signed-in user. Recordings made by anyone else are held
+   * back until they sign in again.
+   */
+  setUser(userId: string | null) {
+    this.userId = userId;
+  }
+
+  /**
+   * Get the signed-in user's queued recordings, oldest first
+   */
+  async getPending(): Promise<QueuedRecording[]> {
+    await this.ensureLoaded();
+    return this.getUserQueue();
+  }
+
+  /**
+   * Keep a recording that couldn't be uploaded and return the number of queued
+   * recordings for the signed-in user. The file is copied out of the cache so the system can't clear
+   * it before the connection comes back.
+   */
+  async enqueue(
+    recording: VoiceRecording,
+    options: QueuedRecordingOptions = {}
+  ): Promise<number> {
+    await this.ensureLoaded();
+    const userId = this.userId;
+    if (!userId) {
+      throw new Error("Sign in to save voice commands for later");
+    }
+
+    await FileSystem.makeDirectoryAsync(QUEUE_DIRECTORY, { intermediates: true });
+    const id = Date.now().toString();
+    const uri = `${QUEUE_DIRECTORY}${id}_${getFileName(recording.uri)}`;
+    await FileSystem.copyAsync({ from: recording.uri, to: uri });
+
+    this.queue.push({
+      id,
+      userId,
+      uri,
+      duration: recording.duration,
+      ...(recording.speech && { speech: recording.speech }),
+      language: options.language || voiceCommandProcessor.getTranscriptionLanguage(),
+      context: options.context || "voice_command",
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+    });
+
+    await this.persist();
+    return this.getUserQueue().length;
+  }
+
+  /**
+   * Upload and transcribe the signed-in user's queued recordings in the order
+   * they were made. Nothing is attempted until the API answers its health
+   * check, and a lost connection or a change of user part way through leaves
+   * the rest for the next attempt. A recording the server fails to transcribe
+   * goes to the back of the queue, and is dropped after a few tries.
+   */
+  async flush(handlers: VoiceQueueHandlers): Promise<VoiceQueueResult> {
+    await this.ensureLoaded();
+    const result: VoiceQueueResult = { processed: 0, failed: 0, pending: 0 };
+    const userId = this.userId;
+
+    if (
+      this.isFlushing ||
+      this.getUserQueue().length === 0 ||
+      !(await apiClient.healthCheck())
+    ) {
+      result.pending = this.getUserQueue().length;
+      return result;
+    }
+
+    this.isFlushing = true;
+    try {
+      // Each recording gets one try per flush
+      for (const id of this.getUserQueue().map((queued) => queued.id)) {
+        const recording = this.queue.find((queued) => queued.id === id);
+        if (this.userId !== userId) break;
+        if (!recording) continue;
+
+        const response = await voiceService.uploadAudio(
+          {
+            uri: recording.uri,
+            duration: recording.duration,
+            size: 0,
+            ...(recording.speech && { speech: recording.speech }),
+          },
+          { language: recording.language, context: recording.context }
+        );
+
+        if (response.offline) {
+          break;
+        }
+
+        const transcription = response.data?.transcription || response.data?.text || "";
+
+        if (!response.success || !transcription) {
+          recording.attempts++;
+          recording.lastError = response.error || "No transcription received from server";
+
+          if (recording.attempts < MAX_ATTEMPTS) {
+            console.error("Failed to transcribe queued recording, will retry:", response.error);
+            // Retried after the rest, so it doesn't hold them up
+            this.queue = [...this.queue.filter((queued) => queued.id !== id), recording];
+            await this.persist();
+            continue;
+          }
+
+          console.error("Failed to transcribe queued recording, discarding:", recording);
+          await this.remove(recording, true);
+          result.failed++;
+          handlers.onDiscarded?.(recording);
+          continue;
+        }
+
+        // Processed recordings live in the cache like any other, still available for replay
+        const uri = await this.moveToCache(recording);
+        if (recording.speech) {
+          voiceService.setSpeechBounds(uri, recording.speech);
+        }
+        await this.remove(recording, false);
+        try {
+          await handlers.onTranscribed({ ...recording, uri }, transcription);
+        } catch (error) {
+          console.error("Failed to process queued voice command:", error);
+        }
+        result.processed++;
+      }
+    } finally {
+      this.isFlushing = false;
+    }
+
+    result.pending = this.getUserQueue().length;
+    return result;
+  }
+
+  /**
+   * Drop a queued recording without processing it
+   */
+  async discard(id: string): Promise<number> {
+    await this.ensureLoaded();
+    const recording = this.getUserQueue().find((queued) => queued.id === id);
+    if (recording) {
+      await this.remove(recording, true);
+    }
+    return this.getUserQueue().length;
+  }
+
+  private async remove(recording: QueuedRecording, deleteFile: boolean): Promise<void> {
+    this.queue = this.queue.filter((queued) => queued.id !== recording.id);
+    await this.persist();
+
+    if (deleteFile) {
+      await FileSystem.deleteAsync(recording.uri, { idempotent: true });
+    }
+  }
+
+  private async moveToCache(recording: QueuedRecording): Promise<string> {
+    const uri = `${FileSystem.cacheDirectory}${getFileName(recording.uri)}`;
+    try {
+      await FileSystem.moveAsync({ from: recording.uri, to: uri });
+      return uri;
+    } catch (error) {
+      console.error("Failed to move queued recording:", error);
+      return recording.uri;
+    }
+  }
+}
+
+export const voiceQueueService = new VoiceQueueService();
+export default voiceQueueService;
@@ -0,0 +1,116 @@
+import { formatDate } from "../utils/dateTime";
+import {
+  cleanUtterance,
+  extractAmountText,
+  extractTemporalSlots,
+  IntentSlots,
+} from "../utils/intentParser";
+import { expenseService } from "./expenseService";
+import { VoiceCommandData, voiceCommandProcessor } from "./voiceCommandProcessor";
+
+export type ReviewField = "title" | "date" | "time" | "amount" | "category";
+
+// Fields shown for review, in display order
+const REVIEW_FIELDS: { [intent: string]: ReviewField[] } = {
+  create_event: ["title", "date", "time"],
+  add_expense: ["amount", "category", "title", "date"],
+  plan_expense: ["amount", "category", "title", "date"],
+};
+
+export const REVIEW_FIELD_LABELS: { [field in ReviewField]: string } = {
+  title: "Title",
+  date: "Date",
+  time: "Time",
+  amount: "Amount",
+  category: "Category",
+};
+
+const ALL_DAY_PATTERN = /^(?:all[- ]day|the whole day)$/i;
+
+class VoiceReviewService {
+  /**
+   * Fields of a parsed command that can be reviewed before it is saved
+   */
+  getFields(commandData: VoiceCommandData): ReviewField[] {
+    return REVIEW_FIELDS[commandData.intent] || [];
+  }
+
+  /**
+   * Display value of a field, or null when the command doesn't have it yet
+   */
+  getValue(commandData: VoiceCommandData, field: ReviewField): string | null {
+    switch (field) {
+      case "title":
+        return commandData.intent === "create_event"
+          ? commandData.title || null
+          : commandData.description || commandData.merchant || null;
+      case "date":
+        return commandData.date ? formatDate(new Date(commandData.date)) : null;
+      case "time":
+        return commandData.isAllDay ? "All day" : commandData.time || null;
+      case "amount":
+        return commandData.amount
+          ? expenseService.formatCurrency(commandData.amount, commandData.currency)
+          : null;
+      case "category":
+        return commandData.category || null;
+    }
+  }
+
+  /**
+   * Apply a typed or spoken value to one field. Returns null when the value
+   * can't be understood, leaving the command as it was.
+   */
+  editField(
+    commandData: VoiceCommandData,
+    field: ReviewField,
+    text: string
+  ): VoiceCommandData | null {
+    const value = text.trim();
+    if (!value) return null;
+
+    if (field === "category") {
+      // A category is picked by name, not worked out from the description
+      return {
+        ...voiceCommandProcessor.mergeSlots(commandData, { category: value }),
+        category: expenseService.matchCategory(value),
+      };
+    }
+
+    const slots = this.parseField(commandData, field, value);
+    return slots ? voiceCommandProcessor.mergeSlots(commandData, slots) : null;
+  }
+
+  private parseField(
+    commandData: VoiceCommandData,
+    field: Exclude<ReviewField, "category">,
+    value: string
+  ): Partial<IntentSlots> | null {
+    const language = voiceCommandProcessor.getLanguage();
+    switch (field) {
+      case "title":
+        // An expense's name is its description
+        return commandData.intent === "create_event"
+          ? { title: value }
+          : { description: value };
+      case "date": {
+        const { dateText } = extractTemporalSlots(cleanUtterance(value, language), language);
+        return dateText ? { dateText } : null;
+      }
+      case "time": {
+        if (ALL_DAY_PATTERN.test(value)) {
+          return { isAllDay: true };
+        }
+        const { timeText } = extractTemporalSlots(cleanUtterance(value, language), language);
+        return timeText ? { timeText, isAllDay: false } : null;
+      }
+      case "amount": {
+        const amountText = extractAmountText(value, language);
+        return amountText ? { amountText } : null;
+      }
+    }
+  }
+}
+
+export const voiceReviewService = new VoiceReviewService();
+export default voiceReviewService;
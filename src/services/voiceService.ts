@@ -1,6 +1,10 @@
 import apiClient from "@/api/client";
 import { Audio } from "expo-av";
 import * as Speech from "expo-speech";
+import { SpeechProfile } from "../types";
+import { MeteringSample, SpeechBounds } from "../utils/voiceActivity";
+import { storageService } from "./storage";
+import { isNetworkError } from "./syncService";
 // Note: You'll need to install @react-native-voice/voice
 // npm install @react-native-voice/voice
 // import Voice from '@react-native-voice/voice';
@@ -9,12 +13,46 @@ export interface VoiceRecording {
   uri: string;
   duration: number;
   size: number;
+  speech?: SpeechBounds; // Where the speech is, when voice activity detection ran
 }
 
+// How often metering levels are reported while recording
+const METERING_INTERVAL_MS = 100;
+
+export const DEFAULT_SPEECH_PROFILE: SpeechProfile = {
+  voiceIdentifier: null,
+  language: "en-US",
+  rate: 0.75,
+  pitch: 1.0,
+  verbosity: "detailed",
+  silentHours: { enabled: false, startHour: 22, endHour: 7 },
+};
+
+// How each kind of message departs from the profile's rate and pitch
+const SPEECH_STYLES = {
+  normal: { rate: 0, pitch: 0 },
+  confirmation: { rate: 0.05, pitch: 0 },
+  error: { rate: -0.05, pitch: -0.1 }, // Slightly slower and lower for errors
+  enhanced: { rate: -0.05, pitch: 0.1 }, // Slower and higher for clarity
+  important: { rate: -0.1, pitch: 0.2 },
+};
+
+type SpeechStyle = keyof typeof SPEECH_STYLES;
+
+interface SpeakOptions {
+  language?: string;
+  pitch?: number;
+  rate?: number;
+}
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(max, Math.max(min, value));
+
 export interface TranscriptionResult {
   text: string;
   confidence: number;
   language?: string;
+  offline?: boolean; // The server couldn't be reached, so nothing was transcribed
 }
 
 export interface AIResponse {
@@ -35,6 +73,8 @@ export interface UploadAudioDto {
   fileSize?: number;
   language?: string;
   context?: string;
+  speechStartMs?: number; // Where the speech is, so the silence around it isn't transcribed
+  speechEndMs?: number;
 }
 
 export interface UploadAudioResponse {
@@ -42,11 +82,13 @@ export interface UploadAudioResponse {
   message: string;
   data?: {
     transcription?: string;
+    text?: string; // The transcription, as some API versions name it
     confidence?: number;
     language?: string;
     aiResponse?: any;
   };
   error?: string;
+  offline?: boolean; // Failed because the server couldn't be reached
 }
 
 class VoiceService {
@@ -54,6 +96,9 @@ class VoiceService {
   private sound: Audio.Sound | null = null;
   private isRecording = false;
   private recordingUri: string | null = null;
+  private speechBounds = new Map<string, SpeechBounds>(); // By recording URI
+  private speechProfile: SpeechProfile = DEFAULT_SPEECH_PROFILE;
+  private profilePromise: Promise<void> | null = null;
   // private voice: any = null; // Will be initialized when package is installed
 
   constructor() {
@@ -104,9 +149,12 @@ class VoiceService {
   }
 
   /**
-   * Start voice recording with real-time speech recognition
+   * Start voice recording with real-time speech recognition. Metering levels
+   * are passed to onMetering while recording.
    */
-  async startRecording(): Promise<void> {
+  async startRecording(
+    onMetering?: (sample: MeteringSample) => void
+  ): Promise<void> {
     try {
       // Check permissions first
       const hasPermission = await this.checkPermissions();
@@ -128,7 +176,18 @@ class VoiceService {
 
       // Start recording
       const { recording } = await Audio.Recording.createAsync(
-        Audio.RecordingOptionsPresets.HIGH_QUALITY
+        {
+          ...Audio.RecordingOptionsPresets.HIGH_QUALITY,
+          isMeteringEnabled: !!onMetering,
+        },
+        onMetering
+          ? (status) => {
+              if (status.isRecording && status.metering !== undefined) {
+                onMetering({ timeMs: status.durationMillis, level: status.metering });
+              }
+            }
+          : null,
+        METERING_INTERVAL_MS
       );
 
       this.recording = recording;
@@ -160,9 +219,10 @@ class VoiceService {
   // }
 
   /**
-   * Stop voice recording
+   * Stop voice recording. Speech bounds from voice activity detection are
+   * kept with the recording so playback skips the silence around them.
    */
-  async stopRecording(): Promise<VoiceRecording> {
+  async stopRecording(speech?: SpeechBounds | null): Promise<VoiceRecording> {
     try {
       if (!this.recording || !this.isRecording) {
         throw new Error("No active recording");
@@ -187,6 +247,9 @@ class VoiceService {
 
       this.recordingUri = uri;
       this.recording = null;
+      if (speech) {
+        this.speechBounds.set(uri, speech);
+      }
 
       console.log("Recording stopped");
 
@@ -194,6 +257,7 @@ class VoiceService {
         uri,
         duration,
         size,
+        ...(speech && { speech }),
       };
     } catch (error) {
       console.error("Failed to stop recording:", error);
@@ -378,6 +442,89 @@ class VoiceService {
     }
   }
 
+  private async ensureProfileLoaded(): Promise<void> {
+    if (!this.profilePromise) {
+      this.profilePromise = storageService.getSpeechProfile().then((profile) => {
+        if (profile) {
+          this.speechProfile = { ...DEFAULT_SPEECH_PROFILE, ...profile };
+        }
+      });
+    }
+    return this.profilePromise;
+  }
+
+  /**
+   * Get the user's speech profile
+   */
+  async getSpeechProfile(): Promise<SpeechProfile> {
+    await this.ensureProfileLoaded();
+    return this.speechProfile;
+  }
+
+  /**
+   * Change and save the user's speech profile
+   */
+  async updateSpeechProfile(
+    changes: Partial<SpeechProfile>
+  ): Promise<SpeechProfile> {
+    await this.ensureProfileLoaded();
+    this.speechProfile = { ...this.speechProfile, ...changes };
+    await storageService.setSpeechProfile(this.speechProfile);
+    return this.speechProfile;
+  }
+
+  /**
+   * Voices installed on the device, optionally only those for a language
+   */
+  async getAvailableVoices(language?: string): Promise<Speech.Voice[]> {
+    try {
+      const voices = await Speech.getAvailableVoicesAsync();
+      const prefix = language?.split("-")[0]?.toLowerCase();
+      return prefix
+        ? voices.filter((voice) => voice.language.toLowerCase().startsWith(prefix))
+        : voices;
+    } catch (error) {
+      console.error("Failed to get voices:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Whether the profile's silent hours cover a time. The window may run past
+   * midnight, e.g. 22 to 7.
+   */
+  isInSilentHours(profile: SpeechProfile, now = new Date()): boolean {
+    const { enabled, startHour, endHour } = profile.silentHours;
+    if (!enabled || startHour === endHour) return false;
+
+    const hour = now.getHours();
+    return startHour < endHour
+      ? hour >= startHour && hour < endHour
+      : hour >= startHour || hour < endHour;
+  }
+
+  /**
+   * Speech options from the profile for a kind of message, with any explicit
+   * options taking precedence. Null while silent hours mute speech.
+   */
+  private async getSpeakOptions(
+    style: SpeechStyle,
+    options?: SpeakOptions
+  ): Promise<Speech.SpeechOptions | null> {
+    const profile = await this.getSpeechProfile();
+    if (this.isInSilentHours(profile)) {
+      return null;
+    }
+
+    const adjustment = SPEECH_STYLES[style];
+    return {
+      language: options?.language || profile.language,
+      pitch: options?.pitch || clamp(profile.pitch + adjustment.pitch, 0.5, 2),
+      rate: options?.rate || clamp(profile.rate + adjustment.rate, 0.1, 2),
+      ...(profile.voiceIdentifier && { voice: profile.voiceIdentifier }),
+    };
+  }
+
   /**
    * Speak text using text-to-speech with enhanced options
    */
@@ -391,8 +538,27 @@ class VoiceService {
       onEnd?: () => void;
       onError?: (error: string) => void;
     }
+  ): Promise<void> {
+    return this.speak(text, "normal", options);
+  }
+
+  private async speak(
+    text: string,
+    style: SpeechStyle,
+    options?: SpeakOptions & {
+      onStart?: () => void;
+      onEnd?: () => void;
+      onError?: (error: string) => void;
+    }
   ): Promise<void> {
     try {
+      const speakOptions = await this.getSpeakOptions(style, options);
+      if (!speakOptions) {
+        console.log("Silent hours, not speaking:", text);
+        options?.onEnd?.();
+        return;
+      }
+
       // Configure audio mode for better volume
       await Audio.setAudioModeAsync({
         allowsRecordingIOS: false,
@@ -402,12 +568,6 @@ class VoiceService {
         playThroughEarpieceAndroid: false, // Use speaker instead of earpiece
       });
 
-      const speakOptions = {
-        language: options?.language || "en-US",
-        pitch: options?.pitch || 1.0,
-        rate: options?.rate || 0.75,
-      };
-
       // Call onStart callback if provided
       options?.onStart?.();
 
@@ -472,9 +632,9 @@ class VoiceService {
       }
 
       const speakOptions: any = {
-        language: options?.language || "en-US",
-        pitch: options?.pitch || 1.0,
-        rate: options?.rate || 0.75,
+        ...(options?.language && { language: options.language }),
+        ...(options?.pitch && { pitch: options.pitch }),
+        ...(options?.rate && { rate: options.rate }),
       };
 
       if (options?.onStart) speakOptions.onStart = options.onStart;
@@ -506,11 +666,7 @@ class VoiceService {
       ? `${action} completed successfully. ${details}`
       : `${action} completed successfully.`;
 
-    await this.speakText(confirmationText, {
-      language: options?.language || "en-US",
-      pitch: options?.pitch || 1.0,
-      rate: options?.rate || 0.8,
-    });
+    await this.speak(confirmationText, "confirmation", options);
   }
 
   /**
@@ -526,11 +682,7 @@ class VoiceService {
   ): Promise<void> {
     const errorText = `Sorry, I encountered an error. ${error}`;
 
-    await this.speakText(errorText, {
-      language: options?.language || "en-US",
-      pitch: options?.pitch || 0.9, // Slightly lower pitch for errors
-      rate: options?.rate || 0.7, // Slightly slower for clarity
-    });
+    await this.speak(errorText, "error", options);
   }
 
   /**
@@ -544,11 +696,7 @@ class VoiceService {
     const welcomeText =
       "Hello! I'm your voice assistant. How can I help you today?";
 
-    await this.speakText(welcomeText, {
-      language: options?.language || "en-US",
-      pitch: options?.pitch || 1.0,
-      rate: options?.rate || 0.75,
-    });
+    await this.speakText(welcomeText, options);
   }
 
   /**
@@ -561,11 +709,7 @@ class VoiceService {
   }): Promise<void> {
     const promptText = "I'm listening. Please speak your command.";
 
-    await this.speakText(promptText, {
-      language: options?.language || "en-US",
-      pitch: options?.pitch || 1.0,
-      rate: options?.rate || 0.8,
-    });
+    await this.speak(promptText, "confirmation", options);
   }
 
   /**
@@ -613,15 +757,16 @@ class VoiceService {
     }
   ): Promise<void> {
     try {
+      const speakOptions = await this.getSpeakOptions("enhanced", options);
+      if (!speakOptions) {
+        console.log("Silent hours, not speaking:", text);
+        options?.onEnd?.();
+        return;
+      }
+
       // Configure audio for better volume
       await this.configureAudioForTTS();
 
-      const speakOptions = {
-        language: options?.language || "en-US",
-        pitch: options?.pitch || 1.1, // Slightly higher pitch for better clarity
-        rate: options?.rate || 0.7, // Slightly slower for better understanding
-      };
-
       // Call onStart callback if provided
       options?.onStart?.();
 
@@ -660,6 +805,13 @@ class VoiceService {
     }
   ): Promise<void> {
     try {
+      const speakOptions = await this.getSpeakOptions("important", options);
+      if (!speakOptions) {
+        console.log("Silent hours, not speaking:", text);
+        options?.onEnd?.();
+        return;
+      }
+
       // Configure audio for maximum volume
       await Audio.setAudioModeAsync({
         allowsRecordingIOS: false,
@@ -669,12 +821,6 @@ class VoiceService {
         playThroughEarpieceAndroid: false,
       });
 
-      const speakOptions = {
-        language: options?.language || "en-US",
-        pitch: 1.2, // Higher pitch for importance
-        rate: 0.65, // Slower rate for clarity
-      };
-
       options?.onStart?.();
 
       await Speech.speak(text, speakOptions);
@@ -709,6 +855,21 @@ class VoiceService {
     return this.recordingUri;
   }
 
+  /**
+   * Where the speech is in a recording, when voice activity detection ran
+   */
+  getSpeechBounds(uri: string): SpeechBounds | undefined {
+    return this.speechBounds.get(uri);
+  }
+
+  /**
+   * Remember where the speech is in a recording, e.g. one moved out of the
+   * offline queue
+   */
+  setSpeechBounds(uri: string, speech: SpeechBounds): void {
+    this.speechBounds.set(uri, speech);
+  }
+
   /**
    * Clean up resources
    */
@@ -727,16 +888,31 @@ class VoiceService {
   }
 
   /**
-   * Play recorded audio
+   * Play recorded audio, only the speech part when its bounds are known
    */
-  async playRecording(uri: string): Promise<void> {
+  async playRecording(
+    uri: string,
+    speech = this.speechBounds.get(uri)
+  ): Promise<void> {
     try {
       if (this.sound) {
         await this.sound.unloadAsync();
       }
 
-      const { sound } = await Audio.Sound.createAsync({ uri });
+      const { sound } = await Audio.Sound.createAsync(
+        { uri },
+        speech
+          ? { positionMillis: speech.startMs, progressUpdateIntervalMillis: 50 }
+          : {}
+      );
       this.sound = sound;
+      if (speech) {
+        sound.setOnPlaybackStatusUpdate((status) => {
+          if (status.isLoaded && status.isPlaying && status.positionMillis >= speech.endMs) {
+            sound.stopAsync();
+          }
+        });
+      }
 
       await this.sound.playAsync();
       console.log("Playing recording");
@@ -795,6 +971,11 @@ class VoiceService {
       formData.append("language", options?.language || "en-US");
       formData.append("context", options?.context || "voice_command");
 
+      if (recording.speech) {
+        formData.append("speechStartMs", String(Math.round(recording.speech.startMs)));
+        formData.append("speechEndMs", String(Math.round(recording.speech.endMs)));
+      }
+
       console.log("Uploading audio file with FormData...");
 
       const response = await apiClient.post("/ai/upload-audio", formData, {
@@ -820,12 +1001,15 @@ class VoiceService {
         success: false,
         message: "Audio upload failed",
         error: errorMessage,
+        ...(isNetworkError(error) && { offline: true }),
       };
     }
   }
 
   /**
-   * Enhanced transcribe audio that uses the upload endpoint
+   * Enhanced transcribe audio that uses the upload endpoint. Without a
+   * connection nothing is transcribed and the result is flagged offline, so
+   * the recording can be queued rather than lost.
    */
   async transcribeAudioWithUpload(
     recording: VoiceRecording,
@@ -842,6 +1026,10 @@ class VoiceService {
         context: options?.context || "transcription",
       });
 
+      if (uploadResponse.offline) {
+        return { text: "", confidence: 0, offline: true };
+      }
+
       if (!uploadResponse.success) {
         throw new Error(uploadResponse.error || "Upload failed");
       }
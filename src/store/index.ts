@@ -1,9 +1,13 @@
 import { configureStore } from "@reduxjs/toolkit";
 import { TypedUseSelectorHook, useDispatch, useSelector } from "react-redux";
-import authReducer from "./slices/authSlice";
+import { apiClient } from "../api/client";
+import { syncService } from "../services/syncService";
+import { voiceQueueService } from "../services/voiceQueueService";
+import authReducer, { clearAuth } from "./slices/authSlice";
 import calendarReducer from "./slices/calendarSlice";
 import expenseReducer from "./slices/expenseSlice";
-import voiceReducer from "./slices/voiceSlice";
+import syncReducer, { loadOutbox } from "./slices/syncSlice";
+import voiceReducer, { loadVoiceQueue } from "./slices/voiceSlice";
 
 export const store = configureStore({
   reducer: {
@@ -11,6 +15,7 @@ export const store = configureStore({
     expenses: expenseReducer,
     calendar: calendarReducer,
     voice: voiceReducer,
+    sync: syncReducer,
   },
   middleware: (getDefaultMiddleware) =>
     getDefaultMiddleware({
@@ -26,6 +31,25 @@ export const store = configureStore({
   devTools: process.env.NODE_ENV !== "production",
 });
 
+// A failed token refresh ends the session, so drop the signed-in user
+apiClient.onSessionExpired(() => {
+  store.dispatch(clearAuth());
+});
+
+// Offline changes and recordings are queued per user, so switch queues when the
+// signed-in user changes
+let outboxUserId: string | null = null;
+store.subscribe(() => {
+  const userId = store.getState().auth.user?.id || null;
+  if (userId !== outboxUserId) {
+    outboxUserId = userId;
+    syncService.setUser(userId);
+    voiceQueueService.setUser(userId);
+    store.dispatch(loadOutbox());
+    store.dispatch(loadVoiceQueue());
+  }
+});
+
 // Infer the `RootState` and `AppDispatch` types from the store itself
 export type RootState = ReturnType<typeof store.getState>;
 export type AppDispatch = typeof store.dispatch;
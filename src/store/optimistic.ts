@@ -0,0 +1,86 @@
+// Helpers for applying writes to slice state before the server confirms them.
+// They mutate Immer drafts, so only call them from reducers.
+
+export interface OptimisticBackup<T> {
+  item: T;
+  index: number;
+}
+
+export interface OptimisticBackups<T> {
+  [requestId: string]: OptimisticBackup<T>;
+}
+
+/**
+ * Apply changes to an item (or remove it when changes is null), keeping a
+ * backup under the request id so the change can be rolled back
+ */
+export const applyOptimisticChange = <T extends { id: string }>(
+  items: T[],
+  backups: OptimisticBackups<T>,
+  requestId: string,
+  id: string,
+  changes: Partial<T> | null
+) => {
+  const index = items.findIndex((item) => item.id === id);
+  if (index === -1) {
+    return;
+  }
+
+  backups[requestId] = { item: items[index]!, index };
+  if (changes) {
+    items[index] = { ...items[index]!, ...changes };
+  } else {
+    items.splice(index, 1);
+  }
+};
+
+/**
+ * Restore the item saved by applyOptimisticChange
+ */
+export const rollbackOptimisticChange = <T extends { id: string }>(
+  items: T[],
+  backups: OptimisticBackups<T>,
+  requestId: string
+) => {
+  const backup = backups[requestId];
+  if (!backup) {
+    return;
+  }
+
+  delete backups[requestId];
+  const index = items.findIndex((item) => item.id === backup.item.id);
+  if (index !== -1) {
+    items[index] = backup.item;
+  } else {
+    items.splice(Math.min(backup.index, items.length), 0, backup.item);
+  }
+};
+
+/**
+ * Drop the backup once the server has accepted (or queued) the change
+ */
+export const commitOptimisticChange = <T>(
+  backups: OptimisticBackups<T>,
+  requestId: string
+) => {
+  delete backups[requestId];
+};
+
+/**
+ * Replace the item with the given id, or add it if it is no longer in the list
+ */
+export const upsertItem = <T extends { id: string }>(
+  items: T[],
+  id: string,
+  item: T,
+  prepend = false
+) => {
+  const index = items.findIndex((existing) => existing.id === id);
+  if (index !== -1) {
+    items[index] = item;
+  } else if (prepend) {
+    items.unshift(item);
+  } else {
+    items.push(item);
+  }
+};
@@ -1,6 +1,34 @@
 import { createAsyncThunk, createSlice, PayloadAction } from "@reduxjs/toolkit";
 import { apiClient } from "../../api/client";
 import { API_ENDPOINTS } from "../../config/env";
+import { storageService } from "../../services/storage";
+import {
+  applyPendingMutations,
+  getMutationBase,
+  isLocalId,
+  isNetworkError,
+  syncService,
+  toLocalId,
+} from "../../services/syncService";
+import { SchedulingPreferences } from "../../types";
+import { DEFAULT_SCHEDULING_PREFERENCES } from "../../utils/freeBusy";
+import {
+  buildRRule,
+  countOccurrencesBefore,
+  parseRRule,
+} from "../../utils/rrule";
+import {
+  applyOptimisticChange,
+  commitOptimisticChange,
+  OptimisticBackups,
+  rollbackOptimisticChange,
+  upsertItem,
+} from "../optimistic";
+import {
+  mutationDiscarded,
+  mutationSynced,
+  queueOfflineMutation,
+} from "./syncSlice";
 
 // Types
 export interface CalendarEvent {
@@ -12,17 +40,29 @@ export interface CalendarEvent {
   location?: string;
   isAllDay: boolean;
   color?: string;
+  recurrenceRule?: string; // RFC 5545 RRULE, e.g. "FREQ=WEEKLY;BYDAY=MO"
+  exceptionDates?: string[]; // Original start times of removed occurrences
+  icalUid?: string; // UID of the iCalendar event this was imported from
+  recurringEventId?: string; // Set on expanded occurrences only
+  originalStartTime?: string; // Set on expanded occurrences only
   userId: string;
   createdAt: string;
   updatedAt: string;
+  pendingSync?: boolean; // Saved offline, waiting to be sent to the server
 }
 
+// How the calendar screen lays out events
+export type CalendarViewMode = "month" | "week" | "day" | "agenda";
+
 export interface CalendarState {
   events: CalendarEvent[];
   selectedEvent: CalendarEvent | null;
   isLoading: boolean;
   error: string | null;
-  selectedDate: string | null;
+  selectedDate: string | null; // YYYY-MM-DD, shared by every view
+  viewMode: CalendarViewMode;
+  schedulingPreferences: SchedulingPreferences;
+  optimisticBackups: OptimisticBackups<CalendarEvent>;
 }
 
 export interface CreateEventData {
@@ -34,12 +74,23 @@ export interface CreateEventData {
   location?: string;
   isAllDay: boolean;
   color?: string;
+  recurrenceRule?: string;
+  exceptionDates?: string[];
+  icalUid?: string;
 }
 
 export interface UpdateEventData extends Partial<CreateEventData> {
   id: string;
 }
 
+export type RecurrenceEditScope = "this" | "following" | "all";
+
+export interface RecurringEventChanges {
+  updated: CalendarEvent[];
+  created: CalendarEvent[];
+  deletedIds: string[];
+}
+
 // Initial state
 const initialState: CalendarState = {
   events: [] as CalendarEvent[],
@@ -47,13 +98,27 @@ const initialState: CalendarState = {
   isLoading: false,
   error: null,
   selectedDate: null,
+  viewMode: "month",
+  schedulingPreferences: DEFAULT_SCHEDULING_PREFERENCES,
+  optimisticBackups: {},
 };
 
+// The event as it was before the pending reducer applied an optimistic change
+const getPreviousEvent = (state: unknown, requestId: string) =>
+  (state as { calendar: CalendarState }).calendar.optimisticBackups[requestId]
+    ?.item;
+
 // Async thunks
 export const fetchEvents = createAsyncThunk(
   "calendar/fetchEvents",
   async (
-    dateRange: { startTime: string; endTime: string } | undefined,
+    dateRange:
+      | {
+          startTime: string;
+          endTime: string;
+          append?: boolean; // Keep the events already loaded, e.g. as the agenda grows
+        }
+      | undefined,
     { rejectWithValue }
   ) => {
     try {
@@ -69,7 +134,9 @@ export const fetchEvents = createAsyncThunk(
 
       console.log("Events DATA => ", response);
       console.log("url => ", url);
-      return response.data;
+      // Keep edits and deletes that are still waiting to sync
+      const pending = await syncService.getPending();
+      return applyPendingMutations<CalendarEvent>(response.data, pending, "event");
     } catch (error: any) {
       return rejectWithValue(error.message || "Failed to fetch events");
     }
@@ -78,12 +145,47 @@ export const fetchEvents = createAsyncThunk(
 
 export const createEvent = createAsyncThunk(
   "calendar/createEvent",
-  async (eventData: CreateEventData, { rejectWithValue }) => {
+  async (
+    eventData: CreateEventData,
+    { dispatch, requestId, rejectWithValue }
+  ) => {
     try {
       console.log("event data 81 => ", eventData);
 
-      const response = await apiClient.post(API_ENDPOINTS.EVENTS, eventData);
+      const response = await apiClient.post(
+        API_ENDPOINTS.EVENTS,
+        eventData,
+        syncService.getIdempotencyConfig(requestId)
+      );
       return response.data;
+    } catch (error: any) {
+      if (!isNetworkError(error)) {
+        return rejectWithValue(error.message || "Failed to create event");
+      }
+    }
+
+    // Offline: keep the event locally and send it when connectivity returns
+    try {
+      const localId = toLocalId(requestId);
+      const now = new Date().toISOString();
+      const optimisticEvent: CalendarEvent = {
+        ...eventData,
+        id: localId,
+        createdAt: now,
+        updatedAt: now,
+        pendingSync: true,
+      };
+      return await queueOfflineMutation(
+        dispatch,
+        {
+          id: requestId,
+          entity: "event",
+          operation: "create",
+          entityId: localId,
+          payload: eventData,
+        },
+        optimisticEvent
+      );
     } catch (error: any) {
       return rejectWithValue(error.message || "Failed to create event");
     }
@@ -92,11 +194,42 @@ export const createEvent = createAsyncThunk(
 
 export const updateEvent = createAsyncThunk(
   "calendar/updateEvent",
-  async (eventData: UpdateEventData, { rejectWithValue }) => {
+  async (
+    eventData: UpdateEventData,
+    { dispatch, getState, requestId, rejectWithValue }
+  ) => {
+    const { id, ...data } = eventData;
+
     try {
-      const { id, ...data } = eventData;
-      const response = await apiClient.put(API_ENDPOINTS.EVENT_BY_ID(id), data);
-      return response.data;
+      // Events created offline are updated after their queued create
+      if (!isLocalId(id)) {
+        const response = await apiClient.put(
+          API_ENDPOINTS.EVENT_BY_ID(id),
+          data,
+          syncService.getIdempotencyConfig(requestId)
+        );
+        return response.data;
+      }
+    } catch (error: any) {
+      if (!isNetworkError(error)) {
+        return rejectWithValue(error.message || "Failed to update event");
+      }
+    }
+
+    try {
+      const previous = getPreviousEvent(getState(), requestId);
+      return await queueOfflineMutation(
+        dispatch,
+        {
+          id: requestId,
+          entity: "event",
+          operation: "update",
+          entityId: id,
+          payload: data,
+          ...getMutationBase(previous, data),
+        },
+        { ...previous, ...data, id, pendingSync: true } as CalendarEvent
+      );
     } catch (error: any) {
       return rejectWithValue(error.message || "Failed to update event");
     }
@@ -105,10 +238,33 @@ export const updateEvent = createAsyncThunk(
 
 export const deleteEvent = createAsyncThunk(
   "calendar/deleteEvent",
-  async (id: string, { rejectWithValue }) => {
+  async (id: string, { dispatch, getState, requestId, rejectWithValue }) => {
     try {
-      await apiClient.delete(API_ENDPOINTS.EVENT_BY_ID(id));
-      return id;
+      if (!isLocalId(id)) {
+        await apiClient.delete(
+          API_ENDPOINTS.EVENT_BY_ID(id),
+          syncService.getIdempotencyConfig(requestId)
+        );
+        return id;
+      }
+    } catch (error: any) {
+      if (!isNetworkError(error)) {
+        return rejectWithValue(error.message || "Failed to delete event");
+      }
+    }
+
+    try {
+      return await queueOfflineMutation(
+        dispatch,
+        {
+          id: requestId,
+          entity: "event",
+          operation: "delete",
+          entityId: id,
+          ...getMutationBase(getPreviousEvent(getState(), requestId)),
+        },
+        id
+      );
     } catch (error: any) {
       return rejectWithValue(error.message || "Failed to delete event");
     }
@@ -127,6 +283,242 @@ export const getEventById = createAsyncThunk(
   }
 );
 
+export const fetchSchedulingPreferences = createAsyncThunk(
+  "calendar/fetchSchedulingPreferences",
+  async (_, { rejectWithValue }) => {
+    try {
+      const stored = await storageService.getSchedulingPreferences();
+      return { ...DEFAULT_SCHEDULING_PREFERENCES, ...stored };
+    } catch (error: any) {
+      return rejectWithValue(
+        error.message || "Failed to load scheduling preferences"
+      );
+    }
+  }
+);
+
+export const saveSchedulingPreferences = createAsyncThunk(
+  "calendar/saveSchedulingPreferences",
+  async (
+    changes: Partial<SchedulingPreferences>,
+    { getState, rejectWithValue }
+  ) => {
+    try {
+      const preferences = {
+        ...(getState() as { calendar: CalendarState }).calendar.schedulingPreferences,
+        ...changes,
+      };
+      await storageService.setSchedulingPreferences(preferences);
+      return preferences;
+    } catch (error: any) {
+      return rejectWithValue(
+        error.message || "Failed to save scheduling preferences"
+      );
+    }
+  }
+);
+
+// Recurring event helpers
+const findSeries = (
+  state: { calendar: CalendarState },
+  occurrence: CalendarEvent
+): CalendarEvent => {
+  const series = state.calendar.events.find(
+    (event) => event.id === (occurrence.recurringEventId || occurrence.id)
+  );
+  if (!series || !series.recurrenceRule) {
+    throw new Error("Recurring event not found");
+  }
+  return series;
+};
+
+const putEvent = async (
+  id: string,
+  data: Partial<CreateEventData>
+): Promise<CalendarEvent> => {
+  const response = await apiClient.put(API_ENDPOINTS.EVENT_BY_ID(id), data);
+  return response.data;
+};
+
+const postEvent = async (data: CreateEventData): Promise<CalendarEvent> => {
+  const response = await apiClient.post(API_ENDPOINTS.EVENTS, data);
+  return response.data;
+};
+
+const toEventData = (
+  event: CalendarEvent,
+  changes: Partial<CreateEventData> = {}
+): CreateEventData => {
+  const {
+    id,
+    createdAt,
+    updatedAt,
+    recurringEventId,
+    originalStartTime,
+    ...data
+  } = event;
+  return { ...data, ...changes };
+};
+
+// End the series just before the given occurrence
+const truncateSeries = (
+  series: CalendarEvent,
+  occurrenceStart: Date
+): string => {
+  const { count, ...rule } = parseRRule(series.recurrenceRule || "")!;
+  return buildRRule({
+    ...rule,
+    until: new Date(occurrenceStart.getTime() - 1000).toISOString(),
+  });
+};
+
+const excludeOccurrence = (
+  series: CalendarEvent,
+  occurrenceStart: string
+): string[] => [...(series.exceptionDates || []), occurrenceStart];
+
+export const updateRecurringEvent = createAsyncThunk(
+  "calendar/updateRecurringEvent",
+  async (
+    {
+      occurrence,
+      changes,
+      scope,
+    }: {
+      occurrence: CalendarEvent;
+      changes: Partial<CreateEventData>;
+      scope: RecurrenceEditScope;
+    },
+    { getState, rejectWithValue }
+  ) => {
+    try {
+      const series = findSeries(getState() as { calendar: CalendarState }, occurrence);
+      const occurrenceStart = occurrence.originalStartTime || occurrence.startTime;
+      const result: RecurringEventChanges = { updated: [], created: [], deletedIds: [] };
+      const isFirst = new Date(occurrenceStart).getTime() === new Date(series.startTime).getTime();
+
+      if (scope === "this") {
+        // Detach the occurrence into a standalone event and skip it in the series
+        result.updated.push(
+          await putEvent(series.id, {
+            exceptionDates: excludeOccurrence(series, occurrenceStart),
+          })
+        );
+        const { recurrenceRule, exceptionDates, icalUid, ...standalone } = toEventData(
+          occurrence,
+          changes
+        );
+        try {
+          result.created.push(await postEvent(standalone));
+        } catch (error) {
+          // Put the occurrence back in the series so it doesn't disappear
+          await putEvent(series.id, { exceptionDates: series.exceptionDates || [] });
+          throw error;
+        }
+      } else if (scope === "following" && !isFirst) {
+        // Split the series: the old one ends here, a new one starts with the changes
+        const rule = parseRRule(series.recurrenceRule!)!;
+        if (rule.count) {
+          rule.count -= countOccurrencesBefore(
+            new Date(series.startTime),
+            series.recurrenceRule!,
+            new Date(occurrenceStart)
+          );
+        }
+
+        result.updated.push(
+          await putEvent(series.id, {
+            recurrenceRule: truncateSeries(series, new Date(occurrenceStart)),
+          })
+        );
+        result.created.push(
+          await postEvent(
+            toEventData(occurrence, {
+              recurrenceRule: buildRRule(rule),
+              exceptionDates: (series.exceptionDates || []).filter(
+                (date) => new Date(date) > new Date(occurrenceStart)
+              ),
+              ...changes,
+            })
+          )
+        );
+      } else {
+        // Shift the whole series by however much this occurrence moved
+        const startShift = changes.startTime
+          ? new Date(changes.startTime).getTime() - new Date(occurrence.startTime).getTime()
+          : 0;
+        const endShift = changes.endTime
+          ? new Date(changes.endTime).getTime() - new Date(occurrence.endTime).getTime()
+          : 0;
+
+        result.updated.push(
+          await putEvent(series.id, {
+            ...changes,
+            startTime: new Date(new Date(series.startTime).getTime() + startShift).toISOString(),
+            endTime: new Date(new Date(series.endTime).getTime() + endShift).toISOString(),
+          })
+        );
+      }
+
+      return result;
+    } catch (error: any) {
+      return rejectWithValue(error.message || "Failed to update recurring event");
+    }
+  }
+);
+
+export const deleteRecurringEvent = createAsyncThunk(
+  "calendar/deleteRecurringEvent",
+  async (
+    { occurrence, scope }: { occurrence: CalendarEvent; scope: RecurrenceEditScope },
+    { getState, rejectWithValue }
+  ) => {
+    try {
+      const series = findSeries(getState() as { calendar: CalendarState }, occurrence);
+      const occurrenceStart = occurrence.originalStartTime || occurrence.startTime;
+      const result: RecurringEventChanges = { updated: [], created: [], deletedIds: [] };
+      const isFirst = new Date(occurrenceStart).getTime() === new Date(series.startTime).getTime();
+
+      if (scope === "this") {
+        result.updated.push(
+          await putEvent(series.id, {
+            exceptionDates: excludeOccurrence(series, occurrenceStart),
+          })
+        );
+      } else if (scope === "following" && !isFirst) {
+        result.updated.push(
+          await putEvent(series.id, {
+            recurrenceRule: truncateSeries(series, new Date(occurrenceStart)),
+          })
+        );
+      } else {
+        await apiClient.delete(API_ENDPOINTS.EVENT_BY_ID(series.id));
+        result.deletedIds.push(series.id);
+      }
+
+      return result;
+    } catch (error: any) {
+      return rejectWithValue(error.message || "Failed to delete recurring event");
+    }
+  }
+);
+
+const applyRecurringEventChanges = (
+  state: CalendarState,
+  changes: RecurringEventChanges
+) => {
+  changes.updated.forEach((updated) => {
+    const index = state.events.findIndex((event) => event.id === updated.id);
+    if (index !== -1) {
+      state.events[index] = updated;
+    }
+  });
+  state.events.push(...changes.created);
+  state.events = state.events.filter(
+    (event) => !changes.deletedIds.includes(event.id)
+  );
+};
+
 // Calendar slice
 const calendarSlice = createSlice({
   name: "calendar",
@@ -141,6 +533,9 @@ const calendarSlice = createSlice({
     setSelectedDate: (state, action: PayloadAction<string | null>) => {
       state.selectedDate = action.payload;
     },
+    setViewMode: (state, action: PayloadAction<CalendarViewMode>) => {
+      state.viewMode = action.payload;
+    },
     addEvent: (state, action: PayloadAction<CalendarEvent>) => {
       state.events.push(action.payload);
     },
@@ -170,7 +565,17 @@ const calendarSlice = createSlice({
       })
       .addCase(fetchEvents.fulfilled, (state, action) => {
         state.isLoading = false;
-        state.events = action.payload;
+        if (action.meta.arg?.append) {
+          action.payload.forEach((event: CalendarEvent) =>
+            upsertItem(state.events, event.id, event)
+          );
+        } else {
+          // Events created offline aren't on the server yet
+          state.events = [
+            ...action.payload,
+            ...state.events.filter((event) => isLocalId(event.id)),
+          ];
+        }
         state.error = null;
       })
       .addCase(fetchEvents.rejected, (state, action) => {
@@ -196,12 +601,21 @@ const calendarSlice = createSlice({
 
     // Update Event
     builder
-      .addCase(updateEvent.pending, (state) => {
+      .addCase(updateEvent.pending, (state, action) => {
         state.isLoading = true;
         state.error = null;
+        const { id, ...changes } = action.meta.arg;
+        applyOptimisticChange(
+          state.events,
+          state.optimisticBackups,
+          action.meta.requestId,
+          id,
+          changes
+        );
       })
       .addCase(updateEvent.fulfilled, (state, action) => {
         state.isLoading = false;
+        commitOptimisticChange(state.optimisticBackups, action.meta.requestId);
         const index = state.events.findIndex(
           (event) => event.id === action.payload.id
         );
@@ -212,17 +626,30 @@ const calendarSlice = createSlice({
       })
       .addCase(updateEvent.rejected, (state, action) => {
         state.isLoading = false;
+        rollbackOptimisticChange(
+          state.events,
+          state.optimisticBackups,
+          action.meta.requestId
+        );
         state.error = action.payload as string;
       });
 
     // Delete Event
     builder
-      .addCase(deleteEvent.pending, (state) => {
+      .addCase(deleteEvent.pending, (state, action) => {
         state.isLoading = true;
         state.error = null;
+        applyOptimisticChange(
+          state.events,
+          state.optimisticBackups,
+          action.meta.requestId,
+          action.meta.arg,
+          null
+        );
       })
       .addCase(deleteEvent.fulfilled, (state, action) => {
         state.isLoading = false;
+        commitOptimisticChange(state.optimisticBackups, action.meta.requestId);
         state.events = state.events.filter(
           (event) => event.id !== action.payload
         );
@@ -230,9 +657,67 @@ const calendarSlice = createSlice({
       })
       .addCase(deleteEvent.rejected, (state, action) => {
         state.isLoading = false;
+        rollbackOptimisticChange(
+          state.events,
+          state.optimisticBackups,
+          action.meta.requestId
+        );
         state.error = action.payload as string;
       });
 
+    // Recurring Events
+    builder
+      .addCase(updateRecurringEvent.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(updateRecurringEvent.fulfilled, (state, action) => {
+        state.isLoading = false;
+        applyRecurringEventChanges(state, action.payload);
+        state.error = null;
+      })
+      .addCase(updateRecurringEvent.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      })
+      .addCase(deleteRecurringEvent.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(deleteRecurringEvent.fulfilled, (state, action) => {
+        state.isLoading = false;
+        applyRecurringEventChanges(state, action.payload);
+        state.error = null;
+      })
+      .addCase(deleteRecurringEvent.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      });
+
+    // Offline Sync
+    builder
+      .addCase(mutationSynced, (state, action) => {
+        const { mutation, result } = action.payload;
+        if (mutation.entity === "event" && mutation.operation !== "delete" && result) {
+          upsertItem(state.events, mutation.entityId, result);
+        }
+      })
+      .addCase(mutationDiscarded, (state, action) => {
+        const { mutation, serverCopy } = action.payload;
+        if (mutation.entity !== "event") {
+          return;
+        }
+
+        // Fall back to the server's version, or drop the event if the server has none
+        if (serverCopy) {
+          upsertItem(state.events, mutation.entityId, serverCopy);
+        } else {
+          state.events = state.events.filter(
+            (event) => event.id !== mutation.entityId
+          );
+        }
+      });
+
     // Get Event By ID
     builder
       .addCase(getEventById.pending, (state) => {
@@ -242,11 +727,23 @@ const calendarSlice = createSlice({
       .addCase(getEventById.fulfilled, (state, action) => {
         state.isLoading = false;
         state.selectedEvent = action.payload;
+        // Keep it with the loaded events so later edits and deletes apply to it
+        upsertItem(state.events, action.payload.id, action.payload);
         state.error = null;
       })
       .addCase(getEventById.rejected, (state, action) => {
         state.isLoading = false;
         state.error = action.payload as string;
+      })
+      .addCase(fetchSchedulingPreferences.fulfilled, (state, action) => {
+        state.schedulingPreferences = action.payload;
+      })
+      .addCase(saveSchedulingPreferences.fulfilled, (state, action) => {
+        state.schedulingPreferences = action.payload;
+        state.error = null;
+      })
+      .addCase(saveSchedulingPreferences.rejected, (state, action) => {
+        state.error = action.payload as string;
       });
   },
 });
@@ -255,6 +752,7 @@ export const {
   clearError,
   setSelectedEvent,
   setSelectedDate,
+  setViewMode,
   addEvent,
   updateEventInList,
   removeEventFromList,
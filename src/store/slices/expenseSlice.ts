@@ -2,6 +2,7 @@ import { createAsyncThunk, createSlice, PayloadAction } from "@reduxjs/toolkit";
 import { apiClient } from "../../api/client";
 import { API_ENDPOINTS } from "../../config/env";
 import {
+  CategoryBudgets,
   ConvertPlannedExpenseDto,
   CreatePlannedExpenseDto,
   Expense,
@@ -11,14 +12,36 @@ import {
   PlannedExpense,
   PlannedExpenseQueryDto,
   PlannedExpenseStats,
+  expenseService,
   UpdatePlannedExpenseDto,
 } from "../../services/expenseService";
+import {
+  applyPendingMutations,
+  getMutationBase,
+  isLocalId,
+  isNetworkError,
+  syncService,
+  toLocalId,
+} from "../../services/syncService";
+import {
+  applyOptimisticChange,
+  commitOptimisticChange,
+  OptimisticBackups,
+  rollbackOptimisticChange,
+  upsertItem,
+} from "../optimistic";
+import {
+  mutationDiscarded,
+  mutationSynced,
+  queueOfflineMutation,
+} from "./syncSlice";
 
 // Types
 export interface ExpenseState {
   expenses: Expense[];
   plannedExpenses: PlannedExpense[];
   categories: ExpenseCategory[];
+  budgets: CategoryBudgets;
   stats: ExpenseStats | null;
   plannedExpenseStats: PlannedExpenseStats | null;
   filters: ExpenseFilters;
@@ -26,6 +49,7 @@ export interface ExpenseState {
   error: string | null;
   selectedExpense: Expense | null;
   selectedPlannedExpense: PlannedExpense | null;
+  optimisticBackups: OptimisticBackups<Expense | PlannedExpense>;
 }
 
 // Initial state
@@ -33,6 +57,7 @@ const initialState: ExpenseState = {
   expenses: [],
   plannedExpenses: [],
   categories: [],
+  budgets: {},
   stats: null,
   plannedExpenseStats: null,
   filters: {},
@@ -40,6 +65,21 @@ const initialState: ExpenseState = {
   error: null,
   selectedExpense: null,
   selectedPlannedExpense: null,
+  optimisticBackups: {},
+};
+
+type ExpenseThunkState = {
+  expenses: ExpenseState;
+  auth: { user: { id: string } | null };
+};
+
+// The item as it was before the pending reducer applied an optimistic change
+const getPreviousItem = (state: unknown, requestId: string) =>
+  (state as ExpenseThunkState).expenses.optimisticBackups[requestId]?.item;
+
+const getOptimisticTimestamps = () => {
+  const now = new Date().toISOString();
+  return { createdAt: now, updatedAt: now, pendingSync: true };
 };
 
 // Async thunks
@@ -60,7 +100,9 @@ export const fetchExpenses = createAsyncThunk(
         ? `${API_ENDPOINTS.EXPENSES}?${queryParams}`
         : API_ENDPOINTS.EXPENSES;
       const response = await apiClient.get(url);
-      return response.data;
+      // Keep edits and deletes that are still waiting to sync
+      const pending = await syncService.getPending();
+      return applyPendingMutations<Expense>(response.data, pending, "expense");
     } catch (error: any) {
       return rejectWithValue(error.message || "Failed to fetch expenses");
     }
@@ -69,13 +111,34 @@ export const fetchExpenses = createAsyncThunk(
 
 export const createExpense = createAsyncThunk(
   "expenses/createExpense",
-  async (expenseData: any, { rejectWithValue }) => {
+  async (expenseData: any, { dispatch, requestId, rejectWithValue }) => {
     try {
       const response = await apiClient.post(
         API_ENDPOINTS.EXPENSES,
-        expenseData
+        expenseData,
+        syncService.getIdempotencyConfig(requestId)
       );
       return response.data;
+    } catch (error: any) {
+      if (!isNetworkError(error)) {
+        return rejectWithValue(error.message || "Failed to create expense");
+      }
+    }
+
+    // Offline: keep the expense locally and send it when connectivity returns
+    try {
+      const localId = toLocalId(requestId);
+      return await queueOfflineMutation(
+        dispatch,
+        {
+          id: requestId,
+          entity: "expense",
+          operation: "create",
+          entityId: localId,
+          payload: expenseData,
+        },
+        { ...expenseData, ...getOptimisticTimestamps(), id: localId }
+      );
     } catch (error: any) {
       return rejectWithValue(error.message || "Failed to create expense");
     }
@@ -84,13 +147,40 @@ export const createExpense = createAsyncThunk(
 
 export const updateExpense = createAsyncThunk(
   "expenses/updateExpense",
-  async ({ id, data }: { id: string; data: any }, { rejectWithValue }) => {
+  async (
+    { id, data }: { id: string; data: any },
+    { dispatch, getState, requestId, rejectWithValue }
+  ) => {
     try {
-      const response = await apiClient.put(
-        API_ENDPOINTS.EXPENSE_BY_ID(id),
-        data
+      // Expenses created offline are updated after their queued create
+      if (!isLocalId(id)) {
+        const response = await apiClient.put(
+          API_ENDPOINTS.EXPENSE_BY_ID(id),
+          data,
+          syncService.getIdempotencyConfig(requestId)
+        );
+        return response.data;
+      }
+    } catch (error: any) {
+      if (!isNetworkError(error)) {
+        return rejectWithValue(error.message || "Failed to update expense");
+      }
+    }
+
+    try {
+      const previous = getPreviousItem(getState(), requestId);
+      return await queueOfflineMutation(
+        dispatch,
+        {
+          id: requestId,
+          entity: "expense",
+          operation: "update",
+          entityId: id,
+          payload: data,
+          ...getMutationBase(previous, data),
+        },
+        { ...previous, ...data, id, pendingSync: true }
       );
-      return response.data;
     } catch (error: any) {
       return rejectWithValue(error.message || "Failed to update expense");
     }
@@ -99,10 +189,33 @@ export const updateExpense = createAsyncThunk(
 
 export const deleteExpense = createAsyncThunk(
   "expenses/deleteExpense",
-  async (id: string, { rejectWithValue }) => {
+  async (id: string, { dispatch, getState, requestId, rejectWithValue }) => {
+    try {
+      if (!isLocalId(id)) {
+        await apiClient.delete(
+          API_ENDPOINTS.EXPENSE_BY_ID(id),
+          syncService.getIdempotencyConfig(requestId)
+        );
+        return id;
+      }
+    } catch (error: any) {
+      if (!isNetworkError(error)) {
+        return rejectWithValue(error.message || "Failed to delete expense");
+      }
+    }
+
     try {
-      await apiClient.delete(API_ENDPOINTS.EXPENSE_BY_ID(id));
-      return id;
+      return await queueOfflineMutation(
+        dispatch,
+        {
+          id: requestId,
+          entity: "expense",
+          operation: "delete",
+          entityId: id,
+          ...getMutationBase(getPreviousItem(getState(), requestId)),
+        },
+        id
+      );
     } catch (error: any) {
       return rejectWithValue(error.message || "Failed to delete expense");
     }
@@ -145,6 +258,33 @@ export const fetchExpenseStats = createAsyncThunk(
   }
 );
 
+export const fetchCategoryBudgets = createAsyncThunk(
+  "expenses/fetchCategoryBudgets",
+  async (_, { rejectWithValue }) => {
+    try {
+      return await expenseService.getCategoryBudgets();
+    } catch (error: any) {
+      return rejectWithValue(
+        error.message || "Failed to fetch category budgets"
+      );
+    }
+  }
+);
+
+export const saveCategoryBudget = createAsyncThunk(
+  "expenses/saveCategoryBudget",
+  async (
+    { category, budget }: { category: string; budget: number | null },
+    { rejectWithValue }
+  ) => {
+    try {
+      return await expenseService.setCategoryBudget(category, budget);
+    } catch (error: any) {
+      return rejectWithValue(error.message || "Failed to save category budget");
+    }
+  }
+);
+
 // Planned Expense Async Thunks
 export const fetchPlannedExpenses = createAsyncThunk(
   "expenses/fetchPlannedExpenses",
@@ -176,16 +316,49 @@ export const fetchPlannedExpenses = createAsyncThunk(
 
 export const createPlannedExpense = createAsyncThunk(
   "expenses/createPlannedExpense",
-  async (expenseData: CreatePlannedExpenseDto, { rejectWithValue }) => {
+  async (
+    expenseData: CreatePlannedExpenseDto,
+    { dispatch, getState, requestId, rejectWithValue }
+  ) => {
     try {
       const response = await apiClient.post(
         `${API_ENDPOINTS.EXPENSES}/planned`,
-        expenseData
+        expenseData,
+        syncService.getIdempotencyConfig(requestId)
       );
       console.log("createPlannedExpense response", response.data);
       return response.data;
     } catch (error: any) {
-      console.log("createPlannedExpense error", error.response.data);
+      console.log("createPlannedExpense error", error.response?.data);
+      if (!isNetworkError(error)) {
+        return rejectWithValue(
+          error.message || "Failed to create planned expense"
+        );
+      }
+    }
+
+    // Offline: keep the planned expense locally and send it when connectivity returns
+    try {
+      const localId = toLocalId(requestId);
+      const optimisticExpense: PlannedExpense = {
+        ...expenseData,
+        ...getOptimisticTimestamps(),
+        id: localId,
+        isRecurring: expenseData.isRecurring ?? false,
+        userId: (getState() as ExpenseThunkState).auth.user?.id || "",
+      };
+      return await queueOfflineMutation(
+        dispatch,
+        {
+          id: requestId,
+          entity: "plannedExpense",
+          operation: "create",
+          entityId: localId,
+          payload: expenseData,
+        },
+        optimisticExpense
+      );
+    } catch (error: any) {
       return rejectWithValue(
         error.message || "Failed to create planned expense"
       );
@@ -197,14 +370,39 @@ export const updatePlannedExpense = createAsyncThunk(
   "expenses/updatePlannedExpense",
   async (
     { id, data }: { id: string; data: UpdatePlannedExpenseDto },
-    { rejectWithValue }
+    { dispatch, getState, requestId, rejectWithValue }
   ) => {
     try {
-      const response = await apiClient.patch(
-        `${API_ENDPOINTS.EXPENSES}/planned/${id}`,
-        data
+      if (!isLocalId(id)) {
+        const response = await apiClient.patch(
+          `${API_ENDPOINTS.EXPENSES}/planned/${id}`,
+          data,
+          syncService.getIdempotencyConfig(requestId)
+        );
+        return response.data;
+      }
+    } catch (error: any) {
+      if (!isNetworkError(error)) {
+        return rejectWithValue(
+          error.message || "Failed to update planned expense"
+        );
+      }
+    }
+
+    try {
+      const previous = getPreviousItem(getState(), requestId);
+      return await queueOfflineMutation(
+        dispatch,
+        {
+          id: requestId,
+          entity: "plannedExpense",
+          operation: "update",
+          entityId: id,
+          payload: data,
+          ...getMutationBase(previous, data),
+        },
+        { ...previous, ...data, id, pendingSync: true } as PlannedExpense
       );
-      return response.data;
     } catch (error: any) {
       return rejectWithValue(
         error.message || "Failed to update planned expense"
@@ -215,10 +413,35 @@ export const updatePlannedExpense = createAsyncThunk(
 
 export const deletePlannedExpense = createAsyncThunk(
   "expenses/deletePlannedExpense",
-  async (id: string, { rejectWithValue }) => {
+  async (id: string, { dispatch, getState, requestId, rejectWithValue }) => {
     try {
-      await apiClient.delete(`${API_ENDPOINTS.EXPENSES}/planned/${id}`);
-      return id;
+      if (!isLocalId(id)) {
+        await apiClient.delete(
+          `${API_ENDPOINTS.EXPENSES}/planned/${id}`,
+          syncService.getIdempotencyConfig(requestId)
+        );
+        return id;
+      }
+    } catch (error: any) {
+      if (!isNetworkError(error)) {
+        return rejectWithValue(
+          error.message || "Failed to delete planned expense"
+        );
+      }
+    }
+
+    try {
+      return await queueOfflineMutation(
+        dispatch,
+        {
+          id: requestId,
+          entity: "plannedExpense",
+          operation: "delete",
+          entityId: id,
+          ...getMutationBase(getPreviousItem(getState(), requestId)),
+        },
+        id
+      );
     } catch (error: any) {
       return rejectWithValue(
         error.message || "Failed to delete planned expense"
@@ -334,7 +557,11 @@ const expenseSlice = createSlice({
       })
       .addCase(fetchExpenses.fulfilled, (state, action) => {
         state.isLoading = false;
-        state.expenses = action.payload;
+        // Expenses created offline aren't on the server yet
+        state.expenses = [
+          ...state.expenses.filter((expense) => isLocalId(expense.id)),
+          ...action.payload,
+        ];
         state.error = null;
       })
       .addCase(fetchExpenses.rejected, (state, action) => {
@@ -360,12 +587,20 @@ const expenseSlice = createSlice({
 
     // Update Expense
     builder
-      .addCase(updateExpense.pending, (state) => {
+      .addCase(updateExpense.pending, (state, action) => {
         state.isLoading = true;
         state.error = null;
+        applyOptimisticChange<Expense | PlannedExpense>(
+          state.expenses,
+          state.optimisticBackups,
+          action.meta.requestId,
+          action.meta.arg.id,
+          action.meta.arg.data
+        );
       })
       .addCase(updateExpense.fulfilled, (state, action) => {
         state.isLoading = false;
+        commitOptimisticChange(state.optimisticBackups, action.meta.requestId);
         const index = state.expenses.findIndex(
           (expense) => expense.id === action.payload.id
         );
@@ -376,17 +611,30 @@ const expenseSlice = createSlice({
       })
       .addCase(updateExpense.rejected, (state, action) => {
         state.isLoading = false;
+        rollbackOptimisticChange<Expense | PlannedExpense>(
+          state.expenses,
+          state.optimisticBackups,
+          action.meta.requestId
+        );
         state.error = action.payload as string;
       });
 
     // Delete Expense
     builder
-      .addCase(deleteExpense.pending, (state) => {
+      .addCase(deleteExpense.pending, (state, action) => {
         state.isLoading = true;
         state.error = null;
+        applyOptimisticChange<Expense | PlannedExpense>(
+          state.expenses,
+          state.optimisticBackups,
+          action.meta.requestId,
+          action.meta.arg,
+          null
+        );
       })
       .addCase(deleteExpense.fulfilled, (state, action) => {
         state.isLoading = false;
+        commitOptimisticChange(state.optimisticBackups, action.meta.requestId);
         state.expenses = state.expenses.filter(
           (expense) => expense.id !== action.payload
         );
@@ -394,6 +642,11 @@ const expenseSlice = createSlice({
       })
       .addCase(deleteExpense.rejected, (state, action) => {
         state.isLoading = false;
+        rollbackOptimisticChange<Expense | PlannedExpense>(
+          state.expenses,
+          state.optimisticBackups,
+          action.meta.requestId
+        );
         state.error = action.payload as string;
       });
 
@@ -429,6 +682,22 @@ const expenseSlice = createSlice({
         state.error = action.payload as string;
       });
 
+    // Category Budgets
+    builder
+      .addCase(fetchCategoryBudgets.fulfilled, (state, action) => {
+        state.budgets = action.payload;
+      })
+      .addCase(fetchCategoryBudgets.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(saveCategoryBudget.fulfilled, (state, action) => {
+        state.budgets = action.payload;
+        state.error = null;
+      })
+      .addCase(saveCategoryBudget.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
     // Fetch Planned Expenses
     builder
       .addCase(fetchPlannedExpenses.pending, (state) => {
@@ -437,8 +706,12 @@ const expenseSlice = createSlice({
       })
       .addCase(fetchPlannedExpenses.fulfilled, (state, action) => {
         state.isLoading = false;
-        state.plannedExpenses =
-          action.payload.plannedExpenses || action.payload || [];
+        state.plannedExpenses = [
+          ...state.plannedExpenses.filter((plannedExpense) =>
+            isLocalId(plannedExpense.id)
+          ),
+          ...(action.payload.plannedExpenses || action.payload || []),
+        ];
         state.error = null;
       })
       .addCase(fetchPlannedExpenses.rejected, (state, action) => {
@@ -469,12 +742,20 @@ const expenseSlice = createSlice({
 
     // Update Planned Expense
     builder
-      .addCase(updatePlannedExpense.pending, (state) => {
+      .addCase(updatePlannedExpense.pending, (state, action) => {
         state.isLoading = true;
         state.error = null;
+        applyOptimisticChange<Expense | PlannedExpense>(
+          state.plannedExpenses,
+          state.optimisticBackups,
+          action.meta.requestId,
+          action.meta.arg.id,
+          action.meta.arg.data as Partial<PlannedExpense>
+        );
       })
       .addCase(updatePlannedExpense.fulfilled, (state, action) => {
         state.isLoading = false;
+        commitOptimisticChange(state.optimisticBackups, action.meta.requestId);
         const index = state.plannedExpenses.findIndex(
           (plannedExpense) => plannedExpense.id === action.payload.id
         );
@@ -485,17 +766,30 @@ const expenseSlice = createSlice({
       })
       .addCase(updatePlannedExpense.rejected, (state, action) => {
         state.isLoading = false;
+        rollbackOptimisticChange<Expense | PlannedExpense>(
+          state.plannedExpenses,
+          state.optimisticBackups,
+          action.meta.requestId
+        );
         state.error = action.payload as string;
       });
 
     // Delete Planned Expense
     builder
-      .addCase(deletePlannedExpense.pending, (state) => {
+      .addCase(deletePlannedExpense.pending, (state, action) => {
         state.isLoading = true;
         state.error = null;
+        applyOptimisticChange<Expense | PlannedExpense>(
+          state.plannedExpenses,
+          state.optimisticBackups,
+          action.meta.requestId,
+          action.meta.arg,
+          null
+        );
       })
       .addCase(deletePlannedExpense.fulfilled, (state, action) => {
         state.isLoading = false;
+        commitOptimisticChange(state.optimisticBackups, action.meta.requestId);
         state.plannedExpenses = state.plannedExpenses.filter(
           (plannedExpense) => plannedExpense.id !== action.payload
         );
@@ -503,6 +797,11 @@ const expenseSlice = createSlice({
       })
       .addCase(deletePlannedExpense.rejected, (state, action) => {
         state.isLoading = false;
+        rollbackOptimisticChange<Expense | PlannedExpense>(
+          state.plannedExpenses,
+          state.optimisticBackups,
+          action.meta.requestId
+        );
         state.error = action.payload as string;
       });
 
@@ -543,6 +842,44 @@ const expenseSlice = createSlice({
         state.isLoading = false;
         state.error = action.payload as string;
       });
+
+    // Offline Sync
+    builder
+      .addCase(mutationSynced, (state, action) => {
+        const { mutation, result } = action.payload;
+        const item = Array.isArray(result) ? result[0] : result;
+        if (!item || mutation.operation === "delete") {
+          return;
+        }
+
+        if (mutation.entity === "expense") {
+          upsertItem(state.expenses, mutation.entityId, item, true);
+        } else if (mutation.entity === "plannedExpense") {
+          upsertItem(state.plannedExpenses, mutation.entityId, item, true);
+        }
+      })
+      .addCase(mutationDiscarded, (state, action) => {
+        const { mutation, serverCopy } = action.payload;
+        const items =
+          mutation.entity === "expense"
+            ? state.expenses
+            : mutation.entity === "plannedExpense"
+              ? state.plannedExpenses
+              : null;
+        if (!items) {
+          return;
+        }
+
+        // Fall back to the server's version, or drop the item if the server has none
+        if (serverCopy) {
+          upsertItem<Expense | PlannedExpense>(items, mutation.entityId, serverCopy, true);
+        } else {
+          const index = items.findIndex((item) => item.id === mutation.entityId);
+          if (index !== -1) {
+            items.splice(index, 1);
+          }
+        }
+      });
   },
 });
 
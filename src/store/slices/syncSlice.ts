@@ -0,0 +1,148 @@
+import {
+  createAction,
+  createAsyncThunk,
+  createSlice,
+  Dispatch,
+  PayloadAction,
+} from "@reduxjs/toolkit";
+import { apiClient } from "../../api/client";
+import {
+  NewOutboxMutation,
+  OutboxMutation,
+  SyncConflict,
+  SyncResult,
+  syncService,
+} from "../../services/syncService";
+
+// Types
+export interface SyncState {
+  pendingCount: number;
+  isSyncing: boolean;
+  lastSyncedAt: string | null;
+  conflicts: SyncConflict[];
+  error: string | null;
+}
+
+// Initial state
+const initialState: SyncState = {
+  pendingCount: 0,
+  isSyncing: false,
+  lastSyncedAt: null,
+  conflicts: [],
+  error: null,
+};
+
+// Handled by the expense and calendar slices to swap in the server copy
+export const mutationSynced = createAction<{
+  mutation: OutboxMutation;
+  result: any;
+}>("sync/mutationSynced");
+
+export const mutationDiscarded = createAction<{
+  mutation: OutboxMutation;
+  serverCopy?: any;
+}>("sync/mutationDiscarded");
+
+// Async thunks
+export const loadOutbox = createAsyncThunk(
+  "sync/loadOutbox",
+  async (_, { rejectWithValue }) => {
+    try {
+      const mutations = await syncService.getPending();
+      return mutations.length;
+    } catch (error: any) {
+      return rejectWithValue(error.message || "Failed to load offline changes");
+    }
+  }
+);
+
+export const syncOutbox = createAsyncThunk(
+  "sync/syncOutbox",
+  async (_, { dispatch, rejectWithValue }) => {
+    try {
+      const isOnline = await apiClient.healthCheck();
+      if (!isOnline) {
+        const mutations = await syncService.getPending();
+        const result: SyncResult = {
+          synced: 0,
+          failed: 0,
+          pending: mutations.length,
+          conflicts: [],
+        };
+        return result;
+      }
+
+      return await syncService.flush({
+        onSynced: (mutation, result) =>
+          dispatch(mutationSynced({ mutation, result })),
+        onDiscarded: (mutation, serverCopy) =>
+          dispatch(
+            mutationDiscarded(serverCopy ? { mutation, serverCopy } : { mutation })
+          ),
+      });
+    } catch (error: any) {
+      return rejectWithValue(error.message || "Failed to sync offline changes");
+    }
+  }
+);
+
+/**
+ * Queue a write that couldn't reach the server and resolve with the
+ * optimistic value the calling thunk should put in the store
+ */
+export const queueOfflineMutation = async <T>(
+  dispatch: Dispatch,
+  mutation: NewOutboxMutation,
+  optimisticValue: T
+): Promise<T> => {
+  const pendingCount = await syncService.enqueue(mutation);
+  dispatch(setPendingCount(pendingCount));
+  return optimisticValue;
+};
+
+// Sync slice
+const syncSlice = createSlice({
+  name: "sync",
+  initialState,
+  reducers: {
+    setPendingCount: (state, action: PayloadAction<number>) => {
+      state.pendingCount = action.payload;
+    },
+    clearConflicts: (state) => {
+      state.conflicts = [];
+    },
+  },
+  extraReducers: (builder) => {
+    // Load Outbox
+    builder
+      .addCase(loadOutbox.fulfilled, (state, action) => {
+        state.pendingCount = action.payload;
+      })
+      .addCase(loadOutbox.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // Sync Outbox
+    builder
+      .addCase(syncOutbox.pending, (state) => {
+        state.isSyncing = true;
+        state.error = null;
+      })
+      .addCase(syncOutbox.fulfilled, (state, action) => {
+        state.isSyncing = false;
+        state.pendingCount = action.payload.pending;
+        state.conflicts.push(...action.payload.conflicts);
+        if (action.payload.synced > 0 || action.payload.pending === 0) {
+          state.lastSyncedAt = new Date().toISOString();
+        }
+      })
+      .addCase(syncOutbox.rejected, (state, action) => {
+        state.isSyncing = false;
+        state.error = action.payload as string;
+      });
+  },
+});
+
+export const { setPendingCount, clearConflicts } = syncSlice.actions;
+
+export default syncSlice.reducer;
@@ -1,14 +1,53 @@
 import { createAsyncThunk, createSlice, PayloadAction } from "@reduxjs/toolkit";
 import { apiClient } from "../../api/client";
 import { API_ENDPOINTS } from "../../config/env";
+import {
+  initialDialogState,
+  VoiceDialogState,
+} from "../../services/voiceDialogManager";
+import { storageService } from "../../services/storage";
+import {
+  QueuedRecordingOptions,
+  voiceQueueService,
+} from "../../services/voiceQueueService";
+import { VoiceRecording } from "../../services/voiceService";
+import { VoiceIntent } from "../../utils/intentParser";
+import { SpeechBounds } from "../../utils/voiceActivity";
+import { clearAuth, logout } from "./authSlice";
 
 // Types
+export type VoiceCommandStatus =
+  | "success"
+  | "failed"
+  | "unhandled"
+  | "pending" // Waiting for the answer to a follow-up question
+  | "cancelled";
+
 export interface VoiceCommand {
   id: string;
   transcription: string;
   response: string;
   timestamp: string;
   userId: string;
+  action?: string; // Action the command was parsed into, e.g. create_event
+  intent?: VoiceIntent;
+  status?: VoiceCommandStatus;
+  entityId?: string; // Id of the event or expense the command created
+  recordingUri?: string; // Local recording of the utterance, for replay
+  speech?: SpeechBounds; // Where the speech is in the recording, so replay skips the silence
+}
+
+export type VoiceEntityType = "event" | "expense" | "plannedExpense";
+
+// An item the voice pipeline created or changed, kept so it can be undone
+export interface VoiceHistoryEntry {
+  id: string;
+  type: "create" | "update";
+  entity: VoiceEntityType;
+  entityId: string;
+  label: string; // Spoken name of the item, e.g. "Lunch with Sam"
+  previous?: { [field: string]: any }; // Fields before an update, restored on undo
+  timestamp: string;
 }
 
 export interface VoiceState {
@@ -20,6 +59,9 @@ export interface VoiceState {
   error: string | null;
   recentCommands: VoiceCommand[];
   recordingDuration: number;
+  dialog: VoiceDialogState; // Follow-up questions for the command in progress
+  history: VoiceHistoryEntry[]; // Most recent first
+  queuedCount: number; // Recordings made offline, waiting to be transcribed
 }
 
 export interface ProcessVoiceData {
@@ -37,8 +79,17 @@ const initialState: VoiceState = {
   error: null,
   recentCommands: [],
   recordingDuration: 0,
+  dialog: initialDialogState,
+  history: [],
+  queuedCount: 0,
 };
 
+// Voice changes that can still be undone
+const MAX_HISTORY = 20;
+
+// Commands kept in the persisted history
+const MAX_COMMAND_HISTORY = 100;
+
 // Async thunks
 export const processVoiceCommand = createAsyncThunk(
   "voice/processCommand",
@@ -86,6 +137,90 @@ export const fetchRecentCommands = createAsyncThunk(
   }
 );
 
+export const loadCommandHistory = createAsyncThunk(
+  "voice/loadCommandHistory",
+  async (userId: string, { rejectWithValue }) => {
+    try {
+      return (await storageService.getVoiceHistory(userId)) as VoiceCommand[];
+    } catch (error: any) {
+      return rejectWithValue(error.message || "Failed to load voice history");
+    }
+  }
+);
+
+// Changes to a user's stored history run one after another, so commands
+// recorded together can't overwrite each other's entries
+const historyWrites: { [userId: string]: Promise<unknown> } = {};
+
+const queueHistoryWrite = <T>(userId: string, write: () => Promise<T>): Promise<T> => {
+  const next = (historyWrites[userId] || Promise.resolve()).then(write);
+  historyWrites[userId] = next.catch(() => undefined);
+  return next;
+};
+
+export const recordCommand = createAsyncThunk(
+  "voice/recordCommand",
+  async (command: VoiceCommand, { rejectWithValue }) => {
+    try {
+      if (!command.userId) {
+        return [command];
+      }
+
+      return await queueHistoryWrite(command.userId, async () => {
+        // Read back what's stored so a history that hasn't loaded yet isn't overwritten
+        const stored: VoiceCommand[] = await storageService.getVoiceHistory(command.userId);
+        const commands = [
+          command,
+          ...stored.filter((item) => item.id !== command.id),
+        ].slice(0, MAX_COMMAND_HISTORY);
+        await storageService.setVoiceHistory(command.userId, commands);
+        return commands;
+      });
+    } catch (error: any) {
+      return rejectWithValue(error.message || "Failed to save voice history");
+    }
+  }
+);
+
+// Forget a user's commands when they sign out of the device
+export const clearCommandHistory = createAsyncThunk(
+  "voice/clearCommandHistory",
+  async (userId: string, { rejectWithValue }) => {
+    try {
+      await queueHistoryWrite(userId, () => storageService.clearVoiceHistory(userId));
+      return userId;
+    } catch (error: any) {
+      return rejectWithValue(error.message || "Failed to clear voice history");
+    }
+  }
+);
+
+export const loadVoiceQueue = createAsyncThunk(
+  "voice/loadVoiceQueue",
+  async (_, { rejectWithValue }) => {
+    try {
+      const recordings = await voiceQueueService.getPending();
+      return recordings.length;
+    } catch (error: any) {
+      return rejectWithValue(error.message || "Failed to load queued recordings");
+    }
+  }
+);
+
+export const queueRecording = createAsyncThunk(
+  "voice/queueRecording",
+  async (
+    data: { recording: VoiceRecording; options?: QueuedRecordingOptions },
+    { rejectWithValue }
+  ) => {
+    try {
+      return await voiceQueueService.enqueue(data.recording, data.options);
+    } catch (error: any) {
+      return rejectWithValue(error.message || "Failed to save the recording");
+    }
+  }
+);
+
 // Voice slice
 const voiceSlice = createSlice({
   name: "voice",
@@ -114,9 +249,8 @@ const voiceSlice = createSlice({
     },
     addRecentCommand: (state, action: PayloadAction<VoiceCommand>) => {
       state.recentCommands.unshift(action.payload);
-      // Keep only last 10 commands
-      if (state.recentCommands.length > 10) {
-        state.recentCommands = state.recentCommands.slice(0, 10);
+      if (state.recentCommands.length > MAX_COMMAND_HISTORY) {
+        state.recentCommands = state.recentCommands.slice(0, MAX_COMMAND_HISTORY);
       }
     },
     clearVoiceData: (state) => {
@@ -128,6 +262,24 @@ const voiceSlice = createSlice({
     clearRecentCommands: (state) => {
       state.recentCommands = [];
     },
+    setDialog: (state, action: PayloadAction<VoiceDialogState>) => {
+      state.dialog = action.payload;
+    },
+    resetDialog: (state) => {
+      state.dialog = initialDialogState;
+    },
+    pushHistory: (state, action: PayloadAction<VoiceHistoryEntry>) => {
+      state.history.unshift(action.payload);
+      if (state.history.length > MAX_HISTORY) {
+        state.history = state.history.slice(0, MAX_HISTORY);
+      }
+    },
+    removeHistoryEntry: (state, action: PayloadAction<string>) => {
+      state.history = state.history.filter((entry) => entry.id !== action.payload);
+    },
+    setQueuedCount: (state, action: PayloadAction<number>) => {
+      state.queuedCount = action.payload;
+    },
   },
   extraReducers: (builder) => {
     // Process Voice Command
@@ -177,6 +329,52 @@ const voiceSlice = createSlice({
         state.isLoading = false;
         state.error = action.payload as string;
       });
+
+    // Command History
+    builder
+      .addCase(loadCommandHistory.fulfilled, (state, action) => {
+        state.recentCommands = action.payload;
+      })
+      .addCase(loadCommandHistory.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(recordCommand.pending, (state, action) => {
+        // Shown straight away, then replaced by the stored list
+        state.recentCommands.unshift(action.meta.arg);
+        state.recentCommands = state.recentCommands.slice(0, MAX_COMMAND_HISTORY);
+      })
+      .addCase(recordCommand.fulfilled, (state, action) => {
+        state.recentCommands = action.payload;
+      })
+      .addCase(recordCommand.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(clearCommandHistory.fulfilled, (state) => {
+        state.recentCommands = [];
+      });
+
+    // Sign out: commands and undo history belong to the user who made them
+    builder
+      .addCase(logout.fulfilled, (state) => {
+        state.recentCommands = [];
+        state.history = [];
+      })
+      .addCase(clearAuth, (state) => {
+        state.recentCommands = [];
+        state.history = [];
+      });
+
+    // Offline Queue
+    builder
+      .addCase(loadVoiceQueue.fulfilled, (state, action) => {
+        state.queuedCount = action.payload;
+      })
+      .addCase(queueRecording.fulfilled, (state, action) => {
+        state.queuedCount = action.payload;
+      })
+      .addCase(queueRecording.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
   },
 });
 
@@ -190,6 +388,11 @@ export const {
   addRecentCommand,
   clearVoiceData,
   clearRecentCommands,
+  setDialog,
+  resetDialog,
+  pushHistory,
+  removeHistoryEntry,
+  setQueuedCount,
 } = voiceSlice.actions;
 
 export default voiceSlice.reducer;
@@ -80,6 +80,7 @@ export interface Expense {
   userId: string;
   createdAt: string;
   updatedAt: string;
+  pendingSync?: boolean; // Saved offline, waiting to be sent to the server
 }
 
 export interface ExpenseCategory {
@@ -105,6 +106,17 @@ export interface ExpenseStats {
   monthlyTotals: { [month: string]: number };
   averageAmount: number;
   expenseCount: number;
+  budgetProgress?: { [category: string]: CategoryBudgetProgress };
+  totalBudget?: number;
+  remainingBudget?: number;
+}
+
+export interface CategoryBudgetProgress {
+  category: string;
+  budget: number;
+  spent: number;
+  remaining: number;
+  percentage: number;
 }
 
 export interface ExpenseFormData {
@@ -123,6 +135,16 @@ export interface ExpenseFormErrors {
   date?: string;
 }
 
+// Recurrence Types
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly" | "yearly";
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Repeat every N days/weeks/months/years
+  endDate?: string; // Last date an occurrence may fall on (inclusive)
+  count?: number; // Total number of occurrences, including the first
+}
+
 // Planned Expense Types
 export interface PlannedExpense {
   id: string;
@@ -132,10 +154,12 @@ export interface PlannedExpense {
   plannedDate: string;
   priority: "low" | "medium" | "high";
   isRecurring: boolean;
+  recurrence?: RecurrenceRule;
   notes?: string;
   userId: string;
   createdAt: string;
   updatedAt: string;
+  pendingSync?: boolean; // Saved offline, waiting to be sent to the server
 }
 
 export interface CreatePlannedExpenseDto {
@@ -145,6 +169,7 @@ export interface CreatePlannedExpenseDto {
   plannedDate: string;
   priority: "low" | "medium" | "high";
   isRecurring?: boolean;
+  recurrence?: RecurrenceRule;
   notes?: string;
 }
 
@@ -155,6 +180,7 @@ export interface UpdatePlannedExpenseDto {
   plannedDate?: string;
   priority?: "low" | "medium" | "high";
   isRecurring?: boolean;
+  recurrence?: RecurrenceRule | null;
   notes?: string;
 }
 
@@ -172,6 +198,7 @@ export interface PlannedExpenseQueryDto {
   category?: string;
   priority?: string;
   isRecurring?: boolean;
+  isActive?: boolean;
   page?: number;
   limit?: number;
 }
@@ -214,12 +241,24 @@ export interface UpdateEventData extends Partial<CreateEventData> {
 }
 
 // Voice Types
+export type VoiceCommandStatus =
+  | "success"
+  | "failed"
+  | "unhandled"
+  | "pending" // Waiting for the answer to a follow-up question
+  | "cancelled";
+
 export interface VoiceCommand {
   id: string;
   transcription: string;
   response: string;
   timestamp: string;
   userId: string;
+  action?: string; // Action the command was parsed into, e.g. create_event
+  intent?: string;
+  status?: VoiceCommandStatus;
+  entityId?: string; // Id of the event or expense the command created
+  recordingUri?: string; // Local recording of the utterance, for replay
 }
 
 export interface ProcessVoiceData {
@@ -288,6 +327,7 @@ export interface ExpenseState {
   expenses: Expense[];
   plannedExpenses: PlannedExpense[];
   categories: ExpenseCategory[];
+  budgets: { [category: string]: number };
   stats: ExpenseStats | null;
   plannedExpenseStats: PlannedExpenseStats | null;
   filters: ExpenseFilters;
@@ -442,6 +482,34 @@ export interface AppSettings {
     shareAnalytics: boolean;
     shareCrashReports: boolean;
   };
+  speech: SpeechProfile;
+}
+
+// How much detail spoken confirmations carry
+export type ResponseVerbosity = "brief" | "detailed";
+
+export interface SpeechProfile {
+  voiceIdentifier: string | null; // A voice from expo-speech, or the system default
+  language: string;
+  rate: number;
+  pitch: number;
+  verbosity: ResponseVerbosity;
+  silentHours: {
+    enabled: boolean;
+    startHour: number; // 0-23, local time
+    endHour: number;
+  };
+}
+
+// How free time is looked for when finding a slot for a new event
+export interface SchedulingPreferences {
+  workingHours: {
+    startHour: number; // 0-23, local time
+    endHour: number;
+  };
+  workingDays: number[]; // 0 = Sunday
+  bufferMinutes: number; // Kept clear before and after other events
+  minSlotMinutes: number; // Shorter gaps aren't worth offering
 }
 
 // All types are defined in this file
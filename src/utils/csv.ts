@@ -0,0 +1,83 @@
+// RFC 4180 CSV helpers
+
+const DELIMITERS = [",", ";", "\t"];
+
+// Pick the delimiter that splits the header line into the most columns
+const detectDelimiter = (content: string): string => {
+  const firstLine = content.split(/\r?\n/, 1)[0] || "";
+  return DELIMITERS.reduce((best, delimiter) =>
+    firstLine.split(delimiter).length > firstLine.split(best).length ? delimiter : best
+  );
+};
+
+/**
+ * Parse CSV content into rows of cells. Handles quoted cells containing
+ * delimiters, escaped quotes and line breaks. Blank lines are dropped.
+ */
+export const parseCSV = (content: string, delimiter?: string): string[][] => {
+  const text = content.replace(/^\uFEFF/, "");
+  const separator = delimiter || detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows
+    .map((cells) => cells.map((value) => value.trim()))
+    .filter((cells) => cells.some((value) => value !== ""));
+};
+
+// Spreadsheets run text starting with these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCell = (value: string | number): string => {
+  let text = String(value);
+  if (typeof value === "string" && FORMULA_PREFIX.test(text) && isNaN(Number(text))) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serialize rows into CSV content with CRLF line endings
+ */
+export const toCSV = (rows: (string | number)[][]): string =>
+  rows.map((row) => row.map(escapeCell).join(",")).join("\r\n") + "\r\n";
+
+export default {
+  parseCSV,
+  toCSV,
+};
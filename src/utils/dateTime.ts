@@ -55,6 +55,23 @@ export const formatTimeRange = (startDate: Date, endDate: Date): string => {
   return `${startTime} - ${endTime}`;
 };
 
+// Local calendar day as YYYY-MM-DD, the format expense dates are stored in
+export const formatDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Local midnight of a YYYY-MM-DD day. new Date(key) would read it as UTC.
+export const parseDateKey = (key: string): Date => {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(year!, month! - 1, day);
+};
+
+// Whether text is a real YYYY-MM-DD day, so "2025-02-30" isn't
+export const isValidDateKey = (key: string): boolean =>
+  /^\d{4}-\d{2}-\d{2}$/.test(key) && formatDateKey(parseDateKey(key)) === key;
+
 // Date manipulation utilities
 export const addDays = (date: Date, days: number): Date => {
   const result = new Date(date);
@@ -158,6 +175,95 @@ export const getLocalTimezone = (): string => {
   return Intl.DateTimeFormat().resolvedOptions().timeZone;
 };
 
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 0-11, like Date
+  day: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  weekday: number; // 0 = Sunday, like Date
+}
+
+const WEEKDAY_INDEX: { [weekday: string]: number } = {
+  Sun: 0,
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+};
+
+/**
+ * Read the wall-clock date and time of an instant in the given time zone
+ */
+export const getZonedDateParts = (
+  date: Date,
+  timeZone: string = getLocalTimezone()
+): ZonedDateParts => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    weekday: "short",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+
+  const value = (type: string) =>
+    parts.find((part) => part.type === type)?.value || "0";
+
+  return {
+    year: parseInt(value("year"), 10),
+    month: parseInt(value("month"), 10) - 1,
+    day: parseInt(value("day"), 10),
+    hours: parseInt(value("hour"), 10) % 24,
+    minutes: parseInt(value("minute"), 10),
+    seconds: parseInt(value("second"), 10),
+    weekday: WEEKDAY_INDEX[value("weekday")] ?? 0,
+  };
+};
+
+/**
+ * Milliseconds the time zone is ahead of UTC at the given instant
+ */
+export const getTimeZoneOffset = (timestamp: number, timeZone: string): number => {
+  const parts = getZonedDateParts(new Date(timestamp), timeZone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month,
+    parts.day,
+    parts.hours,
+    parts.minutes,
+    parts.seconds
+  );
+
+  return asUtc - (timestamp - (timestamp % 1000));
+};
+
+/**
+ * Find the instant a wall-clock time in the given time zone refers to
+ */
+export const zonedTimeToUtc = (
+  year: number,
+  month: number,
+  day: number,
+  hours = 0,
+  minutes = 0,
+  seconds = 0,
+  timeZone: string = getLocalTimezone()
+): Date => {
+  const wallTime = Date.UTC(year, month, day, hours, minutes, seconds);
+  const offset = getTimeZoneOffset(wallTime, timeZone);
+  // Second pass corrects for a DST transition between the guess and the result
+  const corrected = getTimeZoneOffset(wallTime - offset, timeZone);
+  return new Date(wallTime - corrected);
+};
+
 export const convertToLocalTime = (date: Date): Date => {
   // For now, we'll assume the date is already in local time
   // In a real app, you might want to use a library like date-fns-tz
@@ -306,6 +412,8 @@ export default {
   formatDate,
   formatTime,
   formatTimeRange,
+  formatDateKey,
+  parseDateKey,
   addDays,
   addHours,
   addMinutes,
@@ -322,6 +430,9 @@ export default {
   isThisWeek,
   isThisMonth,
   getLocalTimezone,
+  getZonedDateParts,
+  getTimeZoneOffset,
+  zonedTimeToUtc,
   convertToLocalTime,
   convertToUTC,
   getDurationInMinutes,
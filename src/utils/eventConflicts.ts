@@ -0,0 +1,147 @@
+import { CalendarEvent } from "../store/slices/calendarSlice";
+import { addDays, addMinutes, hasTimeConflict, isSameDay } from "./dateTime";
+import { expandRecurringEvents } from "./rrule";
+
+// Conflict checks and alternative times for an event being scheduled, worked
+// out from the events already loaded so they also work offline
+
+export interface EventTimeRange {
+  startTime: string; // ISO string
+  endTime: string; // ISO string
+}
+
+export interface ConflictOptions {
+  excludeEventId?: string; // Event being edited, or its series, which can't conflict with itself
+}
+
+export interface FreeSlotOptions extends ConflictOptions {
+  count?: number;
+  stepMinutes?: number; // Granularity of the suggested start times
+  searchDays?: number; // How far before and after the requested time to look
+  dayStartHour?: number; // Suggestions stay within these hours, widened to
+  dayEndHour?: number; // include the requested time itself
+  now?: Date;
+}
+
+export const DEFAULT_FREE_SLOT_OPTIONS = {
+  count: 3,
+  stepMinutes: 15,
+  searchDays: 3,
+  dayStartHour: 8,
+  dayEndHour: 20,
+};
+
+const isExcluded = (event: CalendarEvent, excludeEventId?: string): boolean =>
+  !!excludeEventId &&
+  (event.id === excludeEventId || event.recurringEventId === excludeEventId);
+
+/**
+ * Timed events inside a range, with recurring events expanded. All-day
+ * events don't take up any particular time, so they never conflict.
+ */
+export const getBusyEvents = (
+  events: CalendarEvent[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  excludeEventId?: string
+): CalendarEvent[] =>
+  expandRecurringEvents(events, rangeStart, rangeEnd).filter(
+    (event) => !event.isAllDay && !isExcluded(event, excludeEventId)
+  );
+
+/**
+ * Find the events that overlap a time range, earliest first
+ */
+export const findConflicts = (
+  range: EventTimeRange,
+  events: CalendarEvent[],
+  options: ConflictOptions = {}
+): CalendarEvent[] => {
+  const start = new Date(range.startTime);
+  const end = new Date(range.endTime);
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || start >= end) {
+    return [];
+  }
+
+  // A day back catches long events that started earlier
+  return getBusyEvents(events, addDays(start, -1), end, options.excludeEventId)
+    .filter((event) =>
+      hasTimeConflict(start, end, new Date(event.startTime), new Date(event.endTime))
+    )
+    .sort((a, b) => a.startTime.localeCompare(b.startTime));
+};
+
+/**
+ * Find the free times closest to a requested range that have the same
+ * duration, nearest first. Suggestions don't overlap each other and never
+ * start in the past.
+ */
+export const findNearestFreeSlots = (
+  range: EventTimeRange,
+  events: CalendarEvent[],
+  options: FreeSlotOptions = {}
+): EventTimeRange[] => {
+  const { count, stepMinutes, searchDays, dayStartHour, dayEndHour } = {
+    ...DEFAULT_FREE_SLOT_OPTIONS,
+    ...options,
+  };
+  const now = options.now || new Date();
+  const start = new Date(range.startTime);
+  const end = new Date(range.endTime);
+  const duration = end.getTime() - start.getTime();
+  if (isNaN(duration) || duration <= 0) {
+    return [];
+  }
+
+  // An evening event can be moved around the evening
+  const firstHour = Math.min(dayStartHour, start.getHours());
+  const lastHour = Math.max(dayEndHour, end.getHours() + (end.getMinutes() > 0 ? 1 : 0));
+  const fitsDay = (slotStart: Date, slotEnd: Date): boolean => {
+    const dayStart = new Date(slotStart);
+    dayStart.setHours(firstHour, 0, 0, 0);
+    const dayEnd = new Date(slotStart);
+    dayEnd.setHours(lastHour, 0, 0, 0);
+    return (
+      slotStart >= dayStart &&
+      slotEnd <= dayEnd &&
+      (isSameDay(slotStart, slotEnd) || lastHour >= 24)
+    );
+  };
+
+  const searchStart = addDays(start, -searchDays - 1);
+  const searchEnd = addDays(end, searchDays);
+  const busy = getBusyEvents(events, searchStart, searchEnd, options.excludeEventId).map(
+    (event) => ({ start: new Date(event.startTime), end: new Date(event.endTime) })
+  );
+
+  const slots: { start: Date; end: Date }[] = [];
+  const isFree = (slotStart: Date, slotEnd: Date): boolean =>
+    slotStart >= now &&
+    fitsDay(slotStart, slotEnd) &&
+    !busy.some((event) => hasTimeConflict(slotStart, slotEnd, event.start, event.end)) &&
+    !slots.some((slot) => hasTimeConflict(slotStart, slotEnd, slot.start, slot.end));
+
+  // Work outwards from the requested start, later before earlier at equal distance
+  const maxSteps = Math.ceil((searchDays * 24 * 60) / stepMinutes);
+  for (let step = 1; step <= maxSteps && slots.length < count; step++) {
+    [step, -step].forEach((offset) => {
+      if (slots.length >= count) return;
+      const slotStart = addMinutes(start, offset * stepMinutes);
+      const slotEnd = new Date(slotStart.getTime() + duration);
+      if (isFree(slotStart, slotEnd)) {
+        slots.push({ start: slotStart, end: slotEnd });
+      }
+    });
+  }
+
+  return slots.map((slot) => ({
+    startTime: slot.start.toISOString(),
+    endTime: slot.end.toISOString(),
+  }));
+};
+
+export default {
+  getBusyEvents,
+  findConflicts,
+  findNearestFreeSlots,
+};
@@ -0,0 +1,242 @@
+import { CalendarEvent } from "../store/slices/calendarSlice";
+import { SchedulingPreferences } from "../types";
+import { addDays, addMinutes, startOfDay } from "./dateTime";
+import { EventTimeRange, getBusyEvents } from "./eventConflicts";
+import { DayPart } from "./naturalDate";
+
+// Free/busy time worked out from the loaded events, for finding a slot that
+// fits a new event around everything already on the calendar
+
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface FreeSlotSearch {
+  rangeStart: Date;
+  rangeEnd: Date; // Exclusive
+  durationMinutes: number;
+  dayPart?: DayPart; // Look only at this part of each day
+  count?: number;
+  excludeEventId?: string;
+}
+
+export interface RankedSlot extends EventTimeRange {
+  freeMinutes: number; // Length of the free time the slot sits in
+  score: number; // Lower is better
+}
+
+export const DEFAULT_SCHEDULING_PREFERENCES: SchedulingPreferences = {
+  workingHours: { startHour: 9, endHour: 17 },
+  workingDays: [1, 2, 3, 4, 5],
+  bufferMinutes: 10,
+  minSlotMinutes: 30,
+};
+
+// Hours a spoken part of the day covers. Asking for one overrides the
+// working hours, since evenings fall outside them.
+const DAY_PART_HOURS: { [part in DayPart]: { startHour: number; endHour: number } } = {
+  morning: { startHour: 8, endHour: 12 },
+  afternoon: { startHour: 12, endHour: 17 },
+  evening: { startHour: 17, endHour: 21 },
+  night: { startHour: 19, endHour: 23 },
+};
+
+// Granularity of the offered start times
+const STEP_MINUTES = 15;
+
+const DEFAULT_SLOT_COUNT = 5;
+
+const MINUTE = 60 * 1000;
+
+const atHour = (day: Date, hour: number): Date => {
+  const date = new Date(day);
+  date.setHours(hour, 0, 0, 0);
+  return date;
+};
+
+const roundUpToStep = (date: Date): Date => {
+  const step = STEP_MINUTES * MINUTE;
+  return new Date(Math.ceil(date.getTime() / step) * step);
+};
+
+/**
+ * Times taken up by timed events in a range, padded by the buffer on both
+ * sides and merged where they touch
+ */
+export const getBusyIntervals = (
+  events: CalendarEvent[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  bufferMinutes = 0,
+  excludeEventId?: string
+): TimeInterval[] => {
+  // A day back catches long events that started earlier
+  const intervals = getBusyEvents(events, addDays(rangeStart, -1), rangeEnd, excludeEventId)
+    .map((event) => ({
+      start: addMinutes(new Date(event.startTime), -bufferMinutes),
+      end: addMinutes(new Date(event.endTime), bufferMinutes),
+    }))
+    .filter((interval) => interval.end > rangeStart && interval.start < rangeEnd)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  return intervals.reduce<TimeInterval[]>((merged, interval) => {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      if (interval.end > last.end) last.end = interval.end;
+    } else {
+      merged.push({ ...interval });
+    }
+    return merged;
+  }, []);
+};
+
+/**
+ * Free time in a range, day by day within the working hours (or the part of
+ * the day asked for), never in the past and never shorter than the minimum
+ * slot length. Working days only apply to ranges longer than a day, so
+ * asking about a Saturday still finds time on it.
+ */
+export const getFreeIntervals = (
+  events: CalendarEvent[],
+  search: Omit<FreeSlotSearch, "durationMinutes" | "count">,
+  preferences: SchedulingPreferences = DEFAULT_SCHEDULING_PREFERENCES,
+  now = new Date()
+): TimeInterval[] => {
+  const { rangeStart, rangeEnd, dayPart, excludeEventId } = search;
+  const { startHour, endHour } = dayPart
+    ? DAY_PART_HOURS[dayPart]
+    : preferences.workingHours;
+  const checkWorkingDays =
+    rangeEnd.getTime() - rangeStart.getTime() > 24 * 60 * MINUTE;
+  const busy = getBusyIntervals(
+    events,
+    rangeStart,
+    rangeEnd,
+    preferences.bufferMinutes,
+    excludeEventId
+  );
+
+  const free: TimeInterval[] = [];
+  for (let day = startOfDay(rangeStart); day < rangeEnd; day = addDays(day, 1)) {
+    if (checkWorkingDays && !preferences.workingDays.includes(day.getDay())) {
+      continue;
+    }
+
+    const windowStart = new Date(
+      Math.max(atHour(day, startHour).getTime(), rangeStart.getTime(), now.getTime())
+    );
+    const windowEnd = new Date(
+      Math.min(atHour(day, endHour).getTime(), rangeEnd.getTime())
+    );
+
+    let cursor = windowStart;
+    busy
+      .filter((interval) => interval.end > windowStart && interval.start < windowEnd)
+      .forEach((interval) => {
+        if (interval.start > cursor) {
+          free.push({ start: cursor, end: interval.start });
+        }
+        if (interval.end > cursor) cursor = interval.end;
+      });
+    if (windowEnd > cursor) {
+      free.push({ start: cursor, end: windowEnd });
+    }
+  }
+
+  return free.filter(
+    (interval) =>
+      interval.end.getTime() - interval.start.getTime() >=
+      preferences.minSlotMinutes * MINUTE
+  );
+};
+
+/**
+ * Score a candidate in days from now, so sooner is better, with penalties for
+ * starting off the hour or half hour and for leaving leftover time too short
+ * to use on either side
+ */
+const scoreSlot = (
+  start: Date,
+  end: Date,
+  interval: TimeInterval,
+  minSlotMinutes: number,
+  now: Date
+): number => {
+  const hoursAway = (start.getTime() - now.getTime()) / (60 * MINUTE);
+  const offHour = start.getMinutes() % 30 === 0 ? 0 : 0.05;
+  const wasted = [
+    (start.getTime() - interval.start.getTime()) / MINUTE,
+    (interval.end.getTime() - end.getTime()) / MINUTE,
+  ].filter((minutes) => minutes >= STEP_MINUTES && minutes < minSlotMinutes).length;
+
+  return hoursAway / 24 + offHour + wasted * 0.1;
+};
+
+/**
+ * Find slots of the requested length in the free time of a range, best
+ * first. Each free interval offers its best slot before any interval offers
+ * a second one, so the choices are spread out, and no two slots overlap.
+ */
+export const findFreeSlots = (
+  events: CalendarEvent[],
+  search: FreeSlotSearch,
+  preferences: SchedulingPreferences = DEFAULT_SCHEDULING_PREFERENCES,
+  now = new Date()
+): RankedSlot[] => {
+  const count = search.count ?? DEFAULT_SLOT_COUNT;
+  const duration = search.durationMinutes * MINUTE;
+  if (!(duration > 0)) return [];
+
+  const candidates = getFreeIntervals(events, search, preferences, now).map((interval) => {
+    const slots: { start: Date; end: Date; score: number; freeMinutes: number }[] = [];
+    const freeMinutes = Math.round(
+      (interval.end.getTime() - interval.start.getTime()) / MINUTE
+    );
+    for (
+      let start = roundUpToStep(interval.start);
+      start.getTime() + duration <= interval.end.getTime();
+      start = addMinutes(start, STEP_MINUTES)
+    ) {
+      const end = new Date(start.getTime() + duration);
+      slots.push({
+        start,
+        end,
+        freeMinutes,
+        score: scoreSlot(start, end, interval, preferences.minSlotMinutes, now),
+      });
+    }
+    return slots.sort((a, b) => a.score - b.score);
+  });
+
+  const bestPerInterval = candidates
+    .map((slots) => slots[0])
+    .filter((slot): slot is NonNullable<typeof slot> => !!slot)
+    .sort((a, b) => a.score - b.score);
+  const others = candidates
+    .flatMap((slots) => slots.slice(1))
+    .sort((a, b) => a.score - b.score);
+
+  const chosen: typeof others = [];
+  [...bestPerInterval, ...others].forEach((slot) => {
+    if (
+      chosen.length < count &&
+      !chosen.some((other) => slot.start < other.end && slot.end > other.start)
+    ) {
+      chosen.push(slot);
+    }
+  });
+
+  return chosen.map((slot) => ({
+    startTime: slot.start.toISOString(),
+    endTime: slot.end.toISOString(),
+    freeMinutes: slot.freeMinutes,
+    score: slot.score,
+  }));
+};
+
+export default {
+  getBusyIntervals,
+  getFreeIntervals,
+  findFreeSlots,
+};
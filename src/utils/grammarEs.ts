@@ -0,0 +1,392 @@
+import { NavigationTarget } from "./intentParser";
+import {
+  buildNumberPattern,
+  createLocaleGrammar,
+  formatClockTime,
+  formatQuantity,
+  readNumber,
+  rule,
+  TranslationRule,
+} from "./localeGrammar";
+
+// Spanish grammar for voice commands. Patterns match text without accents.
+
+const NUMBER_WORDS: { [word: string]: number } = {
+  un: 1,
+  uno: 1,
+  una: 1,
+  dos: 2,
+  tres: 3,
+  cuatro: 4,
+  cinco: 5,
+  seis: 6,
+  siete: 7,
+  ocho: 8,
+  nueve: 9,
+  diez: 10,
+  once: 11,
+  doce: 12,
+  trece: 13,
+  catorce: 14,
+  quince: 15,
+  dieciseis: 16,
+  diecisiete: 17,
+  dieciocho: 18,
+  diecinueve: 19,
+  veinte: 20,
+  veintiun: 21,
+  veintiuno: 21,
+  veintidos: 22,
+  veintitres: 23,
+  veinticuatro: 24,
+  veinticinco: 25,
+  veintiseis: 26,
+  veintisiete: 27,
+  veintiocho: 28,
+  veintinueve: 29,
+  treinta: 30,
+  cuarenta: 40,
+  cincuenta: 50,
+  sesenta: 60,
+  setenta: 70,
+  ochenta: 80,
+  noventa: 90,
+  cien: 100,
+  ciento: 100,
+  doscientos: 200,
+  trescientos: 300,
+  cuatrocientos: 400,
+  quinientos: 500,
+  seiscientos: 600,
+  setecientos: 700,
+  ochocientos: 800,
+  novecientos: 900,
+  mil: 1000,
+};
+
+const WEEKDAYS: { [word: string]: string } = {
+  lunes: "monday",
+  martes: "tuesday",
+  miercoles: "wednesday",
+  jueves: "thursday",
+  viernes: "friday",
+  sabado: "saturday",
+  domingo: "sunday",
+};
+
+const MONTHS: { [word: string]: string } = {
+  enero: "january",
+  febrero: "february",
+  marzo: "march",
+  abril: "april",
+  mayo: "may",
+  junio: "june",
+  julio: "july",
+  agosto: "august",
+  septiembre: "september",
+  setiembre: "september",
+  octubre: "october",
+  noviembre: "november",
+  diciembre: "december",
+};
+
+const UNITS: { [word: string]: string } = {
+  dia: "days",
+  dias: "days",
+  semana: "weeks",
+  semanas: "weeks",
+  mes: "months",
+  meses: "months",
+  ano: "years",
+  anos: "years",
+  hora: "hours",
+  horas: "hours",
+  minuto: "minutes",
+  minutos: "minutes",
+};
+
+const NUMBER = buildNumberPattern(NUMBER_WORDS);
+const HOUR = `\\d{1,2}|una|dos|tres|cuatro|cinco|seis|siete|ocho|nueve|diez|once|doce`;
+const WEEKDAY = Object.keys(WEEKDAYS).join("|");
+const MONTH = Object.keys(MONTHS).join("|");
+
+const toNumber = (text: string): number => readNumber(text, NUMBER_WORDS) ?? 0;
+
+const DAY_PART_MERIDIEM: { [part: string]: "am" | "pm" } = {
+  madrugada: "am",
+  manana: "am",
+  tarde: "pm",
+  noche: "pm",
+};
+
+const TIME_RULES: TranslationRule[] = [
+  // "de 2 a 3 de la tarde", "desde las 10:00 hasta las 11:30"
+  {
+    pattern: new RegExp(
+      `\\b(?:de|desde|entre) (?:las |la )?(${HOUR})(?::(\\d{2}))? (?:a|hasta|y) (?:las |la )?(${HOUR})(?::(\\d{2}))?(?: de la (manana|tarde|noche))?\\b`
+    ),
+    translate: (match) => {
+      const meridiem = match[5] ? DAY_PART_MERIDIEM[match[5]] : undefined;
+      const start = formatClockTime(toNumber(match[1]!), parseInt(match[2] || "0", 10), meridiem);
+      const end = formatClockTime(toNumber(match[3]!), parseInt(match[4] || "0", 10), meridiem);
+      return `from ${start} to ${end}`;
+    },
+  },
+  // "a las 3 y media de la tarde", "a la una menos cuarto", "sobre las 17:30"
+  {
+    pattern: new RegExp(
+      `\\b(?:a|hacia|sobre|para) (?:las |la )(${HOUR})(?::(\\d{2})| y (media|cuarto)| menos (cuarto))?(?: (?:de la (madrugada|manana|tarde|noche)|en punto))?\\b`
+    ),
+    translate: (match) => {
+      let hours = toNumber(match[1]!);
+      let minutes = parseInt(match[2] || "0", 10);
+      if (match[3]) minutes = match[3] === "media" ? 30 : 15;
+      if (match[4]) {
+        hours = hours === 1 ? 12 : hours - 1;
+        minutes = 45;
+      }
+      const meridiem = match[5] ? DAY_PART_MERIDIEM[match[5]] : undefined;
+      return `at ${formatClockTime(hours, minutes, meridiem)}`;
+    },
+  },
+  { pattern: /\b(?:a |al |hacia el )?mediodia\b/, translate: () => "at noon" },
+  { pattern: /\b(?:a )?(?:la )?medianoche\b/, translate: () => "at midnight" },
+  // "15:30" said without "a las"
+  {
+    pattern: /\b(\d{1,2})(?::|h)(\d{2})\b/,
+    translate: (match) => `at ${match[1]}:${match[2]}`,
+  },
+  {
+    pattern: /\b(?:por|en|de) la (manana|tarde|noche)\b/,
+    translate: (match) =>
+      match[1] === "manana" ? "in the morning" : match[1] === "tarde" ? "in the afternoon" : "in the evening",
+  },
+];
+
+const DATE_RULES: TranslationRule[] = [
+  { pattern: /\b(?:el )?pasado manana\b/, translate: () => "day after tomorrow" },
+  {
+    pattern: /\b(?:el )?(?:fin de semana que viene|proximo fin de semana)\b/,
+    translate: () => "next weekend",
+  },
+  { pattern: /\b(?:este |el )?fin de semana\b/, translate: () => "this weekend" },
+  {
+    pattern: new RegExp(`\\b(?:en|dentro de) (${NUMBER}) (dias?|semanas?|mes(?:es)?|anos?)\\b`),
+    translate: (match) => `in ${formatQuantity(toNumber(match[1]!), UNITS[match[2]!]!)}`,
+  },
+  { pattern: /\b(?:la )?(?:proxima semana|semana que viene)\b/, translate: () => "next week" },
+  { pattern: /\b(?:el )?(?:proximo mes|mes que viene)\b/, translate: () => "next month" },
+  { pattern: /\b(?:el )?(?:proximo ano|ano que viene)\b/, translate: () => "next year" },
+  { pattern: /\besta semana\b/, translate: () => "this week" },
+  { pattern: /\beste mes\b/, translate: () => "this month" },
+  { pattern: /\b(?:la )?semana pasada\b/, translate: () => "last week" },
+  { pattern: /\b(?:el )?mes pasado\b/, translate: () => "last month" },
+  { pattern: /\besta manana\b/, translate: () => "this morning" },
+  { pattern: /\besta tarde\b/, translate: () => "this afternoon" },
+  { pattern: /\besta noche\b/, translate: () => "tonight" },
+  { pattern: /\bhoy\b/, translate: () => "today" },
+  { pattern: /\bmanana\b/, translate: () => "tomorrow" },
+  { pattern: /\bayer\b/, translate: () => "yesterday" },
+  // "el próximo martes", "el martes que viene", "este viernes"
+  {
+    pattern: new RegExp(
+      `\\b(?:(?:el|este|esta) )?(?:(proximo) )?(${WEEKDAY})(?: (que viene|proximo|pasado))?\\b`
+    ),
+    translate: (match) => {
+      const weekday = WEEKDAYS[match[2]!];
+      if (match[1] || match[3] === "que viene" || match[3] === "proximo") return `next ${weekday}`;
+      if (match[3] === "pasado") return `last ${weekday}`;
+      return /^este?\b/.test(match[0].trim()) ? `this ${weekday}` : weekday!;
+    },
+  },
+  // "el 5 de mayo", "el primero de junio de 2025"
+  {
+    pattern: new RegExp(`\\b(?:el )?(?:dia )?(\\d{1,2}|primero|${NUMBER}) de (${MONTH})(?: de (\\d{4}))?\\b`),
+    translate: (match) => {
+      const day = match[1] === "primero" ? 1 : toNumber(match[1]!);
+      if (day < 1 || day > 31) return null;
+      return `${MONTHS[match[2]!]} ${day}${match[3] ? `, ${match[3]}` : ""}`;
+    },
+  },
+  // Day first, as dates are written in Spanish
+  {
+    pattern: /\b(?:el )?(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?\b/,
+    translate: (match) => `${match[2]}/${match[1]}${match[3] ? `/${match[3]}` : ""}`,
+  },
+  { pattern: /\b\d{4}-\d{2}-\d{2}\b/, translate: (match) => match[0] },
+  {
+    pattern: /\bel (?:dia )?(\d{1,2}|primero)\b(?! (?:euros?|dolares?|libras?|pesos?|por ciento))/,
+    translate: (match) => `the ${match[1] === "primero" ? 1 : match[1]}th`,
+  },
+  { pattern: new RegExp(`\\ben (${MONTH})\\b`), translate: (match) => `in ${MONTHS[match[1]!]}` },
+];
+
+const DURATION_RULES: TranslationRule[] = [
+  { pattern: /\b(?:durante |por )?(?:una )?hora y media\b/, translate: () => "an hour and a half" },
+  { pattern: /\b(?:durante |por )?media hora\b/, translate: () => "half an hour" },
+  {
+    pattern: new RegExp(`\\b(?:durante|por|de) (${NUMBER}) (horas?|minutos?)\\b`),
+    translate: (match) => formatQuantity(toNumber(match[1]!), UNITS[match[2]!]!),
+  },
+];
+
+const EVENT_NOUNS =
+  "reunion|reuniones|cita|citas|llamada|videollamada|evento|recordatorio|almuerzo|comida|cena|desayuno|cafe|clase|entrenamiento|gimnasio|fiesta|entrevista|conferencia|presentacion|vuelo|viaje|dentista|medico|doctor|visita|cumpleanos|boda|concierto|partido|examen";
+const SPENDING_WORDS =
+  "gaste|gastado|gastar|gasto|gastos|pague|pagado|pagar|pago|compre|comprado|comprar|costo|cuesta|factura|recibo|presupuesto";
+
+const SCREEN_WORDS: { [word: string]: NavigationTarget } = {
+  inicio: "home",
+  principal: "home",
+  portada: "home",
+  calendario: "calendar",
+  agenda: "calendar",
+  eventos: "calendar",
+  horario: "calendar",
+  gastos: "expenses",
+  presupuesto: "expenses",
+  presupuestos: "expenses",
+  finanzas: "expenses",
+  "asistente de voz": "voice",
+  asistente: "voice",
+  voz: "voice",
+  chat: "chat",
+  mensajes: "chat",
+  perfil: "profile",
+  ajustes: "profile",
+  configuracion: "profile",
+  cuenta: "profile",
+};
+
+const SCREEN = `(?:(?:la |el |los |las |mi |mis )?(?:pantalla|pagina|seccion) (?:de |del )?)?(?:la |el |los |las |mi |mis )?(?<screen>${Object.keys(SCREEN_WORDS).join("|")})`;
+const AMOUNT = `(?:\\d+(?:[.,]\\d{1,2})? ?(?:euros?|€|dolares|pesos?|libras?)|[$€£] ?\\d+(?:[.,]\\d{1,2})?)`;
+
+export const spanishGrammar = createLocaleGrammar({
+  rules: [
+    // Conversation control
+    rule("es_cancel", "cancel", 0.95, /^(?:cancela|cancelar|cancelalo|olvidalo|olvida|dejalo|deja|para|basta|nada|no importa)(?: (?:eso|esto|todo|por favor))?$/),
+    rule("es_undo", "undo", 0.95, /^(?:deshaz|deshacer|deshazlo|borralo|borra eso|eliminalo|elimina eso|quitalo)(?: (?:lo ultimo|el ultimo|la ultima))?$/),
+    rule("es_confirm", "confirm", 0.9, /^(?:si|vale|de acuerdo|claro|correcto|confirmo|confirmar|adelante|hazlo|perfecto|exacto|venga|por supuesto|guardalo|ok|okay)(?: (?:si|vale|gracias|por favor|adelante|hazlo|guardalo))*$/),
+    rule("es_deny", "deny", 0.9, /^(?:no|nop|incorrecto|esta mal|eso no|negativo)(?:,? (?<rest>.+))?$/),
+
+    // Navigation
+    rule("es_navigate", "navigate", 0.95, new RegExp(`^(?:(?:ve|vete|ir|vamos|llevame|navega|cambia|vuelve|regresa)(?: a| al)?|abre|abrir|muestra|muestrame|mostrar|ensename|ver) ${SCREEN}$`)),
+    rule("es_navigate_bare", "navigate", 0.6, new RegExp(`^${SCREEN}$`)),
+
+    // Planned expenses
+    rule("es_plan_expense_explicit", "plan_expense", 0.95, /^(?:planifica|planificar|planea|planear|programa|programar|anade|agrega|crea|registra|apunta) (?:un |una )?(?:gasto|pago) (?:planificado|previsto|futuro|programado|pendiente)(?<rest>.*)$/),
+    rule("es_plan_expense_verb", "plan_expense", 0.95, /^(?:planifica|planificar|planea|planear|presupuesta|presupuestar|reserva|reservar|aparta|apartar) (?:un |una )?(?:gasto|pago|compra)(?<rest>.*)$/),
+    rule("es_plan_expense_obligation", "plan_expense", 0.9, /^(?:tengo que|debo|necesito|voy a|hay que) (?:pagar|gastar|comprar|renovar)(?<rest> .+)$/),
+    rule("es_plan_expense_reminder", "plan_expense", 0.92, /^recuerdame (?:que )?(?:tengo que |debo )?(?:pagar|renovar)(?<rest> .+)$/),
+
+    // Expenses
+    rule("es_add_expense", "add_expense", 0.95, /^(?:anade|anadir|agrega|agregar|registra|registrar|anota|anotar|apunta|apuntar|guarda|crea|nuevo|nueva) (?:(?:un|una|el|la|mi|nuevo|nueva) )*(?:gasto|compra|pago|recibo|cargo)(?<rest>.*)$/),
+    rule("es_spent", "add_expense", 0.9, /^(?:he |hemos )?(?:gaste|gastamos|gastado|pague|pagamos|pagado)(?<rest> .+)$/),
+    rule("es_bought", "add_expense", 0.8, /^(?:he |hemos )?(?:compre|compramos|comprado)(?<rest> .+)$/),
+    rule("es_cost", "add_expense", 0.85, /^(?<rest>.+ (?:me costo|costo|cuesta|costaron|me salio por) .+)$/),
+    rule("es_amount_first", "add_expense", 0.85, new RegExp(`^(?<rest>${AMOUNT} (?:en|para|de|por) .+)$`)),
+
+    // Events
+    rule("es_add_to_calendar", "create_event", 0.95, /^(?:anade|anadir|agrega|agregar|pon|poner|apunta|anota|guarda) (?<rest>.+?) (?:a|en|al) (?:mi |la |el )?(?:calendario|agenda)(?<tail>.*)$/),
+    rule("es_create_event", "create_event", 0.95, new RegExp(`^(?:anade|anadir|agrega|agregar|crea|crear|pon|poner|programa|programar|agenda|agendar|reserva|reservar|organiza|organizar|nueva|nuevo|fija|fijar|concierta|concertar|apunta|anota) (?<rest>(?:(?:una?|la|el|mi|nueva?) )*(?:[a-z'-]+ ){0,3}?(?:${EVENT_NOUNS})\\b.*)$`)),
+    rule("es_schedule", "create_event", 0.9, /^(?:programa|programar|agenda|agendar|reserva|reservar|organiza|organizar|bloquea|bloquear|planifica|planificar)(?:me)?(?<rest> .+)$/),
+    rule("es_remind", "create_event", 0.85, /^recuerdame(?: que| de)?(?<rest> .+)$/),
+    rule("es_have_event", "create_event", 0.7, /^(?:tengo|tenemos|hay) (?:(?:una?|la|el|mi) )?(?<rest>.+)$/),
+    rule("es_meet", "create_event", 0.85, /^(?:quedo|quede|he quedado|me reuno|me veo|nos vemos)(?<rest> con .+)$/),
+    rule("es_event_noun", "create_event", 0.6, new RegExp(`^(?<rest>(?:(?:una?|la|el|mi) )?(?:[a-z'-]+ ){0,3}(?:${EVENT_NOUNS})\\b.*)$`)),
+  ],
+  leadingFillers: [
+    /^(?:(?:hola|oye|eh|bueno|pues|pera|oye pera|hola pera)\s+)+/,
+    /^(?:(?:por favor|puedes|podrias|me puedes|me podrias|quieres)\s+)+/,
+    /^(?:quiero|quisiera|me gustaria|necesito)\s+(?=(?:programar|agendar|anadir|agregar|crear|registrar|anotar|apuntar|poner|ir|abrir|ver|cancelar|borrar|reservar)\b)/,
+  ],
+  trailingFillers: /\s+(?:por favor|gracias)$/,
+  questionStart: /^(?:que|cuando|donde|cuanto|cuanta|cuantos|cuantas|cual|cuales|quien|como|tengo algo|hay algo)\b/,
+  eventNouns: EVENT_NOUNS,
+  spendingWords: SPENDING_WORDS,
+  numberWords: NUMBER_WORDS,
+  currencies: {
+    "€": "euros",
+    euro: "euros",
+    euros: "euros",
+    eur: "euros",
+    $: "dollars",
+    dolar: "dollars",
+    dolares: "dollars",
+    usd: "dollars",
+    "£": "pounds",
+    libra: "pounds",
+    libras: "pounds",
+    peso: "pesos",
+    pesos: "pesos",
+  },
+  minorUnits: "centimos|centavos|centimo|centavo",
+  screens: SCREEN_WORDS,
+  categories: {
+    cafe: "coffee",
+    almuerzo: "lunch",
+    comida: "food",
+    cena: "dinner",
+    desayuno: "breakfast",
+    supermercado: "groceries",
+    mercado: "groceries",
+    restaurante: "restaurant",
+    pizza: "pizza",
+    gasolina: "gas",
+    combustible: "fuel",
+    aparcamiento: "parking",
+    estacionamiento: "parking",
+    parking: "parking",
+    taxi: "taxi",
+    uber: "uber",
+    autobus: "bus",
+    tren: "train",
+    metro: "metro",
+    transporte: "transport",
+    vuelo: "flight",
+    hotel: "hotel",
+    viaje: "travel",
+    alquiler: "rent",
+    hipoteca: "mortgage",
+    luz: "electricity",
+    electricidad: "electricity",
+    agua: "water bill",
+    internet: "internet",
+    telefono: "phone bill",
+    cine: "cinema",
+    pelicula: "movie",
+    concierto: "concert",
+    netflix: "netflix",
+    spotify: "spotify",
+    ropa: "clothes",
+    zapatos: "shoes",
+    compras: "shopping",
+    amazon: "amazon",
+    regalo: "gift",
+    medico: "doctor",
+    dentista: "dentist",
+    farmacia: "pharmacy",
+    medicinas: "medicine",
+    gimnasio: "gym",
+    libros: "books",
+    matricula: "tuition",
+    curso: "course",
+    colegio: "school",
+    peluqueria: "haircut",
+    bebidas: "drinks",
+    copas: "drinks",
+  },
+  dateRules: DATE_RULES,
+  timeRules: TIME_RULES,
+  durationRules: DURATION_RULES,
+  allDay: /\b(?:todo el dia|el dia entero|el dia completo)\b/,
+  named: /^.*?\b(?:llamad[oa]|titulad[oa]|que se llame)\s+(.+)$/,
+  location: /\sen\s+(?:(?:el|la|los|las) )?([^,]+?)\s*$/,
+  attendee: /\bcon\s+(?:(?:el|la|los|las|mi|mis)\s+)?([a-z'-]+(?:\s+y\s+[a-z'-]+)*)/,
+  merchant: /\ben\s+((?:[A-ZÁÉÍÓÚÑ][^\s,]*)(?:\s+(?:[A-ZÁÉÍÓÚÑ][^\s,]*|de|del))*)/,
+  purpose: /\b(?:en|para|de|por)\s+(.+)$/,
+  articles: "un|una|unos|unas|el|la|los|las|mi|mis|nuevo|nueva",
+  connectors: "en|a|al|para|de|del|con|y|por",
+});
+
+export default spanishGrammar;
@@ -0,0 +1,359 @@
+import { NavigationTarget } from "./intentParser";
+import {
+  buildNumberPattern,
+  createLocaleGrammar,
+  formatClockTime,
+  formatQuantity,
+  readNumber,
+  rule,
+  TranslationRule,
+} from "./localeGrammar";
+
+// French grammar for voice commands. Patterns match text without accents.
+
+const NUMBER_WORDS: { [word: string]: number } = {
+  un: 1,
+  une: 1,
+  deux: 2,
+  trois: 3,
+  quatre: 4,
+  cinq: 5,
+  six: 6,
+  sept: 7,
+  huit: 8,
+  neuf: 9,
+  dix: 10,
+  onze: 11,
+  douze: 12,
+  treize: 13,
+  quatorze: 14,
+  quinze: 15,
+  seize: 16,
+  vingt: 20,
+  trente: 30,
+  quarante: 40,
+  cinquante: 50,
+  soixante: 60,
+  cent: 100,
+  cents: 100,
+  mille: 1000,
+};
+
+const WEEKDAYS: { [word: string]: string } = {
+  lundi: "monday",
+  mardi: "tuesday",
+  mercredi: "wednesday",
+  jeudi: "thursday",
+  vendredi: "friday",
+  samedi: "saturday",
+  dimanche: "sunday",
+};
+
+const MONTHS: { [word: string]: string } = {
+  janvier: "january",
+  fevrier: "february",
+  mars: "march",
+  avril: "april",
+  mai: "may",
+  juin: "june",
+  juillet: "july",
+  aout: "august",
+  septembre: "september",
+  octobre: "october",
+  novembre: "november",
+  decembre: "december",
+};
+
+const UNITS: { [word: string]: string } = {
+  jour: "days",
+  jours: "days",
+  semaine: "weeks",
+  semaines: "weeks",
+  mois: "months",
+  an: "years",
+  ans: "years",
+  annee: "years",
+  annees: "years",
+  heure: "hours",
+  heures: "hours",
+  minute: "minutes",
+  minutes: "minutes",
+};
+
+const NUMBER = buildNumberPattern(NUMBER_WORDS);
+const HOUR = `\\d{1,2}|une|deux|trois|quatre|cinq|six|sept|huit|neuf|dix|onze|douze`;
+const WEEKDAY = Object.keys(WEEKDAYS).join("|");
+const MONTH = Object.keys(MONTHS).join("|");
+
+const toNumber = (text: string): number => readNumber(text, NUMBER_WORDS) ?? 0;
+
+const DAY_PART_MERIDIEM: { [part: string]: "am" | "pm" } = {
+  "du matin": "am",
+  "de l'apres-midi": "pm",
+  "de l'apres midi": "pm",
+  "du soir": "pm",
+};
+
+const TIME_RULES: TranslationRule[] = [
+  // "de 14h à 15h30", "entre 9 heures et 10 heures"
+  {
+    pattern: new RegExp(
+      `\\b(?:de|entre) (${HOUR}) ?(?:h|heures?) ?(\\d{2})? (?:a|et|jusqu'a) (${HOUR}) ?(?:h|heures?)(?: ?(\\d{2}))?\\b`
+    ),
+    translate: (match) => {
+      const start = formatClockTime(toNumber(match[1]!), parseInt(match[2] || "0", 10));
+      const end = formatClockTime(toNumber(match[3]!), parseInt(match[4] || "0", 10));
+      return `from ${start} to ${end}`;
+    },
+  },
+  // "à 15h30", "vers 3 heures et demie de l'après-midi", "à une heure moins le quart"
+  {
+    pattern: new RegExp(
+      `\\b(?:a|vers|pour) (${HOUR}) ?(?:h|heures?)(?: ?(\\d{2})| et (demie|quart)| moins (?:le )?(quart))?(?: (du matin|de l'apres[- ]midi|du soir))?(?![a-z])`
+    ),
+    translate: (match) => {
+      let hours = toNumber(match[1]!);
+      let minutes = parseInt(match[2] || "0", 10);
+      if (match[3]) minutes = match[3] === "demie" ? 30 : 15;
+      if (match[4]) {
+        hours = hours === 1 ? 12 : hours - 1;
+        minutes = 45;
+      }
+      const meridiem = match[5] ? DAY_PART_MERIDIEM[match[5]] : undefined;
+      return `at ${formatClockTime(hours, minutes, meridiem)}`;
+    },
+  },
+  {
+    pattern: /\b(?:ce |cet |le |l'|du |en )?(matin|apres-midi|apres midi|soir)\b/,
+    translate: (match) =>
+      match[1] === "matin" ? "in the morning" : match[1] === "soir" ? "in the evening" : "in the afternoon",
+  },
+  // After the parts of the day, so "après-midi" isn't read as noon
+  { pattern: /(?:^|\s)(?:a |vers )?midi\b/, translate: () => "at noon" },
+  { pattern: /\b(?:a |vers )?minuit\b/, translate: () => "at midnight" },
+  // "15h30" or "15h" said on its own
+  {
+    pattern: /\b(\d{1,2})(?:h|:)(\d{2})?(?![a-z\d])/,
+    translate: (match) => `at ${match[1]}:${match[2] || "00"}`,
+  },
+];
+
+const DATE_RULES: TranslationRule[] = [
+  { pattern: /\bapres[- ]demain\b/, translate: () => "day after tomorrow" },
+  { pattern: /\b(?:le |ce )?week-?end prochain\b/, translate: () => "next weekend" },
+  { pattern: /\b(?:ce |le )?week-?end\b/, translate: () => "this weekend" },
+  {
+    pattern: new RegExp(`\\bdans (${NUMBER}) (jours?|semaines?|mois|ans?|annees?)\\b`),
+    translate: (match) => `in ${formatQuantity(toNumber(match[1]!), UNITS[match[2]!]!)}`,
+  },
+  { pattern: /\b(?:la )?semaine prochaine\b/, translate: () => "next week" },
+  { pattern: /\b(?:le )?mois prochain\b/, translate: () => "next month" },
+  { pattern: /\bl'annee prochaine\b/, translate: () => "next year" },
+  { pattern: /\bcette semaine\b/, translate: () => "this week" },
+  { pattern: /\bce mois(?:-ci)?\b/, translate: () => "this month" },
+  { pattern: /\b(?:la )?semaine derniere\b/, translate: () => "last week" },
+  { pattern: /\b(?:le )?mois dernier\b/, translate: () => "last month" },
+  { pattern: /\baujourd'hui\b/, translate: () => "today" },
+  { pattern: /\bdemain\b/, translate: () => "tomorrow" },
+  { pattern: /\bhier\b/, translate: () => "yesterday" },
+  // "mardi prochain", "ce vendredi", "lundi dernier"
+  {
+    pattern: new RegExp(`\\b(?:(le|ce) )?(?:(prochain) )?(${WEEKDAY})(?: (prochain|qui vient|dernier))?\\b`),
+    translate: (match) => {
+      const weekday = WEEKDAYS[match[3]!];
+      if (match[2] || match[4] === "prochain" || match[4] === "qui vient") return `next ${weekday}`;
+      if (match[4] === "dernier") return `last ${weekday}`;
+      return match[1] === "ce" ? `this ${weekday}` : weekday!;
+    },
+  },
+  // "le 5 mai", "le 1er juin 2025"
+  {
+    pattern: new RegExp(`\\b(?:le )?(1er|premier|\\d{1,2}|${NUMBER}) (${MONTH})(?: (\\d{4}))?\\b`),
+    translate: (match) => {
+      const day = /^(?:1er|premier)$/.test(match[1]!) ? 1 : toNumber(match[1]!);
+      if (day < 1 || day > 31) return null;
+      return `${MONTHS[match[2]!]} ${day}${match[3] ? `, ${match[3]}` : ""}`;
+    },
+  },
+  // Day first, as dates are written in French
+  {
+    pattern: /\b(?:le )?(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?\b/,
+    translate: (match) => `${match[2]}/${match[1]}${match[3] ? `/${match[3]}` : ""}`,
+  },
+  { pattern: /\b\d{4}-\d{2}-\d{2}\b/, translate: (match) => match[0] },
+  {
+    pattern: /\ble (1er|\d{1,2})(?![\d,.])(?! ?(?:euros?|€|dollars?|livres?|francs?|pour cent|%))/,
+    translate: (match) => `the ${match[1] === "1er" ? 1 : match[1]}th`,
+  },
+  { pattern: new RegExp(`\\ben (${MONTH})\\b`), translate: (match) => `in ${MONTHS[match[1]!]}` },
+];
+
+const DURATION_RULES: TranslationRule[] = [
+  { pattern: /\b(?:pendant |pour )?une heure et demie\b/, translate: () => "an hour and a half" },
+  { pattern: /\b(?:pendant |pour )?une demi-heure\b/, translate: () => "half an hour" },
+  {
+    pattern: new RegExp(`\\b(?:pendant|pour|de) (${NUMBER}) (heures?|minutes?)\\b`),
+    translate: (match) => formatQuantity(toNumber(match[1]!), UNITS[match[2]!]!),
+  },
+];
+
+const EVENT_NOUNS =
+  "reunion|reunions|rendez-vous|rdv|appel|visio|evenement|rappel|dejeuner|diner|petit-dejeuner|cafe|cours|seance|entrainement|sport|fete|soiree|entretien|conference|presentation|vol|voyage|dentiste|medecin|docteur|visite|anniversaire|mariage|concert|match|examen";
+const SPENDING_WORDS =
+  "depense|depenses|depenser|paye|payer|paiement|achete|acheter|achat|coute|facture|recu|budget";
+
+const SCREEN_WORDS: { [word: string]: NavigationTarget } = {
+  accueil: "home",
+  calendrier: "calendar",
+  agenda: "calendar",
+  evenements: "calendar",
+  planning: "calendar",
+  depenses: "expenses",
+  budget: "expenses",
+  budgets: "expenses",
+  finances: "expenses",
+  "assistant vocal": "voice",
+  assistant: "voice",
+  voix: "voice",
+  chat: "chat",
+  messages: "chat",
+  discussion: "chat",
+  profil: "profile",
+  parametres: "profile",
+  reglages: "profile",
+  compte: "profile",
+};
+
+const SCREEN = `(?:(?:la |le |l')?(?:page|ecran) (?:de |des |du |d')?)?(?:la |le |les |l'|mon |ma |mes )?(?<screen>${Object.keys(SCREEN_WORDS).join("|")})`;
+const AMOUNT = `(?:\\d+(?:[.,]\\d{1,2})? ?(?:euros?|€|dollars?|livres?|francs?)|[$€£] ?\\d+(?:[.,]\\d{1,2})?)`;
+
+export const frenchGrammar = createLocaleGrammar({
+  rules: [
+    // Conversation control
+    rule("fr_cancel", "cancel", 0.95, /^(?:annule|annuler|laisse tomber|oublie|oublie ca|arrete|stop|rien|peu importe|c'est tout)(?: (?:ca|tout|merci))?$/),
+    rule("fr_undo", "undo", 0.95, /^(?:defais|defaire|annule la derniere (?:action|depense|entree)|annule le dernier (?:evenement|achat)|supprime ca|supprime-le|efface ca|efface-le)$/),
+    rule("fr_confirm", "confirm", 0.9, /^(?:oui|ouais|d'accord|ok|okay|vas-y|allez-y|c'est bon|parfait|exactement|exact|confirme|confirmer|bien sur|absolument|tout a fait|c'est ca|enregistre)(?: (?:oui|merci|vas-y|c'est bon|enregistre))*$/),
+    rule("fr_deny", "deny", 0.9, /^(?:non|pas du tout|c'est faux|incorrect|pas ca|negatif)(?:,? (?<rest>.+))?$/),
+
+    // Navigation
+    rule("fr_navigate", "navigate", 0.95, new RegExp(`^(?:(?:va|vas|aller|allons|emmene-moi|amene-moi|retourne|reviens|passe)(?: a| au| aux| sur| vers)?|ouvre|ouvrir|affiche|afficher|montre|montre-moi|voir) ${SCREEN}$`)),
+    rule("fr_navigate_bare", "navigate", 0.6, new RegExp(`^${SCREEN}$`)),
+
+    // Planned expenses
+    rule("fr_plan_expense_explicit", "plan_expense", 0.95, /^(?:prevois|prevoir|planifie|planifier|programme|programmer|ajoute|cree|enregistre) (?:une |un )?(?:depense|paiement|achat) (?:prevue?|planifiee?|a venir|future|recurrente?)(?<rest>.*)$/),
+    rule("fr_plan_expense_verb", "plan_expense", 0.95, /^(?:prevois|prevoir|planifie|planifier|budgetise|budgetiser|reserve|reserver|mets de cote) (?:une |un )?(?:depense|paiement|achat|budget)(?<rest>.*)$/),
+    rule("fr_plan_expense_obligation", "plan_expense", 0.9, /^(?:je dois|il faut|je vais|il faudra|je devrai|on doit) (?:payer|depenser|acheter|renouveler)(?<rest> .+)$/),
+    rule("fr_plan_expense_reminder", "plan_expense", 0.92, /^rappelle[- ]moi de (?:payer|renouveler)(?<rest> .+)$/),
+
+    // Expenses
+    rule("fr_add_expense", "add_expense", 0.95, /^(?:ajoute|ajouter|enregistre|enregistrer|note|noter|cree|creer|saisis|nouvelle|nouveau) (?:(?:une|un|la|le|ma|mon|nouvelle|nouveau) )*(?:depense|achat|paiement|recu|ticket)(?<rest>.*)$/),
+    rule("fr_spent", "add_expense", 0.9, /^(?:j'ai |on a |nous avons )?(?:depense|paye|regle)(?<rest> .+)$/),
+    rule("fr_bought", "add_expense", 0.8, /^(?:j'ai |on a |nous avons )?(?:achete|commande)(?<rest> .+)$/),
+    rule("fr_cost", "add_expense", 0.85, /^(?<rest>.+ (?:m'a coute|a coute|coute|m'a fait) .+)$/),
+    rule("fr_amount_first", "add_expense", 0.85, new RegExp(`^(?<rest>${AMOUNT} (?:pour|de|en|au|chez) .+)$`)),
+
+    // Events
+    rule("fr_add_to_calendar", "create_event", 0.95, /^(?:ajoute|ajouter|mets|mettre|note|noter|inscris|enregistre) (?<rest>.+?) (?:a|dans|sur) (?:mon |le |l')?(?:calendrier|agenda)(?<tail>.*)$/),
+    rule("fr_create_event", "create_event", 0.95, new RegExp(`^(?:ajoute|ajouter|cree|creer|mets|mettre|programme|programmer|planifie|planifier|prevois|prevoir|organise|organiser|reserve|reserver|fixe|fixer|cale|caler|note|noter|nouveau|nouvelle|prends|prendre) (?<rest>(?:(?:un|une|le|la|mon|ma|nouveau|nouvelle) |l')*(?:[a-z'-]+ ){0,3}?(?:${EVENT_NOUNS})(?![a-z-]).*)$`)),
+    rule("fr_schedule", "create_event", 0.9, /^(?:programme|programmer|planifie|planifier|organise|organiser|reserve|reserver|bloque|bloquer|cale|caler|prevois|prevoir)(?:-moi| moi)?(?<rest> .+)$/),
+    rule("fr_remind", "create_event", 0.85, /^rappelle[- ]moi (?:de |d'|que )?(?<rest>.+)$/),
+    rule("fr_have_event", "create_event", 0.7, /^(?:j'ai|nous avons|on a|il y a) (?!(?:depense|paye|regle|achete|commande)\b)(?:(?:un|une|le|la|mon|ma) )?(?<rest>.+)$/),
+    rule("fr_meet", "create_event", 0.85, /^(?:je vois|je retrouve|je rencontre|on se voit|je dejeune|je dine)(?<rest> .+)$/),
+    rule("fr_event_noun", "create_event", 0.6, new RegExp(`^(?<rest>(?:(?:un|une|le|la|mon|ma) |l')?(?:[a-z'-]+ ){0,3}(?:${EVENT_NOUNS})(?![a-z-]).*)$`)),
+  ],
+  leadingFillers: [
+    /^(?:(?:salut|bonjour|hey|eh|euh|bon|alors|pera|dis pera|ok pera)\s+)+/,
+    /^(?:(?:s'il te plait|s'il vous plait|peux-tu|pouvez-vous|tu peux|vous pouvez|est-ce que tu peux|pourrais-tu|merci de)\s+)+/,
+    /^(?:je veux|je voudrais|j'aimerais|je souhaite)\s+(?=(?:programmer|planifier|ajouter|creer|enregistrer|noter|mettre|aller|ouvrir|voir|annuler|supprimer|reserver)\b)/,
+  ],
+  trailingFillers: /\s+(?:s'il te plait|s'il vous plait|stp|svp|merci)$/,
+  questionStart: /^(?:qu'est-ce|que|quand|ou|combien|quel|quelle|quels|quelles|qui|comment|est-ce|ai-je|y a-t-il)\b/,
+  eventNouns: EVENT_NOUNS,
+  spendingWords: SPENDING_WORDS,
+  numberWords: NUMBER_WORDS,
+  currencies: {
+    "€": "euros",
+    euro: "euros",
+    euros: "euros",
+    eur: "euros",
+    $: "dollars",
+    dollar: "dollars",
+    dollars: "dollars",
+    usd: "dollars",
+    "£": "pounds",
+    livre: "pounds",
+    livres: "pounds",
+    franc: "francs",
+    francs: "francs",
+    chf: "francs",
+  },
+  minorUnits: "centimes|centime|cts",
+  screens: SCREEN_WORDS,
+  categories: {
+    cafe: "coffee",
+    dejeuner: "lunch",
+    diner: "dinner",
+    "petit-dejeuner": "breakfast",
+    courses: "groceries",
+    epicerie: "groceries",
+    supermarche: "groceries",
+    nourriture: "food",
+    restaurant: "restaurant",
+    resto: "restaurant",
+    pizza: "pizza",
+    essence: "gas",
+    carburant: "fuel",
+    parking: "parking",
+    stationnement: "parking",
+    taxi: "taxi",
+    uber: "uber",
+    bus: "bus",
+    train: "train",
+    metro: "metro",
+    transport: "transport",
+    avion: "flight",
+    vol: "flight",
+    hotel: "hotel",
+    voyage: "travel",
+    loyer: "rent",
+    electricite: "electricity",
+    eau: "water bill",
+    internet: "internet",
+    telephone: "phone bill",
+    cinema: "cinema",
+    film: "movie",
+    concert: "concert",
+    netflix: "netflix",
+    spotify: "spotify",
+    vetements: "clothes",
+    chaussures: "shoes",
+    shopping: "shopping",
+    amazon: "amazon",
+    cadeau: "gift",
+    medecin: "doctor",
+    dentiste: "dentist",
+    pharmacie: "pharmacy",
+    medicaments: "medicine",
+    "salle de sport": "gym",
+    livres: "books",
+    "frais de scolarite": "tuition",
+    ecole: "school",
+    coiffeur: "haircut",
+    boissons: "drinks",
+    verres: "drinks",
+  },
+  dateRules: DATE_RULES,
+  timeRules: TIME_RULES,
+  durationRules: DURATION_RULES,
+  allDay: /\b(?:toute la journee|la journee entiere|toute la journee entiere)\b/,
+  named: /^.*?\b(?:appele|appelee|intitule|intitulee|nomme|nommee)\s+(.+)$/,
+  location: /\s(?:a|au|chez)\s+(?:(?:la|le|les) |l')?([^,]+?)\s*$/,
+  attendee: /\bavec\s+(?:(?:le|la|les|mon|ma|mes)\s+)?([a-z'-]+(?:\s+et\s+[a-z'-]+)*)/,
+  merchant: /(?:^|\s)(?:chez|au|à|a)\s+((?:[A-ZÀÂÉÈÊÎÔÛÇ][^\s,]*)(?:\s+[A-ZÀÂÉÈÊÎÔÛÇ][^\s,]*)*)/,
+  purpose: /\b(?:pour|en|au|aux|dans|de)\s+(.+)$/,
+  articles: "un|une|des|le|la|les|mon|ma|mes|nouveau|nouvelle",
+  elisions: "l'|d'",
+  connectors: "a|au|aux|pour|de|du|avec|et|en|chez",
+});
+
+export default frenchGrammar;
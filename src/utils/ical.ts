@@ -0,0 +1,334 @@
+import moment from "moment";
+import { zonedTimeToUtc } from "./dateTime";
+
+// RFC 5545 iCalendar serialization for calendar events
+
+export interface IcsEvent {
+  uid: string;
+  title: string;
+  description?: string;
+  location?: string;
+  startTime: string; // ISO string
+  endTime: string; // ISO string
+  isAllDay: boolean;
+  recurrenceRule?: string;
+  exceptionDates?: string[];
+}
+
+interface IcsProperty {
+  name: string;
+  params: { [key: string]: string };
+  value: string;
+}
+
+const PRODUCT_ID = "-//JeffCorp//Pera Calendar//EN";
+const MAX_LINE_OCTETS = 75;
+
+// Text escaping
+
+const escapeText = (text: string): string =>
+  text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+const unescapeText = (text: string): string =>
+  text.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+
+const utf8Length = (char: string): number => {
+  const code = char.codePointAt(0) || 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+};
+
+// Fold content lines longer than 75 octets, without splitting a character
+const foldLine = (line: string): string => {
+  const lines: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const length = utf8Length(char);
+    if (octets + length > MAX_LINE_OCTETS) {
+      lines.push(current);
+      current = " ";
+      octets = 1;
+    }
+    current += char;
+    octets += length;
+  }
+
+  lines.push(current);
+  return lines.join("\r\n");
+};
+
+// Date formatting
+
+const formatUtcDateTime = (date: Date): string =>
+  moment.utc(date).format("YYYYMMDDTHHmmss[Z]");
+
+const formatDateValue = (date: Date): string => moment(date).format("YYYYMMDD");
+
+/**
+ * Parse a DATE or DATE-TIME value, honouring UTC ("Z") and TZID parameters.
+ * Floating times and unknown time zones are read as device local time.
+ */
+const parseDateValue = (
+  value: string,
+  params: { [key: string]: string } = {}
+): { date: Date; isDate: boolean } | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const fields = [
+    parseInt(year, 10),
+    parseInt(month, 10) - 1,
+    parseInt(day, 10),
+    parseInt(hour || "0", 10),
+    parseInt(minute || "0", 10),
+    parseInt(second || "0", 10),
+  ] as const;
+
+  if (!hour || params.VALUE === "DATE") {
+    return { date: new Date(fields[0], fields[1], fields[2]), isDate: true };
+  }
+
+  if (utc) {
+    return { date: new Date(Date.UTC(...fields)), isDate: false };
+  }
+
+  if (params.TZID) {
+    try {
+      return { date: zonedTimeToUtc(...fields, params.TZID), isDate: false };
+    } catch (error) {
+      console.warn("Unknown time zone in calendar file:", params.TZID, error);
+    }
+  }
+
+  return { date: new Date(...fields), isDate: false };
+};
+
+// Parse an ISO 8601 duration such as "PT1H30M" or "P1D" into milliseconds
+const parseDuration = (value: string): number | null => {
+  const match = value.match(
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/
+  );
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const milliseconds =
+    ((parseInt(weeks || "0", 10) * 7 + parseInt(days || "0", 10)) * 86400 +
+      parseInt(hours || "0", 10) * 3600 +
+      parseInt(minutes || "0", 10) * 60 +
+      parseInt(seconds || "0", 10)) *
+    1000;
+
+  return sign === "-" ? -milliseconds : milliseconds;
+};
+
+// Parsing
+
+const unfoldLines = (content: string): string[] =>
+  content
+    .replace(/\r\n/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n")
+    .filter((line) => line.trim().length > 0);
+
+const parseProperty = (line: string): IcsProperty | null => {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let separator = -1;
+
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ":" && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+
+  if (separator === -1) return null;
+
+  const [name, ...paramParts] = line.slice(0, separator).split(";");
+  const params: { [key: string]: string } = {};
+
+  paramParts.forEach((part) => {
+    const [key, ...rest] = part.split("=");
+    params[key.toUpperCase()] = rest.join("=").replace(/^"|"$/g, "");
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+};
+
+const toIcsEvent = (properties: IcsProperty[]): IcsEvent | null => {
+  const find = (name: string) => properties.find((property) => property.name === name);
+
+  const status = find("STATUS");
+  if (status && status.value.toUpperCase() === "CANCELLED") return null;
+
+  const dtstart = find("DTSTART");
+  const start = dtstart && parseDateValue(dtstart.value, dtstart.params);
+  if (!start) return null;
+
+  const dtend = find("DTEND");
+  const duration = find("DURATION");
+  let end = dtend ? parseDateValue(dtend.value, dtend.params)?.date : undefined;
+
+  if (!end && duration) {
+    const milliseconds = parseDuration(duration.value);
+    if (milliseconds !== null) {
+      end = new Date(start.date.getTime() + milliseconds);
+    }
+  }
+
+  if (!end) {
+    // RFC 5545: all-day events default to one day, timed events to zero length
+    end = start.isDate ? moment(start.date).add(1, "day").toDate() : start.date;
+  }
+
+  // DTEND is exclusive for all-day events; the app stores the last day's end
+  const endTime = start.isDate
+    ? moment(end).subtract(1, "millisecond").toDate()
+    : end;
+
+  const summary = find("SUMMARY");
+  const uid = find("UID");
+
+  const event: IcsEvent = {
+    uid: uid?.value || `${formatUtcDateTime(start.date)}-${summary?.value || "event"}`,
+    title: summary ? unescapeText(summary.value) : "Untitled event",
+    startTime: start.date.toISOString(),
+    endTime: endTime.toISOString(),
+    isAllDay: start.isDate,
+  };
+
+  const description = find("DESCRIPTION");
+  if (description) event.description = unescapeText(description.value);
+
+  const location = find("LOCATION");
+  if (location) event.location = unescapeText(location.value);
+
+  const rrule = find("RRULE");
+  if (rrule) event.recurrenceRule = rrule.value;
+
+  const exceptionDates = properties
+    .filter((property) => property.name === "EXDATE")
+    .flatMap((property) =>
+      property.value.split(",").map((value) => parseDateValue(value, property.params))
+    )
+    .filter((parsed): parsed is { date: Date; isDate: boolean } => parsed !== null)
+    .map((parsed) => {
+      // Date-only exceptions apply at the series' start time of day
+      if (parsed.isDate && !start.isDate) {
+        return moment(parsed.date)
+          .set({ hour: start.date.getHours(), minute: start.date.getMinutes() })
+          .toISOString();
+      }
+      return parsed.date.toISOString();
+    });
+
+  if (exceptionDates.length > 0) event.exceptionDates = exceptionDates;
+
+  return event;
+};
+
+/**
+ * Parse the VEVENTs in an iCalendar file
+ */
+export const parseICS = (content: string): IcsEvent[] => {
+  const events: IcsEvent[] = [];
+  let current: IcsProperty[] | null = null;
+  let nestedDepth = 0;
+
+  unfoldLines(content).forEach((line) => {
+    const property = parseProperty(line);
+    if (!property) return;
+
+    if (property.name === "BEGIN" && property.value.toUpperCase() === "VEVENT") {
+      current = [];
+      nestedDepth = 0;
+    } else if (current && property.name === "BEGIN") {
+      // Skip nested components such as VALARM
+      nestedDepth++;
+    } else if (current && property.name === "END") {
+      if (nestedDepth > 0) {
+        nestedDepth--;
+      } else if (property.value.toUpperCase() === "VEVENT") {
+        const event = toIcsEvent(current);
+        if (event) events.push(event);
+        current = null;
+      }
+    } else if (current && nestedDepth === 0) {
+      current.push(property);
+    }
+  });
+
+  return events;
+};
+
+/**
+ * Serialize events into an iCalendar file
+ */
+export const generateICS = (events: IcsEvent[], calendarName = "Pera"): string => {
+  const stamp = formatUtcDateTime(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+
+  events.forEach((event) => {
+    const start = new Date(event.startTime);
+    const end = new Date(event.endTime);
+
+    lines.push("BEGIN:VEVENT", `UID:${event.uid}`, `DTSTAMP:${stamp}`);
+
+    if (event.isAllDay) {
+      // All-day DTEND is the (exclusive) day after the last day
+      const lastDay = end > start ? end : start;
+      lines.push(
+        `DTSTART;VALUE=DATE:${formatDateValue(start)}`,
+        `DTEND;VALUE=DATE:${formatDateValue(moment(lastDay).add(1, "day").toDate())}`
+      );
+    } else {
+      lines.push(
+        `DTSTART:${formatUtcDateTime(start)}`,
+        `DTEND:${formatUtcDateTime(end)}`
+      );
+    }
+
+    lines.push(`SUMMARY:${escapeText(event.title)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.recurrenceRule) lines.push(`RRULE:${event.recurrenceRule.replace(/^RRULE:/i, "")}`);
+
+    if (event.exceptionDates && event.exceptionDates.length > 0) {
+      lines.push(
+        event.isAllDay
+          ? `EXDATE;VALUE=DATE:${event.exceptionDates.map((date) => formatDateValue(new Date(date))).join(",")}`
+          : `EXDATE:${event.exceptionDates.map((date) => formatUtcDateTime(new Date(date))).join(",")}`
+      );
+    }
+
+    lines.push("END:VEVENT");
+  });
+
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
+
+export default {
+  parseICS,
+  generateICS,
+};
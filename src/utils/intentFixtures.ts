@@ -0,0 +1,381 @@
+// Labelled utterances for measuring intent parser accuracy
+import { IntentSlots, ParserLanguage, VoiceIntent } from "./intentParser";
+
+export interface IntentFixture {
+  text: string;
+  intent: VoiceIntent;
+  slots?: Partial<IntentSlots>;
+  language?: ParserLanguage; // English when not given
+}
+
+export const INTENT_FIXTURES: IntentFixture[] = [
+  // Create event
+  { text: "Schedule a meeting with Sam tomorrow at 3pm", intent: "create_event", slots: { title: "Meeting with Sam", dateText: "tomorrow", timeText: "at 3pm", attendee: "Sam" } },
+  { text: "Book a dentist appointment next Tuesday at 10am", intent: "create_event", slots: { title: "Dentist appointment", dateText: "next Tuesday", timeText: "at 10am" } },
+  { text: "Add lunch with Maria on Friday at noon to my calendar", intent: "create_event", slots: { title: "Lunch with Maria", dateText: "on Friday", timeText: "at noon" } },
+  { text: "Create an event called Team Offsite on March 14th", intent: "create_event", slots: { title: "Team Offsite", dateText: "on March 14th" } },
+  { text: "Set up a call with the design team at 4:30 pm", intent: "create_event", slots: { title: "Call with the design team", timeText: "at 4:30 pm" } },
+  { text: "Remind me to call mom tonight at 8", intent: "create_event", slots: { title: "Call mom", dateText: "tonight", timeText: "at 8" } },
+  { text: "Can you schedule a haircut for Saturday morning", intent: "create_event", slots: { title: "Haircut", dateText: "Saturday morning" } },
+  { text: "Put gym on my calendar tomorrow at 7am", intent: "create_event", slots: { title: "Gym", dateText: "tomorrow", timeText: "at 7am" } },
+  { text: "New meeting tomorrow at 9 in the conference room", intent: "create_event", slots: { title: "Meeting", dateText: "tomorrow", timeText: "at 9", location: "conference room" } },
+  { text: "Schedule dinner with Anna at Luigi's on Thursday at 7pm", intent: "create_event", slots: { title: "Dinner with Anna", location: "Luigi's", dateText: "on Thursday", timeText: "at 7pm" } },
+  { text: "I have a doctor's appointment on the 23rd at 2:15", intent: "create_event", slots: { title: "Doctor's appointment", dateText: "on the 23rd", timeText: "at 2:15" } },
+  { text: "Block out Friday afternoon for focus time", intent: "create_event", slots: { dateText: "Friday afternoon" } },
+  { text: "Schedule a one on one with Priya next Monday at 11", intent: "create_event", slots: { title: "One on one with Priya", dateText: "next Monday", timeText: "at 11" } },
+  { text: "Please add a meeting for tomorrow", intent: "create_event", slots: { title: "Meeting", dateText: "tomorrow" } },
+  { text: "Book a table for four at 7:30 tonight", intent: "create_event", slots: { timeText: "at 7:30", dateText: "tonight" } },
+  { text: "Create a reminder to renew my passport next month", intent: "create_event", slots: { dateText: "next month" } },
+  { text: "Hey Pera, schedule a standup every morning at 9", intent: "create_event" },
+  { text: "Set a meeting with John and Lisa on Wednesday from 2 to 3pm", intent: "create_event", slots: { title: "Meeting with John and Lisa", dateText: "on Wednesday", timeText: "from 2 to 3pm" } },
+  { text: "Add an all day event for the company retreat on June 5th", intent: "create_event", slots: { isAllDay: true, dateText: "on June 5th" } },
+  { text: "Schedule a 30 minute call with Alex tomorrow afternoon", intent: "create_event", slots: { dateText: "tomorrow afternoon" } },
+  { text: "Set up a meeting for an hour on Thursday at 10", intent: "create_event", slots: { title: "Meeting", durationText: "an hour", dateText: "on Thursday", timeText: "at 10" } },
+  { text: "Remind me about the team lunch on Friday", intent: "create_event", slots: { title: "Team lunch", dateText: "on Friday" } },
+  { text: "Make an appointment with the vet in two weeks", intent: "create_event", slots: { dateText: "in two weeks" } },
+  { text: "I'm meeting Jake for coffee tomorrow at 10", intent: "create_event", slots: { dateText: "tomorrow", timeText: "at 10" } },
+  { text: "Schedule interview with candidate at half past 2", intent: "create_event", slots: { title: "Interview with candidate", timeText: "at half past 2" } },
+  { text: "Book a flight review meeting on 12/15", intent: "create_event", slots: { dateText: "on 12/15" } },
+  { text: "Add yoga class this Saturday at 9 am", intent: "create_event", slots: { title: "Yoga class", dateText: "this Saturday", timeText: "at 9 am" } },
+  { text: "Schedule a presentation rehearsal the day after tomorrow", intent: "create_event", slots: { title: "Presentation rehearsal", dateText: "the day after tomorrow" } },
+  { text: "Lunch with Ben tomorrow at 12:30", intent: "create_event", slots: { title: "Lunch with Ben", dateText: "tomorrow", timeText: "at 12:30" } },
+  { text: "Meeting with the landlord on Monday at 5pm", intent: "create_event", slots: { title: "Meeting with the landlord", dateText: "on Monday", timeText: "at 5pm" } },
+  { text: "Dentist next Thursday at 3", intent: "create_event", slots: { title: "Dentist", dateText: "next Thursday", timeText: "at 3" } },
+  { text: "Pencil in a catch up with Omar on Wednesday", intent: "create_event", slots: { dateText: "on Wednesday" } },
+  { text: "Schedule parent teacher conference on the 3rd of May at 4 pm", intent: "create_event", slots: { dateText: "on the 3rd of May", timeText: "at 4 pm" } },
+  { text: "I want to schedule a workout at 6 am tomorrow", intent: "create_event", slots: { title: "Workout", timeText: "at 6 am", dateText: "tomorrow" } },
+  { text: "Could you book me a massage for Sunday at 2", intent: "create_event", slots: { dateText: "Sunday", timeText: "at 2" } },
+  { text: "Add birthday party for Emma on Saturday evening", intent: "create_event", slots: { dateText: "on Saturday evening" } },
+  { text: "Schedule a sync with marketing at 11:00", intent: "create_event", slots: { title: "Sync with marketing", timeText: "at 11:00" } },
+  { text: "Set up a webinar next Friday at 1pm for 2 hours", intent: "create_event", slots: { durationText: "2 hours", dateText: "next Friday", timeText: "at 1pm" } },
+  { text: "Add a call with the bank at quarter to 10 tomorrow", intent: "create_event", slots: { title: "Call with the bank", dateText: "tomorrow" } },
+  { text: "Remind me to pick up the kids at 3:30", intent: "create_event", slots: { title: "Pick up the kids", timeText: "at 3:30" } },
+  { text: "Put a reminder for the project deadline on the 30th", intent: "create_event", slots: { dateText: "on the 30th" } },
+  { text: "Schedule piano lesson on Tuesday at 5", intent: "create_event", slots: { title: "Piano lesson", dateText: "on Tuesday", timeText: "at 5" } },
+  { text: "Book a meeting room for tomorrow morning", intent: "create_event", slots: { dateText: "tomorrow morning" } },
+  { text: "Schedule a call tomorrow", intent: "create_event", slots: { title: "Call", dateText: "tomorrow" } },
+  { text: "Create event dinner party Saturday at 8pm", intent: "create_event", slots: { dateText: "Saturday", timeText: "at 8pm" } },
+  { text: "Add a doctor visit on January 9", intent: "create_event", slots: { title: "Doctor visit", dateText: "on January 9" } },
+  { text: "Organize a team dinner next Friday", intent: "create_event", slots: { title: "Team dinner", dateText: "next Friday" } },
+  { text: "I need to schedule an oil change next week", intent: "create_event", slots: { dateText: "next week" } },
+  { text: "Arrange a video call with investors on Thursday at 4", intent: "create_event", slots: { dateText: "on Thursday", timeText: "at 4" } },
+  { text: "Schedule a meeting", intent: "create_event", slots: { title: "Meeting" } },
+  { text: "Coffee with Dana at 10 tomorrow", intent: "create_event", slots: { title: "Coffee with Dana", dateText: "tomorrow" } },
+  { text: "Meeting tomorrow at 2", intent: "create_event", slots: { title: "Meeting", dateText: "tomorrow", timeText: "at 2" } },
+  { text: "Book tennis with Marco on Sunday at 10am", intent: "create_event", slots: { dateText: "on Sunday", timeText: "at 10am" } },
+  { text: "Add Sarah's wedding on August 21st as an all-day event", intent: "create_event", slots: { isAllDay: true } },
+  { text: "Um, schedule a check-up with Dr. Lee next Wednesday", intent: "create_event", slots: { dateText: "next Wednesday" } },
+
+  // Delete event
+  { text: "Cancel my meeting with Sam tomorrow", intent: "delete_event", slots: { dateText: "tomorrow" } },
+  { text: "Delete the dentist appointment", intent: "delete_event" },
+  { text: "Remove the team lunch on Friday", intent: "delete_event", slots: { dateText: "on Friday" } },
+  { text: "Cancel tomorrow's call", intent: "delete_event" },
+  { text: "Call off the 3pm meeting", intent: "delete_event" },
+  { text: "Delete my gym session on Saturday", intent: "delete_event" },
+  { text: "Cancel the dinner reservation tonight", intent: "delete_event" },
+  { text: "Remove the interview from my calendar", intent: "delete_event" },
+  { text: "Please cancel the standup today", intent: "delete_event" },
+  { text: "Drop the review meeting on Monday", intent: "delete_event" },
+  { text: "Cancel my haircut appointment next week", intent: "delete_event" },
+  { text: "Delete the event on the 14th", intent: "delete_event" },
+  { text: "Scrap the Friday presentation", intent: "delete_event" },
+  { text: "Cancel the class on Tuesday", intent: "delete_event" },
+  { text: "Remove my doctor appointment", intent: "delete_event" },
+
+  // Add expense
+  { text: "I spent $25 on lunch", intent: "add_expense", slots: { amountText: "$25", description: "lunch", category: "lunch" } },
+  { text: "Add an expense of 40 dollars for gas", intent: "add_expense", slots: { amountText: "40 dollars", description: "gas", category: "gas" } },
+  { text: "I paid 12.50 for parking downtown", intent: "add_expense", slots: { amountText: "12.50", category: "parking" } },
+  { text: "Log $4.75 for coffee at Starbucks", intent: "add_expense", slots: { amountText: "$4.75", merchant: "Starbucks", category: "coffee" } },
+  { text: "Spent 60 bucks on groceries yesterday", intent: "add_expense", slots: { amountText: "60 bucks", dateText: "yesterday", category: "groceries" } },
+  { text: "Spent 12,50 € on lunch", intent: "add_expense", slots: { amountText: "12,50 €", description: "lunch", category: "lunch" } },
+  { text: "Record a $120 electricity bill", intent: "add_expense", slots: { amountText: "$120", category: "electricity" } },
+  { text: "Add 15 dollars for Uber", intent: "add_expense", slots: { amountText: "15 dollars", category: "uber" } },
+  { text: "Track $9.99 for Netflix", intent: "add_expense", slots: { amountText: "$9.99", category: "netflix" } },
+  { text: "I bought shoes for $80", intent: "add_expense", slots: { amountText: "$80", category: "shoes" } },
+  { text: "Just paid the internet bill, 65 dollars", intent: "add_expense", slots: { amountText: "65 dollars" } },
+  { text: "$30 for dinner", intent: "add_expense", slots: { amountText: "$30", description: "dinner" } },
+  { text: "20 dollars on movies", intent: "add_expense", slots: { amountText: "20 dollars", description: "movies" } },
+  { text: "Lunch cost me 18 dollars", intent: "add_expense", slots: { amountText: "18 dollars", category: "lunch" } },
+  { text: "The taxi was 35 bucks", intent: "add_expense", slots: { amountText: "35 bucks", category: "taxi" } },
+  { text: "Add expense 200 for rent", intent: "add_expense", slots: { amountText: "200", category: "rent" } },
+  { text: "Log a purchase of 45 euros at Zara", intent: "add_expense", slots: { amountText: "45 euros", merchant: "Zara" } },
+  { text: "I spent 7 dollars on a sandwich", intent: "add_expense", slots: { amountText: "7 dollars", description: "sandwich" } },
+  { text: "Paid 50 for the doctor today", intent: "add_expense", slots: { amountText: "50", dateText: "today", category: "doctor" } },
+  { text: "Add a new expense", intent: "add_expense" },
+  { text: "Record expense: pharmacy $23.40", intent: "add_expense", slots: { amountText: "$23.40", category: "pharmacy" } },
+  { text: "I spent twenty dollars on snacks", intent: "add_expense", slots: { amountText: "twenty dollars", category: "snacks" } },
+  { text: "We spent 150 dollars at the restaurant last night", intent: "add_expense", slots: { amountText: "150 dollars" } },
+  { text: "Put 40 dollars on gas", intent: "add_expense", slots: { amountText: "40 dollars", category: "gas" } },
+  { text: "Bought a book for 14 dollars", intent: "add_expense", slots: { amountText: "14 dollars" } },
+  { text: "Got groceries for $85.20 at Whole Foods", intent: "add_expense", slots: { amountText: "$85.20", merchant: "Whole Foods", category: "groceries" } },
+  { text: "Coffee 4.50", intent: "add_expense", slots: { amountText: "4.50", category: "coffee" } },
+  { text: "Parking 12 dollars", intent: "add_expense", slots: { amountText: "12 dollars", category: "parking" } },
+  { text: "Track spending of $300 on a flight to Denver", intent: "add_expense", slots: { amountText: "$300", category: "flight" } },
+  { text: "I paid my phone bill, it was 55 dollars", intent: "add_expense" },
+  { text: "Add an expense for lunch", intent: "add_expense", slots: { description: "lunch" } },
+  { text: "Log 32 dollars for a gift", intent: "add_expense", slots: { amountText: "32 dollars", category: "gift" } },
+  { text: "Dinner came to 64 dollars", intent: "add_expense", slots: { amountText: "64 dollars", category: "dinner" } },
+  { text: "Spent 3 bucks on the bus", intent: "add_expense", slots: { amountText: "3 bucks", category: "bus" } },
+  { text: "I just spent 9 dollars on a movie ticket", intent: "add_expense", slots: { amountText: "9 dollars", category: "movie" } },
+  { text: "Add 75 dollars for my gym membership", intent: "add_expense", slots: { amountText: "75 dollars", category: "gym" } },
+  { text: "Record 18.90 at the pharmacy", intent: "add_expense", slots: { amountText: "18.90", merchant: "pharmacy" } },
+  { text: "Enter an expense of $42 for books", intent: "add_expense", slots: { amountText: "$42", category: "books" } },
+  { text: "I dropped 200 dollars on clothes", intent: "add_expense", slots: { amountText: "200 dollars", category: "clothes" } },
+  { text: "Tipped the driver 5 dollars", intent: "add_expense", slots: { amountText: "5 dollars" } },
+  { text: "Ordered pizza for 22 dollars", intent: "add_expense", slots: { amountText: "22 dollars", category: "pizza" } },
+  { text: "The hotel cost 340 dollars", intent: "add_expense", slots: { amountText: "340 dollars", category: "hotel" } },
+  { text: "Paid 11 dollars for a haircut tip", intent: "add_expense" },
+  { text: "Okay, log 6 dollars for coffee", intent: "add_expense", slots: { amountText: "6 dollars", category: "coffee" } },
+  { text: "Please add 19.99 for Spotify", intent: "add_expense", slots: { amountText: "19.99", category: "spotify" } },
+  { text: "Save an expense of £12 for train tickets", intent: "add_expense", slots: { amountText: "£12", category: "train" } },
+  { text: "Twenty five fifty for lunch", intent: "add_expense", slots: { amountText: "Twenty five fifty", description: "lunch" } },
+  { text: "I spent a hundred and twenty dollars on groceries", intent: "add_expense", slots: { amountText: "a hundred and twenty dollars", category: "groceries" } },
+  { text: "Paid a buck fifty for coffee", intent: "add_expense", slots: { amountText: "a buck fifty", category: "coffee" } },
+  { text: "Lunch at 3 was 14 dollars", intent: "add_expense", slots: { amountText: "14 dollars" } },
+  { text: "Bought 2 coffees for 8 dollars", intent: "add_expense", slots: { amountText: "8 dollars" } },
+  { text: "Spent 45 euros on dinner in Paris", intent: "add_expense", slots: { amountText: "45 euros" } },
+  { text: "I paid twelve ninety nine for a phone case", intent: "add_expense", slots: { amountText: "twelve ninety nine" } },
+  { text: "Log five dollars and fifty cents for parking", intent: "add_expense", slots: { amountText: "five dollars and fifty cents", category: "parking" } },
+
+  // Plan expense
+  { text: "Plan an expense of 500 dollars for the trip next month", intent: "plan_expense", slots: { amountText: "500 dollars", dateText: "next month" } },
+  { text: "Budget 200 for car service in June", intent: "plan_expense", slots: { amountText: "200" } },
+  { text: "Set aside 100 dollars for groceries next week", intent: "plan_expense", slots: { amountText: "100 dollars", dateText: "next week", category: "groceries" } },
+  { text: "I need to pay rent of 1200 on the first", intent: "plan_expense", slots: { amountText: "1200", dateText: "on the first" } },
+  { text: "Remind me to pay the water bill on Friday", intent: "plan_expense", slots: { dateText: "on Friday" } },
+  { text: "Add a planned expense of $60 for the concert on Saturday", intent: "plan_expense", slots: { amountText: "$60", dateText: "on Saturday" } },
+  { text: "I'm going to spend 300 on a new phone next week", intent: "plan_expense", slots: { amountText: "300", dateText: "next week" } },
+  { text: "Schedule a payment of 80 dollars for insurance on the 15th", intent: "plan_expense", slots: { amountText: "80 dollars", dateText: "on the 15th" } },
+  { text: "Create an upcoming expense for tuition of $2000", intent: "plan_expense", slots: { amountText: "$2000" } },
+  { text: "I will need to buy a gift for 50 dollars by Sunday", intent: "plan_expense", slots: { amountText: "50 dollars" } },
+  { text: "Plan to spend 40 dollars on dinner Friday", intent: "plan_expense", slots: { amountText: "40 dollars", dateText: "Friday" } },
+  { text: "Budget $150 for entertainment this month", intent: "plan_expense", slots: { amountText: "$150", dateText: "this month" } },
+  { text: "Set up a recurring payment of 15 dollars for Netflix", intent: "plan_expense", slots: { amountText: "15 dollars", category: "netflix" } },
+  { text: "Allocate 250 for the weekend trip", intent: "plan_expense", slots: { amountText: "250" } },
+  { text: "My car insurance is due on the 10th, 90 dollars", intent: "plan_expense" },
+  { text: "I have to pay the dentist 120 dollars next Thursday", intent: "plan_expense", slots: { amountText: "120 dollars", dateText: "next Thursday" } },
+  { text: "Add a future expense for new tires", intent: "plan_expense" },
+  { text: "Reserve 75 dollars for a birthday gift on the 12th", intent: "plan_expense", slots: { amountText: "75 dollars", dateText: "on the 12th" } },
+  { text: "Remind me to pay rent on the first of the month", intent: "plan_expense" },
+  { text: "I plan to buy concert tickets for 90 dollars in two weeks", intent: "plan_expense", slots: { amountText: "90 dollars", dateText: "in two weeks" } },
+  { text: "Put aside 30 dollars for school supplies", intent: "plan_expense", slots: { amountText: "30 dollars" } },
+  { text: "I will spend 60 on gas tomorrow", intent: "plan_expense", slots: { amountText: "60", dateText: "tomorrow" } },
+  { text: "Earmark 400 for the vacation in July", intent: "plan_expense", slots: { amountText: "400" } },
+  { text: "Schedule my phone bill payment for the 20th", intent: "plan_expense" },
+  { text: "Create a planned payment for the gym of 45 dollars next month", intent: "plan_expense", slots: { amountText: "45 dollars", dateText: "next month" } },
+
+  // Spending queries
+  { text: "How much did I spend this week", intent: "query_spending", slots: { period: "this week" } },
+  { text: "How much have I spent on food this month", intent: "query_spending", slots: { period: "this month", category: "food" } },
+  { text: "What did I spend yesterday", intent: "query_spending", slots: { period: "yesterday" } },
+  { text: "Show me my expenses for last month", intent: "query_spending", slots: { period: "last month" } },
+  { text: "What's my total spending this year", intent: "query_spending", slots: { period: "this year" } },
+  { text: "How much did I spend on coffee", intent: "query_spending", slots: { category: "coffee" } },
+  { text: "Am I over budget this month", intent: "query_spending", slots: { period: "this month" } },
+  { text: "How much was spent on transportation last week", intent: "query_spending", slots: { period: "last week", category: "transportation" } },
+  { text: "What are my expenses today", intent: "query_spending", slots: { period: "today" } },
+  { text: "How much money did I spend in January", intent: "query_spending" },
+  { text: "What did I buy last weekend", intent: "query_spending", slots: { period: "last weekend" } },
+  { text: "Tell me my spending for the past 30 days", intent: "query_spending", slots: { period: "the past 30 days" } },
+  { text: "How much have I spent so far", intent: "query_spending", slots: { period: "so far" } },
+  { text: "What's left in my food budget", intent: "query_spending" },
+  { text: "Where did my money go this month", intent: "query_spending", slots: { period: "this month" } },
+  { text: "How much do I spend on entertainment", intent: "query_spending", slots: { category: "entertainment" } },
+  { text: "List my purchases from yesterday", intent: "query_spending", slots: { period: "yesterday" } },
+  { text: "What was my biggest expense last month", intent: "query_spending", slots: { period: "last month" } },
+  { text: "Am I within budget for dining", intent: "query_spending" },
+  { text: "How much did we spend on groceries last week", intent: "query_spending", slots: { period: "last week", category: "groceries" } },
+  { text: "Show my spending this week", intent: "query_spending", slots: { period: "this week" } },
+  { text: "How much did I pay for rent", intent: "query_spending", slots: { category: "rent" } },
+  { text: "Give me my expense report for this month", intent: "query_spending", slots: { period: "this month" } },
+  { text: "What have I spent on Uber", intent: "query_spending", slots: { category: "Uber" } },
+  { text: "How much have I spent today", intent: "query_spending", slots: { period: "today" } },
+  { text: "What is my total expenses for the last 7 days", intent: "query_spending" },
+  { text: "How much did I spend yesterday on lunch", intent: "query_spending", slots: { period: "yesterday", category: "lunch" } },
+  { text: "Am I under my budget", intent: "query_spending" },
+  { text: "Total spending last month", intent: "query_spending", slots: { period: "last month" } },
+  { text: "How much on gas this month", intent: "query_spending", slots: { period: "this month" } },
+
+  // Schedule queries
+  { text: "What's on my calendar today", intent: "query_schedule", slots: { period: "today" } },
+  { text: "What do I have tomorrow", intent: "query_schedule", slots: { period: "tomorrow" } },
+  { text: "Do I have any meetings on Friday", intent: "query_schedule", slots: { dateText: "on Friday" } },
+  { text: "When is my dentist appointment", intent: "query_schedule", slots: { subject: "dentist appointment" } },
+  { text: "What time is my call with Sam", intent: "query_schedule", slots: { subject: "call with Sam" } },
+  { text: "Am I free tomorrow afternoon", intent: "query_schedule", slots: { dateText: "tomorrow afternoon" } },
+  { text: "What's next on my schedule", intent: "query_schedule" },
+  { text: "What is my next meeting", intent: "query_schedule" },
+  { text: "Show me my schedule for next week", intent: "query_schedule", slots: { period: "next week" } },
+  { text: "What's happening this weekend", intent: "query_schedule", slots: { period: "this weekend" } },
+  { text: "Do I have anything on Saturday", intent: "query_schedule", slots: { dateText: "on Saturday" } },
+  { text: "How many meetings do I have today", intent: "query_schedule", slots: { period: "today" } },
+  { text: "Where is my meeting tomorrow", intent: "query_schedule" },
+  { text: "Am I busy on Thursday at 3", intent: "query_schedule" },
+  { text: "What's on the agenda for Monday", intent: "query_schedule" },
+  { text: "Is there anything on my calendar tonight", intent: "query_schedule" },
+  { text: "What meetings do I have this week", intent: "query_schedule", slots: { period: "this week" } },
+  { text: "When is the team lunch", intent: "query_schedule", slots: { subject: "team lunch" } },
+  { text: "List my events for tomorrow", intent: "query_schedule", slots: { period: "tomorrow" } },
+  { text: "How busy am I this week", intent: "query_schedule", slots: { period: "this week" } },
+  { text: "What's my day look like", intent: "query_schedule" },
+  { text: "What do I have going on next Monday", intent: "query_schedule" },
+  { text: "Read me my agenda for today", intent: "query_schedule", slots: { period: "today" } },
+  { text: "When do I have the doctor", intent: "query_schedule" },
+  { text: "Do I have a meeting at 2pm", intent: "query_schedule" },
+  { text: "What day is the company retreat", intent: "query_schedule" },
+  { text: "Am I available on the 21st", intent: "query_schedule" },
+  { text: "What's scheduled for this afternoon", intent: "query_schedule" },
+  { text: "Tell me my appointments for next week", intent: "query_schedule" },
+  { text: "When's my next appointment", intent: "query_schedule" },
+  { text: "What's on tomorrow", intent: "query_schedule", slots: { period: "tomorrow" } },
+  { text: "What have I got planned next week", intent: "query_schedule", slots: { period: "next week" } },
+
+  // Free time
+  { text: "Find me an hour on Thursday afternoon", intent: "find_time", slots: { durationText: "an hour", period: "on Thursday afternoon" } },
+  { text: "Find time for a call with Sam next week", intent: "find_time", slots: { title: "call with Sam", period: "next week" } },
+  { text: "When am I free tomorrow", intent: "find_time", slots: { period: "tomorrow" } },
+  { text: "When can I fit in a 30 minute call tomorrow", intent: "find_time", slots: { durationText: "30 minute", title: "call" } },
+  { text: "Do I have a free hour on Friday", intent: "find_time", slots: { durationText: "an hour", dateText: "on Friday" } },
+  { text: "Do I have 45 minutes free today", intent: "find_time", slots: { durationText: "45 minutes", period: "today" } },
+  { text: "When is my next free slot", intent: "find_time" },
+  { text: "Find a free slot for lunch with Ana", intent: "find_time", slots: { title: "lunch with Ana" } },
+  { text: "Any free time this week", intent: "find_time", slots: { period: "this week" } },
+  { text: "Can you find me half an hour for the dentist on Monday", intent: "find_time", slots: { durationText: "half an hour", title: "dentist" } },
+  { text: "Do I have time for a haircut on Saturday", intent: "find_time", slots: { title: "haircut", dateText: "on Saturday" } },
+  { text: "Find me an hour and a half tomorrow", intent: "find_time", slots: { durationText: "an hour and a half" } },
+  { text: "How many meetings do I have this week", intent: "query_schedule", slots: { period: "this week" } },
+
+  // Navigation
+  { text: "Go to calendar", intent: "navigate", slots: { screen: "calendar" } },
+  { text: "Open expenses", intent: "navigate", slots: { screen: "expenses" } },
+  { text: "Take me home", intent: "navigate", slots: { screen: "home" } },
+  { text: "Show me my calendar", intent: "navigate", slots: { screen: "calendar" } },
+  { text: "Open the chat", intent: "navigate", slots: { screen: "chat" } },
+  { text: "Go to my profile", intent: "navigate", slots: { screen: "profile" } },
+  { text: "Open settings", intent: "navigate", slots: { screen: "profile" } },
+  { text: "Switch to the expenses tab", intent: "navigate", slots: { screen: "expenses" } },
+  { text: "Back to home screen", intent: "navigate", slots: { screen: "home" } },
+  { text: "Calendar", intent: "navigate", slots: { screen: "calendar" } },
+  { text: "Show my expenses", intent: "navigate", slots: { screen: "expenses" } },
+  { text: "Navigate to the voice assistant", intent: "navigate", slots: { screen: "voice" } },
+  { text: "Open my schedule", intent: "navigate", slots: { screen: "calendar" } },
+  { text: "Pull up my budget", intent: "navigate", slots: { screen: "expenses" } },
+  { text: "Go back to the home page", intent: "navigate", slots: { screen: "home" } },
+  { text: "Open up the calendar view", intent: "navigate", slots: { screen: "calendar" } },
+  { text: "Take me to my account", intent: "navigate", slots: { screen: "profile" } },
+  { text: "Bring up chat", intent: "navigate", slots: { screen: "chat" } },
+  { text: "Go to the dashboard", intent: "navigate", slots: { screen: "home" } },
+  { text: "Show the spending page", intent: "navigate", slots: { screen: "expenses" } },
+
+  // Conversation control
+  { text: "Cancel", intent: "cancel" },
+  { text: "Never mind", intent: "cancel" },
+  { text: "Forget it", intent: "cancel" },
+  { text: "Stop", intent: "cancel" },
+  { text: "Nevermind that", intent: "cancel" },
+  { text: "No thanks", intent: "cancel" },
+  { text: "Cancel that please", intent: "cancel" },
+  { text: "Forget about it", intent: "cancel" },
+  { text: "Yes", intent: "confirm" },
+  { text: "Yeah that's right", intent: "confirm" },
+  { text: "Sure, go ahead", intent: "confirm" },
+  { text: "Okay", intent: "confirm" },
+  { text: "Correct", intent: "confirm" },
+  { text: "Sounds good", intent: "confirm" },
+  { text: "Yes please", intent: "confirm" },
+  { text: "Yep, save it", intent: "confirm" },
+  { text: "Do it", intent: "confirm" },
+  { text: "Perfect, thanks", intent: "confirm" },
+  { text: "No", intent: "deny" },
+  { text: "Nope", intent: "deny" },
+  { text: "That's wrong", intent: "deny" },
+  { text: "Not quite", intent: "deny" },
+  { text: "Undo", intent: "undo" },
+  { text: "Undo that", intent: "undo" },
+  { text: "Scratch that", intent: "undo" },
+  { text: "Take that back", intent: "undo" },
+  { text: "Delete the last expense", intent: "undo" },
+  { text: "Remove the last one", intent: "undo" },
+  { text: "Undo my last entry", intent: "undo" },
+  { text: "Oops, undo", intent: "undo" },
+  { text: "Actually, change it to Friday", intent: "correct", slots: { field: "date", dateText: "Friday" } },
+  { text: "Change the amount to 30", intent: "correct", slots: { field: "amount", amountText: "30" } },
+  { text: "Move it to 4pm", intent: "correct", slots: { field: "time", timeText: "4pm" } },
+  { text: "No, make it 4pm", intent: "correct", slots: { field: "time", timeText: "4pm" } },
+  { text: "Make it half past three", intent: "correct", slots: { field: "time" } },
+  { text: "No, it was 25 dollars", intent: "correct", slots: { field: "amount", amountText: "25 dollars" } },
+  { text: "Push it to tomorrow", intent: "correct", slots: { field: "date", dateText: "tomorrow" } },
+  { text: "Rename it to Team sync", intent: "correct", slots: { field: "title", title: "Team sync" } },
+  { text: "Change the category to travel", intent: "correct", slots: { field: "category", category: "travel" } },
+  { text: "Set the location to Room 4", intent: "correct", slots: { field: "location", location: "Room 4" } },
+  { text: "Help", intent: "help" },
+  { text: "What can you do", intent: "help" },
+  { text: "What can I say", intent: "help" },
+  { text: "How does this work", intent: "help" },
+  { text: "Show me the commands", intent: "help" },
+
+  // Not understood
+  { text: "The weather is nice", intent: "unknown" },
+  { text: "Blue elephants dance quietly", intent: "unknown" },
+  { text: "Hmm", intent: "unknown" },
+  { text: "Tell me a joke", intent: "unknown" },
+  { text: "Who won the game last night", intent: "unknown" },
+  { text: "1,".repeat(22) + " dollars", intent: "unknown" }, // Used to backtrack for seconds
+
+  // Spanish, with dates, times and amounts in the English the resolvers read
+  { language: "es", text: "Agenda una reunión con Ana el próximo martes a las 3 de la tarde", intent: "create_event", slots: { title: "Reunión con Ana", dateText: "next tuesday", timeText: "at 3:00 pm", attendee: "Ana" } },
+  { language: "es", text: "Crea una cita con el dentista mañana por la mañana", intent: "create_event", slots: { title: "Cita con el dentista", dateText: "tomorrow", timeText: "in the morning" } },
+  { language: "es", text: "Tengo una cena con María el 5 de mayo a las 9 y media de la noche", intent: "create_event", slots: { title: "Cena con María", dateText: "may 5", timeText: "at 9:30 pm" } },
+  { language: "es", text: "Programa una llamada dentro de 3 días de 2 a 3 de la tarde", intent: "create_event", slots: { title: "Llamada", dateText: "in 3 days", timeText: "from 2:00 pm to 3:00 pm" } },
+  { language: "es", text: "Reunión de equipo en la oficina a las 10:00 durante dos horas", intent: "create_event", slots: { title: "Reunión de equipo", location: "oficina", timeText: "at 10", durationText: "2 hours" } },
+  { language: "es", text: "Gasté 12,50 € en el almuerzo", intent: "add_expense", slots: { amountText: "12.50 euros", description: "almuerzo", category: "lunch" } },
+  { language: "es", text: "Pagué 30 euros en Mercadona ayer", intent: "add_expense", slots: { amountText: "30 euros", merchant: "Mercadona", dateText: "yesterday" } },
+  { language: "es", text: "Añade un gasto de 1.200 euros para el alquiler", intent: "add_expense", slots: { amountText: "1200 euros", category: "rent" } },
+  { language: "es", text: "Gasté veinte euros con cincuenta en gasolina", intent: "add_expense", slots: { amountText: "20.50 euros", category: "gas" } },
+  { language: "es", text: "Tengo que pagar el seguro de 300 euros el mes que viene", intent: "plan_expense", slots: { amountText: "300 euros", dateText: "next month" } },
+  { language: "es", text: "Ve al calendario", intent: "navigate", slots: { screen: "calendar" } },
+  { language: "es", text: "Abre la pantalla de gastos", intent: "navigate", slots: { screen: "expenses" } },
+  { language: "es", text: "Sí, adelante", intent: "confirm" },
+  { language: "es", text: "No", intent: "deny" },
+  { language: "es", text: "Cancela", intent: "cancel" },
+  { language: "es", text: "Deshazlo", intent: "undo" },
+
+  // French
+  { language: "fr", text: "Ajoute un rendez-vous demain à 15h30", intent: "create_event", slots: { title: "Rendez-vous", dateText: "tomorrow", timeText: "at 15:30" } },
+  { language: "fr", text: "Réunion avec Paul mardi prochain à 10h au bureau", intent: "create_event", slots: { title: "Réunion avec Paul", dateText: "next tuesday", timeText: "at 10", location: "bureau", attendee: "Paul" } },
+  { language: "fr", text: "Programme un appel le 5 mai de 14h à 15h", intent: "create_event", slots: { title: "Appel", dateText: "may 5", timeText: "from 14 to 15" } },
+  { language: "fr", text: "Rappelle-moi d'appeler maman ce soir", intent: "create_event", slots: { title: "Appeler maman", timeText: "in the evening" } },
+  { language: "fr", text: "Cours de yoga dans 3 jours à 7 heures du matin pendant une heure", intent: "create_event", slots: { dateText: "in 3 days", timeText: "at 7:00 am", durationText: "1 hour" } },
+  { language: "fr", text: "J'ai dépensé 12,50 € pour le déjeuner", intent: "add_expense", slots: { amountText: "12.50 euros", category: "lunch" } },
+  { language: "fr", text: "J'ai payé 45 euros chez Carrefour hier", intent: "add_expense", slots: { amountText: "45 euros", merchant: "Carrefour", dateText: "yesterday" } },
+  { language: "fr", text: "Ajoute une dépense de 1 200 € pour le loyer", intent: "add_expense", slots: { amountText: "1200 euros", category: "rent" } },
+  { language: "fr", text: "Je dois payer l'assurance de 300 euros le mois prochain", intent: "plan_expense", slots: { amountText: "300 euros", dateText: "next month" } },
+  { language: "fr", text: "Ouvre le calendrier", intent: "navigate", slots: { screen: "calendar" } },
+  { language: "fr", text: "Va aux dépenses", intent: "navigate", slots: { screen: "expenses" } },
+  { language: "fr", text: "Oui, c'est bon", intent: "confirm" },
+  { language: "fr", text: "Non", intent: "deny" },
+  { language: "fr", text: "Laisse tomber", intent: "cancel" },
+];
+
+// Phrasings the grammar was not written against, kept apart so their score
+// shows how the parser does on new input rather than on its own examples
+export const HELD_OUT_INTENT_FIXTURES: IntentFixture[] = [
+  { text: "Add lunch for twenty five fifty", intent: "add_expense", slots: { amountText: "twenty five fifty", description: "lunch", category: "lunch" } },
+  { text: "Add dinner for $40", intent: "add_expense", slots: { amountText: "$40", description: "dinner" } },
+  { text: "Add coffee for 4 dollars", intent: "add_expense", slots: { amountText: "4 dollars", description: "coffee" } },
+  { text: "Add gas for fifty bucks", intent: "add_expense", slots: { amountText: "fifty bucks", category: "gas" } },
+  { text: "Add a taxi for 23 euros", intent: "add_expense", slots: { amountText: "23 euros", description: "taxi" } },
+  { text: "Log parking for 12.75", intent: "add_expense", slots: { amountText: "12.75", description: "parking" } },
+  { text: "Add lunch with Sam for eighteen forty", intent: "add_expense", slots: { amountText: "eighteen forty" } },
+  { text: "Add groceries for 82 dollars 40", intent: "add_expense", slots: { description: "groceries" } },
+  { text: "Record a haircut for about thirty dollars", intent: "add_expense", slots: { amountText: "thirty dollars" } },
+  { text: "Add breakfast for a buck fifty", intent: "add_expense" },
+  { text: "Add dinner for two on Friday", intent: "create_event", slots: { title: "Dinner for two", dateText: "on Friday" } },
+  { text: "Add a call for ten thirty", intent: "create_event", slots: { title: "Call", timeText: "ten thirty" } },
+  { text: "Add the gym for an hour tomorrow", intent: "create_event", slots: { dateText: "tomorrow" } },
+  { text: "Add lunch with Priya for Thursday", intent: "create_event", slots: { title: "Lunch with Priya" } },
+];
+
+export default INTENT_FIXTURES;
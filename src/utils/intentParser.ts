@@ -0,0 +1,823 @@
+import { frenchGrammar } from "./grammarFr";
+import { spanishGrammar } from "./grammarEs";
+import { Features, GrammarRule, LocaleGrammar, rule, TemporalSlots } from "./localeGrammar";
+import { findSpokenAmount, SPOKEN_AMOUNT_SOURCE } from "./spokenAmount";
+
+// Grammar-based intent and slot parsing for voice and chat commands
+
+export type VoiceIntent =
+  | "create_event"
+  | "delete_event"
+  | "add_expense"
+  | "plan_expense"
+  | "query_spending"
+  | "query_schedule"
+  | "find_time"
+  | "navigate"
+  | "confirm"
+  | "deny"
+  | "cancel"
+  | "undo"
+  | "correct"
+  | "help"
+  | "unknown";
+
+export type NavigationTarget =
+  | "home"
+  | "calendar"
+  | "expenses"
+  | "voice"
+  | "chat"
+  | "profile";
+
+// What a correction to the last created item changes
+export type CorrectionField =
+  | "amount"
+  | "time"
+  | "date"
+  | "title"
+  | "category"
+  | "location";
+
+export interface IntentSlots {
+  title?: string;
+  location?: string;
+  attendee?: string;
+  dateText?: string; // Date expression as spoken, e.g. "next tuesday"
+  timeText?: string; // Time expression as spoken, e.g. "half past 4"
+  durationText?: string;
+  isAllDay?: boolean;
+  amountText?: string;
+  category?: string; // Spending keyword as spoken, e.g. "coffee"
+  merchant?: string;
+  description?: string;
+  period?: string; // Range a query asks about, e.g. "this week"
+  subject?: string; // What a schedule query asks about
+  screen?: NavigationTarget;
+  field?: CorrectionField;
+}
+
+export interface ParsedIntent {
+  intent: VoiceIntent;
+  slots: IntentSlots;
+  confidence: number;
+  rule: string | null; // Grammar rule that produced the intent
+  alternatives: { intent: VoiceIntent; score: number }[];
+}
+
+// Languages commands can be spoken in
+export type ParserLanguage = "en" | "es" | "fr";
+
+// Lexicon
+
+const NUMBER_WORDS =
+  "one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|fifteen|twenty|thirty|forty|fifty";
+const WEEKDAYS =
+  "monday|tuesday|wednesday|thursday|friday|saturday|sunday|mon|tues?|wed|thur?s?|fri|sat|sun";
+const MONTHS =
+  "january|february|march|april|may|june|july|august|september|october|november|december|jan|feb|mar|apr|jun|jul|aug|sept?|oct|nov|dec";
+const ORDINALS =
+  "\\d{1,2}(?:st|nd|rd|th)|first|second|third|fourth|fifth|sixth|seventh|eighth|ninth|tenth|eleventh|twelfth|thirteenth|fourteenth|fifteenth|sixteenth|seventeenth|eighteenth|nineteenth|twentieth|twenty[- ](?:first|second|third|fourth|fifth|sixth|seventh|eighth|ninth)|thirtieth|thirty[- ]first";
+const DAY_PARTS = "morning|afternoon|evening|night|tonight";
+const HOUR = `\\d{1,2}|${NUMBER_WORDS}`;
+const MERIDIEM = "(?:\\s?(?:am|pm|a\\.m\\.|p\\.m\\.))";
+const CURRENCY_WORDS =
+  "dollars?|bucks|usd|euros?|eur|pounds?|quid|gbp|pesos?|yen|rupees?|francs?|cents?";
+
+const EVENT_NOUNS =
+  "meeting|appointment|call|event|reminder|lunch|dinner|breakfast|brunch|coffee|drinks|interview|session|class|lesson|workout|gym|party|date|haircut|checkup|check-up|conference|standup|stand-up|sync|review|demo|presentation|webinar|practice|game|flight|trip|dentist|doctor|visit|catch up|catch-up|one on one|1:1|deadline|birthday|wedding|concert|reservation";
+
+const SPENDING_WORDS =
+  "spent|spend|paid|pay|payment|bought|buy|purchased|cost|costs|expense|expenses|spending|budget|bill|receipt|charge|charged";
+
+// Spending keywords as people say them; mapped onto categories by the expense parser
+const CATEGORY_KEYWORDS = [
+  "coffee", "lunch", "dinner", "breakfast", "brunch", "groceries", "grocery", "food",
+  "snacks", "drinks", "restaurant", "takeout", "pizza", "gas", "fuel", "parking",
+  "uber", "lyft", "taxi", "cab", "bus", "train", "subway", "metro", "transport",
+  "transportation", "flight", "hotel", "travel", "rent", "mortgage", "electricity",
+  "electric bill", "water bill", "internet", "phone bill", "utilities", "movie",
+  "movies", "cinema", "concert", "netflix", "spotify", "games", "entertainment",
+  "clothes", "shoes", "shopping", "amazon", "gift", "gifts", "doctor", "dentist",
+  "pharmacy", "medicine", "gym", "books", "tuition", "course", "school", "haircut",
+];
+
+const SCREEN_WORDS: { [word: string]: NavigationTarget } = {
+  home: "home",
+  main: "home",
+  dashboard: "home",
+  calendar: "calendar",
+  schedule: "calendar",
+  agenda: "calendar",
+  events: "calendar",
+  expense: "expenses",
+  expenses: "expenses",
+  spending: "expenses",
+  budget: "expenses",
+  budgets: "expenses",
+  "voice assistant": "voice",
+  voice: "voice",
+  assistant: "voice",
+  chat: "chat",
+  messages: "chat",
+  profile: "profile",
+  settings: "profile",
+  account: "profile",
+};
+
+const CORRECTION_WORDS: { [word: string]: CorrectionField } = {
+  amount: "amount",
+  price: "amount",
+  cost: "amount",
+  total: "amount",
+  "start time": "time",
+  time: "time",
+  date: "date",
+  day: "date",
+  title: "title",
+  name: "title",
+  rename: "title",
+  retitle: "title",
+  call: "title",
+  category: "category",
+  location: "location",
+  place: "location",
+  venue: "location",
+};
+
+// Temporal spans. Order matters: longer, more specific expressions first.
+const DATE_PATTERNS: RegExp[] = [
+  /\b(?:on )?(?:the )?day after tomorrow\b/i,
+  new RegExp(`\\b(?:on )?(?:the )?(?:end|start|beginning|middle) of (?:the |this |next )?(?:week|month|year)\\b`, "i"),
+  new RegExp(`\\b(?:in|within) (?:a|an|one|a couple of|a few|${NUMBER_WORDS}|\\d+) (?:days?|weeks?|months?|years?)(?: from (?:now|today))?\\b`, "i"),
+  new RegExp(`\\b(?:a|one|${NUMBER_WORDS}|\\d+) (?:days?|weeks?) from (?:now|today|tomorrow)\\b`, "i"),
+  new RegExp(`\\b(?:today|tonight|tomorrow|tmrw|yesterday)(?: (?:${DAY_PARTS}))?\\b`, "i"),
+  new RegExp(`\\b(?:on )?(?:(?:this|next|last|coming|this coming) )?(?:${WEEKDAYS})s?(?: (?:${DAY_PARTS}))?(?: (?:this|next) week)?\\b`, "i"),
+  /\b(?:this|next|last|the past|the last|past) (?:week|month|year|weekend|quarter|(?:\d+|two|three|four|five|six|seven|ten|thirty) (?:days|weeks|months))\b/i,
+  /\b(?:this|these) (?:morning|afternoon|evening|past few days)\b/i,
+  /\bso far(?: this (?:week|month|year))?\b/i,
+  new RegExp(`\\b(?:on )?(?:${MONTHS}) (?:the )?(?:${ORDINALS}|\\d{1,2})(?:,? \\d{4})?\\b`, "i"),
+  new RegExp(`\\b(?:on )?(?:the )?(?:${ORDINALS})(?: of (?:(?:${MONTHS})|this month|next month))?\\b`, "i"),
+  /\b(?:on )?\d{4}-\d{2}-\d{2}\b/,
+  /\b(?:on )?\d{1,2}\/\d{1,2}(?:\/\d{2,4})?\b/,
+  new RegExp(`\\b(?:in|during) (?:${MONTHS})\\b`, "i"),
+];
+
+const TIME_PATTERNS: RegExp[] = [
+  new RegExp(`\\b(?:from |between )?(?:${HOUR})(?::\\d{2})?${MERIDIEM}? ?(?:to|until|till|-|and) ?(?:${HOUR})(?::\\d{2})?${MERIDIEM}?\\b`, "i"),
+  new RegExp(`\\b(?:at |by |around )?(?:half|quarter) (?:past|after|to|till) (?:${HOUR})${MERIDIEM}?(?: (?:in the (?:morning|afternoon|evening)|at night|tonight))?`, "i"),
+  /\b(?:at |by |around )?(?:noon|midday|midnight)\b/i,
+  new RegExp(`\\b(?:at |by |around )?\\d{1,2}(?::\\d{2}|h\\d{2})${MERIDIEM}?(?: (?:in the (?:morning|afternoon|evening)|at night))?`, "i"),
+  new RegExp(`\\b(?:at |by |around )?(?:${HOUR})(?: (?:o'?clock|thirty|fifteen|forty[- ]five))?${MERIDIEM}(?: (?:in the (?:morning|afternoon|evening)|at night))?`, "i"),
+  new RegExp(`\\b(?:at |by |around )?(?:${HOUR}) (?:o'?clock|thirty|fifteen|forty[- ]five)(?: (?:in the (?:morning|afternoon|evening)|at night))?\\b`, "i"),
+  new RegExp(`\\b(?:at |by |around )(?:${HOUR})(?: (?:in the (?:morning|afternoon|evening)|at night|tonight))?\\b`, "i"),
+  /\bin the (?:morning|afternoon|evening)\b/i,
+];
+
+const DURATION_PATTERN = new RegExp(
+  `\\b(?:\\d+|${NUMBER_WORDS})[- ](?:minute|min|hour)\\b|\\bfor (?:(?:an?|one|half an?|${NUMBER_WORDS}|\\d+(?:\\.\\d+)?) (?:hours?|hrs?|minutes?|mins?)(?: and (?:a half|\\d+ minutes?|${NUMBER_WORDS} minutes?))?|(?:an? )?hour and a half|half an hour)\\b`,
+  "i"
+);
+
+// How long a free slot should be, e.g. "an hour", "30 minutes", "a free hour"
+const FREE_LENGTH = `(?:(?:an?|one|half an?|${NUMBER_WORDS}|\\d+(?:\\.\\d+)?)[- ])?(?:(?:free|spare|open|clear) )?(?:hours?|hrs?|minutes?|mins?)(?: and a half)?|(?:an? )?hour and a half`;
+const FREE_LENGTH_PATTERN = new RegExp(`\\b(?:for )?(?:${FREE_LENGTH})\\b`, "i");
+
+const AMOUNT_PATTERN = new RegExp(
+  `(?:[$€£¥₹]\\s?\\d+(?:[.,]\\d{1,3})*|\\b\\d+(?:[.,]\\d{1,3})*\\s?(?:${CURRENCY_WORDS})\\b|\\b\\d+\\.\\d{2}\\b)`,
+  "i"
+);
+const AMOUNT = `(?:${SPOKEN_AMOUNT_SOURCE})`;
+// "... for twenty five fifty" closing an utterance. A lone number ("dinner for
+// two") or a time ("call for ten thirty") isn't taken as money.
+const TRAILING_AMOUNT = `for (?:about |around |like )?(?=[$€£¥₹]|\\d+[.,]\\d|\\d+ [a-z]|[a-z-]+ [a-z])(?!(?:${HOUR}) (?:o'?clock|thirty|fifteen|forty[- ]five)$)${AMOUNT}`;
+
+// Grammar
+
+const SCREEN = `(?:the |my )?(?<screen>${Object.keys(SCREEN_WORDS).join("|")})(?: (?:screen|page|tab|view|section))?`;
+
+const GRAMMAR: GrammarRule[] = [
+  // Conversation control
+  rule("cancel", "cancel", 0.95, /^(?:cancel|stop|never ?mind|forget (?:it|that|about it)|abort|quit|exit|dismiss|no thanks|nothing|that is all|leave it)(?: (?:it|that|this|please|then))?$/),
+  rule("undo", "undo", 0.95, /^(?:undo|revert|reverse|take back|scratch|delete|remove|get rid of)(?: (?:that|it|this|the last (?:one|thing|entry|item|change|expense|event|meeting|command)|my last (?:one|entry|expense|event|command)|what you just (?:did|added|created)))?(?: please)?$/),
+  rule("undo_take_back", "undo", 0.95, /^take (?:that|it) back$|^scratch that$|^oops(?: undo(?: that)?)?$|^that was (?:a mistake|wrong)(?: undo(?: it| that)?)?$/),
+
+  // Corrections to the last created item
+  rule("correct_field", "correct", 0.97, /^(?:change|set|update|make|fix|correct|switch) (?:the |its |that )?(?<field>amount|price|cost|total|start time|time|date|day|title|name|category|location|place|venue) (?:to|into|as|for) (?<rest>.+)$/),
+  rule("correct_move", "correct", 0.96, /^(?:move|push|shift|reschedule|bump) (?:it|that|this|the last one) (?:back |forward )?(?:to|until|till|for) (?<rest>.+)$/),
+  rule("correct_rename", "correct", 0.96, /^(?<field>rename|retitle|call) (?:it|that|this) (?:to |as )?(?<rest>.+)$/),
+  rule("correct_make_it", "correct", 0.96, /^(?:(?:actually|no|sorry|oops)[, ]+)?(?:make (?:it|that)|change (?:it|that) to|it was|it should be|it should have been|i meant|i said) (?<rest>.+)$/),
+
+  rule("confirm", "confirm", 0.9, /^(?:yes|yeah|yep|yup|sure|ok|okay|correct|confirm|confirmed|right|exactly|affirmative|perfect|great|do it|go ahead|go for it|sounds good|looks good|that is (?:right|correct|it)|yes please|save it|please do|absolutely|of course)(?: (?:please|thanks|thank you|do it|go ahead|save it|that is right|that is correct))*$/),
+  rule("deny", "deny", 0.9, /^(?:no|nope|nah|wrong|incorrect|not (?:quite|really|right|that)|that is (?:wrong|not right|incorrect)|negative|do not)(?: (?:thanks|thank you|that is wrong))?$/),
+  rule("deny_correction", "deny", 0.75, /^(?:no|nope|not quite|wrong|actually)[, ]+(?<rest>.+)$/),
+  rule("help", "help", 0.9, /^(?:help|help me|what can (?:you|i) (?:do|say|ask)|how does (?:this|it) work|what are (?:the|your) commands|(?:show|list|tell)(?: me)? (?:the |your )?commands|what do you do)(?: .*)?$/),
+
+  // Navigation
+  rule("navigate", "navigate", 0.9, new RegExp(`^(?:(?:go|take me|bring me|navigate|switch|jump|head|get me)(?: back)?(?: to)?|open(?: up)?|show(?: me)?|launch|view|display|bring up|pull up|back to)? ?${SCREEN}$`)),
+
+  // Free time
+  rule("find_time", "find_time", 0.96, new RegExp(`^(?:find|suggest|look for|search for|get|give)(?: me| us)? (?<rest>(?:(?:some|a|an|the|any) )?(?:(?:free|open|spare|good|available) )?(?:time|slots?|window|gap)\\b.*|(?:${FREE_LENGTH})\\b.*)$`)),
+  rule("find_time_when_free", "find_time", 0.96, /^when (?:am i|are we|is everyone) (?:free|available|open|not busy)(?<rest>.*)$/),
+  rule("find_time_fit", "find_time", 0.95, /^when (?:can|could|should|do) (?:i|we) (?:fit in|squeeze in|slot in|fit|squeeze|schedule|book|have time for)(?<rest>.*)$/),
+  rule("find_time_have", "find_time", 0.96, new RegExp(`^(?:do|will) (?:i|we) have (?:any |some |a |an )?(?<rest>(?:free|spare|open) (?:time|slots?|hours?|half hour|minutes?|window)\\b.*|(?:time|room) (?:for|to)\\b.*|(?:(?:${NUMBER_WORDS}|\\d+|half an?) )?(?:minutes?|hours?) (?:free|spare|open)\\b.*)$`)),
+  rule("find_time_next_free", "find_time", 0.96, /^(?:when|what) is (?:my |the )?(?:next|first|earliest) (?:free|open|available) (?<rest>.*)$/),
+  rule("find_time_any", "find_time", 0.9, /^(?:any|got any) (?:free|spare|open) (?:time|slots?)(?<rest>.*)$/),
+
+  // Calendar queries
+  rule("schedule_what_on", "query_schedule", 0.95, /^what (?:is|do i have|have i got|is there|am i doing)? ?(?:on |in )?(?:my |the )?(?:schedule|calendar|agenda|plan|plans|day|week|docket)\b(?<rest>.*)$/),
+  rule("schedule_what_have", "query_schedule", 0.95, /^what (?:do i have|have i got|am i doing|is on|is happening|is going on|is planned|is scheduled|is coming up|is up|is next|comes next|meetings|events|appointments|calls)(?<rest>.*)$/),
+  rule("schedule_next", "query_schedule", 0.95, /^(?:what is|when is|where is)? ?(?:my |the )?next (?:meeting|event|appointment|call|thing)(?<rest>.*)$/),
+  rule("schedule_when", "query_schedule", 0.9, /^(?:when|what time|where|what day|at what time) (?:is|are|was|do i have|am i meeting|do i meet|does|did i schedule|did i book) (?:my |the |our |that )?(?<rest>.+)$/),
+  rule("schedule_do_i_have", "query_schedule", 0.9, /^(?:do|did|will) i have (?:any(?:thing)? |a |an |some |something )?(?<rest>.*)$/),
+  rule("schedule_free", "query_schedule", 0.95, /^(?:am i|are we|is (?:sam|he|she|everyone)) (?:free|busy|available|booked|open|doing anything)(?<rest>.*)$/),
+  rule("schedule_is_there", "query_schedule", 0.85, /^(?:is there|are there) (?:anything|something|a |an |any )(?<rest>.*)$/),
+  rule("schedule_how_many", "query_schedule", 0.9, /^how (?:many (?:meetings|events|appointments|calls|things)|busy (?:am i|is my (?:day|week)))(?<rest>.*)$/),
+  rule("schedule_show", "query_schedule", 0.9, /^(?:show|list|read|tell|give|read out)(?: me)? (?:all )?(?:my |the )?(?:schedule|agenda|calendar|events|meetings|appointments|plans)(?<rest>.+)$/),
+
+  // Spending queries
+  rule("spending_how_much", "query_spending", 0.95, /^how much (?:money )?(?:did|have|do|had|will) (?:i|we) (?:spend|spent|paid|pay|used?|spending)(?<rest>.*)$/),
+  rule("spending_how_much_short", "query_spending", 0.9, /^how much (?:was|is|have i|i|did i|on|for|went|do i have)(?<rest>.*)$/),
+  rule("spending_what", "query_spending", 0.9, /^what (?:did|have) (?:i|we) (?:spend|spent|buy|bought|pay|paid|purchase|purchased)(?<rest>.*)$/),
+  rule("spending_total", "query_spending", 0.9, /^(?:what is|what are|tell me|give me|show me|show|list)? ?(?:my |the |our )?(?:total )?(?:spending|expenses|expense total|expense report|total spent|costs|purchases|transactions|budget status|remaining budget)(?<rest>.+)$/),
+  rule("spending_budget", "query_spending", 0.95, /^(?:am i|are we) (?:over|under|within|on|near|close to) (?:my |our |the )?(?:\w+ )?budget(?<rest>.*)$/),
+  rule("spending_left", "query_spending", 0.9, /^(?:what is|how much is) (?:left|remaining) (?:in|of|on) (?:my |the )?(?<rest>.*)$/),
+  rule("spending_biggest", "query_spending", 0.9, /^what (?:is|was) (?:my )?(?:biggest|largest|top|most expensive) (?:expense|purchase|category|spending)(?<rest>.*)$/),
+  rule("spending_where", "query_spending", 0.85, /^where (?:did|does|has) (?:my|all my|the) money go(?<rest>.*)$/),
+
+  // Cancelling events
+  rule("delete_event", "delete_event", 0.9, new RegExp(`^(?:cancel|delete|remove|clear|call off|drop|scrap) (?:my |the |our |that |this |tomorrow's |today's )?(?<rest>.*?\\b(?:${EVENT_NOUNS})\\b.*)$`)),
+
+  // Planned expenses
+  rule("plan_expense_noun", "plan_expense", 0.95, /^(?:plan|budget for|reserve|earmark) (?:a |an )?(?:expense|payment|purchase|cost)(?<rest>.*)$/),
+  rule("plan_named", "plan_expense", 0.95, /^(?:schedule|add|create|set up|log|record|make|plan) (?:a |an )?(?:new )?(?:planned|upcoming|future|recurring|scheduled) (?:expense|payment|bill|purchase|cost)(?<rest>.*)$/),
+  rule("plan_verb", "plan_expense", 0.85, /^(?:plan|budget|set aside|earmark|allocate|reserve|save up|put aside|plan to spend|plan on spending)(?<rest> .+)$/),
+  rule("plan_intent", "plan_expense", 0.9, /^(?:i )?(?:need to|have to|will need to|am going to|am gonna|plan to|want to|intend to|will|should|must|got to) (?:pay|spend|buy|purchase|renew|cover)(?<rest> .+)$/),
+  rule("plan_remind_pay", "plan_expense", 0.92, /^remind me to (?:pay|renew)(?<rest> .+)$/),
+  rule("plan_bill_due", "plan_expense", 0.85, /^(?:my |the )?(?<rest>.+?) (?:is due|are due|bill is due|renews|payment is due)(?<tail>.*)$/),
+  rule("plan_schedule_payment", "plan_expense", 0.9, /^(?:schedule|set up|add) (?<rest>(?:a |an |my |the )?(?:[a-z]+ ){0,2}(?:payment|bill|subscription|transfer)\b.*)$/),
+
+  // Expenses
+  rule("expense_named", "add_expense", 0.95, /^(?:add|log|record|track|enter|save|note|put down|put in|create|new|make|submit) (?:a |an |new |my |this |the )*(?:expense|purchase|payment|transaction|receipt|charge|spending|cost)(?<rest>.*)$/),
+  rule("expense_spent", "add_expense", 0.9, /^(?:i |we )?(?:just |also |already )?(?:spent|paid|dropped|blew|shelled out|forked out|gave|tipped)(?<rest> .+)$/),
+  rule("expense_bought", "add_expense", 0.8, /^(?:i |we )?(?:just )?(?:bought|purchased|got|grabbed|picked up|ordered|had)(?<rest> .+)$/),
+  rule("expense_amount_first", "add_expense", 0.85, new RegExp(`^(?<rest>${AMOUNT} (?:for|on|at|to|towards) .+)$`)),
+  rule("expense_log_amount", "add_expense", 0.9, new RegExp(`^(?:add|log|record|track|enter|save|put|charge|note|spend)(?<rest> (?:a |an )?${AMOUNT}.*)$`)),
+  rule("expense_cost", "add_expense", 0.85, new RegExp(`^(?<rest>.+ (?:cost|costs|was|came to|came out to|set me back|ran me|totaled|totalled) (?:me |us )?(?:about |around |like )?${AMOUNT}.*)$`)),
+  rule("expense_add_for_amount", "add_expense", 0.95, new RegExp(`^(?:add|log|record|track|enter|note|put down|put in)(?<rest> .+ ${TRAILING_AMOUNT})$`)),
+  rule("expense_noun_amount", "add_expense", 0.75, new RegExp(`^(?<rest>(?:a |an |the |my )?[a-z' ]{2,30} ${AMOUNT_PATTERN.source})$`)),
+
+  // Calendar events
+  rule("event_add_to_calendar", "create_event", 0.95, /^(?:add|put|pencil|block|save|stick) (?<rest>.+?) (?:to|on|in|into|onto) (?:my |the )?(?:calendar|schedule|agenda|diary)(?<tail>.*)$/),
+  rule("event_named", "create_event", 0.95, new RegExp(`^(?:add|create|make|put|set up|setup|set|new|enter|insert|book|schedule) (?<rest>(?:a |an |the |my |new |all[- ]day )*(?:[\\w'-]+ ){0,3}?(?:calendar event|${EVENT_NOUNS})\\b.*)$`)),
+  rule("event_schedule", "create_event", 0.9, /^(?:schedule|book|arrange|organi[sz]e|set up|setup|pencil in|slot in|block out|block off|block|reserve|plan)(?: me| us)?(?: in| for)?(?<rest> .+)$/),
+  rule("event_remind", "create_event", 0.85, /^remind me(?: to| about| of| that)?(?<rest> .+)$/),
+  rule("event_meet", "create_event", 0.85, /^(?:(?:i am|we are|i will be|we will be|i will|we will) (?:meet|meeting|seeing|visiting|having|hosting|going to|attending|taking|doing)|meet|visit|attend)(?<rest> .+)$/),
+  rule("event_statement", "create_event", 0.7, /^(?:i have|i have got|i got|we have|there is|i need to go to|i need to attend|i am going to|i should go to) (?:a |an |my |the )?(?<rest>.+)$/),
+  rule("event_noun", "create_event", 0.6, new RegExp(`^(?<rest>(?:a |an |the |my )?(?:[a-z']+ ){0,3}(?:${EVENT_NOUNS})\\b.*)$`)),
+];
+
+// Normalization
+
+const CONTRACTIONS: [RegExp, string][] = [
+  [/\bwhat's\b/gi, "what is"],
+  [/\bwhats\b/gi, "what is"],
+  [/\bwhen's\b/gi, "when is"],
+  [/\bwhere's\b/gi, "where is"],
+  [/\bhow's\b/gi, "how is"],
+  [/\bthat's\b/gi, "that is"],
+  [/\bthere's\b/gi, "there is"],
+  [/\bit's\b/gi, "it is"],
+  [/\bi'm\b/gi, "i am"],
+  [/\bi've\b/gi, "i have"],
+  [/\bi'll\b/gi, "i will"],
+  [/\bi'd\b/gi, "i would"],
+  [/\bwe're\b/gi, "we are"],
+  [/\bwe've\b/gi, "we have"],
+  [/\blet's\b/gi, "let us"],
+  [/\bdon't\b/gi, "do not"],
+  [/\bdidn't\b/gi, "did not"],
+  [/\bcan't\b/gi, "cannot"],
+  [/\bwon't\b/gi, "will not"],
+  [/\bgonna\b/gi, "going to"],
+  [/\bwanna\b/gi, "want to"],
+  [/\bgotta\b/gi, "got to"],
+];
+
+const FILLER_PREFIX =
+  /^(?:(?:hey|hi|hello|um+|uh+|er+|erm|so|well|alright|right|ok|okay|pera|hey pera|ok pera|okay pera)[,.!]?\s+)+(?=\S)/i;
+const POLITE_PREFIX =
+  /^(?:(?:please|kindly|can you|could you|would you|will you|would you mind|i need you to|go ahead and|can i|could i|let us|help me|quickly)\s+)+/i;
+const WANT_PREFIX =
+  /^(?:i want to|i would like to|i wish to|i need to|i would love to|let me)\s+(?=(?:schedule|book|add|create|log|record|set|make|put|go|open|see|view|check|know|cancel|delete|remove|undo|track|enter|save|arrange|note|find out)\b)/i;
+
+/**
+ * Clean an utterance for parsing: expand contractions, drop fillers and
+ * politeness, and strip punctuation that isn't part of a number or time.
+ * Letter case is kept so slots can use the original spelling.
+ */
+const cleanEnglishUtterance = (text: string): string => {
+  let cleaned = text.replace(/[‘’]/g, "'").replace(/\s+/g, " ").trim();
+
+  CONTRACTIONS.forEach(([pattern, replacement]) => {
+    cleaned = cleaned.replace(pattern, replacement);
+  });
+
+  cleaned = cleaned
+    .replace(/[?!;"]+/g, " ")
+    .replace(/[.,](?=\s|$)/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  let previous: string;
+  do {
+    previous = cleaned;
+    cleaned = cleaned
+      .replace(FILLER_PREFIX, "")
+      .replace(POLITE_PREFIX, "")
+      .replace(WANT_PREFIX, "")
+      .replace(/\s+please$/i, "")
+      .trim();
+  } while (cleaned !== previous && cleaned.length > 0);
+
+  return cleaned || previous;
+};
+
+// Slot extraction helpers
+
+interface SpanResult {
+  text: string;
+  spans: string[];
+}
+
+// Remove every match of the patterns from the text, returning what was found
+const takeSpans = (text: string, patterns: RegExp[]): SpanResult => {
+  let remaining = ` ${text} `;
+  const spans: string[] = [];
+
+  patterns.forEach((pattern) => {
+    let match = remaining.match(pattern);
+    while (match && match.index !== undefined && match[0].trim()) {
+      spans.push(match[0].trim());
+      remaining = `${remaining.slice(0, match.index)} ${remaining.slice(match.index + match[0].length)}`;
+      match = remaining.match(pattern);
+    }
+  });
+
+  return { text: remaining.replace(/\s+/g, " ").trim(), spans };
+};
+
+const takeSpan = (text: string, pattern: RegExp): { text: string; span?: string } => {
+  const match = text.match(pattern);
+  if (!match || match.index === undefined) {
+    return { text };
+  }
+  const remaining = `${text.slice(0, match.index)} ${text.slice(match.index + match[0].length)}`;
+  return { text: remaining.replace(/\s+/g, " ").trim(), span: match[0].trim() };
+};
+
+const stripArticles = (text: string): string =>
+  text
+    .replace(/^(?:(?:a|an|the|my|our|some|new|this|that)\s+)+/i, "")
+    .replace(/\s+(?:on|at|for|from|to|with|and|in|by|of|about|,)\s*$/i, "")
+    .replace(/^(?:on|at|for|from|to|and|in|by|of)\s+/i, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const capitalize = (text: string): string =>
+  text ? text.charAt(0).toUpperCase() + text.slice(1) : text;
+
+/**
+ * Find date and time expressions in the text and return them separately
+ * along with the text that is left once they are removed
+ */
+const extractEnglishTemporalSlots = (text: string): TemporalSlots => {
+  const times = takeSpans(text, TIME_PATTERNS);
+  const dates = takeSpans(times.text, DATE_PATTERNS);
+  const result: TemporalSlots = { text: dates.text };
+
+  if (dates.spans.length > 0) result.dateText = dates.spans.join(" ");
+  if (times.spans.length > 0) result.timeText = times.spans.join(" ");
+  return result;
+};
+
+const findCategoryKeyword = (text: string): string | undefined => {
+  const lowerText = text.toLowerCase();
+  return CATEGORY_KEYWORDS.find((keyword) =>
+    new RegExp(`\\b${keyword}\\b`).test(lowerText)
+  );
+};
+
+// Slot extraction per intent
+
+const extractEventSlots = (rest: string): IntentSlots => {
+  const slots: IntentSlots = {};
+  let text = rest;
+
+  const allDay = takeSpan(text, /\b(?:all[- ]day|the whole day|all day long)\b/i);
+  text = allDay.text;
+  if (allDay.span) slots.isAllDay = true;
+
+  const duration = takeSpan(text, DURATION_PATTERN);
+  text = duration.text;
+  if (duration.span) slots.durationText = duration.span.replace(/^for /i, "");
+
+  const temporal = extractEnglishTemporalSlots(text);
+  text = temporal.text;
+  if (temporal.dateText) slots.dateText = temporal.dateText;
+  if (temporal.timeText) slots.timeText = temporal.timeText;
+
+  const named = text.match(/\b(?:called|titled|named|labelled|labeled)\s+(.+)$/i);
+  if (named) {
+    text = named[1]!;
+  }
+
+  const location = text.match(/\s(?:at|in)\s+(?:the\s+)?([^,]+?)\s*$/i);
+  if (location && !/^(?:person|town|office hours)$/i.test(location[1]!)) {
+    slots.location = location[1]!.trim();
+    text = text.slice(0, location.index).trim();
+  }
+
+  const attendee = text.match(/\bwith\s+((?:the\s+)?[\w'-]+(?:\s+(?:and|&)\s+[\w'-]+)*)/i);
+  if (attendee) {
+    slots.attendee = attendee[1]!.trim();
+  }
+
+  const title = stripArticles(
+    text
+      .replace(/^(?:(?:a|an|the|my|new)\s+)*(?:calendar event|event|entry|reminder)(?:\s+(?:for|to|about|called))?\s*/i, "")
+      .replace(/\s+(?:for|on|at)$/i, "")
+  );
+  if (title) slots.title = capitalize(title);
+
+  return slots;
+};
+
+const extractExpenseSlots = (rest: string): IntentSlots => {
+  const slots: IntentSlots = {};
+
+  const temporal = extractEnglishTemporalSlots(rest);
+  let text = temporal.text;
+  if (temporal.dateText) slots.dateText = temporal.dateText;
+
+  const amount = findSpokenAmount(text);
+  if (amount) {
+    slots.amountText = amount.text;
+    const index = text.indexOf(amount.text);
+    text = `${text.slice(0, index)} ${text.slice(index + amount.text.length)}`
+      .replace(/\s+/g, " ")
+      .trim()
+      // What led into a closing amount: "lunch for about"
+      .replace(/\s+(?:for|on)(?:\s+(?:about|around|like|roughly))?$/i, "");
+  }
+
+  const merchant = text.match(/\b(?:at|from)\s+([^,]+?)(?=\s+(?:for|on|today|yesterday)\b|$)/i);
+  if (merchant) {
+    slots.merchant = stripArticles(merchant[1]!);
+    text = `${text.slice(0, merchant.index)} ${text.slice(merchant.index! + merchant[0].length)}`.trim();
+  }
+
+  const purpose = text.match(/\b(?:for|on|towards|to)\s+(.+)$/i);
+  const description = stripArticles(
+    purpose
+      ? purpose[1]!
+      : text.replace(/^(?:of|an expense|expense|a purchase|purchase)\b\s*/i, "")
+  );
+  if (description) slots.description = description;
+
+  const category = findCategoryKeyword(`${description} ${slots.merchant || ""}`);
+  if (category) slots.category = category;
+
+  return slots;
+};
+
+const extractSpendingQuerySlots = (rest: string): IntentSlots => {
+  const slots: IntentSlots = {};
+  const temporal = extractEnglishTemporalSlots(rest);
+  if (temporal.dateText || temporal.timeText) {
+    slots.period = [temporal.dateText, temporal.timeText].filter(Boolean).join(" ");
+  }
+
+  const category = temporal.text.match(/\b(?:on|for|in)\s+(?:the\s+|my\s+)?([a-z][a-z &]*?)(?:\s+(?:category|budget))?\s*$/i);
+  if (category) {
+    slots.category = category[1]!.trim();
+  } else {
+    const keyword = findCategoryKeyword(temporal.text);
+    if (keyword) slots.category = keyword;
+  }
+
+  return slots;
+};
+
+const extractScheduleQuerySlots = (rest: string): IntentSlots => {
+  const slots: IntentSlots = {};
+  const temporal = extractEnglishTemporalSlots(rest);
+  if (temporal.dateText || temporal.timeText) {
+    slots.period = [temporal.dateText, temporal.timeText].filter(Boolean).join(" ");
+  }
+  if (temporal.dateText) slots.dateText = temporal.dateText;
+  if (temporal.timeText) slots.timeText = temporal.timeText;
+
+  const subject = stripArticles(
+    temporal.text
+      .replace(/^(?:(?:do i have|have i got|any|anything|something|planned|scheduled|on|in|for)(?:\s+|$))+/i, "")
+      .replace(/\s+(?:on|for|in)\s+(?:my\s+)?(?:calendar|schedule|agenda)$/i, "")
+      .replace(/^(?:my\s+)?(?:calendar|schedule|agenda)$/i, "")
+  );
+  if (subject) slots.subject = subject;
+
+  return slots;
+};
+
+const extractFindTimeSlots = (rest: string): IntentSlots => {
+  const slots: IntentSlots = {};
+
+  const length = takeSpan(rest, FREE_LENGTH_PATTERN);
+  if (length.span) {
+    const durationText = length.span
+      .toLowerCase()
+      .replace(/^for /, "")
+      .replace(/\b(?:free|spare|open|clear) /, "");
+    // "a free hour" leaves just "hour"
+    slots.durationText = /^(?:hours?|hrs?)\b/.test(durationText)
+      ? `an ${durationText}`
+      : durationText;
+  }
+
+  const temporal = extractEnglishTemporalSlots(length.text);
+  if (temporal.dateText || temporal.timeText) {
+    slots.period = [temporal.dateText, temporal.timeText].filter(Boolean).join(" ");
+  }
+  if (temporal.dateText) slots.dateText = temporal.dateText;
+  if (temporal.timeText) slots.timeText = temporal.timeText;
+
+  // Whatever is left names the event the time is for
+  const title = stripArticles(
+    temporal.text
+      .replace(
+        /^(?:(?:a|an|the|some|any|free|open|spare|good|available|time|slots?|window|gap|room|to|for|in)(?:\s+|$))+/i,
+        ""
+      )
+      .replace(/(?:\s+|^)(?:free|available|open)$/i, "")
+  );
+  if (title) slots.title = title;
+
+  return slots;
+};
+
+const extractCorrectionSlots = (rest: string, fieldWord?: string): IntentSlots => {
+  const field = fieldWord ? CORRECTION_WORDS[fieldWord] : undefined;
+  const value = stripArticles(rest);
+
+  if (field === "title" || field === "category" || field === "location") {
+    return value ? { field, [field]: value } : { field };
+  }
+
+  if (field !== "time" && field !== "date") {
+    const amount = findSpokenAmount(rest);
+    if (field === "amount" || (amount && amount.text.trim() === rest.trim())) {
+      return amount ? { field: "amount", amountText: amount.text } : { field: "amount" };
+    }
+  }
+
+  const temporal = extractEnglishTemporalSlots(rest);
+  if (temporal.dateText || temporal.timeText) {
+    return {
+      field: temporal.timeText ? "time" : "date",
+      ...(temporal.dateText && { dateText: temporal.dateText }),
+      ...(temporal.timeText && { timeText: temporal.timeText }),
+    };
+  }
+
+  return field ? { field } : value ? { description: value } : {};
+};
+
+const extractSlots = (
+  intent: VoiceIntent,
+  rest: string,
+  groups: { [name: string]: string | undefined }
+): IntentSlots => {
+  switch (intent) {
+    case "create_event":
+      return extractEventSlots(`${rest} ${groups.tail || ""}`.trim());
+    case "delete_event": {
+      const slots = extractEventSlots(rest);
+      return slots;
+    }
+    case "add_expense":
+    case "plan_expense":
+      return extractExpenseSlots(`${rest} ${groups.tail || ""}`.trim());
+    case "query_spending":
+      return extractSpendingQuerySlots(rest);
+    case "query_schedule":
+      return extractScheduleQuerySlots(rest);
+    case "find_time":
+      return extractFindTimeSlots(rest);
+    case "navigate":
+      return groups.screen ? { screen: SCREEN_WORDS[groups.screen]! } : {};
+    case "correct":
+      return extractCorrectionSlots(rest, groups.field);
+    case "deny":
+      return rest ? { description: rest } : {};
+    default:
+      return {};
+  }
+};
+
+// Scoring
+
+const getFeatures = (normalized: string): Features => ({
+  isQuestion: /^(?:what|when|where|which|who|how|do|does|did|am|is|are|was|were|have|has|will|should)\b/.test(normalized),
+  hasTemporal:
+    TIME_PATTERNS.some((pattern) => pattern.test(normalized)) ||
+    DATE_PATTERNS.some((pattern) => pattern.test(normalized)),
+  hasAmount:
+    AMOUNT_PATTERN.test(normalized) ||
+    new RegExp(`\\b(?:${CURRENCY_WORDS})\\b`).test(normalized) ||
+    new RegExp(` ${TRAILING_AMOUNT}$`).test(normalized),
+  hasEventNoun: new RegExp(`\\b(?:${EVENT_NOUNS})\\b`).test(normalized),
+  hasSpendingWord: new RegExp(`\\b(?:${SPENDING_WORDS})\\b`).test(normalized),
+});
+
+// Matches scoring below this after adjustment are too weak to act on
+const MIN_RULE_SCORE = 0.4;
+
+// Contextual evidence for or against a rule's intent
+const adjustScore = (intent: VoiceIntent, weight: number, features: Features): number => {
+  let score = weight;
+
+  switch (intent) {
+    case "create_event":
+      if (features.hasTemporal) score += 0.05;
+      if (features.hasAmount) score -= features.hasEventNoun ? 0.15 : 0.3;
+      if (features.hasSpendingWord) score -= features.hasEventNoun ? 0.1 : 0.2;
+      if (features.isQuestion) score -= 0.3;
+      break;
+    case "add_expense":
+      if (features.hasAmount) score += 0.05;
+      if (!features.hasAmount && !features.hasSpendingWord) score -= 0.1;
+      if (features.isQuestion) score -= 0.3;
+      break;
+    case "plan_expense":
+      if (features.hasAmount) score += 0.03;
+      if (features.hasTemporal) score += 0.03;
+      if (features.isQuestion) score -= 0.3;
+      break;
+    case "query_spending":
+    case "query_schedule":
+    case "find_time":
+      if (features.isQuestion) score += 0.03;
+      break;
+    case "delete_event":
+      if (features.hasAmount) score -= 0.2;
+      break;
+  }
+
+  return Math.max(0, Math.min(1, score));
+};
+
+// How much of what the intent needs was actually found
+const getSlotCompleteness = (intent: VoiceIntent, slots: IntentSlots): number => {
+  switch (intent) {
+    case "create_event":
+      return (slots.title ? 0.5 : 0) + (slots.dateText || slots.timeText ? 0.5 : 0.2);
+    case "add_expense":
+    case "plan_expense":
+      return (slots.amountText ? 0.6 : 0.1) + (slots.description || slots.category ? 0.4 : 0.2);
+    case "navigate":
+      return slots.screen ? 1 : 0.3;
+    case "correct":
+      return slots.field ? 1 : 0.4;
+    default:
+      return 1;
+  }
+};
+
+// Languages
+
+const ENGLISH_GRAMMAR: LocaleGrammar = {
+  rules: GRAMMAR,
+  cleanUtterance: cleanEnglishUtterance,
+  normalize: (cleaned) => cleaned.toLowerCase(),
+  getFeatures,
+  extractSlots,
+  extractTemporalSlots: extractEnglishTemporalSlots,
+  extractAmount: (text) => findSpokenAmount(text)?.text,
+};
+
+const LOCALE_GRAMMARS: { [language in ParserLanguage]: LocaleGrammar } = {
+  en: ENGLISH_GRAMMAR,
+  es: spanishGrammar,
+  fr: frenchGrammar,
+};
+
+/**
+ * The parser language for a language setting like "es" or "es-ES". Languages
+ * without a grammar fall back to English.
+ */
+export const getParserLanguage = (language?: string | null): ParserLanguage => {
+  const code = (language || "en").toLowerCase().split(/[-_]/)[0]!;
+  return code in LOCALE_GRAMMARS ? (code as ParserLanguage) : "en";
+};
+
+const getGrammar = (language?: string | null): LocaleGrammar =>
+  LOCALE_GRAMMARS[getParserLanguage(language)];
+
+/**
+ * Strip greetings, politeness and filler from an utterance
+ */
+export const cleanUtterance = (text: string, language?: string | null): string =>
+  getGrammar(language).cleanUtterance(text);
+
+/**
+ * Find date and time expressions in the text and return them separately
+ * along with the text that is left once they are removed. Other languages
+ * return the expressions in English, ready for the date resolvers.
+ */
+export const extractTemporalSlots = (text: string, language?: string | null): TemporalSlots =>
+  getGrammar(language).extractTemporalSlots(text);
+
+/**
+ * Find a spoken amount in the text, as an amountText slot
+ */
+export const extractAmountText = (text: string, language?: string | null): string | undefined =>
+  getGrammar(language).extractAmount(text);
+
+/**
+ * Parse an utterance into an intent with slots. Every grammar rule that
+ * matches competes on its weight, adjusted by contextual evidence; the
+ * confidence reflects both the winning margin and how complete the slots are.
+ */
+export const parseIntent = (text: string, language?: string | null): ParsedIntent => {
+  const grammar = getGrammar(language);
+  const cleaned = grammar.cleanUtterance(text);
+  const normalized = grammar.normalize(cleaned);
+  const features = grammar.getFeatures(normalized);
+
+  const candidates = grammar.rules.map((grammarRule) => {
+    const match = normalized.match(grammarRule.pattern);
+    if (!match) return null;
+    return {
+      rule: grammarRule,
+      match,
+      score: adjustScore(grammarRule.intent, grammarRule.weight, features),
+    };
+  })
+    .filter(
+      (candidate): candidate is NonNullable<typeof candidate> =>
+        candidate !== null && candidate.score >= MIN_RULE_SCORE
+    )
+    .sort((a, b) => b.score - a.score);
+
+  // Best score per intent, for the margin and for callers that want to disambiguate
+  const alternatives: { intent: VoiceIntent; score: number }[] = [];
+  candidates.forEach((candidate) => {
+    if (!alternatives.some((alternative) => alternative.intent === candidate.rule.intent)) {
+      alternatives.push({
+        intent: candidate.rule.intent,
+        score: Math.round(candidate.score * 100) / 100,
+      });
+    }
+  });
+
+  const best = candidates[0];
+  if (!best) {
+    return { intent: "unknown", slots: {}, confidence: 0, rule: null, alternatives };
+  }
+
+  // Normalizing keeps offsets, so the groups can be mapped back onto the
+  // original spelling. The tail always ends the utterance and rest comes before it.
+  const groups = best.match.groups || {};
+  const tailLength = groups.tail?.length || 0;
+  const tail = cleaned.slice(cleaned.length - tailLength).trim();
+  let rest = "";
+  if (groups.rest) {
+    const restStart = normalized.lastIndexOf(
+      groups.rest,
+      normalized.length - tailLength - groups.rest.length
+    );
+    rest = cleaned.slice(restStart, restStart + groups.rest.length).trim();
+  }
+  const slots = grammar.extractSlots(best.rule.intent, rest, { ...groups, tail });
+
+  const runnerUp = alternatives[1]?.score || 0;
+  const margin = best.score - 0.35 * runnerUp;
+  const completeness = getSlotCompleteness(best.rule.intent, slots);
+  const confidence = Math.max(0.05, Math.min(0.99, margin * (0.6 + 0.4 * completeness)));
+
+  return {
+    intent: best.rule.intent,
+    slots,
+    confidence: Math.round(confidence * 100) / 100,
+    rule: best.rule.name,
+    alternatives,
+  };
+};
+
+export default {
+  cleanUtterance,
+  extractAmountText,
+  extractTemporalSlots,
+  getParserLanguage,
+  parseIntent,
+};
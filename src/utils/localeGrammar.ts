@@ -0,0 +1,463 @@
+import { IntentSlots, NavigationTarget, VoiceIntent } from "./intentParser";
+
+// Building blocks for the grammars of each language voice commands can be
+// spoken in. English is parsed natively by intentParser; other languages
+// translate their date, time, duration and amount expressions into the
+// English ones that naturalDate and spokenAmount already resolve.
+
+export interface GrammarRule {
+  name: string;
+  intent: VoiceIntent;
+  weight: number;
+  // Matched against the normalized utterance. A trailing "rest" group holds
+  // the part of the utterance that slots are extracted from.
+  pattern: RegExp;
+}
+
+export interface Features {
+  isQuestion: boolean;
+  hasTemporal: boolean;
+  hasAmount: boolean;
+  hasEventNoun: boolean;
+  hasSpendingWord: boolean;
+}
+
+export interface TemporalSlots {
+  text: string; // What is left once the expressions are removed
+  dateText?: string;
+  timeText?: string;
+}
+
+export interface LocaleGrammar {
+  rules: GrammarRule[];
+  cleanUtterance: (text: string) => string;
+  // Lowercase form the rules match against. Every character keeps its
+  // offset, so matches can be mapped back onto the original spelling.
+  normalize: (cleaned: string) => string;
+  getFeatures: (normalized: string) => Features;
+  extractSlots: (
+    intent: VoiceIntent,
+    rest: string,
+    groups: { [name: string]: string | undefined }
+  ) => IntentSlots;
+  extractTemporalSlots: (text: string) => TemporalSlots;
+  extractAmount: (text: string) => string | undefined; // As an amountText slot
+}
+
+// An expression in the locale and the English it means, e.g. "el próximo
+// martes" is "next tuesday". Patterns are matched without accents.
+export interface TranslationRule {
+  pattern: RegExp;
+  translate: (match: RegExpMatchArray) => string | null;
+}
+
+export interface LocaleDefinition {
+  rules: GrammarRule[];
+  leadingFillers: RegExp[]; // Greetings and politeness, removed until none are left
+  trailingFillers: RegExp;
+  questionStart: RegExp;
+  eventNouns: string;
+  spendingWords: string;
+  numberWords: { [word: string]: number };
+  currencies: { [word: string]: string }; // Currency word or symbol to English
+  minorUnits: string; // Cents, e.g. "centimos"
+  screens: { [word: string]: NavigationTarget };
+  categories: { [word: string]: string }; // Spending word to an English category keyword
+  dateRules: TranslationRule[];
+  timeRules: TranslationRule[]; // Run before the date rules
+  durationRules: TranslationRule[];
+  allDay: RegExp;
+  named: RegExp; // "called ...", the title follows
+  location: RegExp; // At the end of the event text; group 1 is the place
+  attendee: RegExp; // Group 1 is who the event is with
+  merchant: RegExp; // Matched against the original spelling; group 1 is the shop
+  purpose: RegExp; // Group 1 is what the money was for
+  articles: string; // Leading articles and determiners, e.g. "el|la|una"
+  elisions?: string; // Articles joined to the next word, e.g. "l'|d'"
+  connectors: string; // Prepositions left dangling at either end
+}
+
+export const rule = (
+  name: string,
+  intent: VoiceIntent,
+  weight: number,
+  pattern: RegExp
+): GrammarRule => ({ name, intent, weight, pattern });
+
+/**
+ * Drop accents without changing the length of the text, so "mañana" and
+ * "manana" match the same patterns. Expects NFC text.
+ */
+export const foldAccents = (text: string): string =>
+  text.normalize("NFD").replace(/[̀-ͯ]/g, "");
+
+const fold = (text: string): string => foldAccents(text.toLowerCase());
+
+const escapeWord = (word: string): string => word.replace(/[$€£.*+?^()|[\]\\]/g, "\\$&");
+
+const byLength = (words: string[]): string[] => [...words].sort((a, b) => b.length - a.length);
+
+/**
+ * Pattern source for a number written in digits or number words, including
+ * compounds like "treinta y cinco" or "vingt-deux"
+ */
+export const buildNumberPattern = (words: { [word: string]: number }): string => {
+  const word = byLength(Object.keys(words)).map(escapeWord).join("|");
+  return `(?:\\d+|(?:${word})(?:(?: y | et |-| )(?:${word}))*)`;
+};
+
+/**
+ * Read a number written in digits or number words, or null when it isn't one
+ */
+export const readNumber = (
+  text: string,
+  words: { [word: string]: number }
+): number | null => {
+  const trimmed = fold(text.trim());
+  if (/^\d+$/.test(trimmed)) return parseInt(trimmed, 10);
+  if (trimmed in words) return words[trimmed]!;
+
+  const parts = trimmed.split(/ y | et |-| /).filter(Boolean);
+  if (!parts.every((part) => part in words)) return null;
+
+  let total = 0;
+  let current = 0;
+  parts.forEach((part) => {
+    const value = words[part]!;
+    if (value >= 1000) {
+      total += (current || 1) * value;
+      current = 0;
+    } else if (value === 100 && current > 0) {
+      current *= 100;
+    } else {
+      current += value;
+    }
+  });
+  return total + current;
+};
+
+/**
+ * A count of units in English, e.g. "1 hour" or "3 days"
+ */
+export const formatQuantity = (count: number, units: string): string =>
+  `${count} ${count === 1 ? units.replace(/s$/, "") : units}`;
+
+/**
+ * A clock time as the English time parser reads it. Whole hours without a
+ * part of the day are left bare, so the usual guess about am and pm applies.
+ */
+export const formatClockTime = (
+  hours: number,
+  minutes: number,
+  meridiem?: "am" | "pm"
+): string => {
+  const suffix = meridiem && hours <= 12 ? ` ${meridiem}` : "";
+  return minutes === 0 && !suffix
+    ? `${hours}`
+    : `${hours}:${minutes.toString().padStart(2, "0")}${suffix}`;
+};
+
+// Remove every match of the rules, returning their English translations
+const takeTranslatedSpans = (
+  text: string,
+  rules: TranslationRule[]
+): { text: string; spans: string[] } => {
+  let remaining = ` ${text} `;
+  const spans: string[] = [];
+
+  rules.forEach(({ pattern, translate }) => {
+    let searchFrom = 0;
+    let match = fold(remaining).slice(searchFrom).match(pattern);
+    while (match && match.index !== undefined && match[0].trim()) {
+      const index = searchFrom + match.index;
+      const translated = translate(match);
+      if (translated === null) {
+        // Not what it looked like; look further on
+        searchFrom = index + match[0].length;
+      } else {
+        spans.push(translated);
+        remaining = `${remaining.slice(0, index)} ${remaining.slice(index + match[0].length)}`;
+      }
+      match = fold(remaining).slice(searchFrom).match(pattern);
+    }
+  });
+
+  return { text: remaining.replace(/\s+/g, " ").trim(), spans };
+};
+
+const takeSpan = (text: string, pattern: RegExp): { text: string; span?: string } => {
+  const match = fold(text).match(pattern);
+  if (!match || match.index === undefined) {
+    return { text };
+  }
+  const remaining = `${text.slice(0, match.index)} ${text.slice(match.index + match[0].length)}`;
+  return {
+    text: remaining.replace(/\s+/g, " ").trim(),
+    span: text.slice(match.index, match.index + match[0].length).trim(),
+  };
+};
+
+// Where group 1 of a match starts, for patterns whose group ends the match
+const getGroupStart = (match: RegExpMatchArray): number =>
+  match.index! + match[0].length - match[1]!.length;
+
+const capitalize = (text: string): string =>
+  text ? text.charAt(0).toUpperCase() + text.slice(1) : text;
+
+/**
+ * Build the grammar for a language from its definition
+ */
+export const createLocaleGrammar = (definition: LocaleDefinition): LocaleGrammar => {
+  const {
+    numberWords,
+    currencies,
+    screens,
+    categories,
+  } = definition;
+
+  const NUMBER = buildNumberPattern(numberWords);
+  const CURRENCY = byLength(Object.keys(currencies)).map(escapeWord).join("|");
+  const SYMBOL = Object.keys(currencies)
+    .filter((word) => /^[$€£]$/.test(word))
+    .map(escapeWord)
+    .join("");
+  // "12,50 €", "€12.50", "1.200 euros", "doce euros con cincuenta"
+  const AMOUNT = new RegExp(
+    `(?:([${SYMBOL}]) ?)?(\\d{1,3}(?:[. ]\\d{3})+(?:,\\d{1,2})?|\\d+(?:[.,]\\d{1,2})?|${NUMBER})(?: ?(${CURRENCY})(?![a-z])(?: (?:con |y |et )?(\\d{1,2}|${NUMBER})(?: (?:${definition.minorUnits}))?(?![a-z]))?)?`,
+    "g"
+  );
+  const CATEGORY_WORDS = byLength(Object.keys(categories));
+  const LEADING_WORDS = new RegExp(
+    `^(?:(?:${definition.articles}|${definition.connectors})\\s+${
+      definition.elisions ? `|(?:${definition.elisions})` : ""
+    })`
+  );
+  const TRAILING_WORDS = new RegExp(`\\s(?:${definition.connectors})$`);
+
+  const cleanUtterance = (text: string): string => {
+    let cleaned = text
+      .normalize("NFC")
+      .replace(/[‘’]/g, "'")
+      .replace(/[¿¡?!;"«»]+/g, " ")
+      .replace(/[.,](?=\s|$)/g, " ")
+      .replace(/\s+/g, " ")
+      .trim();
+
+    let previous: string;
+    do {
+      previous = cleaned;
+      definition.leadingFillers.forEach((pattern) => {
+        const match = fold(cleaned).match(pattern);
+        if (match && match[0].length < cleaned.length) {
+          cleaned = cleaned.slice(match[0].length).trim();
+        }
+      });
+      const trailing = fold(cleaned).match(definition.trailingFillers);
+      if (trailing && trailing.index) {
+        cleaned = cleaned.slice(0, trailing.index).trim();
+      }
+    } while (cleaned !== previous);
+
+    return cleaned;
+  };
+
+  // Amounts with their position, so they can be cut out of the text
+  const findAmount = (text: string): { amountText: string; index: number; length: number } | null => {
+    const folded = fold(text);
+    const pattern = new RegExp(AMOUNT.source, "g");
+    let best: { amountText: string; index: number; length: number; score: number } | null = null;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(folded)) !== null) {
+      if (!match[0].trim()) {
+        pattern.lastIndex++;
+        continue;
+      }
+      const [raw, symbol, number, currencyWord, minor] = match;
+      const currency = symbol || currencyWord;
+      // Bare number words are usually articles ("una reunión"), not prices,
+      // unless they are all that was said
+      if (!currency && !/\d/.test(number!) && raw.trim() !== folded.trim()) continue;
+      // Numbers glued to a word belong to it, e.g. "15h"
+      if (/^[a-z]/.test(folded.slice(match.index + raw.length))) continue;
+
+      let value = /\d/.test(number!)
+        ? parseFloat(
+            /^\d{1,3}(?:[. ]\d{3})+/.test(number!) && !/^\d{1,3}[.]\d{1,2}$/.test(number!)
+              ? number!.replace(/[. ](?=\d{3})/g, "").replace(",", ".")
+              : number!.replace(",", ".")
+          )
+        : readNumber(number!, numberWords);
+      if (value === null || isNaN(value) || value <= 0) continue;
+      if (minor) {
+        const cents = readNumber(minor, numberWords);
+        if (cents !== null && cents < 100) value += cents / 100;
+      }
+
+      const rounded = Math.round(value * 100) / 100;
+      const amountText = `${Number.isInteger(rounded) ? rounded : rounded.toFixed(2)}${
+        currency ? ` ${currencies[currency]}` : ""
+      }`;
+      const score = (currency ? 3 : 1) + (/[.,]\d{2}$/.test(number!) ? 0.5 : 0);
+      if (!best || score > best.score) {
+        best = { amountText, index: match.index, length: raw.trimEnd().length, score };
+      }
+    }
+
+    return best && { amountText: best.amountText, index: best.index, length: best.length };
+  };
+
+  const extractTemporalSlots = (text: string): TemporalSlots => {
+    const times = takeTranslatedSpans(text, definition.timeRules);
+    const dates = takeTranslatedSpans(times.text, definition.dateRules);
+    const result: TemporalSlots = { text: dates.text };
+
+    if (dates.spans.length > 0) result.dateText = dates.spans.join(" ");
+    if (times.spans.length > 0) result.timeText = times.spans.join(" ");
+    return result;
+  };
+
+  const stripArticles = (text: string): string => {
+    let stripped = text.replace(/\s+/g, " ").trim();
+    let previous: string;
+    do {
+      previous = stripped;
+      const leading = fold(stripped).match(LEADING_WORDS);
+      if (leading && leading[0].length < stripped.length) {
+        stripped = stripped.slice(leading[0].length).trim();
+        continue;
+      }
+      const trailing = fold(stripped).match(TRAILING_WORDS);
+      if (trailing && trailing.index) {
+        stripped = stripped.slice(0, trailing.index).trim();
+      }
+    } while (stripped !== previous && stripped.length > 0);
+    return stripped;
+  };
+
+  const findCategory = (text: string): string | undefined => {
+    const folded = fold(text);
+    const word = CATEGORY_WORDS.find((keyword) =>
+      new RegExp(`(?:^|[^a-z])${escapeWord(keyword)}(?![a-z])`).test(folded)
+    );
+    return word ? categories[word] : undefined;
+  };
+
+  const extractEventSlots = (rest: string): IntentSlots => {
+    const slots: IntentSlots = {};
+    let text = rest;
+
+    const allDay = takeSpan(text, definition.allDay);
+    text = allDay.text;
+    if (allDay.span) slots.isAllDay = true;
+
+    const duration = takeTranslatedSpans(text, definition.durationRules);
+    text = duration.text;
+    if (duration.spans.length > 0) slots.durationText = duration.spans[0]!;
+
+    const temporal = extractTemporalSlots(text);
+    text = temporal.text;
+    if (temporal.dateText) slots.dateText = temporal.dateText;
+    if (temporal.timeText) slots.timeText = temporal.timeText;
+
+    const named = fold(text).match(definition.named);
+    if (named) {
+      text = text.slice(getGroupStart(named));
+    }
+
+    const location = fold(text).match(definition.location);
+    if (location) {
+      slots.location = text.slice(getGroupStart(location)).trim();
+      text = text.slice(0, location.index).trim();
+    }
+
+    const attendee = fold(text).match(definition.attendee);
+    if (attendee) {
+      const start = attendee.index! + attendee[0].indexOf(attendee[1]!);
+      slots.attendee = text.slice(start, start + attendee[1]!.length).trim();
+    }
+
+    const title = stripArticles(text);
+    if (title) slots.title = capitalize(title);
+
+    return slots;
+  };
+
+  const extractExpenseSlots = (rest: string): IntentSlots => {
+    const slots: IntentSlots = {};
+
+    const temporal = extractTemporalSlots(rest);
+    let text = temporal.text;
+    if (temporal.dateText) slots.dateText = temporal.dateText;
+
+    const amount = findAmount(text);
+    if (amount) {
+      slots.amountText = amount.amountText;
+      text = `${text.slice(0, amount.index)} ${text.slice(amount.index + amount.length)}`
+        .replace(/\s+/g, " ")
+        .trim();
+    }
+
+    const merchant = text.match(definition.merchant);
+    if (merchant && merchant.index !== undefined) {
+      slots.merchant = stripArticles(merchant[1]!);
+      text = `${text.slice(0, merchant.index)} ${text.slice(merchant.index + merchant[0].length)}`
+        .replace(/\s+/g, " ")
+        .trim();
+    }
+
+    const purpose = fold(text).match(definition.purpose);
+    const description = stripArticles(purpose ? text.slice(getGroupStart(purpose)) : text);
+    if (description) slots.description = description;
+
+    const category = findCategory(`${description} ${slots.merchant || ""}`);
+    if (category) slots.category = category;
+
+    return slots;
+  };
+
+  const extractSlots = (
+    intent: VoiceIntent,
+    rest: string,
+    groups: { [name: string]: string | undefined }
+  ): IntentSlots => {
+    switch (intent) {
+      case "create_event":
+        return extractEventSlots(`${rest} ${groups.tail || ""}`.trim());
+      case "add_expense":
+      case "plan_expense":
+        return extractExpenseSlots(`${rest} ${groups.tail || ""}`.trim());
+      case "navigate":
+        return groups.screen && screens[groups.screen]
+          ? { screen: screens[groups.screen]! }
+          : {};
+      case "deny":
+        return rest ? { description: rest } : {};
+      default:
+        return {};
+    }
+  };
+
+  const getFeatures = (normalized: string): Features => {
+    const amount = findAmount(normalized);
+    return {
+      isQuestion: definition.questionStart.test(normalized),
+      hasTemporal: [...definition.timeRules, ...definition.dateRules].some(({ pattern }) =>
+        pattern.test(` ${normalized} `)
+      ),
+      hasAmount: !!amount && (/[a-z$€£]/.test(amount.amountText) || amount.amountText.includes(".")),
+      hasEventNoun: new RegExp(`(?:^|[^a-z])(?:${definition.eventNouns})(?![a-z])`).test(normalized),
+      hasSpendingWord: new RegExp(`(?:^|[^a-z])(?:${definition.spendingWords})(?![a-z])`).test(normalized),
+    };
+  };
+
+  return {
+    rules: definition.rules,
+    cleanUtterance,
+    normalize: fold,
+    getFeatures,
+    extractSlots,
+    extractTemporalSlots,
+    extractAmount: (text) => findAmount(text)?.amountText,
+  };
+};
@@ -0,0 +1,752 @@
+import { getLocalTimezone, getZonedDateParts, zonedTimeToUtc } from "./dateTime";
+
+// Natural-language date and time expressions ("next Tuesday", "half past 4",
+// "end of the month"), resolved in the user's time zone
+
+export interface CalendarDay {
+  year: number;
+  month: number; // 0-11, like Date
+  day: number;
+}
+
+export interface TimeOfDay {
+  hours: number; // 0-23
+  minutes: number;
+}
+
+export type DayPart = "morning" | "afternoon" | "evening" | "night";
+
+export interface NaturalDateOptions {
+  now?: Date;
+  timeZone?: string;
+  // Resolve bare weekdays and dates backwards, for questions about the past
+  preferPast?: boolean;
+}
+
+export interface ResolvedDateTime {
+  startTime: string; // ISO string
+  endTime: string; // ISO string
+  isAllDay: boolean;
+}
+
+export interface ResolvedDateRange {
+  start: string; // ISO string, inclusive
+  end: string; // ISO string, exclusive
+}
+
+export interface DateTimeText {
+  dateText?: string;
+  timeText?: string;
+  durationText?: string;
+  isAllDay?: boolean;
+}
+
+const DEFAULT_DURATION_MINUTES = 60;
+
+// Times used when only part of the day is given ("tomorrow evening")
+const DAY_PART_TIMES: { [part in DayPart]: TimeOfDay } = {
+  morning: { hours: 9, minutes: 0 },
+  afternoon: { hours: 14, minutes: 0 },
+  evening: { hours: 18, minutes: 0 },
+  night: { hours: 20, minutes: 0 },
+};
+
+const WEEKDAY_NAMES: { [name: string]: number } = {
+  sunday: 0, sun: 0,
+  monday: 1, mon: 1,
+  tuesday: 2, tue: 2, tues: 2,
+  wednesday: 3, wed: 3,
+  thursday: 4, thu: 4, thur: 4, thurs: 4,
+  friday: 5, fri: 5,
+  saturday: 6, sat: 6,
+};
+
+const MONTH_NAMES: { [name: string]: number } = {
+  january: 0, jan: 0,
+  february: 1, feb: 1,
+  march: 2, mar: 2,
+  april: 3, apr: 3,
+  may: 4,
+  june: 5, jun: 5,
+  july: 6, jul: 6,
+  august: 7, aug: 7,
+  september: 8, sep: 8, sept: 8,
+  october: 9, oct: 9,
+  november: 10, nov: 10,
+  december: 11, dec: 11,
+};
+
+const NUMBER_VALUES: { [word: string]: number } = {
+  a: 1, an: 1, one: 1, "a couple of": 2, "a couple": 2, "a few": 3,
+  two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15,
+  sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19, twenty: 20,
+  thirty: 30, forty: 40, "forty five": 45, "forty-five": 45, fifty: 50,
+  sixty: 60, ninety: 90,
+};
+
+const ORDINAL_VALUES: { [word: string]: number } = {
+  first: 1, second: 2, third: 3, fourth: 4, fifth: 5, sixth: 6, seventh: 7,
+  eighth: 8, ninth: 9, tenth: 10, eleventh: 11, twelfth: 12, thirteenth: 13,
+  fourteenth: 14, fifteenth: 15, sixteenth: 16, seventeenth: 17,
+  eighteenth: 18, nineteenth: 19, twentieth: 20, thirtieth: 30,
+};
+
+const WEEKDAY = Object.keys(WEEKDAY_NAMES).join("|");
+const MONTH = Object.keys(MONTH_NAMES).join("|");
+const NUMBER = `\\d+|${Object.keys(NUMBER_VALUES).sort((a, b) => b.length - a.length).join("|")}`;
+const ORDINAL = `\\d{1,2}(?:st|nd|rd|th)?|(?:twenty|thirty)[- ](?:${Object.keys(ORDINAL_VALUES).slice(0, 9).join("|")})|${Object.keys(ORDINAL_VALUES).join("|")}`;
+const HOUR_WORDS = "one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve";
+
+// Parsing helpers
+
+const parseNumber = (text: string): number | null => {
+  const trimmed = text.trim().toLowerCase();
+  if (/^\d+(?:\.\d+)?$/.test(trimmed)) return parseFloat(trimmed);
+  return NUMBER_VALUES[trimmed] ?? null;
+};
+
+const parseOrdinal = (text: string): number | null => {
+  const trimmed = text.trim().toLowerCase();
+  const digits = trimmed.match(/^(\d{1,2})(?:st|nd|rd|th)?$/);
+  if (digits) return parseInt(digits[1]!, 10);
+
+  const compound = trimmed.match(/^(twenty|thirty)[- ](\w+)$/);
+  if (compound) {
+    const unit = ORDINAL_VALUES[compound[2]!];
+    return unit ? (compound[1] === "twenty" ? 20 : 30) + unit : null;
+  }
+
+  return ORDINAL_VALUES[trimmed] ?? null;
+};
+
+const normalize = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[,.](?=\s|$)/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// Calendar arithmetic, done in UTC so DST never shifts a day
+
+const toUtcDate = (day: CalendarDay): Date =>
+  new Date(Date.UTC(day.year, day.month, day.day));
+
+const fromUtcDate = (date: Date): CalendarDay => ({
+  year: date.getUTCFullYear(),
+  month: date.getUTCMonth(),
+  day: date.getUTCDate(),
+});
+
+const addCalendarDays = (day: CalendarDay, days: number): CalendarDay =>
+  fromUtcDate(new Date(Date.UTC(day.year, day.month, day.day + days)));
+
+const addCalendarMonths = (day: CalendarDay, months: number): CalendarDay => {
+  // Clamp to the end of shorter months (Jan 31 + 1 month = Feb 28)
+  const lastDay = new Date(Date.UTC(day.year, day.month + months + 1, 0)).getUTCDate();
+  return fromUtcDate(
+    new Date(Date.UTC(day.year, day.month + months, Math.min(day.day, lastDay)))
+  );
+};
+
+const getWeekday = (day: CalendarDay): number => toUtcDate(day).getUTCDay();
+
+const compareDays = (a: CalendarDay, b: CalendarDay): number =>
+  toUtcDate(a).getTime() - toUtcDate(b).getTime();
+
+// Weeks start on Monday, matching startOfWeek
+const getWeekStart = (day: CalendarDay): CalendarDay =>
+  addCalendarDays(day, -((getWeekday(day) + 6) % 7));
+
+const getMonthEnd = (day: CalendarDay): CalendarDay =>
+  fromUtcDate(new Date(Date.UTC(day.year, day.month + 1, 0)));
+
+const getToday = (options: NaturalDateOptions): CalendarDay => {
+  const parts = getZonedDateParts(
+    options.now || new Date(),
+    options.timeZone || getLocalTimezone()
+  );
+  return { year: parts.year, month: parts.month, day: parts.day };
+};
+
+const addUnits = (day: CalendarDay, amount: number, unit: string): CalendarDay => {
+  if (unit.startsWith("week")) return addCalendarDays(day, amount * 7);
+  if (unit.startsWith("month")) return addCalendarMonths(day, amount);
+  if (unit.startsWith("year")) return addCalendarMonths(day, amount * 12);
+  return addCalendarDays(day, amount);
+};
+
+// Pick the year for a month and day given without one
+const resolveYear = (
+  month: number,
+  dayOfMonth: number,
+  today: CalendarDay,
+  preferPast?: boolean
+): CalendarDay => {
+  const candidate = { year: today.year, month, day: dayOfMonth };
+  if (preferPast) {
+    return compareDays(candidate, today) > 0
+      ? { ...candidate, year: today.year - 1 }
+      : candidate;
+  }
+  return compareDays(candidate, today) < 0
+    ? { ...candidate, year: today.year + 1 }
+    : candidate;
+};
+
+const resolveWeekday = (
+  weekday: number,
+  modifier: string | undefined,
+  today: CalendarDay,
+  preferPast?: boolean
+): CalendarDay => {
+  const todayWeekday = getWeekday(today);
+  const daysAhead = (weekday - todayWeekday + 7) % 7;
+
+  switch (modifier) {
+    case "next": {
+      // The one in the following week, so "next Friday" on a Monday is 11 days out
+      const thisWeek = addCalendarDays(getWeekStart(today), (weekday + 6) % 7);
+      return addCalendarDays(thisWeek, 7);
+    }
+    case "last":
+      return addCalendarDays(today, -(((todayWeekday - weekday + 7) % 7) || 7));
+    case "coming":
+    case "this coming":
+      return addCalendarDays(today, daysAhead || 7);
+    default:
+      if (preferPast) {
+        return addCalendarDays(today, -((todayWeekday - weekday + 7) % 7));
+      }
+      return addCalendarDays(today, daysAhead);
+  }
+};
+
+const isValidDay = (day: CalendarDay): boolean => {
+  const date = toUtcDate(day);
+  return date.getUTCMonth() === day.month && date.getUTCDate() === day.day;
+};
+
+/**
+ * Find the part of day mentioned in a date or time expression
+ */
+export const getDayPart = (text: string): DayPart | undefined => {
+  const match = normalize(text).match(/\b(morning|afternoon|evening|night|tonight)\b/);
+  if (!match) return undefined;
+  return match[1] === "tonight" ? "night" : (match[1] as DayPart);
+};
+
+// Date expressions
+
+type DateRule = [
+  RegExp,
+  (match: RegExpMatchArray, today: CalendarDay, options: NaturalDateOptions) => CalendarDay | null
+];
+
+const DATE_RULES: DateRule[] = [
+  [/^(?:the )?day after tomorrow\b/, (_, today) => addCalendarDays(today, 2)],
+  [/^(?:the )?day before yesterday\b/, (_, today) => addCalendarDays(today, -2)],
+  [/^(?:today|tonight|this (?:morning|afternoon|evening))\b/, (_, today) => today],
+  [/^(?:tomorrow|tmrw)\b/, (_, today) => addCalendarDays(today, 1)],
+  [/^yesterday\b/, (_, today) => addCalendarDays(today, -1)],
+  [
+    new RegExp(`^(?:in|within) (${NUMBER}) (day|week|month|year)s?\\b`),
+    (match, today) => {
+      const amount = parseNumber(match[1]!);
+      return amount === null ? null : addUnits(today, amount, match[2]!);
+    },
+  ],
+  [
+    new RegExp(`^(${NUMBER}) (day|week|month|year)s? (from now|from today|from tomorrow|ago)\\b`),
+    (match, today) => {
+      const amount = parseNumber(match[1]!);
+      if (amount === null) return null;
+      if (match[3] === "ago") return addUnits(today, -amount, match[2]!);
+      const base = match[3] === "from tomorrow" ? addCalendarDays(today, 1) : today;
+      return addUnits(base, amount, match[2]!);
+    },
+  ],
+  [
+    /^(?:the )?(end|start|beginning|middle) of (?:the |this )?(next )?(week|month|year)\b/,
+    (match, today) => {
+      const [, position, next, unit] = match;
+      if (unit === "week") {
+        const start = addCalendarDays(getWeekStart(today), next ? 7 : 0);
+        // The working week ends on Friday
+        if (position === "end") return addCalendarDays(start, 4);
+        if (position === "middle") return addCalendarDays(start, 2);
+        return start;
+      }
+      if (unit === "month") {
+        const month = addCalendarMonths({ ...today, day: 1 }, next ? 1 : 0);
+        if (position === "end") return getMonthEnd(month);
+        if (position === "middle") return { ...month, day: 15 };
+        return month;
+      }
+      const year = today.year + (next ? 1 : 0);
+      if (position === "end") return { year, month: 11, day: 31 };
+      if (position === "middle") return { year, month: 5, day: 30 };
+      return { year, month: 0, day: 1 };
+    },
+  ],
+  [
+    new RegExp(`^(?:(this coming|this|next|last|coming) )?(${WEEKDAY})s?\\b(?: (?:morning|afternoon|evening|night))?(?: (this|next) week)?`),
+    (match, today, options) => {
+      const weekday = WEEKDAY_NAMES[match[2]!]!;
+      const modifier = match[3] === "next" ? "next" : match[1];
+      return resolveWeekday(weekday, modifier, today, options.preferPast);
+    },
+  ],
+  [
+    /^(this|next|last) weekend\b/,
+    (match, today) => {
+      const saturday = addCalendarDays(getWeekStart(today), 5);
+      if (match[1] === "next") return addCalendarDays(saturday, 7);
+      if (match[1] === "last") return addCalendarDays(saturday, -7);
+      return saturday;
+    },
+  ],
+  [
+    /^(this|next|last) (week|month|year)\b/,
+    (match, today) => {
+      const [, modifier, unit] = match;
+      if (modifier === "this") return today;
+      const direction = modifier === "next" ? 1 : -1;
+      if (unit === "week") return addCalendarDays(getWeekStart(today), 7 * direction);
+      if (unit === "month") return addCalendarMonths({ ...today, day: 1 }, direction);
+      return { year: today.year + direction, month: 0, day: 1 };
+    },
+  ],
+  [
+    new RegExp(`^(${MONTH}) (?:the )?(${ORDINAL})(?:,? (\\d{4}))?\\b`),
+    (match, today, options) => {
+      const month = MONTH_NAMES[match[1]!]!;
+      const day = parseOrdinal(match[2]!);
+      if (day === null) return null;
+      return match[3]
+        ? { year: parseInt(match[3], 10), month, day }
+        : resolveYear(month, day, today, options.preferPast);
+    },
+  ],
+  [
+    new RegExp(`^(?:the )?(${ORDINAL}) of (${MONTH}|this month|next month)(?:,? (\\d{4}))?\\b`),
+    (match, today, options) => {
+      const day = parseOrdinal(match[1]!);
+      if (day === null) return null;
+      if (match[2] === "this month") return { ...today, day };
+      if (match[2] === "next month") return { ...addCalendarMonths({ ...today, day: 1 }, 1), day };
+      const month = MONTH_NAMES[match[2]!]!;
+      return match[3]
+        ? { year: parseInt(match[3], 10), month, day }
+        : resolveYear(month, day, today, options.preferPast);
+    },
+  ],
+  [
+    new RegExp(`^the (${ORDINAL})\\b`),
+    (match, today, options) => {
+      const day = parseOrdinal(match[1]!);
+      if (day === null) return null;
+      const candidate = { ...today, day };
+      // A day of the month that has passed means next month (or last, for the past)
+      if (options.preferPast) {
+        return day > today.day ? { ...addCalendarMonths({ ...today, day: 1 }, -1), day } : candidate;
+      }
+      return day < today.day ? { ...addCalendarMonths({ ...today, day: 1 }, 1), day } : candidate;
+    },
+  ],
+  [
+    /^(\d{4})-(\d{2})-(\d{2})\b/,
+    (match) => ({
+      year: parseInt(match[1]!, 10),
+      month: parseInt(match[2]!, 10) - 1,
+      day: parseInt(match[3]!, 10),
+    }),
+  ],
+  [
+    /^(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?\b/,
+    (match, today, options) => {
+      const month = parseInt(match[1]!, 10) - 1;
+      const day = parseInt(match[2]!, 10);
+      if (!match[3]) return resolveYear(month, day, today, options.preferPast);
+      const year = parseInt(match[3], 10);
+      return { year: year < 100 ? 2000 + year : year, month, day };
+    },
+  ],
+  [
+    new RegExp(`^(?:in |during )?(${MONTH})\\b`),
+    (match, today, options) => resolveYear(MONTH_NAMES[match[1]!]!, 1, today, options.preferPast),
+  ],
+];
+
+/**
+ * Resolve a date expression like "next Tuesday", "in three days", "the 14th"
+ * or "end of the month" to a calendar day in the user's time zone
+ */
+export const parseDateExpression = (
+  text: string,
+  options: NaturalDateOptions = {}
+): CalendarDay | null => {
+  const today = getToday(options);
+  const expression = normalize(text).replace(/^(?:on|by|for|due) /, "");
+
+  for (const [pattern, resolve] of DATE_RULES) {
+    const match = expression.match(pattern);
+    if (match) {
+      const day = resolve(match, today, options);
+      return day && isValidDay(day) ? day : null;
+    }
+  }
+
+  return null;
+};
+
+// Time expressions
+
+const parseHour = (text: string): number | null => {
+  const value = parseNumber(text);
+  return value !== null && Number.isInteger(value) && value >= 0 && value <= 24 ? value : null;
+};
+
+/**
+ * Work out the 24-hour hour, using am/pm when given, then the part of day,
+ * then the hours people usually mean ("at 3" is 3pm, "at 9" is 9am)
+ */
+const toTwentyFourHour = (
+  hours: number,
+  meridiem: string | undefined,
+  dayPart: DayPart | undefined,
+  isExplicit24Hour: boolean
+): number => {
+  if (meridiem) {
+    const isPm = meridiem.startsWith("p");
+    if (hours === 12) return isPm ? 12 : 0;
+    return isPm ? hours + 12 : hours;
+  }
+
+  if (isExplicit24Hour || hours === 0 || hours > 12) {
+    return hours % 24;
+  }
+
+  if (dayPart === "morning") return hours === 12 ? 0 : hours;
+  if (dayPart === "afternoon" || dayPart === "evening") return hours === 12 ? 12 : hours + 12;
+  if (dayPart === "night") return hours === 12 ? 0 : hours < 5 ? hours : hours + 12;
+
+  return hours >= 1 && hours <= 6 ? hours + 12 : hours;
+};
+
+const MERIDIEM = "\\s?(a\\.?m\\.?|p\\.?m\\.?)";
+
+const parseSingleTime = (text: string, dayPart?: DayPart): TimeOfDay | null => {
+  const expression = normalize(text)
+    .replace(/^(?:at|by|around|about|from|between|starting|starts at) /, "")
+    .replace(/ (?:in the (?:morning|afternoon|evening)|at night|tonight)$/, "");
+  const meridiemMatch = expression.match(new RegExp(`${MERIDIEM}$`));
+  const meridiem = meridiemMatch?.[1]?.replace(/\./g, "");
+  const body = meridiemMatch ? expression.slice(0, meridiemMatch.index).trim() : expression;
+
+  if (/^(?:noon|midday|12 noon)$/.test(body)) return { hours: 12, minutes: 0 };
+  if (/^midnight$/.test(body)) return { hours: 0, minutes: 0 };
+
+  // Relative to the hour: "half past 4", "quarter to 10"
+  const relative = body.match(new RegExp(`^(half|quarter|\\d{1,2}|${HOUR_WORDS}|twenty|twenty[- ]five) (past|after|to|till|before) (\\d{1,2}|${HOUR_WORDS}|noon|midnight)$`));
+  if (relative) {
+    const offset =
+      relative[1] === "half" ? 30 : relative[1] === "quarter" ? 15 : parseNumber(relative[1]!.replace("-", " ").replace("twenty five", "25")) ?? 0;
+    const base =
+      relative[3] === "noon" ? 12 : relative[3] === "midnight" ? 0 : parseHour(relative[3]!);
+    if (base === null) return null;
+    const baseHours =
+      relative[3] === "noon" || relative[3] === "midnight"
+        ? base
+        : toTwentyFourHour(base, meridiem, dayPart, false);
+    const total = baseHours * 60 + (/^(?:to|till|before)$/.test(relative[2]!) ? -offset : offset);
+    const minutes = (total + 24 * 60) % (24 * 60);
+    return { hours: Math.floor(minutes / 60), minutes: minutes % 60 };
+  }
+
+  // Clock times: "4:30", "16:30", "15h30", "0800"
+  const clock = body.match(/^(\d{1,2})(?::|h|\.)(\d{2})(?: ?h(?:rs?)?)?$/) || body.match(/^(\d{2})(\d{2})(?: hours)?$/);
+  if (clock) {
+    const hours = parseInt(clock[1]!, 10);
+    const minutes = parseInt(clock[2]!, 10);
+    if (hours > 24 || minutes > 59) return null;
+    const isExplicit24Hour = clock[1]!.startsWith("0") || /h/.test(body) || body.length === 4;
+    return { hours: toTwentyFourHour(hours, meridiem, dayPart, isExplicit24Hour), minutes };
+  }
+
+  // Spoken times: "3", "three thirty", "4 o'clock", "15h"
+  const spoken = body.match(new RegExp(`^(\\d{1,2}|${HOUR_WORDS})(?:h| (o'?clock|thirty|fifteen|forty[- ]five|oh five|(?:\\d{2})))?$`));
+  if (spoken) {
+    const hours = parseHour(spoken[1]!);
+    if (hours === null) return null;
+    const minuteWord = spoken[2];
+    const minutes =
+      !minuteWord || /o'?clock/.test(minuteWord)
+        ? 0
+        : minuteWord === "oh five"
+          ? 5
+          : parseNumber(minuteWord.replace("-", " ")) ?? 0;
+    if (minutes > 59) return null;
+    return {
+      hours: toTwentyFourHour(hours, meridiem, dayPart, /h$/.test(body)),
+      minutes,
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Parse a time or time range ("noon", "half past 4", "16:30", "from 2 to 3pm")
+ * into 24-hour times. The part of day, when known, settles am versus pm.
+ */
+export const parseTimeExpression = (
+  text: string,
+  dayPart: DayPart | undefined = getDayPart(text)
+): { start: TimeOfDay; end?: TimeOfDay } | null => {
+  const expression = normalize(text)
+    .replace(/^(?:from|between) /, "")
+    .replace(/^(?:in the )?(morning|afternoon|evening)$/, "$1");
+
+  if (/^(?:morning|afternoon|evening|night|tonight)$/.test(expression)) {
+    return { start: DAY_PART_TIMES[getDayPart(expression)!] };
+  }
+
+  const range = expression.match(/^(.+?)(?: ?- ?| (?:to|until|till|and) )(.+)$/);
+  // "quarter to 10" and "twenty to 3" are single times, not ranges
+  if (range && !/^(?:half|quarter|twenty(?:[- ]five)?)$/.test(range[1]!)) {
+    // "2 to 3pm": the start takes the end's am/pm unless that would put it after the end
+    const endMeridiem = range[2]!.match(new RegExp(`${MERIDIEM}$`))?.[0];
+    const startHasMeridiem = new RegExp(`${MERIDIEM}$`).test(range[1]!);
+    const end = parseSingleTime(range[2]!, dayPart);
+    let start = parseSingleTime(
+      !startHasMeridiem && endMeridiem ? `${range[1]}${endMeridiem}` : range[1]!,
+      dayPart
+    );
+    if (start && end && start.hours * 60 + start.minutes >= end.hours * 60 + end.minutes) {
+      start = parseSingleTime(range[1]!, dayPart);
+    }
+    if (start && end) {
+      return { start, end };
+    }
+  }
+
+  const start = parseSingleTime(expression, dayPart);
+  return start ? { start } : null;
+};
+
+/**
+ * Parse a spoken duration ("an hour and a half", "45 minutes") into minutes
+ */
+export const parseDuration = (text: string): number | null => {
+  const expression = normalize(text).replace(/^for /, "");
+
+  if (/^half an? hour$/.test(expression)) return 30;
+  if (/^(?:an? )?hour and a half$/.test(expression)) return 90;
+
+  const match = expression.match(
+    new RegExp(`^(${NUMBER}|\\d+\\.\\d+|half an?)[- ](hours?|hrs?|h|minutes?|mins?|m)(?: and (a half|${NUMBER}) ?(?:minutes?|mins?)?)?$`)
+  );
+  if (!match) return null;
+
+  const amount = match[1]!.startsWith("half") ? 0.5 : parseNumber(match[1]!);
+  if (amount === null) return null;
+
+  const isHours = /^h/.test(match[2]!);
+  let minutes = isHours ? amount * 60 : amount;
+  if (match[3]) {
+    minutes += match[3] === "a half" ? (isHours ? 30 : 0) : parseNumber(match[3]) ?? 0;
+  }
+
+  return minutes > 0 ? Math.round(minutes) : null;
+};
+
+/**
+ * Turn spoken date, time and duration expressions into the concrete ISO start
+ * and end times an event needs. Returns null when neither a date nor a time
+ * could be understood.
+ */
+export const resolveDateTime = (
+  text: DateTimeText,
+  options: NaturalDateOptions = {}
+): ResolvedDateTime | null => {
+  const now = options.now || new Date();
+  const timeZone = options.timeZone || getLocalTimezone();
+  const resolveOptions = { ...options, now, timeZone };
+
+  const date = text.dateText ? parseDateExpression(text.dateText, resolveOptions) : null;
+  const dayPart = getDayPart(`${text.dateText || ""} ${text.timeText || ""}`);
+  const time = text.timeText
+    ? parseTimeExpression(text.timeText, dayPart)
+    : dayPart && !text.isAllDay
+      ? { start: DAY_PART_TIMES[dayPart] }
+      : null;
+
+  if (!date && !time) {
+    return null;
+  }
+
+  let day = date || getToday(resolveOptions);
+  if (text.isAllDay || !time) {
+    const next = addCalendarDays(day, 1);
+    return {
+      startTime: zonedTimeToUtc(day.year, day.month, day.day, 0, 0, 0, timeZone).toISOString(),
+      endTime: zonedTimeToUtc(next.year, next.month, next.day, 0, 0, 0, timeZone).toISOString(),
+      isAllDay: true,
+    };
+  }
+
+  const toInstant = (target: CalendarDay, at: TimeOfDay) =>
+    zonedTimeToUtc(target.year, target.month, target.day, at.hours, at.minutes, 0, timeZone);
+
+  // A time on its own that has already passed today means tomorrow
+  if (!date && toInstant(day, time.start).getTime() <= now.getTime()) {
+    day = addCalendarDays(day, 1);
+  }
+
+  const start = toInstant(day, time.start);
+  let end: Date;
+  const duration = text.durationText ? parseDuration(text.durationText) : null;
+  if (duration) {
+    end = new Date(start.getTime() + duration * 60 * 1000);
+  } else if (time.end) {
+    end = toInstant(day, time.end);
+    if (end.getTime() <= start.getTime()) {
+      end = toInstant(addCalendarDays(day, 1), time.end);
+    }
+  } else {
+    end = new Date(start.getTime() + DEFAULT_DURATION_MINUTES * 60 * 1000);
+  }
+
+  return {
+    startTime: start.toISOString(),
+    endTime: end.toISOString(),
+    isAllDay: false,
+  };
+};
+
+/**
+ * Move an existing start and end to a spoken day and/or time. Whatever isn't
+ * mentioned is kept, and so is the length unless a time range is given.
+ */
+export const rescheduleDateTime = (
+  current: { startTime: string; endTime: string; isAllDay?: boolean },
+  text: DateTimeText,
+  options: NaturalDateOptions = {}
+): ResolvedDateTime | null => {
+  const now = options.now || new Date();
+  const timeZone = options.timeZone || getLocalTimezone();
+  const currentStart = new Date(current.startTime);
+  const length = new Date(current.endTime).getTime() - currentStart.getTime();
+  const parts = getZonedDateParts(currentStart, timeZone);
+
+  const day = text.dateText
+    ? parseDateExpression(text.dateText, { ...options, now, timeZone })
+    : { year: parts.year, month: parts.month, day: parts.day };
+  const time = text.timeText ? parseTimeExpression(text.timeText) : null;
+  if (!day || (text.timeText && !time)) {
+    return null;
+  }
+
+  if (!time && current.isAllDay) {
+    const next = addCalendarDays(day, 1);
+    return {
+      startTime: zonedTimeToUtc(day.year, day.month, day.day, 0, 0, 0, timeZone).toISOString(),
+      endTime: zonedTimeToUtc(next.year, next.month, next.day, 0, 0, 0, timeZone).toISOString(),
+      isAllDay: true,
+    };
+  }
+
+  const at = time ? time.start : { hours: parts.hours, minutes: parts.minutes };
+  const start = zonedTimeToUtc(day.year, day.month, day.day, at.hours, at.minutes, 0, timeZone);
+  let end = new Date(start.getTime() + (current.isAllDay ? DEFAULT_DURATION_MINUTES * 60 * 1000 : length));
+  if (time?.end) {
+    end = zonedTimeToUtc(day.year, day.month, day.day, time.end.hours, time.end.minutes, 0, timeZone);
+    if (end.getTime() <= start.getTime()) {
+      end = new Date(end.getTime() + 24 * 60 * 60 * 1000);
+    }
+  }
+
+  return {
+    startTime: start.toISOString(),
+    endTime: end.toISOString(),
+    isAllDay: false,
+  };
+};
+
+/**
+ * Resolve a period like "this week", "last month", "the past 30 days" or a
+ * single day into a range, for questions about spending and schedules
+ */
+export const resolveDateRange = (
+  text: string,
+  options: NaturalDateOptions = {}
+): ResolvedDateRange | null => {
+  const now = options.now || new Date();
+  const timeZone = options.timeZone || getLocalTimezone();
+  const today = getToday({ now, timeZone });
+  const expression = normalize(text).replace(/^(?:on|in|for|during|from|over) /, "");
+
+  const toRange = (start: CalendarDay, endExclusive: CalendarDay): ResolvedDateRange => ({
+    start: zonedTimeToUtc(start.year, start.month, start.day, 0, 0, 0, timeZone).toISOString(),
+    end: zonedTimeToUtc(endExclusive.year, endExclusive.month, endExclusive.day, 0, 0, 0, timeZone).toISOString(),
+  });
+  const tomorrow = addCalendarDays(today, 1);
+
+  const soFar = /\bso far\b/.test(expression);
+  const period = expression.replace(/\bso far\b/, "").trim() || (soFar ? "this month" : "");
+
+  const relativePeriod = period.match(/^(this|next|last|previous) (week|month|year|weekend)$/);
+  if (relativePeriod) {
+    const [, modifier, unit] = relativePeriod;
+    const direction = modifier === "next" ? 1 : modifier === "this" ? 0 : -1;
+    let start: CalendarDay;
+    let end: CalendarDay;
+
+    if (unit === "week") {
+      start = addCalendarDays(getWeekStart(today), 7 * direction);
+      end = addCalendarDays(start, 7);
+    } else if (unit === "weekend") {
+      start = addCalendarDays(getWeekStart(today), 5 + 7 * direction);
+      end = addCalendarDays(start, 2);
+    } else if (unit === "month") {
+      start = addCalendarMonths({ ...today, day: 1 }, direction);
+      end = addCalendarMonths(start, 1);
+    } else {
+      start = { year: today.year + direction, month: 0, day: 1 };
+      end = { year: today.year + direction + 1, month: 0, day: 1 };
+    }
+
+    return toRange(start, soFar && direction === 0 ? tomorrow : end);
+  }
+
+  const pastPeriod = period.match(new RegExp(`^(?:the )?(?:past|last) (${NUMBER}) (day|week|month|year)s?$`));
+  if (pastPeriod) {
+    const amount = parseNumber(pastPeriod[1]!);
+    if (amount !== null) {
+      return toRange(addUnits(tomorrow, -amount, pastPeriod[2]!), tomorrow);
+    }
+  }
+
+  const monthOnly = period.match(new RegExp(`^(${MONTH})(?: (\\d{4}))?$`));
+  if (monthOnly) {
+    const month = MONTH_NAMES[monthOnly[1]!]!;
+    const start = monthOnly[2]
+      ? { year: parseInt(monthOnly[2], 10), month, day: 1 }
+      : resolveYear(month, 1, { ...today, day: 1 }, options.preferPast ?? true);
+    return toRange(start, addCalendarMonths(start, 1));
+  }
+
+  const day = parseDateExpression(period, { ...options, now, timeZone });
+  return day ? toRange(day, addCalendarDays(day, 1)) : null;
+};
+
+export default {
+  getDayPart,
+  parseDateExpression,
+  parseTimeExpression,
+  parseDuration,
+  resolveDateTime,
+  rescheduleDateTime,
+  resolveDateRange,
+};
@@ -0,0 +1,125 @@
+import moment from "moment";
+import { RecurrenceFrequency, RecurrenceRule } from "../types";
+
+const FREQUENCY_UNITS: { [frequency in RecurrenceFrequency]: moment.unitOfTime.DurationConstructor } = {
+  daily: "days",
+  weekly: "weeks",
+  monthly: "months",
+  yearly: "years",
+};
+
+// Legacy planned expenses only carry `isRecurring: true`, treat them as monthly
+export const DEFAULT_RECURRENCE_RULE: RecurrenceRule = {
+  frequency: "monthly",
+  interval: 1,
+};
+
+/**
+ * Get the nth occurrence of a rule, always measured from the start date so
+ * month-end anchors (e.g. the 31st) don't drift after a short month
+ */
+export const getNthOccurrence = (
+  startDate: Date,
+  rule: RecurrenceRule,
+  n: number
+): Date => {
+  return moment(startDate)
+    .add(n * Math.max(1, rule.interval), FREQUENCY_UNITS[rule.frequency])
+    .toDate();
+};
+
+/**
+ * Expand a recurrence rule into the occurrence dates that fall within a range
+ */
+export const getRecurrenceOccurrences = (
+  startDate: Date,
+  rule: RecurrenceRule,
+  rangeStart: Date,
+  rangeEnd: Date
+): Date[] => {
+  const occurrences: Date[] = [];
+  const interval = Math.max(1, rule.interval);
+  const unit = FREQUENCY_UNITS[rule.frequency];
+  const until = rule.endDate ? moment(rule.endDate).endOf("day") : null;
+
+  // Skip ahead to just before the range instead of walking from the start
+  let n = 0;
+  if (rangeStart > startDate) {
+    const elapsed = moment(rangeStart).diff(moment(startDate), unit);
+    n = Math.max(0, Math.floor(elapsed / interval) - 1);
+  }
+
+  while (rule.count === undefined || n < rule.count) {
+    const occurrence = getNthOccurrence(startDate, rule, n);
+
+    if (occurrence > rangeEnd || (until && until.isBefore(occurrence))) {
+      break;
+    }
+
+    if (occurrence >= rangeStart) {
+      occurrences.push(occurrence);
+    }
+
+    n++;
+  }
+
+  return occurrences;
+};
+
+/**
+ * Expand a planned expense into one copy per occurrence within a range, with
+ * `plannedDate` set to the occurrence date. One-off expenses yield at most one.
+ */
+export const getPlannedExpenseOccurrences = <
+  T extends { plannedDate: string; isRecurring: boolean; recurrence?: RecurrenceRule }
+>(
+  expense: T,
+  rangeStart: Date,
+  rangeEnd: Date
+): T[] => {
+  const startDate = new Date(expense.plannedDate);
+
+  if (!expense.isRecurring) {
+    return startDate >= rangeStart && startDate <= rangeEnd ? [expense] : [];
+  }
+
+  const rule = expense.recurrence || DEFAULT_RECURRENCE_RULE;
+
+  return getRecurrenceOccurrences(startDate, rule, rangeStart, rangeEnd).map(
+    (occurrence) => ({
+      ...expense,
+      plannedDate: occurrence.toISOString(),
+    })
+  );
+};
+
+/**
+ * Describe a recurrence rule for display, e.g. "Every 2 weeks, 6 times"
+ */
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const interval = Math.max(1, rule.interval);
+  const labels: { [frequency in RecurrenceFrequency]: [string, string] } = {
+    daily: ["Daily", "days"],
+    weekly: ["Weekly", "weeks"],
+    monthly: ["Monthly", "months"],
+    yearly: ["Yearly", "years"],
+  };
+  const [single, plural] = labels[rule.frequency];
+
+  let description = interval === 1 ? single : `Every ${interval} ${plural}`;
+
+  if (rule.count) {
+    description += `, ${rule.count} times`;
+  } else if (rule.endDate) {
+    description += ` until ${moment(rule.endDate).format("MMM D, YYYY")}`;
+  }
+
+  return description;
+};
+
+export default {
+  getNthOccurrence,
+  getRecurrenceOccurrences,
+  getPlannedExpenseOccurrences,
+  describeRecurrence,
+};
@@ -0,0 +1,388 @@
+import moment from "moment";
+import { RecurrenceFrequency } from "../types";
+
+// RFC 5545 recurrence rules (the subset the calendar UI can produce and edit)
+
+export interface RRuleWeekday {
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+  ordinal?: number; // e.g. 2 = second, -1 = last (monthly/yearly only)
+}
+
+export interface ParsedRRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  until?: string; // ISO string
+  byDay?: RRuleWeekday[];
+  byMonthDay?: number[];
+}
+
+export interface RecurringEventLike {
+  id: string;
+  startTime: string;
+  endTime: string;
+  recurrenceRule?: string;
+  exceptionDates?: string[];
+  recurringEventId?: string;
+  originalStartTime?: string;
+}
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const FREQUENCY_UNITS: { [frequency in RecurrenceFrequency]: moment.unitOfTime.DurationConstructor } = {
+  daily: "days",
+  weekly: "weeks",
+  monthly: "months",
+  yearly: "years",
+};
+
+// Guards against runaway expansion of malformed rules
+const MAX_PERIODS = 5000;
+
+const parseUntil = (value: string): string | undefined => {
+  const parsed = value.includes("T")
+    ? moment.utc(value, "YYYYMMDDTHHmmss[Z]", true)
+    : moment(value, "YYYYMMDD", true).endOf("day");
+  return parsed.isValid() ? parsed.toISOString() : undefined;
+};
+
+/**
+ * Parse an RRULE string such as "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE"
+ */
+export const parseRRule = (rule: string): ParsedRRule | null => {
+  const parts: { [key: string]: string } = {};
+
+  rule
+    .replace(/^RRULE:/i, "")
+    .split(";")
+    .forEach((part) => {
+      const [key, value] = part.split("=");
+      if (key && value) {
+        parts[key.trim().toUpperCase()] = value.trim().toUpperCase();
+      }
+    });
+
+  const frequency = parts.FREQ?.toLowerCase() as RecurrenceFrequency | undefined;
+  if (!frequency || !FREQUENCY_UNITS[frequency]) {
+    return null;
+  }
+
+  const parsed: ParsedRRule = {
+    frequency,
+    interval: Math.max(1, parseInt(parts.INTERVAL || "1", 10) || 1),
+  };
+
+  if (parts.COUNT && parseInt(parts.COUNT, 10) > 0) {
+    parsed.count = parseInt(parts.COUNT, 10);
+  }
+
+  if (parts.UNTIL) {
+    const until = parseUntil(parts.UNTIL);
+    if (until) {
+      parsed.until = until;
+    }
+  }
+
+  if (parts.BYDAY) {
+    const byDay = parts.BYDAY.split(",")
+      .map((code) => {
+        const match = code.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+        if (!match) return null;
+        const weekday: RRuleWeekday = { weekday: WEEKDAY_CODES.indexOf(match[2]) };
+        if (match[1]) {
+          weekday.ordinal = parseInt(match[1], 10);
+        }
+        return weekday;
+      })
+      .filter((weekday): weekday is RRuleWeekday => weekday !== null);
+
+    if (byDay.length > 0) {
+      parsed.byDay = byDay;
+    }
+  }
+
+  if (parts.BYMONTHDAY) {
+    const byMonthDay = parts.BYMONTHDAY.split(",")
+      .map((day) => parseInt(day, 10))
+      .filter((day) => !isNaN(day) && day !== 0 && Math.abs(day) <= 31);
+
+    if (byMonthDay.length > 0) {
+      parsed.byMonthDay = byMonthDay;
+    }
+  }
+
+  return parsed;
+};
+
+/**
+ * Serialize a parsed rule back into an RRULE string
+ */
+export const buildRRule = (rule: ParsedRRule): string => {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+
+  if (rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+
+  if (rule.byDay && rule.byDay.length > 0) {
+    parts.push(
+      `BYDAY=${rule.byDay
+        .map((day) => `${day.ordinal ?? ""}${WEEKDAY_CODES[day.weekday]}`)
+        .join(",")}`
+    );
+  }
+
+  if (rule.byMonthDay && rule.byMonthDay.length > 0) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  }
+
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  } else if (rule.until) {
+    parts.push(`UNTIL=${moment.utc(rule.until).format("YYYYMMDDTHHmmss[Z]")}`);
+  }
+
+  return parts.join(";");
+};
+
+/**
+ * Describe a rule for display, e.g. "Every 2 weeks on Mon, Wed"
+ */
+export const describeRRule = (rule: string | ParsedRRule): string => {
+  const parsed = typeof rule === "string" ? parseRRule(rule) : rule;
+  if (!parsed) return "";
+
+  const singular = { daily: "Daily", weekly: "Weekly", monthly: "Monthly", yearly: "Yearly" };
+  const plural = { daily: "days", weekly: "weeks", monthly: "months", yearly: "years" };
+
+  let description =
+    parsed.interval === 1
+      ? singular[parsed.frequency]
+      : `Every ${parsed.interval} ${plural[parsed.frequency]}`;
+
+  if (parsed.byDay && parsed.byDay.length > 0) {
+    const ordinals: { [ordinal: number]: string } = { 1: "1st", 2: "2nd", 3: "3rd", 4: "4th", [-1]: "last" };
+    description += ` on ${parsed.byDay
+      .map((day) =>
+        day.ordinal
+          ? `the ${ordinals[day.ordinal] || `${day.ordinal}th`} ${WEEKDAY_LABELS[day.weekday]}`
+          : WEEKDAY_LABELS[day.weekday]
+      )
+      .join(", ")}`;
+  } else if (parsed.byMonthDay && parsed.byMonthDay.length > 0) {
+    description += ` on day ${parsed.byMonthDay.join(", ")}`;
+  }
+
+  if (parsed.count) {
+    description += `, ${parsed.count} times`;
+  } else if (parsed.until) {
+    description += ` until ${moment(parsed.until).format("MMM D, YYYY")}`;
+  }
+
+  return description;
+};
+
+// Occurrence generation
+
+const withTimeOf = (date: moment.Moment, time: moment.Moment): moment.Moment =>
+  date.clone().set({
+    hour: time.hour(),
+    minute: time.minute(),
+    second: time.second(),
+    millisecond: time.millisecond(),
+  });
+
+const getMonthWeekdays = (month: moment.Moment, day: RRuleWeekday): moment.Moment[] => {
+  const matches: moment.Moment[] = [];
+  const cursor = month.clone().startOf("month");
+
+  while (cursor.month() === month.month()) {
+    if (cursor.day() === day.weekday) {
+      matches.push(cursor.clone());
+    }
+    cursor.add(1, "day");
+  }
+
+  if (day.ordinal === undefined) {
+    return matches;
+  }
+
+  const match = day.ordinal > 0 ? matches[day.ordinal - 1] : matches[matches.length + day.ordinal];
+  return match ? [match] : [];
+};
+
+const getMonthDays = (month: moment.Moment, days: number[]): moment.Moment[] => {
+  const daysInMonth = month.daysInMonth();
+
+  return days
+    .map((day) => (day > 0 ? day : daysInMonth + day + 1))
+    .filter((day) => day >= 1 && day <= daysInMonth)
+    .map((day) => month.clone().date(day));
+};
+
+// Candidate dates for the kth period of a rule, in chronological order
+const getPeriodCandidates = (
+  start: moment.Moment,
+  rule: ParsedRRule,
+  k: number
+): moment.Moment[] => {
+  const offset = k * rule.interval;
+  let candidates: moment.Moment[];
+
+  switch (rule.frequency) {
+    case "weekly": {
+      if (!rule.byDay) {
+        candidates = [start.clone().add(offset, "weeks")];
+        break;
+      }
+      const weekStart = start.clone().startOf("isoWeek").add(offset, "weeks");
+      candidates = rule.byDay.map((day) => weekStart.clone().add((day.weekday + 6) % 7, "days"));
+      break;
+    }
+    case "monthly": {
+      const month = start.clone().startOf("month").add(offset, "months");
+      if (rule.byMonthDay) {
+        candidates = getMonthDays(month, rule.byMonthDay);
+      } else if (rule.byDay) {
+        candidates = rule.byDay.flatMap((day) => getMonthWeekdays(month, day));
+      } else {
+        // Months without the start's day of month are skipped, as RFC 5545 specifies
+        candidates = getMonthDays(month, [start.date()]);
+      }
+      break;
+    }
+    case "yearly": {
+      const candidate = start.clone().add(offset, "years");
+      candidates = candidate.date() === start.date() ? [candidate] : [];
+      break;
+    }
+    default:
+      candidates = [start.clone().add(offset, "days")];
+  }
+
+  return candidates
+    .map((candidate) => withTimeOf(candidate, start))
+    .sort((a, b) => a.valueOf() - b.valueOf());
+};
+
+/**
+ * Expand a rule from its first occurrence into the occurrence start dates
+ * within [rangeStart, rangeEnd]. Exception dates are removed after COUNT is
+ * applied, so excluding an occurrence doesn't extend the series.
+ */
+export const expandRRule = (
+  dtstart: Date,
+  rule: string | ParsedRRule,
+  rangeStart: Date,
+  rangeEnd: Date,
+  exceptionDates: string[] = []
+): Date[] => {
+  const parsed = typeof rule === "string" ? parseRRule(rule) : rule;
+  if (!parsed) {
+    return dtstart >= rangeStart && dtstart <= rangeEnd ? [dtstart] : [];
+  }
+
+  const start = moment(dtstart);
+  const until = parsed.until ? moment(parsed.until) : null;
+  const excluded = new Set(exceptionDates.map((date) => new Date(date).getTime()));
+  const occurrences: Date[] = [];
+
+  // Without COUNT nothing depends on earlier periods, so jump close to the range
+  let k = 0;
+  if (!parsed.count && rangeStart > dtstart) {
+    const elapsed = moment(rangeStart).diff(start, FREQUENCY_UNITS[parsed.frequency]);
+    k = Math.max(0, Math.floor(elapsed / parsed.interval) - 1);
+  }
+
+  // DTSTART is always the first instance, even when the rule wouldn't produce it
+  if (dtstart > rangeEnd) {
+    return occurrences;
+  }
+  if (dtstart >= rangeStart && !excluded.has(start.valueOf())) {
+    occurrences.push(start.toDate());
+  }
+
+  let generated = 1;
+  if (parsed.count && generated >= parsed.count) {
+    return occurrences;
+  }
+
+  for (let periods = 0; periods < MAX_PERIODS; periods++, k++) {
+    const candidates = getPeriodCandidates(start, parsed, k);
+
+    for (const candidate of candidates) {
+      if (!candidate.isAfter(start)) continue;
+      if (candidate.valueOf() > rangeEnd.getTime() || (until && candidate.isAfter(until))) {
+        return occurrences;
+      }
+
+      generated++;
+
+      if (candidate.valueOf() >= rangeStart.getTime() && !excluded.has(candidate.valueOf())) {
+        occurrences.push(candidate.toDate());
+      }
+
+      if (parsed.count && generated >= parsed.count) {
+        return occurrences;
+      }
+    }
+  }
+
+  return occurrences;
+};
+
+/**
+ * Count the occurrences of a series that start before a given date
+ */
+export const countOccurrencesBefore = (
+  dtstart: Date,
+  rule: string | ParsedRRule,
+  before: Date
+): number => {
+  if (before <= dtstart) return 0;
+  return expandRRule(dtstart, rule, dtstart, new Date(before.getTime() - 1)).length;
+};
+
+/**
+ * Replace each recurring event with its occurrences inside the range. Instances
+ * keep a pointer to their series via `recurringEventId` and `originalStartTime`.
+ */
+export const expandRecurringEvents = <T extends RecurringEventLike>(
+  events: T[],
+  rangeStart: Date,
+  rangeEnd: Date
+): T[] => {
+  return events.flatMap((event) => {
+    if (!event.recurrenceRule) {
+      return [event];
+    }
+
+    const start = new Date(event.startTime);
+    const duration = new Date(event.endTime).getTime() - start.getTime();
+
+    return expandRRule(
+      start,
+      event.recurrenceRule,
+      rangeStart,
+      rangeEnd,
+      event.exceptionDates
+    ).map((occurrence) => ({
+      ...event,
+      id: `${event.id}_${occurrence.getTime()}`,
+      startTime: occurrence.toISOString(),
+      endTime: new Date(occurrence.getTime() + duration).toISOString(),
+      recurringEventId: event.id,
+      originalStartTime: occurrence.toISOString(),
+    }));
+  });
+};
+
+export default {
+  parseRRule,
+  buildRRule,
+  describeRRule,
+  expandRRule,
+  countOccurrencesBefore,
+  expandRecurringEvents,
+};
@@ -0,0 +1,317 @@
+// Money amounts as people say or type them: "$12.50", "45 euros",
+// "twenty five fifty", "a hundred and twenty dollars", "a buck fifty"
+
+export interface SpokenAmount {
+  amount: number;
+  currency: string; // ISO 4217 code
+  text: string; // The part of the input the amount was read from
+}
+
+export const DEFAULT_CURRENCY = "USD";
+
+const CURRENCY_SYMBOLS: { [symbol: string]: string } = {
+  $: "USD",
+  "€": "EUR",
+  "£": "GBP",
+  "¥": "JPY",
+  "₹": "INR",
+};
+
+const CURRENCY_WORDS: [RegExp, string][] = [
+  [/^(?:canadian dollars?|cad)$/, "CAD"],
+  [/^(?:australian dollars?|aud)$/, "AUD"],
+  [/^(?:dollars?|bucks?|usd)$/, "USD"],
+  [/^(?:euros?|eur)$/, "EUR"],
+  [/^(?:pounds?|quid|gbp|sterling)$/, "GBP"],
+  [/^(?:yen|jpy)$/, "JPY"],
+  [/^(?:rupees?|inr)$/, "INR"],
+  [/^(?:pesos?|mxn)$/, "MXN"],
+  [/^(?:francs?|chf)$/, "CHF"],
+];
+
+const CURRENCY_WORD =
+  "canadian dollars?|australian dollars?|dollars?|bucks?|usd|euros?|eur|pounds?|quid|gbp|sterling|yen|jpy|rupees?|inr|pesos?|mxn|francs?|chf|cad|aud";
+const MINOR_UNIT_WORD = "cents?|pence|p|centimes?|centavos?";
+
+const ONES: { [word: string]: number } = {
+  zero: 0, oh: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9,
+};
+const TEENS: { [word: string]: number } = {
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15,
+  sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19,
+};
+const TENS: { [word: string]: number } = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70,
+  eighty: 80, ninety: 90,
+};
+const SCALES: { [word: string]: number } = {
+  hundred: 100, thousand: 1000, grand: 1000, k: 1000, million: 1000000,
+};
+
+const NUMBER_WORD = [
+  ...Object.keys(ONES),
+  ...Object.keys(TEENS),
+  ...Object.keys(TENS),
+  ...Object.keys(SCALES).filter((word) => word !== "k"),
+  "a",
+  "an",
+  "and",
+  "half",
+].join("|");
+
+const UNITS_WORD = [...Object.keys(ONES), ...Object.keys(TEENS)].join("|");
+const TENS_WORD = Object.keys(TENS).join("|");
+
+// A run of digits or number words, possibly after a currency symbol. Every
+// token after the first needs a separator (only "k" may follow directly, as
+// in "5k"), so a run splits into tokens one way only and can't backtrack
+// exponentially on input like "1,1,1,1,..."
+const DIGITS = `\\d[\\d,]*(?:\\.\\d+)?`;
+const NUMBER_RUN = `(?:[$€£¥₹] ?)?(?:${DIGITS}|(?:${NUMBER_WORD})\\b)(?:[- ](?:${DIGITS}|(?:${NUMBER_WORD}|k)\\b)|k\\b)*`;
+
+// A currency after the number, as a word or as a symbol written the European
+// way ("12,50 €"). A symbol starting the next amount ("a $120") isn't one.
+const CURRENCY_AFTER = `(?: ?(?:${CURRENCY_WORD})\\b| ?[$€£¥₹](?! ?\\d))`;
+
+// An amount with its currency, for grammars that need to recognise one in place
+export const SPOKEN_AMOUNT_SOURCE = `${NUMBER_RUN}${CURRENCY_AFTER}?`;
+
+// Also takes in what can follow the currency: "a buck fifty", "five dollars and ten cents"
+const AMOUNT_CANDIDATE = new RegExp(
+  `${NUMBER_RUN}(?: ?(?:${CURRENCY_WORD})\\b(?: (?:and )?(?:${TENS_WORD}|${UNITS_WORD})\\b(?:[- ](?:${UNITS_WORD})\\b)?)?| ?[$€£¥₹](?! ?\\d))?(?:(?: and)? (?:\\d{1,2}|(?:${NUMBER_WORD})(?:[- ](?:${NUMBER_WORD}))?) (?:${MINOR_UNIT_WORD})\\b)?(?: (?:${MINOR_UNIT_WORD})\\b)?`,
+  "gi"
+);
+
+// Words after a number that make it a count rather than a price
+const COUNT_NOUN = /^\s(?:x\b|times\b|people\b|persons?\b|guests?\b|children\b|[a-z]+s\b)/;
+
+type WordType = "ones" | "teens" | "tens" | "scale";
+
+const getWordType = (word: string): WordType | null => {
+  if (word in ONES) return "ones";
+  if (word in TEENS) return "teens";
+  if (word in TENS) return "tens";
+  if (word in SCALES) return "scale";
+  return null;
+};
+
+/**
+ * Split number words into the separate numbers they spell out, so
+ * "twenty five fifty" becomes [25, 50] and "a hundred and twenty" [120]
+ */
+const parseNumberWords = (words: string[]): number[] | null => {
+  const numbers: number[] = [];
+  let total = 0;
+  let current = 0;
+  let lastType: WordType | null = null;
+  let hasValue = false;
+
+  const flush = () => {
+    if (hasValue) numbers.push(total + current);
+    total = 0;
+    current = 0;
+    lastType = null;
+    hasValue = false;
+  };
+
+  for (const word of words) {
+    if (word === "and") continue;
+    if (word === "a" || word === "an") {
+      flush();
+      current = 1;
+      hasValue = true;
+      lastType = "ones";
+      continue;
+    }
+    if (/^\d+(?:\.\d+)?$/.test(word)) {
+      flush();
+      current = parseFloat(word);
+      hasValue = true;
+      lastType = "ones";
+      continue;
+    }
+
+    const type = getWordType(word);
+    if (!type) return null;
+
+    if (type === "scale") {
+      const scale = SCALES[word]!;
+      if (scale === 100) {
+        current = (current || 1) * 100;
+      } else {
+        total = (total + (current || 1)) * scale;
+        current = 0;
+      }
+      hasValue = true;
+      lastType = "scale";
+      continue;
+    }
+
+    // A word that can't extend the number so far starts a new one
+    const value = ONES[word] ?? TEENS[word] ?? TENS[word]!;
+    const canCombine =
+      lastType === null ||
+      lastType === "scale" ||
+      (lastType === "tens" && type === "ones");
+    if (!canCombine) flush();
+
+    current += value;
+    hasValue = true;
+    lastType = type;
+  }
+
+  flush();
+  return numbers.length > 0 ? numbers : null;
+};
+
+const parseDigits = (text: string): number | null => {
+  // "1,200" groups thousands while "12,50" is a decimal comma
+  const normalized = /^\d{1,3}(?:,\d{3})+(?:\.\d+)?$/.test(text)
+    ? text.replace(/,/g, "")
+    : text.replace(/,(\d{1,2})$/, ".$1").replace(/,/g, "");
+  const value = parseFloat(normalized);
+  return isNaN(value) ? null : value;
+};
+
+const getCurrency = (text: string): string | null => {
+  const symbol = text.match(/[$€£¥₹]/);
+  if (symbol) return CURRENCY_SYMBOLS[symbol[0]]!;
+
+  const words = text.match(new RegExp(`\\b(?:${CURRENCY_WORD})\\b`));
+  if (!words) return null;
+  return CURRENCY_WORDS.find(([pattern]) => pattern.test(words[0]))?.[1] || null;
+};
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Read the value of an amount phrase on its own, e.g. "twenty five fifty"
+ * (25.50), "$1,200", "3 grand", "a buck fifty" or "five dollars and ten cents"
+ */
+export const parseSpokenAmount = (
+  text: string,
+  defaultCurrency: string = DEFAULT_CURRENCY
+): SpokenAmount | null => {
+  const phrase = text
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+  const currency = getCurrency(phrase) || defaultCurrency;
+
+  // Split off the minor units: "and ten cents", or the number after the currency word
+  const minorMatch = phrase.match(
+    new RegExp(`(?:^|\\s)(?:and )?([\\w-]+(?:[- ][\\w]+)?) (?:${MINOR_UNIT_WORD})$`)
+  );
+  let major = minorMatch ? phrase.slice(0, minorMatch.index).trim() : phrase;
+  let minor: number | null = null;
+  if (minorMatch) {
+    const minorWords = minorMatch[1]!.split(/[- ]/);
+    const values = /^\d+$/.test(minorMatch[1]!) ? [parseInt(minorMatch[1]!, 10)] : parseNumberWords(minorWords);
+    if (!values || values.length !== 1) return null;
+    minor = values[0]!;
+  }
+
+  const afterCurrency = major.match(
+    new RegExp(`^(.+?) (?:${CURRENCY_WORD})(?: and)? (.+)$`)
+  );
+  if (afterCurrency && minor === null) {
+    // "a buck fifty", "five dollars twenty"
+    const values = parseNumberWords(afterCurrency[2]!.split(/[- ]/));
+    if (values && values.length === 1 && values[0]! < 100) {
+      minor = values[0]!;
+      major = afterCurrency[1]!;
+    }
+  }
+
+  major = major
+    .replace(/[$€£¥₹]/g, "")
+    .replace(new RegExp(`\\b(?:${CURRENCY_WORD})\\b`, "g"), "")
+    .trim();
+
+  let amount: number | null = null;
+  if (!major && minor !== null) {
+    amount = 0;
+  } else if (/^\d[\d,]*(?:\.\d+)?$/.test(major)) {
+    amount = parseDigits(major);
+  } else {
+    // Digits with a scale ("1.5k", "2 thousand") or number words
+    const scaled = major.match(/^(\d+(?:\.\d+)?) ?(k|grand|thousand|million|hundred)$/);
+    if (scaled) {
+      amount = parseFloat(scaled[1]!) * SCALES[scaled[2]!]!;
+    } else {
+      const values = parseNumberWords(major.split(/[- ]+/).filter(Boolean));
+      if (!values) return null;
+      if (values.length === 1) {
+        amount = values[0]!;
+      } else if (values.length === 2 && values[1]! < 100 && minor === null) {
+        // "twenty five fifty" is 25.50, "twelve ninety nine" is 12.99
+        amount = values[0]! + values[1]! / 100;
+      } else {
+        return null;
+      }
+    }
+  }
+
+  if (amount === null) return null;
+  if (minor !== null) amount += minor / 100;
+
+  return amount > 0 ? { amount: roundMoney(amount), currency, text: text.trim() } : null;
+};
+
+/**
+ * Find the amount in a sentence. Numbers that belong to times ("at 3",
+ * "3:30", "5pm"), dates ("the 14th", "12/15") or counts ("2 coffees") are
+ * skipped, and amounts with a currency win over bare numbers.
+ */
+export const findSpokenAmount = (
+  text: string,
+  defaultCurrency: string = DEFAULT_CURRENCY
+): SpokenAmount | null => {
+  const candidates: { amount: SpokenAmount; score: number }[] = [];
+  const pattern = new RegExp(AMOUNT_CANDIDATE.source, "gi");
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const raw = match[0].replace(/[- ]+$/, "").replace(/^(?:and|a|an) (?=\S)/i, (prefix) =>
+      /^an? /i.test(prefix) ? prefix : ""
+    );
+    if (!raw.trim() || /^(?:a|an|and|half)$/i.test(raw.trim())) continue;
+
+    const before = text.slice(0, match.index).toLowerCase();
+    const after = text.slice(match.index + match[0].length).toLowerCase();
+    const lowerRaw = raw.toLowerCase();
+
+    const hasCurrency =
+      /[$€£¥₹]/.test(raw) ||
+      new RegExp(`\\b(?:${CURRENCY_WORD}|${MINOR_UNIT_WORD})\\b`).test(lowerRaw);
+
+    if (!hasCurrency) {
+      // Times and dates
+      if (/^\s?(?::\d|[ap]\.?m\b|o'?clock|h\d|st\b|nd\b|rd\b|th\b|\/\d)/.test(after)) continue;
+      if (/(?:\b(?:at|around|by|until|till|from|before|after)|\/|:)\s?$/.test(before)) continue;
+      if (/\b(?:the|on the|in|every|for the)\s?$/.test(before) && /^\s?(?:days?|weeks?|months?|years?|hours?|minutes?|of)\b/.test(after)) continue;
+      // Counts: "2 coffees", "4 people", "three tickets"
+      if (COUNT_NOUN.test(after) && !/^\s(?:was|has|this|is|plus|gas|bus)\b/.test(after)) continue;
+      if (/^\s(?:days?|weeks?|months?|years?|hours?|minutes?|mins?|percent|%)\b/.test(after)) continue;
+    }
+
+    const amount = parseSpokenAmount(raw, defaultCurrency);
+    if (!amount) continue;
+
+    let score = hasCurrency ? 3 : 1;
+    if (/\b(?:spent|spend|paid|pay|cost|costs|was|for|of|charged|total|totaled|came to|set me back|ran me)\s$/.test(before)) score += 1;
+    if (/\.\d{2}$/.test(raw)) score += 0.5;
+    candidates.push({ amount: { ...amount, text: raw.trim() }, score });
+  }
+
+  if (candidates.length === 0) return null;
+  return candidates.reduce((best, candidate) =>
+    candidate.score > best.score ? candidate : best
+  ).amount;
+};
+
+export default {
+  parseSpokenAmount,
+  findSpokenAmount,
+};
@@ -0,0 +1,119 @@
+import { HELD_OUT_INTENT_FIXTURES, IntentFixture, INTENT_FIXTURES } from "./intentFixtures";
+import { IntentSlots, parseIntent, VoiceIntent } from "./intentParser";
+
+export interface IntentAccuracyReport {
+  total: number;
+  intentAccuracy: number;
+  slotAccuracy: number;
+  byIntent: { [intent: string]: { total: number; correct: number } };
+  failures: { text: string; expected: VoiceIntent; actual: VoiceIntent; confidence: number }[];
+  slotMismatches: { text: string; slot: string; expected: unknown; actual: unknown }[];
+}
+
+/**
+ * Run the parser over labelled fixtures and measure how often it gets the
+ * intent and the labelled slots right
+ */
+export const measureIntentAccuracy = (
+  fixtures: IntentFixture[] = INTENT_FIXTURES
+): IntentAccuracyReport => {
+  const report: IntentAccuracyReport = {
+    total: fixtures.length,
+    intentAccuracy: 0,
+    slotAccuracy: 0,
+    byIntent: {},
+    failures: [],
+    slotMismatches: [],
+  };
+  let correctIntents = 0;
+  let slotChecks = 0;
+  let correctSlots = 0;
+
+  fixtures.forEach((fixture) => {
+    const parsed = parseIntent(fixture.text, fixture.language);
+    const stats = report.byIntent[fixture.intent] || { total: 0, correct: 0 };
+    stats.total++;
+    report.byIntent[fixture.intent] = stats;
+
+    if (parsed.intent !== fixture.intent) {
+      report.failures.push({
+        text: fixture.text,
+        expected: fixture.intent,
+        actual: parsed.intent,
+        confidence: parsed.confidence,
+      });
+      return;
+    }
+
+    stats.correct++;
+    correctIntents++;
+
+    Object.entries(fixture.slots || {}).forEach(([slot, expected]) => {
+      const actual = parsed.slots[slot as keyof IntentSlots];
+      slotChecks++;
+      if (String(actual).toLowerCase() === String(expected).toLowerCase()) {
+        correctSlots++;
+      } else {
+        report.slotMismatches.push({ text: fixture.text, slot, expected, actual });
+      }
+    });
+  });
+
+  report.intentAccuracy = correctIntents / report.total;
+  report.slotAccuracy = slotChecks > 0 ? correctSlots / slotChecks : 1;
+  return report;
+};
+
+export const testIntentParser = () => {
+  console.log("🗣️ Starting Intent Parser Test...\n");
+
+  const report = measureIntentAccuracy();
+  const heldOut = measureIntentAccuracy(HELD_OUT_INTENT_FIXTURES);
+
+  console.log(`1. Intent accuracy over ${report.total} utterances...`);
+  console.log(`   ${report.intentAccuracy >= 0.95 ? "✅" : "❌"} ${(report.intentAccuracy * 100).toFixed(1)}%`);
+  Object.entries(report.byIntent).forEach(([intent, stats]) => {
+    console.log(`   ${intent}: ${stats.correct}/${stats.total}`);
+  });
+  console.log("");
+
+  console.log("2. Slot accuracy on labelled slots...");
+  console.log(`   ${report.slotAccuracy >= 0.9 ? "✅" : "❌"} ${(report.slotAccuracy * 100).toFixed(1)}%`);
+  console.log("");
+
+  console.log(`3. Held-out utterances (${heldOut.total})...`);
+  console.log(`   Intent ${(heldOut.intentAccuracy * 100).toFixed(1)}%, slots ${(heldOut.slotAccuracy * 100).toFixed(1)}%`);
+  console.log("");
+
+  const failures = [...report.failures, ...heldOut.failures];
+  const slotMismatches = [...report.slotMismatches, ...heldOut.slotMismatches];
+
+  if (failures.length > 0) {
+    console.log("4. Misclassified utterances:");
+    failures.forEach((failure) => {
+      console.log(
+        `   ❌ "${failure.text}" → ${failure.actual} (expected ${failure.expected}, confidence ${failure.confidence})`
+      );
+    });
+    console.log("");
+  }
+
+  if (slotMismatches.length > 0) {
+    console.log("5. Slot mismatches:");
+    slotMismatches.forEach((mismatch) => {
+      console.log(
+        `   ❌ "${mismatch.text}" ${mismatch.slot}: ${JSON.stringify(mismatch.actual)} (expected ${JSON.stringify(mismatch.expected)})`
+      );
+    });
+    console.log("");
+  }
+
+  console.log("🎉 Intent Parser Test Completed!");
+  return report;
+};
+
+// Export test functions for use in development
+export default {
+  measureIntentAccuracy,
+  testIntentParser,
+};
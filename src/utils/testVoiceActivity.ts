@@ -0,0 +1,105 @@
+import {
+  DEFAULT_VOICE_ACTIVITY_OPTIONS,
+  detectVoiceActivity,
+  getSpeechBounds,
+  MeteringSample,
+  VoiceActivityOptions,
+  VoiceStopReason,
+} from "./voiceActivity";
+
+const SAMPLE_INTERVAL_MS = 100;
+const SILENCE = -60;
+const SPEECH = -20;
+
+// Build a level stream from [level, durationMs] segments, sampled like the recorder
+const buildStream = (segments: [number, number][]): MeteringSample[] => {
+  const samples: MeteringSample[] = [];
+  let timeMs = 0;
+  segments.forEach(([level, durationMs]) => {
+    for (let elapsed = 0; elapsed < durationMs; elapsed += SAMPLE_INTERVAL_MS) {
+      samples.push({ timeMs, level });
+      timeMs += SAMPLE_INTERVAL_MS;
+    }
+  });
+  return samples;
+};
+
+interface VoiceActivityCase {
+  name: string;
+  segments: [number, number][];
+  options?: Partial<VoiceActivityOptions>;
+  expected: {
+    stopReason: VoiceStopReason | null;
+    bounds: { startMs: number; endMs: number } | null;
+  };
+}
+
+const CASES: VoiceActivityCase[] = [
+  {
+    name: "Stops after the hang time and trims the silence around speech",
+    segments: [[SILENCE, 600], [SPEECH, 1200], [SILENCE, 3000]],
+    expected: { stopReason: "endOfSpeech", bounds: { startMs: 350, endMs: 1950 } },
+  },
+  {
+    name: "A pause shorter than the hang time doesn't stop the recording",
+    segments: [[SPEECH, 800], [SILENCE, 1000], [SPEECH, 800], [SILENCE, 3000]],
+    expected: { stopReason: "endOfSpeech", bounds: { startMs: 0, endMs: 2750 } },
+  },
+  {
+    name: "A tap on the phone isn't speech",
+    segments: [[SILENCE, 1000], [SPEECH, 100], [SILENCE, 8000]],
+    expected: { stopReason: "noSpeech", bounds: null },
+  },
+  {
+    name: "Speech that never ends hits the maximum duration",
+    segments: [[SPEECH, 40000]],
+    expected: { stopReason: "maxDuration", bounds: { startMs: 0, endMs: 30000 } },
+  },
+  {
+    name: "Quiet speech is missed at the default threshold",
+    segments: [[-45, 2000], [SILENCE, 9000]],
+    expected: { stopReason: "noSpeech", bounds: null },
+  },
+  {
+    name: "Quiet speech is heard with a lower threshold and a shorter hang time",
+    segments: [[-45, 2000], [SILENCE, 9000]],
+    options: { speechThreshold: -50, hangTimeMs: 800 },
+    expected: { stopReason: "endOfSpeech", bounds: { startMs: 0, endMs: 2150 } },
+  },
+];
+
+export const testVoiceActivity = () => {
+  console.log("🎙️ Starting Voice Activity Detection Test...\n");
+
+  let passed = 0;
+  CASES.forEach((testCase, index) => {
+    const options = { ...DEFAULT_VOICE_ACTIVITY_OPTIONS, ...testCase.options };
+    const samples = buildStream(testCase.segments);
+    const state = detectVoiceActivity(samples, options);
+    const bounds = getSpeechBounds(state, state.elapsedMs, options);
+
+    const ok =
+      state.stopReason === testCase.expected.stopReason &&
+      JSON.stringify(bounds) === JSON.stringify(testCase.expected.bounds);
+    if (ok) passed++;
+
+    console.log(`${index + 1}. ${testCase.name}...`);
+    console.log(
+      `   ${ok ? "✅" : "❌"} ${state.stopReason ?? "still recording"}, kept ${JSON.stringify(bounds)}`
+    );
+    if (!ok) {
+      console.log(
+        `   expected ${testCase.expected.stopReason}, kept ${JSON.stringify(testCase.expected.bounds)}`
+      );
+    }
+    console.log("");
+  });
+
+  console.log(`🎉 Voice Activity Detection Test Completed! ${passed}/${CASES.length} passed`);
+  return { total: CASES.length, passed };
+};
+
+// Export test functions for use in development
+export default {
+  testVoiceActivity,
+};
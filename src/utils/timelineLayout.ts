@@ -0,0 +1,157 @@
+import { CalendarEvent } from "../store/slices/calendarSlice";
+import { addDays, addMinutes, startOfDay } from "./dateTime";
+import { EventTimeRange } from "./eventConflicts";
+
+// Positions for events on a day timeline, with overlapping events placed
+// side by side in columns
+
+export interface TimelineItem {
+  event: CalendarEvent;
+  startMinutes: number; // From the start of the day, clipped to it
+  endMinutes: number;
+  column: number;
+  columns: number; // Columns shared by the events it overlaps with
+}
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+// Short events still get enough room to read and tap
+export const MIN_TIMELINE_MINUTES = 20;
+
+// Events dragged on the timeline land on quarter hours
+export const SNAP_MINUTES = 15;
+
+const MINUTE = 60 * 1000;
+
+export const snapMinutes = (minutes: number): number =>
+  Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES;
+
+/**
+ * All-day events that fall on a day
+ */
+export const getAllDayEvents = (events: CalendarEvent[], day: Date): CalendarEvent[] => {
+  const dayStart = startOfDay(day);
+  const dayEnd = addDays(dayStart, 1);
+  return events.filter(
+    (event) =>
+      event.isAllDay &&
+      new Date(event.startTime) < dayEnd &&
+      // Ends are exclusive, but a zero-length all-day event still shows
+      (new Date(event.endTime) > dayStart ||
+        new Date(event.startTime).getTime() === dayStart.getTime())
+  );
+};
+
+/**
+ * Lay out the timed events of a day. Events that overlap, directly or
+ * through a chain of others, form a group; each takes the first column free
+ * at its start, and the group splits the width by its number of columns.
+ */
+export const layoutDayEvents = (events: CalendarEvent[], day: Date): TimelineItem[] => {
+  const dayStart = startOfDay(day);
+  const dayEnd = addDays(dayStart, 1);
+
+  const items = events
+    .filter(
+      (event) =>
+        !event.isAllDay &&
+        new Date(event.startTime) < dayEnd &&
+        new Date(event.endTime) > dayStart
+    )
+    .map((event) => {
+      const start = Math.max(new Date(event.startTime).getTime(), dayStart.getTime());
+      const end = Math.min(new Date(event.endTime).getTime(), dayEnd.getTime());
+      const startMinutes = Math.round((start - dayStart.getTime()) / MINUTE);
+      return {
+        event,
+        startMinutes,
+        endMinutes: Math.min(
+          MINUTES_PER_DAY,
+          Math.max(Math.round((end - dayStart.getTime()) / MINUTE), startMinutes + MIN_TIMELINE_MINUTES)
+        ),
+        column: 0,
+        columns: 1,
+      };
+    })
+    .sort(
+      (a, b) =>
+        a.startMinutes - b.startMinutes || b.endMinutes - a.endMinutes
+    );
+
+  let group: TimelineItem[] = [];
+  let columnEnds: number[] = [];
+  let groupEnd = 0;
+  const closeGroup = () => {
+    group.forEach((item) => {
+      item.columns = columnEnds.length;
+    });
+    group = [];
+    columnEnds = [];
+  };
+
+  items.forEach((item) => {
+    if (group.length > 0 && item.startMinutes >= groupEnd) {
+      closeGroup();
+    }
+
+    const column = columnEnds.findIndex((end) => end <= item.startMinutes);
+    item.column = column === -1 ? columnEnds.length : column;
+    columnEnds[item.column] = item.endMinutes;
+    groupEnd = group.length > 0 ? Math.max(groupEnd, item.endMinutes) : item.endMinutes;
+    group.push(item);
+  });
+  closeGroup();
+
+  return items;
+};
+
+/**
+ * New times for an event dragged by a number of minutes and days. Its start
+ * snaps to the grid and it keeps its duration.
+ */
+export const getMovedRange = (
+  item: TimelineItem,
+  deltaMinutes: number,
+  deltaDays: number
+): EventTimeRange => {
+  const targetStart = Math.min(
+    Math.max(snapMinutes(item.startMinutes + deltaMinutes), 0),
+    MINUTES_PER_DAY - SNAP_MINUTES
+  );
+  const shift = targetStart - item.startMinutes;
+  const move = (time: string) =>
+    addDays(addMinutes(new Date(time), shift), deltaDays).toISOString();
+
+  return {
+    startTime: move(item.event.startTime),
+    endTime: move(item.event.endTime),
+  };
+};
+
+/**
+ * New times for an event whose bottom edge was dragged by a number of
+ * minutes. The end snaps to the grid, at least one step after the start.
+ */
+export const getResizedRange = (
+  item: TimelineItem,
+  day: Date,
+  deltaMinutes: number
+): EventTimeRange => {
+  const targetEnd = Math.min(
+    Math.max(snapMinutes(item.endMinutes + deltaMinutes), item.startMinutes + SNAP_MINUTES),
+    MINUTES_PER_DAY
+  );
+
+  return {
+    startTime: item.event.startTime,
+    endTime: addMinutes(startOfDay(day), targetEnd).toISOString(),
+  };
+};
+
+export default {
+  snapMinutes,
+  getAllDayEvents,
+  layoutDayEvents,
+  getMovedRange,
+  getResizedRange,
+};
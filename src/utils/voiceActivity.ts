@@ -0,0 +1,141 @@
+// Voice activity detection over the recorder's metering levels. Kept free of
+// expo-av so it can be exercised with synthetic level streams.
+
+export interface VoiceActivityOptions {
+  speechThreshold: number; // dBFS a sample must reach to count as speech
+  hangTimeMs: number; // Silence after speech before the speaker counts as finished
+  minSpeechMs: number; // Loud runs shorter than this are noise, e.g. a tap on the phone
+  noSpeechTimeoutMs: number; // Give up when nothing has been said for this long
+  maxDurationMs: number;
+  paddingMs: number; // Kept either side of the speech when trimming
+}
+
+export const DEFAULT_VOICE_ACTIVITY_OPTIONS: VoiceActivityOptions = {
+  speechThreshold: -40,
+  hangTimeMs: 1500,
+  minSpeechMs: 100,
+  noSpeechTimeoutMs: 8000,
+  maxDurationMs: 30000,
+  paddingMs: 250,
+};
+
+export type VoiceStopReason = "endOfSpeech" | "noSpeech" | "maxDuration";
+
+export interface MeteringSample {
+  timeMs: number; // Since the recording started
+  level: number; // dBFS, from -160 (silence) to 0
+}
+
+export interface VoiceActivityState {
+  isSpeaking: boolean;
+  candidateStartMs: number | null; // Start of a loud run not yet long enough to be speech
+  speechStartMs: number | null;
+  lastSpeechMs: number | null;
+  elapsedMs: number; // Time of the latest sample
+  stopReason: VoiceStopReason | null;
+}
+
+export interface SpeechBounds {
+  startMs: number;
+  endMs: number;
+}
+
+export const initialVoiceActivityState: VoiceActivityState = {
+  isSpeaking: false,
+  candidateStartMs: null,
+  speechStartMs: null,
+  lastSpeechMs: null,
+  elapsedMs: 0,
+  stopReason: null,
+};
+
+/**
+ * Advance the detector by one metering sample. Once a stop reason is set the
+ * state no longer changes.
+ */
+export const processMeteringSample = (
+  state: VoiceActivityState,
+  sample: MeteringSample,
+  options: VoiceActivityOptions = DEFAULT_VOICE_ACTIVITY_OPTIONS
+): VoiceActivityState => {
+  if (state.stopReason) return state;
+
+  const next: VoiceActivityState = { ...state, elapsedMs: sample.timeMs };
+  if (sample.level >= options.speechThreshold) {
+    next.candidateStartMs = state.candidateStartMs ?? sample.timeMs;
+    const isSpeech =
+      state.speechStartMs !== null ||
+      sample.timeMs - next.candidateStartMs >= options.minSpeechMs;
+    if (isSpeech) {
+      next.isSpeaking = true;
+      next.speechStartMs = state.speechStartMs ?? next.candidateStartMs;
+      next.lastSpeechMs = sample.timeMs;
+    }
+  } else {
+    next.isSpeaking = false;
+    next.candidateStartMs = null;
+  }
+
+  if (sample.timeMs >= options.maxDurationMs) {
+    next.stopReason = "maxDuration";
+  } else if (
+    next.lastSpeechMs !== null &&
+    sample.timeMs - next.lastSpeechMs >= options.hangTimeMs
+  ) {
+    next.stopReason = "endOfSpeech";
+  } else if (
+    next.speechStartMs === null &&
+    sample.timeMs >= options.noSpeechTimeoutMs
+  ) {
+    next.stopReason = "noSpeech";
+  }
+
+  return next;
+};
+
+/**
+ * Run a whole stream of samples through the detector, stopping where the
+ * recording would have been stopped
+ */
+export const detectVoiceActivity = (
+  samples: MeteringSample[],
+  options: VoiceActivityOptions = DEFAULT_VOICE_ACTIVITY_OPTIONS
+): VoiceActivityState => {
+  let state = initialVoiceActivityState;
+  for (const sample of samples) {
+    state = processMeteringSample(state, sample, options);
+    if (state.stopReason) break;
+  }
+  return state;
+};
+
+/**
+ * Part of the recording worth keeping, with leading and trailing silence
+ * trimmed off. Null when nothing was said.
+ */
+export const getSpeechBounds = (
+  state: VoiceActivityState,
+  durationMs: number,
+  options: VoiceActivityOptions = DEFAULT_VOICE_ACTIVITY_OPTIONS
+): SpeechBounds | null => {
+  if (state.speechStartMs === null || state.lastSpeechMs === null) return null;
+
+  return {
+    startMs: Math.max(0, state.speechStartMs - options.paddingMs),
+    endMs: Math.min(durationMs, state.lastSpeechMs + options.paddingMs),
+  };
+};
+
+/**
+ * Scale a metering level to 0-1 for display, treating anything at or below
+ * the floor as silence
+ */
+export const normalizeMeteringLevel = (level: number, floor = -60): number =>
+  Math.min(1, Math.max(0, (level - floor) / -floor));
+
+export default {
+  processMeteringSample,
+  detectVoiceActivity,
+  getSpeechBounds,
+  normalizeMeteringLevel,
+};